@@ -250,8 +250,11 @@ async function syncOfflineData() {
       client.postMessage({ type: 'SYNC_START' });
     });
     
-    // Here we would sync any offline database operations
-    // This is handled by the app's offline queue system
+    // The offline operations log lives in the app's IndexedDB layer,
+    // so ask open clients to replay it
+    clients.forEach(client => {
+      client.postMessage({ type: 'PROCESS_OFFLINE_QUEUE' });
+    });
     
     // Notify clients that sync is complete
     clients.forEach(client => {
@@ -265,6 +268,15 @@ async function syncOfflineData() {
   }
 }
 
+// Create due scheduled lists. The schedules live in the app's IndexedDB layer,
+// so ask open clients to create them; otherwise the next app start catches up.
+async function materializeRecurringLists() {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true });
+  clients.forEach(client => {
+    client.postMessage({ type: 'MATERIALIZE_RECURRING_LISTS' });
+  });
+}
+
 // Handle messages from the main thread
 self.addEventListener('message', (event) => {
   const { data } = event;
@@ -283,4 +295,8 @@ self.addEventListener('periodicsync', (event) => {
   if (event.tag === 'background-sync') {
     event.waitUntil(syncOfflineData());
   }
+
+  if (event.tag === 'recurring-lists') {
+    event.waitUntil(materializeRecurringLists());
+  }
 });
\ No newline at end of file
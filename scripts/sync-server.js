@@ -0,0 +1,279 @@
+// Minimal stand-in sync server for local development and testing.
+//
+//   node scripts/sync-server.js [--port 8787] [--data sync-data.json]
+//
+// Keeps every record as a map of fields, each with the time it was written and
+// the revision that last changed it. Incoming fields only replace stored ones
+// when they are newer (last-writer-wins per field). The pull cursor is the
+// highest revision the client has seen.
+//
+// A WebSocket endpoint at /live tells connected clients when changes arrive and
+// relays presence (who is viewing which list).
+import { createHash } from 'node:crypto';
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 && args[index + 1] ? args[index + 1] : fallback;
+};
+
+const port = Number(option('port', process.env.PORT || 8787));
+const dataFile = option('data', null);
+
+// key -> { store, id, fields: { [name]: { value, updatedAt, rev } }, rev }
+let records = new Map();
+let revision = 0;
+
+if (dataFile && existsSync(dataFile)) {
+  const saved = JSON.parse(readFileSync(dataFile, 'utf8'));
+  records = new Map(saved.records);
+  revision = saved.revision;
+}
+
+function persist() {
+  if (dataFile) {
+    writeFileSync(dataFile, JSON.stringify({ revision, records: [...records] }));
+  }
+}
+
+// Returns whether anything was stored
+function applyChanges(changes) {
+  let anyChanged = false;
+  for (const change of changes) {
+    const key = `${change.store}:${change.id}`;
+    const record = records.get(key) ?? { store: change.store, id: change.id, fields: {}, rev: 0 };
+    let changed = false;
+
+    for (const [name, field] of Object.entries(change.fields)) {
+      const current = record.fields[name];
+      if (current && field.updatedAt < current.updatedAt) continue;
+      if (current && field.updatedAt === current.updatedAt &&
+          JSON.stringify(current.value) === JSON.stringify(field.value)) continue;
+
+      revision++;
+      record.fields[name] = { value: field.value, updatedAt: field.updatedAt, rev: revision };
+      record.rev = revision;
+      changed = true;
+    }
+
+    if (changed) {
+      records.set(key, record);
+      anyChanged = true;
+    }
+  }
+  persist();
+  return anyChanged;
+}
+
+function changesSince(since) {
+  const changes = [];
+  for (const record of records.values()) {
+    if (record.rev <= since) continue;
+    const fields = {};
+    for (const [name, field] of Object.entries(record.fields)) {
+      fields[name] = { value: field.value, updatedAt: field.updatedAt };
+    }
+    changes.push({ store: record.store, id: record.id, fields });
+  }
+  return { changes, cursor: String(revision) };
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === 'OPTIONS') {
+    return send(res, 204);
+  }
+
+  if (url.pathname !== '/changes') {
+    return send(res, 404, { error: 'Not found' });
+  }
+
+  if (req.method === 'GET') {
+    const since = Number(url.searchParams.get('since') ?? 0) || 0;
+    return send(res, 200, changesSince(since));
+  }
+
+  if (req.method === 'POST') {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      try {
+        const { changes } = JSON.parse(body);
+        if (!Array.isArray(changes)) {
+          return send(res, 400, { error: 'Expected { changes: [] }' });
+        }
+        if (applyChanges(changes)) {
+          broadcast({ type: 'changes', cursor: String(revision) });
+        }
+        send(res, 204);
+      } catch {
+        send(res, 400, { error: 'Invalid JSON' });
+      }
+    });
+    return;
+  }
+
+  send(res, 405, { error: 'Method not allowed' });
+});
+
+// Minimal WebSocket (RFC 6455) support for /live: unfragmented text frames only
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+// socket -> { clientId, name, listId } (null until the client announces itself)
+const liveClients = new Map();
+
+function encodeFrame(opcode, payload) {
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Split complete frames off the buffer; returns them with the unconsumed remainder
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let position = offset + 2;
+
+    if (length === 126) {
+      if (buffer.length < position + 2) break;
+      length = buffer.readUInt16BE(position);
+      position += 2;
+    } else if (length === 127) {
+      if (buffer.length < position + 8) break;
+      length = Number(buffer.readBigUInt64BE(position));
+      position += 8;
+    }
+
+    const dataStart = position + (masked ? 4 : 0);
+    if (buffer.length < dataStart + length) break;
+
+    const payload = Buffer.from(buffer.subarray(dataStart, dataStart + length));
+    if (masked) {
+      for (let i = 0; i < length; i++) {
+        payload[i] ^= buffer[position + (i % 4)];
+      }
+    }
+    frames.push({ opcode, payload });
+    offset = dataStart + length;
+  }
+
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+function sendMessage(socket, message) {
+  if (!socket.destroyed) {
+    socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(message))));
+  }
+}
+
+function broadcast(message) {
+  for (const socket of liveClients.keys()) {
+    sendMessage(socket, message);
+  }
+}
+
+function broadcastPresence() {
+  const peers = [...liveClients.values()].filter(Boolean);
+  broadcast({ type: 'presence', peers });
+}
+
+function handleLiveMessage(socket, text) {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
+  if (message.type === 'presence' && typeof message.clientId === 'string') {
+    liveClients.set(socket, {
+      clientId: message.clientId,
+      name: String(message.name ?? 'Someone'),
+      listId: typeof message.listId === 'string' ? message.listId : null,
+    });
+    broadcastPresence();
+  }
+}
+
+server.on('upgrade', (req, socket) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const key = req.headers['sec-websocket-key'];
+  if (url.pathname !== '/live' || !key) {
+    socket.destroy();
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    '',
+  ].join('\r\n'));
+
+  liveClients.set(socket, null);
+  let buffered = Buffer.alloc(0);
+
+  socket.on('data', (chunk) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([buffered, chunk]));
+    buffered = rest;
+    for (const { opcode, payload } of frames) {
+      if (opcode === OPCODE_TEXT) {
+        handleLiveMessage(socket, payload.toString('utf8'));
+      } else if (opcode === OPCODE_PING) {
+        socket.write(encodeFrame(OPCODE_PONG, payload));
+      } else if (opcode === OPCODE_CLOSE) {
+        socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+      }
+    }
+  });
+
+  const disconnect = () => {
+    if (liveClients.delete(socket)) {
+      broadcastPresence();
+    }
+  };
+  socket.on('close', disconnect);
+  socket.on('error', disconnect);
+});
+
+server.listen(port, () => {
+  console.log(`Sync server listening on http://localhost:${port}`);
+});
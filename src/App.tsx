@@ -1,23 +1,57 @@
-import { useEffect } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import type React from 'react';
 import { Outlet } from 'react-router-dom';
+import { HistorySnackbar } from './components/HistorySnackbar';
 import { NavBar } from './components/NavBar';
 import { OfflineIndicator } from './components/OfflineIndicator';
-import { initDatabase } from './lib/db';
+import { RecoveryScreen } from './components/RecoveryScreen';
+import { initDatabase, processOfflineQueue, quarantineInvalidRecords } from './lib/db';
 import { initializeTheme } from './lib/theme';
+import { startBackgroundSync } from './lib/sync';
+import { materializeRecurringLists } from './lib/recurringLists';
+import { emptyExpiredTrash } from './lib/trash';
+import { HttpSyncAdapter } from './lib/httpSyncAdapter';
 import { ServiceWorkerManager, PWAInstaller, NetworkMonitor } from './lib/utils';
 
+// Periodic sync is a hint; browsers decide the actual interval
+const RECURRING_LISTS_CHECK_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
 export function App() {
+  const [databaseError, setDatabaseError] = useState<Error | null>(null);
+
+  // Initialize database and quarantine records that fail validation, then
+  // replay anything queued while offline, create scheduled lists that came
+  // due while the app was closed and empty the trash of lists past the
+  // retention period
+  const openDatabase = useCallback(() => {
+    initDatabase()
+      .then(quarantineInvalidRecords)
+      .then(() => {
+        setDatabaseError(null);
+        if (NetworkMonitor.isOnline) {
+          processOfflineQueue();
+        }
+        materializeRecurringLists();
+        emptyExpiredTrash();
+      })
+      .catch((error: unknown) => {
+        console.error(error);
+        setDatabaseError(error instanceof Error ? error : new Error(String(error)));
+      });
+  }, []);
+
   useEffect(() => {
     // Initialize theme system
     initializeTheme();
     
-    // Initialize database
-    initDatabase().catch(console.error);
+    openDatabase();
     
     // Initialize PWA features
     initializePWAFeatures();
-  }, []);
+    
+    // Sync with the configured server, if any
+    return startBackgroundSync((endpoint) => new HttpSyncAdapter(endpoint));
+  }, [openDatabase]);
 
   const initializePWAFeatures = async () => {
     try {
@@ -30,18 +64,39 @@ export function App() {
       // Initialize network monitoring
       NetworkMonitor.init();
       
+      // Replay offline operations on reconnect or when the service worker asks
+      NetworkMonitor.subscribe((online) => {
+        if (online) {
+          processOfflineQueue();
+        }
+      });
+      ServiceWorkerManager.onMessage('PROCESS_OFFLINE_QUEUE', () => {
+        processOfflineQueue();
+      });
+
+      // Check scheduled lists in the background where periodic sync is available
+      ServiceWorkerManager.onMessage('MATERIALIZE_RECURRING_LISTS', () => {
+        materializeRecurringLists();
+      });
+      ServiceWorkerManager.registerPeriodicSync('recurring-lists', RECURRING_LISTS_CHECK_INTERVAL_MS);
+      
       console.log('PWA features initialized');
     } catch (error) {
       console.error('Failed to initialize PWA features:', error);
     }
   };
 
+  if (databaseError) {
+    return <RecoveryScreen error={databaseError} onRetry={openDatabase} />;
+  }
+
   return (
     <div className="app-layout" style={{ '--nav-height': '72px' } as React.CSSProperties}>
       <OfflineIndicator />
       <main className="main-content">
         <Outlet />
       </main>
+      <HistorySnackbar />
       <NavBar />
     </div>
   );
@@ -0,0 +1,140 @@
+import { useId } from 'react';
+
+export interface ChartDatum {
+  label: string;
+  value: number;
+  /** Bar color; defaults to the theme's blue */
+  color?: string;
+}
+
+interface BarChartProps {
+  data: ChartDatum[];
+  title: string;
+  formatValue?: (value: number) => string;
+  orientation?: 'vertical' | 'horizontal';
+  className?: string;
+}
+
+// Drawing units; the SVG scales to its container
+const WIDTH = 320;
+const VERTICAL_HEIGHT = 160;
+const ROW_HEIGHT = 28;
+const LABEL_WIDTH = 96;
+const GAP = 4;
+
+/**
+ * Lightweight SVG bar chart. The chart is exposed to assistive technology as an image with a
+ * text summary, and the underlying values are also rendered as a visually hidden table.
+ */
+export function BarChart({
+  data,
+  title,
+  formatValue = String,
+  orientation = 'vertical',
+  className = '',
+}: BarChartProps) {
+  const id = useId();
+  const max = Math.max(0, ...data.map(d => d.value));
+  const scale = (value: number, length: number) => (max > 0 ? (value / max) * length : 0);
+  const summary = data.map(d => `${d.label}: ${formatValue(d.value)}`).join(', ');
+
+  return (
+    <figure className={`w-full ${className}`}>
+      {orientation === 'vertical' ? (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${VERTICAL_HEIGHT + 20}`}
+          className="w-full"
+          role="img"
+          aria-labelledby={`${id}-title ${id}-desc`}
+        >
+          <title id={`${id}-title`}>{title}</title>
+          <desc id={`${id}-desc`}>{summary}</desc>
+          <line x1={0} y1={VERTICAL_HEIGHT} x2={WIDTH} y2={VERTICAL_HEIGHT} stroke="currentColor" strokeOpacity={0.2} />
+          {data.map((d, i) => {
+            const slot = WIDTH / data.length;
+            const height = scale(d.value, VERTICAL_HEIGHT - 8);
+            const x = i * slot + GAP / 2;
+            return (
+              <g key={d.label}>
+                <rect
+                  x={x}
+                  y={VERTICAL_HEIGHT - height}
+                  width={Math.max(1, slot - GAP)}
+                  height={height}
+                  rx={2}
+                  className="fill-blue-600 dark:fill-blue-500"
+                  style={d.color ? { fill: d.color } : undefined}
+                >
+                  <title>{`${d.label}: ${formatValue(d.value)}`}</title>
+                </rect>
+                <text
+                  x={x + (slot - GAP) / 2}
+                  y={VERTICAL_HEIGHT + 14}
+                  textAnchor="middle"
+                  fontSize={data.length > 12 ? 6 : 9}
+                  fill="currentColor"
+                  fillOpacity={0.7}
+                >
+                  {d.label.split(' ')[0]}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      ) : (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${Math.max(1, data.length) * ROW_HEIGHT}`}
+          className="w-full"
+          role="img"
+          aria-labelledby={`${id}-title ${id}-desc`}
+        >
+          <title id={`${id}-title`}>{title}</title>
+          <desc id={`${id}-desc`}>{summary}</desc>
+          {data.map((d, i) => {
+            const y = i * ROW_HEIGHT;
+            const width = scale(d.value, WIDTH - LABEL_WIDTH - 72);
+            return (
+              <g key={d.label}>
+                <text x={0} y={y + ROW_HEIGHT / 2 + 4} fontSize={11} fill="currentColor">
+                  {d.label}
+                </text>
+                <rect
+                  x={LABEL_WIDTH}
+                  y={y + GAP}
+                  width={width}
+                  height={ROW_HEIGHT - GAP * 2}
+                  rx={3}
+                  className="fill-blue-600 dark:fill-blue-500"
+                  style={d.color ? { fill: d.color } : undefined}
+                >
+                  <title>{`${d.label}: ${formatValue(d.value)}`}</title>
+                </rect>
+                <text
+                  x={LABEL_WIDTH + width + 6}
+                  y={y + ROW_HEIGHT / 2 + 4}
+                  fontSize={10}
+                  fill="currentColor"
+                  fillOpacity={0.7}
+                >
+                  {formatValue(d.value)}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      )}
+
+      <table className="sr-only">
+        <caption>{title}</caption>
+        <tbody>
+          {data.map(d => (
+            <tr key={d.label}>
+              <th scope="row">{d.label}</th>
+              <td>{formatValue(d.value)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </figure>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { BudgetFormSchema } from '../lib/types';
+import type { Budget, BudgetForm } from '../lib/types';
+import { createBudget, getCategories, updateBudget } from '../lib/db';
+import { BUDGET_PERIOD_LABELS } from '../lib/budgets';
+import { currencyStep } from '../lib/currency';
+import { useLiveQuery } from '../hooks/useLiveQuery';
+
+interface BudgetFormModalProps {
+  currency: string;
+  editingBudget?: Budget | null;
+  onClose: () => void;
+}
+
+const PERIOD_OPTIONS: Array<{ value: BudgetForm['period']; label: string }> = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+export function BudgetFormModal({ currency, editingBudget, onClose }: BudgetFormModalProps) {
+  const [form, setForm] = useState<BudgetForm>({
+    name: editingBudget?.name || '',
+    amount: editingBudget?.amount || 0,
+    period: editingBudget?.period || 'monthly',
+    categories: editingBudget?.categories || [],
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { data: categories } = useLiveQuery(getCategories, [], 'categories-changed');
+
+  // Budgets can still hold a category that has since been deleted
+  const categoryNames = [...new Set([...(categories ?? []).map(category => category.name), ...form.categories])];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+
+    const result = BudgetFormSchema.safeParse(form);
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        if (err.path[0]) {
+          fieldErrors[String(err.path[0])] = err.message;
+        }
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (editingBudget) {
+        await updateBudget(editingBudget.id, result.data);
+      } else {
+        await createBudget({ ...result.data, spent: 0 });
+      }
+      onClose();
+    } catch (error) {
+      console.error('Error saving budget:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleInputChange = <K extends keyof BudgetForm>(field: K, value: BudgetForm[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const toggleCategory = (category: string) => {
+    handleInputChange(
+      'categories',
+      form.categories.includes(category)
+        ? form.categories.filter(c => c !== category)
+        : [...form.categories, category]
+    );
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{editingBudget ? 'Edit Budget' : 'New Budget'}</h2>
+          <button type="button" className="close-btn" onClick={onClose} aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="item-form">
+          <div className="form-group">
+            <label htmlFor="budget-name">Name</label>
+            <input
+              id="budget-name"
+              type="text"
+              value={form.name}
+              onChange={e => handleInputChange('name', e.target.value)}
+              placeholder="e.g., Groceries"
+              className={errors.name ? 'error' : ''}
+              required
+            />
+            {errors.name && <div className="error-text">{errors.name}</div>}
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="budget-amount">Limit ({currency})</label>
+              <input
+                id="budget-amount"
+                type="number"
+                min="0"
+                step={currencyStep(currency)}
+                value={form.amount}
+                onChange={e => handleInputChange('amount', parseFloat(e.target.value) || 0)}
+                className={errors.amount ? 'error' : ''}
+              />
+              {errors.amount && <div className="error-text">{errors.amount}</div>}
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="budget-period">Period</label>
+              <select
+                id="budget-period"
+                value={form.period}
+                onChange={e => handleInputChange('period', e.target.value as BudgetForm['period'])}
+              >
+                {PERIOD_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <fieldset className="form-group">
+            <legend className="mb-2 text-sm font-medium">Categories</legend>
+            <p className="muted mb-2 text-sm">
+              {form.categories.length === 0
+                ? `Counts every purchase (${BUDGET_PERIOD_LABELS[form.period].toLowerCase()}).`
+                : 'Counts purchases in the selected categories only.'}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {categoryNames.map(category => (
+                <label key={category} className="flex cursor-pointer items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={form.categories.includes(category)}
+                    onChange={() => toggleCategory(category)}
+                  />
+                  {category}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <div className="form-actions">
+            <button type="button" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </button>
+            <button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : (editingBudget ? 'Update' : 'Create Budget')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
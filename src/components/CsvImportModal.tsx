@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import {
+  ITEM_CSV_FIELDS,
+  csvRowsToItems,
+  findListColumn,
+  guessColumnMapping,
+  importItemsAsLists,
+  importItemsToList,
+  parseCsv,
+} from '../lib/csv';
+import type { CsvColumnMapping, ItemCsvField } from '../lib/csv';
+import { FileUtils } from '../lib/utils';
+
+interface CsvImportModalProps {
+  listId?: string;
+  currency: string;
+  onClose: () => void;
+  onImported: (listId: string) => void;
+}
+
+const FIELD_LABELS: Record<ItemCsvField, string> = {
+  name: 'Name',
+  qty: 'Quantity',
+  unit: 'Unit',
+  price: 'Price',
+  category: 'Category',
+  notes: 'Notes',
+  purchased: 'Purchased',
+  purchasedAt: 'Purchased at',
+};
+
+export function CsvImportModal({ listId, currency, onClose, onImported }: CsvImportModalProps) {
+  const [rows, setRows] = useState<string[][] | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  // 'lists' creates one list per value of the file's list column
+  const [target, setTarget] = useState<'current' | 'new' | 'lists'>(listId ? 'current' : 'new');
+  const [newListName, setNewListName] = useState('');
+  const [readError, setReadError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const headers = rows?.[0] ?? [];
+  const listColumn = findListColumn(headers);
+  const result = rows ? csvRowsToItems(rows, mapping, target === 'lists' ? listColumn : undefined) : null;
+  const listCount = rows && listColumn !== undefined
+    ? new Set(rows.slice(1).map(row => (row[listColumn] ?? '').trim()).filter(Boolean)).size
+    : 0;
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setReadError(null);
+    try {
+      const parsed = parseCsv(await FileUtils.readAsText(file));
+      if (parsed.length === 0) {
+        setReadError('The file is empty.');
+        setRows(null);
+        return;
+      }
+      setRows(parsed);
+      setFileName(file.name);
+      setMapping(guessColumnMapping(parsed[0]));
+      // An export of every list goes back into separate lists
+      if (findListColumn(parsed[0]) !== undefined) setTarget('lists');
+      setNewListName(file.name.replace(/\.csv$/i, ''));
+    } catch (error) {
+      console.error('Error reading CSV:', error);
+      setReadError('Could not read the selected file.');
+    }
+  };
+
+  const handleMappingChange = (field: ItemCsvField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!result || result.items.length === 0 || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      const importedListId = target === 'lists' && result.listNames
+        ? await importItemsAsLists(result.items, result.listNames, currency)
+        : await importItemsToList(
+          result.items,
+          target === 'current' && listId
+            ? { listId }
+            : { newListName: newListName.trim() || fileName, currency }
+        );
+      onImported(importedListId);
+      onClose();
+    } catch (error) {
+      console.error('Error importing CSV:', error);
+      setReadError('Import failed.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Import CSV</h2>
+          <button type="button" className="close-btn" onClick={onClose} aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <form onSubmit={handleImport} className="item-form">
+          <div className="form-group">
+            <label htmlFor="csv-file">CSV file</label>
+            <input id="csv-file" type="file" accept=".csv,text/csv" onChange={handleFileSelected} />
+            {readError && <div className="error-text">{readError}</div>}
+          </div>
+
+          {rows && (
+            <>
+              <fieldset className="form-group">
+                <legend className="mb-2 text-sm font-medium">Columns</legend>
+                {ITEM_CSV_FIELDS.map(field => (
+                  <div key={field} className="mb-2 flex items-center justify-between gap-3">
+                    <label htmlFor={`csv-map-${field}`} className="text-sm">{FIELD_LABELS[field]}</label>
+                    <select
+                      id={`csv-map-${field}`}
+                      value={mapping[field] ?? ''}
+                      onChange={e => handleMappingChange(field, e.target.value)}
+                    >
+                      <option value="">— Not imported —</option>
+                      {headers.map((header, index) => (
+                        <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </fieldset>
+
+              <fieldset className="form-group">
+                <legend className="mb-2 text-sm font-medium">Import into</legend>
+                {listId && (
+                  <label className="flex cursor-pointer items-center gap-3 text-sm">
+                    <input
+                      type="radio"
+                      name="csv-target"
+                      checked={target === 'current'}
+                      onChange={() => setTarget('current')}
+                    />
+                    This list
+                  </label>
+                )}
+                <label className="flex cursor-pointer items-center gap-3 text-sm">
+                  <input
+                    type="radio"
+                    name="csv-target"
+                    checked={target === 'new'}
+                    onChange={() => setTarget('new')}
+                  />
+                  A new list
+                </label>
+                {listColumn !== undefined && (
+                  <label className="flex cursor-pointer items-center gap-3 text-sm">
+                    <input
+                      type="radio"
+                      name="csv-target"
+                      checked={target === 'lists'}
+                      onChange={() => setTarget('lists')}
+                    />
+                    A new list for each list in the file ({listCount})
+                  </label>
+                )}
+                {target === 'new' && (
+                  <input
+                    type="text"
+                    className="mt-2 w-full"
+                    value={newListName}
+                    onChange={e => setNewListName(e.target.value)}
+                    placeholder="New list name"
+                    aria-label="New list name"
+                  />
+                )}
+              </fieldset>
+
+              {result && (
+                <div className="form-group" role="status">
+                  <p className="text-sm">
+                    {result.items.length} {result.items.length === 1 ? 'row' : 'rows'} ready to import
+                    {result.errors.length > 0 && `, ${result.errors.length} rejected`}
+                  </p>
+                  {result.errors.length > 0 && (
+                    <ul className="mt-1 max-h-32 overflow-y-auto text-sm">
+                      {result.errors.map(error => (
+                        <li key={error.row} className="error-text">
+                          Row {error.row}: {error.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="form-actions">
+            <button type="button" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </button>
+            <button type="submit" disabled={isSubmitting || !result || result.items.length === 0}>
+              {isSubmitting ? 'Importing...' : 'Import'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { CURRENCIES } from '../lib/currency';
+
+interface CurrencySelectProps {
+  id: string;
+  value: string;
+  onChange: (currency: string) => void;
+  className?: string;
+  exclude?: string[];
+}
+
+export function CurrencySelect({ id, value, onChange, className = '', exclude = [] }: CurrencySelectProps) {
+  return (
+    <select id={id} value={value} onChange={(e) => onChange(e.target.value)} className={className}>
+      {CURRENCIES.filter(currency => currency.code === value || !exclude.includes(currency.code)).map(currency => (
+        <option key={currency.code} value={currency.code}>
+          {currency.code} — {currency.name}
+        </option>
+      ))}
+    </select>
+  );
+}
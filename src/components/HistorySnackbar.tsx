@@ -0,0 +1,76 @@
+import { useEffect } from 'react';
+import { useSnackbar } from '../hooks/useSnackbar';
+import { dbEvents } from '../lib/db';
+import { redo, undo } from '../lib/history';
+import type { HistoryChange } from '../lib/history';
+
+// Text fields keep their own Ctrl+Z
+function isEditingText(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+/**
+ * Announces undoable changes with Undo/Redo buttons, and handles Ctrl+Z,
+ * Ctrl+Shift+Z and Ctrl+Y (Cmd on macOS)
+ */
+export function HistorySnackbar() {
+  const { snackbars, showSnackbar, dismissSnackbar, dismissAll } = useSnackbar();
+
+  useEffect(() => {
+    const handleChange = (event: Event) => {
+      const { action, entry, ok } = (event as CustomEvent<HistoryChange>).detail;
+      dismissAll();
+
+      if (!ok) {
+        showSnackbar({ message: `Couldn't ${action} "${entry.label}"; it has changed since.` });
+      } else if (action === 'undo') {
+        showSnackbar({ message: `Undone: ${entry.label}`, action: { label: 'Redo', onClick: () => redo() } });
+      } else {
+        showSnackbar({ message: entry.label, action: { label: 'Undo', onClick: () => undo() } });
+      }
+    };
+
+    dbEvents.on('history-changed', handleChange);
+    return () => dbEvents.off('history-changed', handleChange);
+  }, [showSnackbar, dismissAll]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditingText(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const snackbar = snackbars[snackbars.length - 1];
+  if (!snackbar) return null;
+
+  return (
+    <div className="snackbar" role="status" aria-live="polite">
+      <span>{snackbar.message}</span>
+      {snackbar.action && (
+        <button
+          type="button"
+          className="snackbar-action"
+          onClick={() => {
+            snackbar.action?.onClick();
+            dismissSnackbar(snackbar.id);
+          }}
+        >
+          {snackbar.action.label}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,20 @@
 import { useState } from 'react';
-import type { Item } from '../lib/types';
+import type { Category, Item, ProductStat } from '../lib/types';
 import { formatCurrency } from '../lib/currency';
-import { updateItem, deleteItem } from '../lib/db';
+import { updateItem, deleteItem } from '../lib/history';
+import { confirmPurchaseWithinBudget } from '../lib/budgets';
+import { formatQuantity, normalizedUnitPrice, unitPriceLabel } from '../lib/units';
 
 interface ItemCardProps {
   item: Item;
   currency: string;
+  productStat?: ProductStat;
+  /** The user's category the item is filed under, for its icon and color */
+  category?: Category;
   onEdit: (item: Item) => void;
 }
 
-export function ItemCard({ item, currency, onEdit }: ItemCardProps) {
+export function ItemCard({ item, currency, productStat, category, onEdit }: ItemCardProps) {
   const [isUpdating, setIsUpdating] = useState(false);
 
   const handleTogglePurchased = async () => {
@@ -18,6 +23,11 @@ export function ItemCard({ item, currency, onEdit }: ItemCardProps) {
     setIsUpdating(true);
     try {
       const newPurchased = !item.purchased;
+
+      if (newPurchased && !(await confirmPurchaseWithinBudget(item))) {
+        return;
+      }
+
       await updateItem(item.id, { 
         purchased: newPurchased,
         purchasedAt: newPurchased ? new Date() : undefined
@@ -32,19 +42,25 @@ export function ItemCard({ item, currency, onEdit }: ItemCardProps) {
   const handleDelete = async () => {
     if (isUpdating) return;
     
-    if (confirm('Delete this item?')) {
-      setIsUpdating(true);
-      try {
-        await deleteItem(item.id);
-      } catch (error) {
-        console.error('Error deleting item:', error);
-      } finally {
-        setIsUpdating(false);
-      }
+    // No confirmation: the snackbar offers Undo
+    setIsUpdating(true);
+    try {
+      await deleteItem(item.id);
+    } catch (error) {
+      console.error('Error deleting item:', error);
+    } finally {
+      setIsUpdating(false);
     }
   };
 
   const totalPrice = item.qty * item.price;
+  const quantity = formatQuantity(item.qty, item.unit);
+  const unitPrice = normalizedUnitPrice(item.price, item.unit);
+  // Flag when this product has been bought cheaper, comparing like with like
+  const cheaperSeen = unitPrice && productStat?.unitPricePer === unitPrice.per &&
+    productStat.lowestUnitPrice !== undefined && productStat.lowestUnitPrice < unitPrice.amount
+    ? productStat.lowestUnitPrice
+    : null;
 
   return (
     <div 
@@ -66,18 +82,36 @@ export function ItemCard({ item, currency, onEdit }: ItemCardProps) {
         
         <div className="item-details" onClick={() => onEdit(item)}>
           <div className="item-name-section">
-            <div className="item-name">{item.name}</div>
+            <div className="item-name">
+              {item.icon && <span className="item-icon" aria-hidden="true">{item.icon}</span>}
+              {item.name}
+            </div>
             {item.category && (
-              <span className="item-category">{item.category}</span>
+              <span
+                className="item-category"
+                style={category?.color ? { backgroundColor: `${category.color}22`, color: category.color } : undefined}
+              >
+                {category?.icon && <span aria-hidden="true">{category.icon} </span>}
+                {category?.name ?? item.category}
+              </span>
             )}
           </div>
           <div className="item-meta">
-            {item.qty > 1 && <span className="item-qty">{item.qty}x</span>}
+            {quantity && <span className="item-qty">{quantity}</span>}
             {item.price > 0 && (
               <span className="item-price">
                 {formatCurrency(totalPrice, currency)}
               </span>
             )}
+            {unitPrice && item.unit !== 'pcs' && (
+              <span
+                className={`item-unit-price ${cheaperSeen !== null ? 'cheaper-seen' : ''}`}
+                title={cheaperSeen !== null ? `Bought for ${formatCurrency(cheaperSeen, currency)}/${unitPriceLabel(unitPrice.per)} before` : undefined}
+              >
+                {formatCurrency(unitPrice.amount, currency)}/{unitPriceLabel(unitPrice.per)}
+                {cheaperSeen !== null && ` · cheapest ${formatCurrency(cheaperSeen, currency)}`}
+              </span>
+            )}
           </div>
           {item.notes && (
             <div className="item-notes">{item.notes}</div>
@@ -1,7 +1,16 @@
 import { useState } from 'react';
-import { ItemFormSchema, type ItemForm, ITEM_CATEGORIES } from '../lib/types';
-import { createItem, updateItem } from '../lib/db';
+import { Link } from 'react-router-dom';
+import { Combobox } from '@headlessui/react';
+import { ItemFormSchema, type ItemForm, ITEM_UNITS, type ItemUnit } from '../lib/types';
+import { getCategories, getProductStats, getStores } from '../lib/db';
+import { createItem, updateItem } from '../lib/history';
 import type { Item } from '../lib/types';
+import { currencyStep, formatCurrency, roundCurrency } from '../lib/currency';
+import { rankProductSuggestions } from '../lib/suggestions';
+import { categoryLabel, findCategory } from '../lib/categories';
+import { classifyItem } from '../lib/classifier';
+import { isCountUnit, normalizedUnitPrice, unitPriceLabel } from '../lib/units';
+import { useLiveQuery } from '../hooks/useLiveQuery';
 
 interface ItemFormProps {
   listId: string;
@@ -15,12 +24,26 @@ export function ItemFormModal({ listId, currency, editingItem, onClose, onSave }
   const [form, setForm] = useState<ItemForm>({
     name: editingItem?.name || '',
     qty: editingItem?.qty || 1,
+    unit: editingItem?.unit,
     price: editingItem?.price || 0,
     category: editingItem?.category || '',
     notes: editingItem?.notes || '',
+    storeId: editingItem?.storeId,
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Once the user picks a category themselves, stop guessing
+  const [categoryChosen, setCategoryChosen] = useState(Boolean(editingItem?.category));
+  const { data: productStats } = useLiveQuery(getProductStats, [], 'items-changed');
+  const { data: stores } = useLiveQuery(getStores, [], 'stores-changed');
+  const { data: categories } = useLiveQuery(getCategories, [], 'categories-changed');
+
+  const ranked = rankProductSuggestions(productStats ?? [], form.name);
+  // Nothing left to suggest once the name is exactly the only match
+  const suggestions = ranked.length === 1 && ranked[0].name === form.name ? [] : ranked;
+  const unitPrice = form.unit && form.unit !== 'pcs' ? normalizedUnitPrice(form.price, form.unit) : null;
+  const guess = !categoryChosen && !form.category ? classifyItem(form.name, productStats ?? [], categories ?? []) : null;
+  const selectedCategory = form.category || guess?.category || '';
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -31,7 +54,7 @@ export function ItemFormModal({ listId, currency, editingItem, onClose, onSave }
     setErrors({});
     
     try {
-      const validatedData = ItemFormSchema.parse(form);
+      const validatedData = ItemFormSchema.parse({ ...form, category: selectedCategory });
       
       if (editingItem) {
         await updateItem(editingItem.id, validatedData);
@@ -62,13 +85,32 @@ export function ItemFormModal({ listId, currency, editingItem, onClose, onSave }
     }
   };
 
-  const handleInputChange = (field: keyof ItemForm, value: string | number) => {
+  const handleInputChange = (field: keyof ItemForm, value: string | number | undefined) => {
     setForm(prev => ({ ...prev, [field]: value }));
     if (errors[field]) {
       setErrors(prev => ({ ...prev, [field]: '' }));
     }
   };
 
+  // Fill in price, unit and category from the product's history
+  const handleSuggestionSelected = (name: string | null) => {
+    const stat = productStats?.find(candidate => candidate.name === name);
+    if (!stat) return;
+
+    setForm(prev => {
+      // Prices per gram or millilitre are fractions of the currency's smallest unit, so only round per-piece prices
+      const unit = stat.unit ?? prev.unit;
+      return {
+        ...prev,
+        name: stat.name,
+        price: isCountUnit(unit) ? roundCurrency(stat.averagePrice, currency) : stat.averagePrice,
+        unit,
+        category: stat.category || prev.category,
+      };
+    });
+    setErrors(prev => ({ ...prev, name: '', price: '', category: '' }));
+  };
+
   return (
     <div className="modal-overlay" onClick={onClose}>
       <div className="modal-content" onClick={e => e.stopPropagation()}>
@@ -82,15 +124,33 @@ export function ItemFormModal({ listId, currency, editingItem, onClose, onSave }
         <form onSubmit={handleSubmit} className="item-form">
           <div className="form-group">
             <label htmlFor="item-name">Item Name</label>
-            <input
-              id="item-name"
-              type="text"
-              value={form.name}
-              onChange={e => handleInputChange('name', e.target.value)}
-              placeholder="Enter item name"
-              className={errors.name ? 'error' : ''}
-              required
-            />
+            <Combobox value={form.name} onChange={handleSuggestionSelected}>
+              <div className="suggestions-anchor">
+                <Combobox.Input
+                  id="item-name"
+                  type="text"
+                  autoComplete="off"
+                  displayValue={(name: string) => name}
+                  onChange={e => handleInputChange('name', e.target.value)}
+                  placeholder="Enter item name"
+                  className={errors.name ? 'error' : ''}
+                  required
+                />
+                {suggestions.length > 0 && (
+                  <Combobox.Options className="suggestions" aria-label="Suggested products">
+                    {suggestions.map(stat => (
+                      <Combobox.Option key={stat.name} value={stat.name} className="suggestion">
+                        <span className="suggestion-name">{stat.name}</span>
+                        <span className="suggestion-meta">
+                          {stat.category && <>{stat.category} · </>}
+                          {formatCurrency(stat.averagePrice, currency)}
+                        </span>
+                      </Combobox.Option>
+                    ))}
+                  </Combobox.Options>
+                )}
+              </div>
+            </Combobox>
             {errors.name && <div className="error-text">{errors.name}</div>}
           </div>
 
@@ -100,44 +160,79 @@ export function ItemFormModal({ listId, currency, editingItem, onClose, onSave }
               <input
                 id="item-qty"
                 type="number"
-                min="1"
-                step="1"
+                min="0"
+                step="any"
                 value={form.qty}
-                onChange={e => handleInputChange('qty', parseInt(e.target.value) || 1)}
+                onChange={e => handleInputChange('qty', parseFloat(e.target.value) || 0)}
                 className={errors.qty ? 'error' : ''}
               />
               {errors.qty && <div className="error-text">{errors.qty}</div>}
             </div>
 
             <div className="form-group">
-              <label htmlFor="item-price">Price ({currency})</label>
-              <input
-                id="item-price"
-                type="number"
-                min="0"
-                step="0.01"
-                value={form.price}
-                onChange={e => handleInputChange('price', parseFloat(e.target.value) || 0)}
-                placeholder="0.00"
-                className={errors.price ? 'error' : ''}
-              />
-              {errors.price && <div className="error-text">{errors.price}</div>}
+              <label htmlFor="item-unit">Unit</label>
+              <select
+                id="item-unit"
+                value={form.unit ?? ''}
+                onChange={e => handleInputChange('unit', (e.target.value || undefined) as ItemUnit | undefined)}
+                className={errors.unit ? 'error' : ''}
+              >
+                <option value="">—</option>
+                {ITEM_UNITS.map(unit => (
+                  <option key={unit} value={unit}>{unit}</option>
+                ))}
+              </select>
+              {errors.unit && <div className="error-text">{errors.unit}</div>}
             </div>
           </div>
 
+          <div className="form-group">
+            <label htmlFor="item-price">
+              {form.unit && form.unit !== 'pcs' ? `Price per ${form.unit}` : 'Price'} ({currency})
+            </label>
+            <input
+              id="item-price"
+              type="number"
+              min="0"
+              step={isCountUnit(form.unit) ? currencyStep(currency) : 'any'}
+              value={form.price}
+              onChange={e => handleInputChange('price', parseFloat(e.target.value) || 0)}
+              placeholder="0.00"
+              className={errors.price ? 'error' : ''}
+            />
+            {errors.price && <div className="error-text">{errors.price}</div>}
+            {unitPrice && form.unit !== unitPrice.per && (
+              <div className="muted text-sm">
+                {formatCurrency(unitPrice.amount, currency)} per {unitPriceLabel(unitPrice.per)}
+              </div>
+            )}
+          </div>
+
           <div className="form-group">
             <label htmlFor="item-category">Category</label>
             <select
               id="item-category"
-              value={form.category}
-              onChange={e => handleInputChange('category', e.target.value)}
+              value={selectedCategory}
+              onChange={e => {
+                setCategoryChosen(true);
+                handleInputChange('category', e.target.value);
+              }}
               className={errors.category ? 'error' : ''}
             >
               <option value="">Select category (optional)</option>
-              {ITEM_CATEGORIES.map(category => (
-                <option key={category} value={category}>{category}</option>
+              {(categories ?? []).map(category => (
+                <option key={category.id} value={category.name}>{categoryLabel(category)}</option>
               ))}
+              {/* Keep a category that has since been deleted selectable */}
+              {form.category && categories && !findCategory(categories, form.category) && (
+                <option value={form.category}>{form.category}</option>
+              )}
             </select>
+            {guess && (
+              <div className="muted text-sm">
+                Suggested {guess.source === 'history' ? 'from items you added before' : 'from the name'}
+              </div>
+            )}
             {errors.category && <div className="error-text">{errors.category}</div>}
           </div>
 
@@ -154,6 +249,28 @@ export function ItemFormModal({ listId, currency, editingItem, onClose, onSave }
             {errors.notes && <div className="error-text">{errors.notes}</div>}
           </div>
 
+          {stores && stores.length > 0 && (
+            <div className="form-group">
+              <label htmlFor="item-store">Store</label>
+              <select
+                id="item-store"
+                value={form.storeId ?? ''}
+                onChange={e => handleInputChange('storeId', e.target.value || undefined)}
+              >
+                <option value="">Same as the list</option>
+                {stores.map(store => (
+                  <option key={store.id} value={store.id}>{store.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {editingItem && (
+            <Link to={`/prices/${encodeURIComponent(editingItem.name)}`} className="text-sm" onClick={onClose}>
+              Price history for {editingItem.name} →
+            </Link>
+          )}
+
           <div className="form-actions">
             <button type="button" onClick={onClose} disabled={isSubmitting}>
               Cancel
@@ -1,12 +1,15 @@
-import type { Item } from '../lib/types';
+import type { Item, PriceObservation, Store } from '../lib/types';
 import { formatCurrency } from '../lib/currency';
+import { estimateStoreTotals } from '../lib/prices';
 
 interface ListSummaryProps {
   items: Item[];
   currency: string;
+  stores?: Store[];
+  priceObservations?: PriceObservation[];
 }
 
-export function ListSummary({ items, currency }: ListSummaryProps) {
+export function ListSummary({ items, currency, stores = [], priceObservations = [] }: ListSummaryProps) {
   const purchasedItems = items.filter(item => item.purchased);
   const unpurchasedItems = items.filter(item => !item.purchased);
   
@@ -18,6 +21,10 @@ export function ListSummary({ items, currency }: ListSummaryProps) {
   const purchasedValue = purchasedItems.reduce((sum, item) => sum + (item.qty * item.price), 0);
   const unpurchasedValue = unpurchasedItems.reduce((sum, item) => sum + (item.qty * item.price), 0);
 
+  const storeNames = new Map(stores.map(store => [store.id, store.name]));
+  const estimates = estimateStoreTotals(items, priceObservations, currency)
+    .filter(estimate => storeNames.has(estimate.storeId));
+
   if (totalItems === 0) {
     return null;
   }
@@ -81,6 +88,22 @@ export function ListSummary({ items, currency }: ListSummaryProps) {
           )}
         </div>
       )}
+
+      {estimates.length > 0 && (
+        <div className="store-estimate">
+          {estimates.slice(0, 3).map((estimate, index) => (
+            <div key={estimate.storeId} className={`price-row ${index === 0 ? 'total' : ''}`}>
+              <span>{index === 0 ? `Cheapest: ${storeNames.get(estimate.storeId)}` : storeNames.get(estimate.storeId)}</span>
+              <span>≈ {formatCurrency(estimate.total, currency)}</span>
+            </div>
+          ))}
+          <div className="store-estimate-note">
+            Remaining items at each store&apos;s last price
+            {estimates[0].priced < estimates[0].itemCount &&
+              ` (${estimates[0].priced} of ${estimates[0].itemCount} priced at ${storeNames.get(estimates[0].storeId)})`}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -20,6 +20,21 @@ const PlusIcon = () => (
   </svg>
 );
 
+const WalletIcon = () => (
+  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <rect x="2" y="5" width="20" height="14" rx="2"></rect>
+    <path d="M16 12h2"></path>
+    <path d="M2 9h20"></path>
+  </svg>
+);
+
+const PantryIcon = () => (
+  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M3 9l9-6 9 6v11a1 1 0 0 1-1 1H4a1 1 0 0 1-1-1z"></path>
+    <path d="M9 21v-7h6v7"></path>
+  </svg>
+);
+
 const UserIcon = () => (
   <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
     <path d="M20 21v-2a4 4 0 0 0-4-4H8a4 4 0 0 0-4 4v2"></path>
@@ -30,6 +45,8 @@ const UserIcon = () => (
 const navItems = [
   { path: '/', label: 'Lists', icon: ListIcon },
   { path: '/new', label: 'New', icon: PlusIcon },
+  { path: '/budgets', label: 'Budgets', icon: WalletIcon },
+  { path: '/pantry', label: 'Pantry', icon: PantryIcon },
   { path: '/profile', label: 'Profile', icon: UserIcon },
 ];
 
@@ -1,9 +1,15 @@
 import { useEffect, useState } from 'react';
 import { NetworkMonitor } from '../lib/utils';
+import { discardFailedOperations, getFailedOperations, getPendingOperationCount, retryFailedOperations } from '../lib/db';
+import { getSyncStatus } from '../lib/sync';
+import { useLiveQuery } from '../hooks/useLiveQuery';
 
 export function OfflineIndicator() {
   const [isOnline, setIsOnline] = useState(NetworkMonitor.isOnline);
   const [isVisible, setIsVisible] = useState(false);
+  const { data: pendingCount } = useLiveQuery(getPendingOperationCount, [], 'offline-queue-changed');
+  const { data: failedOperations } = useLiveQuery(getFailedOperations, [], 'offline-queue-changed');
+  const { data: syncStatus } = useLiveQuery(getSyncStatus, [], 'sync-status-changed');
 
   useEffect(() => {
     // Initialize network monitoring
@@ -12,7 +18,7 @@ export function OfflineIndicator() {
     // Subscribe to network changes
     const unsubscribe = NetworkMonitor.subscribe((online) => {
       setIsOnline(online);
-      
+
       if (!online) {
         // Show immediately when going offline
         setIsVisible(true);
@@ -26,25 +32,66 @@ export function OfflineIndicator() {
     return unsubscribe;
   }, []);
 
-  if (!isVisible && isOnline) {
+  const pending = pendingCount ?? 0;
+  const pendingLabel = `${pending} ${pending === 1 ? 'change' : 'changes'} pending`;
+
+  // Changes that failed every replay wait for the user to retry or discard them
+  const failed = failedOperations?.length ?? 0;
+  const failedLabel = `${failed} ${failed === 1 ? 'change' : 'changes'} could not be saved`;
+
+  const handleDiscard = () => {
+    if (confirm(`Discard ${failed === 1 ? 'this change' : `these ${failed} changes`}? This cannot be undone.`)) {
+      discardFailedOperations();
+    }
+  };
+
+  const syncState = syncStatus?.state ?? 'disabled';
+
+  if (!isVisible && isOnline && pending === 0 && failed === 0 && syncState !== 'syncing' && syncState !== 'error') {
     return null;
   }
 
   return (
-    <div className={`offline-indicator ${isOnline ? 'online' : 'offline'}`}>
+    <div className={`offline-indicator ${isOnline && failed === 0 ? 'online' : 'offline'}`} role="status">
       <div className="offline-content">
-        {isOnline ? (
+        {failed > 0 ? (
           <>
-            <span className="offline-icon">✓</span>
-            <span>Back online</span>
+            <span className="offline-icon">⚠️</span>
+            <span>{failedLabel}</span>
+            <button type="button" className="offline-action" onClick={() => retryFailedOperations()}>
+              Retry
+            </button>
+            <button type="button" className="offline-action" onClick={handleDiscard}>
+              Discard
+            </button>
           </>
-        ) : (
+        ) : !isOnline ? (
           <>
             <span className="offline-icon">⚠️</span>
-            <span>You're offline</span>
+            <span>You're offline{pending > 0 && ` · ${pendingLabel}`}</span>
+          </>
+        ) : pending > 0 ? (
+          <>
+            <span className="offline-icon">⟳</span>
+            <span>{pendingLabel}</span>
+          </>
+        ) : syncState === 'syncing' ? (
+          <>
+            <span className="offline-icon">⟳</span>
+            <span>Syncing…</span>
+          </>
+        ) : syncState === 'error' ? (
+          <>
+            <span className="offline-icon">⚠️</span>
+            <span>Sync failed — will retry</span>
+          </>
+        ) : (
+          <>
+            <span className="offline-icon">✓</span>
+            <span>Back online</span>
           </>
         )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
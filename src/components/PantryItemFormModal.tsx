@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { ITEM_UNITS, PantryItemFormSchema } from '../lib/types';
+import type { ItemUnit, PantryItem, PantryItemForm } from '../lib/types';
+import { createPantryItem, getCategories, updatePantryItem } from '../lib/db';
+import { categoryLabel, findCategory } from '../lib/categories';
+import { useLiveQuery } from '../hooks/useLiveQuery';
+
+interface PantryItemFormModalProps {
+  editingItem?: PantryItem | null;
+  onClose: () => void;
+}
+
+export function PantryItemFormModal({ editingItem, onClose }: PantryItemFormModalProps) {
+  const [form, setForm] = useState<PantryItemForm>({
+    name: editingItem?.name || '',
+    quantity: editingItem?.quantity ?? 0,
+    unit: editingItem?.unit || 'pcs',
+    minQuantity: editingItem?.minQuantity ?? 1,
+    category: editingItem?.category || '',
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { data: categories } = useLiveQuery(getCategories, [], 'categories-changed');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+
+    const result = PantryItemFormSchema.safeParse(form);
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        if (err.path[0]) {
+          fieldErrors[String(err.path[0])] = err.message;
+        }
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const data = { ...result.data, name: result.data.name.trim(), category: result.data.category || undefined };
+      if (editingItem) {
+        await updatePantryItem(editingItem.id, data);
+      } else {
+        await createPantryItem(data);
+      }
+      onClose();
+    } catch (error) {
+      console.error('Error saving pantry item:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleInputChange = <K extends keyof PantryItemForm>(field: K, value: PantryItemForm[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{editingItem ? 'Edit Product' : 'Track Product'}</h2>
+          <button type="button" className="close-btn" onClick={onClose} aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="item-form">
+          <div className="form-group">
+            <label htmlFor="pantry-name">Product</label>
+            <input
+              id="pantry-name"
+              type="text"
+              value={form.name}
+              onChange={e => handleInputChange('name', e.target.value)}
+              placeholder="e.g., Olive oil"
+              className={errors.name ? 'error' : ''}
+              required
+            />
+            {errors.name && <div className="error-text">{errors.name}</div>}
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="pantry-quantity">In stock</label>
+              <input
+                id="pantry-quantity"
+                type="number"
+                min="0"
+                step="any"
+                value={form.quantity}
+                onChange={e => handleInputChange('quantity', parseFloat(e.target.value) || 0)}
+                className={errors.quantity ? 'error' : ''}
+              />
+              {errors.quantity && <div className="error-text">{errors.quantity}</div>}
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="pantry-unit">Unit</label>
+              <select
+                id="pantry-unit"
+                value={form.unit}
+                onChange={e => handleInputChange('unit', e.target.value as ItemUnit)}
+              >
+                {ITEM_UNITS.map(unit => (
+                  <option key={unit} value={unit}>{unit}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="pantry-min">Restock below</label>
+              <input
+                id="pantry-min"
+                type="number"
+                min="0"
+                step="any"
+                value={form.minQuantity}
+                onChange={e => handleInputChange('minQuantity', parseFloat(e.target.value) || 0)}
+                className={errors.minQuantity ? 'error' : ''}
+              />
+              {errors.minQuantity && <div className="error-text">{errors.minQuantity}</div>}
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="pantry-category">Category</label>
+              <select
+                id="pantry-category"
+                value={form.category}
+                onChange={e => handleInputChange('category', e.target.value)}
+              >
+                <option value="">Select category</option>
+                {(categories ?? []).map(category => (
+                  <option key={category.id} value={category.name}>{categoryLabel(category)}</option>
+                ))}
+                {form.category && categories && !findCategory(categories, form.category) && (
+                  <option value={form.category}>{form.category}</option>
+                )}
+              </select>
+            </div>
+          </div>
+
+          <p className="muted text-sm">
+            Marking this product purchased on a list adds the bought quantity to the stock.
+          </p>
+
+          <div className="form-actions">
+            <button type="button" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </button>
+            <button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : (editingItem ? 'Update' : 'Track Product')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
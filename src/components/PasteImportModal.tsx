@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { useLiveQuery } from '../hooks/useLiveQuery';
+import { getCategories, getItemsByList, getProductStats } from '../lib/db';
+import { applyItemBatch } from '../lib/history';
+import { formatCurrency } from '../lib/currency';
+import { withCategory } from '../lib/quickAdd';
+import { parsePastedList, planPastedImport, planToBatch } from '../lib/textImport';
+import { formatQuantity } from '../lib/units';
+import type { Item } from '../lib/types';
+
+interface PasteImportModalProps {
+  listId: string;
+  currency: string;
+  /** Items already on the list, for the preview */
+  items: Item[];
+  onClose: () => void;
+}
+
+export function PasteImportModal({ listId, currency, items, onClose }: PasteImportModalProps) {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { data: productStats } = useLiveQuery(getProductStats, [], 'items-changed');
+  const { data: categories } = useLiveQuery(getCategories, [], 'categories-changed');
+
+  const pasted = parsePastedList(text).map(item => ({
+    ...withCategory(item, productStats ?? [], categories ?? []),
+    purchased: item.purchased,
+  }));
+  const plan = planPastedImport(pasted, items);
+  const mergeCount = plan.filter(entry => entry.mergeInto).length;
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (plan.length === 0 || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      // Plan against the list as it is now, in case it changed while pasting
+      const batch = planToBatch(planPastedImport(pasted, await getItemsByList(listId)), listId);
+      if (await applyItemBatch(batch)) {
+        onClose();
+      } else {
+        setError('Import failed. Nothing was added.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Paste Items</h2>
+          <button type="button" className="close-btn" onClick={onClose} aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <form onSubmit={handleImport} className="item-form">
+          <div className="form-group">
+            <label htmlFor="paste-text">List to import</label>
+            <textarea
+              id="paste-text"
+              value={text}
+              onChange={e => setText(e.target.value)}
+              placeholder={'- [ ] 2x milk\n- [x] bread\n• eggs (free range)\n1. 3 kg potatoes'}
+              rows={6}
+              autoFocus
+            />
+            <p className="muted text-sm">
+              One item per line. Bullets, numbers, checkboxes and WhatsApp messages are fine; ticked items come in as purchased.
+            </p>
+          </div>
+
+          {plan.length > 0 && (
+            <div className="form-group">
+              <p className="text-sm font-medium">
+                {plan.length} {plan.length === 1 ? 'item' : 'items'}
+                {mergeCount > 0 && `, ${mergeCount} merged with items already on the list`}
+              </p>
+              <ul className="quick-add-preview" aria-label="Items to import">
+                {plan.map(({ item, mergeInto, mergedQty }, index) => {
+                  const quantity = formatQuantity(item.qty, item.unit);
+                  return (
+                    <li key={index}>
+                      <span aria-label={item.purchased ? 'Purchased' : 'To buy'}>{item.purchased ? '☑' : '☐'}</span>
+                      {quantity && <span className="item-qty">{quantity}</span>}
+                      <span className="quick-add-name">{item.name}</span>
+                      {item.price > 0 && <span className="item-price">{formatCurrency(item.price, currency)}</span>}
+                      {item.category && <span className="item-category">{item.category}</span>}
+                      {mergeInto && mergedQty !== undefined && (
+                        <span className="muted">
+                          merged: {formatQuantity(mergeInto.qty, mergeInto.unit) || '1'} → {formatQuantity(mergedQty, mergeInto.unit)}
+                        </span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          {error && <div className="error-text">{error}</div>}
+
+          <div className="form-actions">
+            <button type="button" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </button>
+            <button type="submit" disabled={plan.length === 0 || isSubmitting}>
+              {isSubmitting ? 'Importing...' : `Import ${plan.length || ''}`.trim()}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
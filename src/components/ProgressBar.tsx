@@ -3,9 +3,10 @@ interface ProgressBarProps {
   max: number;
   label?: string;
   className?: string;
+  variant?: 'default' | 'warning' | 'danger';
 }
 
-export function ProgressBar({ value, max, label, className = '' }: ProgressBarProps) {
+export function ProgressBar({ value, max, label, className = '', variant = 'default' }: ProgressBarProps) {
   const percentage = max > 0 ? Math.min(100, Math.max(0, (value / max) * 100)) : 0;
   
   return (
@@ -25,7 +26,7 @@ export function ProgressBar({ value, max, label, className = '' }: ProgressBarPr
         aria-label={label || `Progress: ${value} of ${max}`}
       >
         <div 
-          className="progress-bar"
+          className={`progress-bar ${variant === 'default' ? '' : variant}`}
           style={{ width: `${percentage}%` }}
         />
       </div>
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { QuickAddPreview } from './QuickAddPreview';
+import { useLiveQuery } from '../hooks/useLiveQuery';
+import { getCategories, getProductStats } from '../lib/db';
+import { createItem } from '../lib/history';
+import { parseQuickAdd, withCategory } from '../lib/quickAdd';
+import { AccessibilityManager } from '../lib/utils';
+
+interface QuickAddBarProps {
+  listId: string;
+  currency: string;
+}
+
+/**
+ * One-line item entry, e.g. "2x milk 1.29 #Dairy", previewed as it is typed
+ */
+export function QuickAddBar({ listId, currency }: QuickAddBarProps) {
+  const [text, setText] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const { data: productStats } = useLiveQuery(getProductStats, [], 'items-changed');
+  const { data: categories } = useLiveQuery(getCategories, [], 'categories-changed');
+
+  const parsed = parseQuickAdd(text);
+  const item = parsed && withCategory(parsed, productStats ?? [], categories ?? []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item || isAdding) return;
+
+    setIsAdding(true);
+    try {
+      await createItem({ ...item, listId, purchased: false, createdAt: new Date() });
+      setText('');
+      AccessibilityManager.announce(`Added ${item.name}`);
+    } catch (error) {
+      console.error('Error adding item:', error);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <form className="card mb-4 p-3" onSubmit={handleSubmit}>
+      <div className="quick-add">
+        <input
+          type="text"
+          value={text}
+          onChange={e => setText(e.target.value)}
+          placeholder="Quick add, e.g. 2x milk 1.29 #Dairy"
+          aria-label="Quick add item"
+          autoComplete="off"
+        />
+        <button type="submit" className="btn primary" disabled={!item || isAdding}>
+          Add
+        </button>
+      </div>
+      {item && <QuickAddPreview items={[item]} currency={currency} />}
+    </form>
+  );
+}
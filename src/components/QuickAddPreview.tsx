@@ -0,0 +1,38 @@
+import { formatCurrency } from '../lib/currency';
+import { formatQuantity } from '../lib/units';
+import type { QuickAddItem } from '../lib/quickAdd';
+
+interface QuickAddPreviewProps {
+  items: QuickAddItem[];
+  currency: string;
+  className?: string;
+}
+
+/**
+ * How quick-add text will be read, shown before the items are added
+ */
+export function QuickAddPreview({ items, currency, className = '' }: QuickAddPreviewProps) {
+  if (items.length === 0) return null;
+
+  return (
+    <ul className={`quick-add-preview ${className}`} aria-label="Items to add">
+      {items.map((item, index) => {
+        const quantity = formatQuantity(item.qty, item.unit);
+        return (
+          <li key={index}>
+            {quantity && <span className="item-qty">{quantity}</span>}
+            <span className="quick-add-name">{item.name}</span>
+            {item.price > 0 && (
+              <span className="item-price">
+                {formatCurrency(item.price, currency)}
+                {item.unit && item.unit !== 'pcs' && `/${item.unit}`}
+              </span>
+            )}
+            {item.category && <span className="item-category">{item.category}</span>}
+            {item.notes && <span className="item-notes">{item.notes}</span>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
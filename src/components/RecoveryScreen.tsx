@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { deleteDatabase, exportRawDatabase } from '../lib/db';
+import { FileUtils } from '../lib/utils';
+
+interface RecoveryScreenProps {
+  error: Error;
+  onRetry: () => void;
+}
+
+/**
+ * Shown instead of the app when the database cannot be opened, usually
+ * because upgrading it to a new version failed
+ */
+export function RecoveryScreen({ error, onRetry }: RecoveryScreenProps) {
+  const [status, setStatus] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleDownload = async () => {
+    setIsBusy(true);
+    setStatus(null);
+    try {
+      const data = await exportRawDatabase();
+      FileUtils.download(
+        `shopping-list-raw-data-${FileUtils.dateStamp()}.json`,
+        JSON.stringify(data, null, 2),
+        'application/json'
+      );
+      setStatus('Data downloaded.');
+    } catch (downloadError) {
+      console.error('Error exporting raw database:', downloadError);
+      setStatus('Could not read the stored data.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm('Delete all lists, items and settings stored on this device? This cannot be undone.')) return;
+
+    setIsBusy(true);
+    try {
+      await deleteDatabase();
+      onRetry();
+    } catch (resetError) {
+      console.error('Error deleting database:', resetError);
+      setStatus('Could not delete the stored data.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <main className="container-page py-8">
+      <div className="card mx-auto max-w-lg p-6" role="alert">
+        <div className="mb-2 text-3xl">🛠️</div>
+        <h1 className="mb-2 text-xl font-semibold">Your data could not be opened</h1>
+        <p className="muted mb-4">
+          Updating the stored data for this version of the app failed, so nothing was changed.
+          Try again, or download your data before resetting the app.
+        </p>
+
+        <details className="muted mb-4 text-sm">
+          <summary>Error details</summary>
+          <pre className="mt-2 whitespace-pre-wrap">{error.message || error.name}</pre>
+        </details>
+
+        <div className="flex flex-wrap gap-3">
+          <button type="button" className="btn primary flex-1" onClick={onRetry} disabled={isBusy}>
+            Try Again
+          </button>
+          <button type="button" className="btn flex-1" onClick={handleDownload} disabled={isBusy}>
+            Download Data
+          </button>
+          <button type="button" className="btn flex-1" onClick={handleReset} disabled={isBusy}>
+            Reset App Data
+          </button>
+        </div>
+
+        {status && <p className="muted mt-4 text-sm" role="status">{status}</p>}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,284 @@
+import { useState } from 'react';
+import { updateList } from '../lib/history';
+import { describeRecurrence, formatRecurrence, nextOccurrence, parseRecurrence } from '../lib/recurrence';
+import type { RecurrenceRule } from '../lib/recurrence';
+import type { List } from '../lib/types';
+
+interface RecurrenceModalProps {
+  list: List;
+  onClose: () => void;
+}
+
+type RepeatKind = 'daily' | 'weekly' | 'monthly-day' | 'monthly-weekday';
+
+interface ScheduleForm {
+  kind: RepeatKind;
+  interval: number;
+  weekdays: number[];
+  monthDay: number; // -1 = last day
+  ordinal: number; // -1 = last
+  weekday: number;
+  startDate: string; // yyyy-mm-dd
+  carryOver: boolean;
+}
+
+const REPEAT_OPTIONS: Array<{ value: RepeatKind; label: string; unit: string }> = [
+  { value: 'daily', label: 'Every few days', unit: 'days' },
+  { value: 'weekly', label: 'Weekly', unit: 'weeks' },
+  { value: 'monthly-day', label: 'Monthly on a date', unit: 'months' },
+  { value: 'monthly-weekday', label: 'Monthly on a weekday', unit: 'months' },
+];
+
+// Monday first
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0].map(weekday => ({
+  weekday,
+  label: new Date(2024, 0, weekday === 0 ? 7 : weekday).toLocaleDateString(undefined, { weekday: 'short' }),
+}));
+
+const ORDINALS = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' },
+];
+
+function toDateInput(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function initialForm(list: List): ScheduleForm {
+  const rule = list.recurrence ? parseRecurrence(list.recurrence) : null;
+  const start = rule?.start ?? new Date();
+  const kind: RepeatKind = !rule || rule.freq === 'WEEKLY' || rule.freq === 'YEARLY'
+    ? 'weekly'
+    : rule.freq === 'DAILY'
+      ? 'daily'
+      : rule.byDay.length > 0 ? 'monthly-weekday' : 'monthly-day';
+
+  return {
+    kind,
+    interval: rule?.interval ?? 1,
+    weekdays: rule?.freq === 'WEEKLY' && rule.byDay.length > 0 ? rule.byDay.map(day => day.weekday) : [start.getDay()],
+    monthDay: rule?.byMonthDay[0] ?? start.getDate(),
+    ordinal: rule?.byDay[0]?.ordinal ?? 1,
+    weekday: rule?.byDay[0]?.weekday ?? start.getDay(),
+    startDate: toDateInput(start),
+    carryOver: list.carryOverUnpurchased ?? false,
+  };
+}
+
+function toRule(form: ScheduleForm): RecurrenceRule | null {
+  const [year, month, day] = form.startDate.split('-').map(Number);
+  const start = new Date(year, month - 1, day);
+  if (!year || isNaN(start.getTime()) || !Number.isInteger(form.interval) || form.interval < 1) return null;
+
+  const base = { start, interval: form.interval, byDay: [], byMonthDay: [] };
+  switch (form.kind) {
+    case 'daily':
+      return { ...base, freq: 'DAILY' };
+    case 'weekly':
+      return form.weekdays.length > 0
+        ? { ...base, freq: 'WEEKLY', byDay: form.weekdays.map(weekday => ({ weekday })) }
+        : null;
+    case 'monthly-day':
+      return { ...base, freq: 'MONTHLY', byMonthDay: [form.monthDay] };
+    case 'monthly-weekday':
+      return { ...base, freq: 'MONTHLY', byDay: [{ weekday: form.weekday, ordinal: form.ordinal }] };
+  }
+}
+
+export function RecurrenceModal({ list, onClose }: RecurrenceModalProps) {
+  const [form, setForm] = useState<ScheduleForm>(() => initialForm(list));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const rule = toRule(form);
+  const next = rule ? nextOccurrence(rule, new Date()) : null;
+  const unit = REPEAT_OPTIONS.find(option => option.value === form.kind)?.unit ?? 'weeks';
+
+  const handleChange = <K extends keyof ScheduleForm>(field: K, value: ScheduleForm[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    handleChange(
+      'weekdays',
+      form.weekdays.includes(weekday) ? form.weekdays.filter(d => d !== weekday) : [...form.weekdays, weekday]
+    );
+  };
+
+  const save = async (updates: Partial<List>) => {
+    setIsSubmitting(true);
+    try {
+      await updateList(list.id, updates);
+      onClose();
+    } catch (error) {
+      console.error('Error saving schedule:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rule || isSubmitting) return;
+    // This list stands in for anything already due; new lists start with the next occurrence
+    save({ recurrence: formatRecurrence(rule), carryOverUnpurchased: form.carryOver, lastOccurrenceAt: new Date() });
+  };
+
+  const handleRemove = () => {
+    save({ recurrence: undefined, carryOverUnpurchased: undefined, lastOccurrenceAt: undefined });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Repeat List</h2>
+          <button type="button" className="close-btn" onClick={onClose} aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="item-form">
+          <p className="muted text-sm">
+            A new list with this list&apos;s items is created on each scheduled day.
+          </p>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="repeat-kind">Repeats</label>
+              <select
+                id="repeat-kind"
+                value={form.kind}
+                onChange={e => handleChange('kind', e.target.value as RepeatKind)}
+              >
+                {REPEAT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="repeat-interval">Every ({unit})</label>
+              <input
+                id="repeat-interval"
+                type="number"
+                min="1"
+                step="1"
+                value={form.interval}
+                onChange={e => handleChange('interval', parseInt(e.target.value, 10) || 1)}
+              />
+            </div>
+          </div>
+
+          {form.kind === 'weekly' && (
+            <fieldset className="form-group">
+              <legend className="mb-2 text-sm font-medium">On</legend>
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAYS.map(({ weekday, label }) => (
+                  <label key={weekday} className="flex cursor-pointer items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={form.weekdays.includes(weekday)}
+                      onChange={() => toggleWeekday(weekday)}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          )}
+
+          {form.kind === 'monthly-day' && (
+            <div className="form-group">
+              <label htmlFor="repeat-month-day">On day</label>
+              <select
+                id="repeat-month-day"
+                value={form.monthDay}
+                onChange={e => handleChange('monthDay', Number(e.target.value))}
+              >
+                {Array.from({ length: 31 }, (_, i) => i + 1).map(day => (
+                  <option key={day} value={day}>{day}</option>
+                ))}
+                <option value={-1}>Last day</option>
+              </select>
+            </div>
+          )}
+
+          {form.kind === 'monthly-weekday' && (
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="repeat-ordinal">On the</label>
+                <select
+                  id="repeat-ordinal"
+                  value={form.ordinal}
+                  onChange={e => handleChange('ordinal', Number(e.target.value))}
+                >
+                  {ORDINALS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label htmlFor="repeat-weekday">Weekday</label>
+                <select
+                  id="repeat-weekday"
+                  value={form.weekday}
+                  onChange={e => handleChange('weekday', Number(e.target.value))}
+                >
+                  {WEEKDAYS.map(({ weekday, label }) => (
+                    <option key={weekday} value={weekday}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          <div className="form-group">
+            <label htmlFor="repeat-start">Starting</label>
+            <input
+              id="repeat-start"
+              type="date"
+              value={form.startDate}
+              onChange={e => handleChange('startDate', e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="form-group">
+            <label className="flex cursor-pointer items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={form.carryOver}
+                onChange={e => handleChange('carryOver', e.target.checked)}
+              />
+              Carry over unpurchased items from the previous list
+            </label>
+          </div>
+
+          <p className="text-sm" role="status">
+            {rule
+              ? `${describeRecurrence(rule)}${next ? ` · next on ${next.toLocaleDateString()}` : ''}`
+              : <span className="error-text">Choose at least one day.</span>}
+          </p>
+
+          <div className="form-actions">
+            {list.recurrence && (
+              <button type="button" onClick={handleRemove} disabled={isSubmitting}>
+                Stop Repeating
+              </button>
+            )}
+            <button type="button" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </button>
+            <button type="submit" disabled={isSubmitting || !rule}>
+              {isSubmitting ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
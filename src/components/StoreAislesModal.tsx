@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { updateStore } from '../lib/db';
+import { assignCategory, defaultAisles, moveAisle, storeAisles } from '../lib/aisles';
+import type { Store, StoreAisle } from '../lib/types';
+
+interface StoreAislesModalProps {
+  store: Store;
+  /** The user's categories, in order */
+  categoryNames: string[];
+  onClose: () => void;
+}
+
+export function StoreAislesModal({ store, categoryNames, onClose }: StoreAislesModalProps) {
+  const [aisles, setAisles] = useState<StoreAisle[]>(() => storeAisles(store, categoryNames));
+  const [newAisle, setNewAisle] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const assigned = new Set(aisles.flatMap(aisle => aisle.categories));
+  const categories = [...new Set([...categoryNames, ...assigned])];
+  const canAddAisle = newAisle.trim() !== '' && !aisles.some(aisle => aisle.name === newAisle.trim());
+
+  const handleAddAisle = () => {
+    if (!canAddAisle) return;
+    setAisles(prev => [...prev, { name: newAisle.trim(), categories: [] }]);
+    setNewAisle('');
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      setAisles(prev => moveAisle(prev, dragIndex, index));
+    }
+    setDragIndex(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      await updateStore(store.id, { aisles });
+      onClose();
+    } catch (error) {
+      console.error('Error saving aisles:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{store.name} Aisles</h2>
+          <button type="button" className="close-btn" onClick={onClose} aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="item-form">
+          <p className="muted text-sm">
+            Drag aisles into the order you walk the store. Lists bought here are grouped in this order.
+          </p>
+
+          <ol className="aisle-editor">
+            {aisles.map((aisle, index) => (
+              <li
+                key={aisle.name}
+                className={`aisle-editor-row ${dragIndex === index ? 'dragging' : ''}`}
+                draggable
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={e => e.preventDefault()}
+                onDrop={() => handleDrop(index)}
+                onDragEnd={() => setDragIndex(null)}
+              >
+                <span className="aisle-handle" aria-hidden="true">⠿</span>
+                <div className="min-w-0 flex-1">
+                  <div className="font-medium">{aisle.name}</div>
+                  {!(aisle.categories.length === 1 && aisle.categories[0] === aisle.name) && (
+                    <div className="muted text-xs">{aisle.categories.join(', ') || 'No categories'}</div>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  className="btn btn-sm"
+                  onClick={() => setAisles(prev => moveAisle(prev, index, index - 1))}
+                  disabled={index === 0}
+                  aria-label={`Move ${aisle.name} up`}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-sm"
+                  onClick={() => setAisles(prev => moveAisle(prev, index, index + 1))}
+                  disabled={index === aisles.length - 1}
+                  aria-label={`Move ${aisle.name} down`}
+                >
+                  ↓
+                </button>
+                {aisle.categories.length === 0 && (
+                  <button
+                    type="button"
+                    className="btn btn-sm"
+                    onClick={() => setAisles(prev => prev.filter(other => other !== aisle))}
+                    aria-label={`Remove ${aisle.name}`}
+                  >
+                    🗑️
+                  </button>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          <div className="form-group">
+            <label htmlFor="new-aisle">Custom aisle</label>
+            <div className="flex gap-2">
+              <input
+                id="new-aisle"
+                type="text"
+                value={newAisle}
+                onChange={e => setNewAisle(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleAddAisle();
+                  }
+                }}
+                placeholder="e.g., Aisle 5 or Checkout"
+              />
+              <button type="button" onClick={handleAddAisle} disabled={!canAddAisle}>
+                Add
+              </button>
+            </div>
+          </div>
+
+          <fieldset className="form-group">
+            <legend className="mb-2 text-sm font-medium">Categories</legend>
+            <div className="space-y-2">
+              {categories.map(category => (
+                <div key={category} className="flex items-center justify-between gap-3 text-sm">
+                  <label htmlFor={`aisle-for-${category}`}>{category}</label>
+                  <select
+                    id={`aisle-for-${category}`}
+                    value={aisles.find(aisle => aisle.categories.includes(category))?.name ?? ''}
+                    onChange={e => setAisles(prev => assignCategory(prev, category, e.target.value))}
+                  >
+                    <option value="">Not placed</option>
+                    {aisles.map(aisle => (
+                      <option key={aisle.name} value={aisle.name}>{aisle.name}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </fieldset>
+
+          <div className="form-actions">
+            <button type="button" onClick={() => setAisles(defaultAisles(categoryNames))} disabled={isSubmitting}>
+              Reset
+            </button>
+            <button type="button" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </button>
+            <button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
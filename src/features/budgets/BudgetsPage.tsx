@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { TopBar } from '../../components/TopBar';
+import { ProgressBar } from '../../components/ProgressBar';
+import { BudgetFormModal } from '../../components/BudgetFormModal';
+import { useLiveQuery } from '../../hooks/useLiveQuery';
+import { deleteBudget, getSettings } from '../../lib/db';
+import { BUDGET_PERIOD_LABELS, getBudgetProgress } from '../../lib/budgets';
+import type { BudgetProgress } from '../../lib/budgets';
+import { formatCurrency } from '../../lib/currency';
+import type { Budget } from '../../lib/types';
+
+// Share of the limit at which a budget is flagged as nearly spent
+const WARNING_RATIO = 0.8;
+
+function progressVariant({ spent, budget }: BudgetProgress): 'default' | 'warning' | 'danger' {
+  if (spent > budget.amount) return 'danger';
+  if (spent >= budget.amount * WARNING_RATIO) return 'warning';
+  return 'default';
+}
+
+export function BudgetsPage() {
+  const [showForm, setShowForm] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
+
+  const { data: progress } = useLiveQuery(
+    () => getBudgetProgress(),
+    [],
+    ['budgets-changed', 'items-changed', 'lists-changed', 'settings-changed', 'exchange-rates-changed']
+  );
+  const { data: settings } = useLiveQuery(getSettings, [], 'settings-changed');
+  const currency = settings?.currency ?? 'EUR';
+
+  const handleEdit = (budget: Budget) => {
+    setEditingBudget(budget);
+    setShowForm(true);
+  };
+
+  const handleDelete = async (budget: Budget) => {
+    if (confirm(`Delete the budget "${budget.name}"?`)) {
+      await deleteBudget(budget.id);
+    }
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    setEditingBudget(null);
+  };
+
+  return (
+    <>
+      <TopBar
+        title="Budgets"
+        action={
+          <button type="button" className="btn btn-sm primary" onClick={() => setShowForm(true)}>
+            New Budget
+          </button>
+        }
+      />
+      <main className="container-page py-4">
+        {!progress || progress.length === 0 ? (
+          <div className="card p-6 text-center">
+            <div className="mb-2 text-3xl">💰</div>
+            <h2 className="mb-1 text-xl font-semibold">No budgets yet</h2>
+            <p className="muted mb-3">Set a weekly, monthly or yearly limit and track purchases against it.</p>
+            <button type="button" className="btn primary" onClick={() => setShowForm(true)}>
+              Create Budget
+            </button>
+          </div>
+        ) : (
+          <div className="grid gap-4">
+            {progress.map(entry => {
+              const { budget, spent, remaining } = entry;
+              const isOver = remaining < 0;
+
+              return (
+                <div key={budget.id} className="card p-4">
+                  <div className="mb-2 flex items-start justify-between gap-3">
+                    <div>
+                      <h3 className="font-semibold">{budget.name}</h3>
+                      <p className="muted text-sm">
+                        {BUDGET_PERIOD_LABELS[budget.period]}
+                        {' · '}
+                        {budget.categories.length > 0 ? budget.categories.join(', ') : 'All categories'}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button type="button" className="btn btn-sm" onClick={() => handleEdit(budget)}>
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        className="btn btn-sm"
+                        onClick={() => handleDelete(budget)}
+                        aria-label={`Delete budget ${budget.name}`}
+                      >
+                        🗑️
+                      </button>
+                    </div>
+                  </div>
+
+                  <ProgressBar
+                    value={spent}
+                    max={budget.amount}
+                    variant={progressVariant(entry)}
+                  />
+
+                  <div className="mt-2 flex justify-between text-sm">
+                    <span>
+                      {formatCurrency(spent, currency)} of {formatCurrency(budget.amount, currency)}
+                    </span>
+                    <span className={isOver ? 'font-semibold text-red-600 dark:text-red-400' : 'muted'}>
+                      {isOver
+                        ? `${formatCurrency(-remaining, currency)} over`
+                        : `${formatCurrency(remaining, currency)} left`}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      {showForm && (
+        <BudgetFormModal
+          currency={currency}
+          editingBudget={editingBudget}
+          onClose={handleCloseForm}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { TopBar } from '../../components/TopBar';
+import { BarChart } from '../../components/BarChart';
+import { useLiveQuery } from '../../hooks/useLiveQuery';
+import { getLists, getSettings, getShoppingAnalytics } from '../../lib/db';
+import type { AnalyticsFilter } from '../../lib/db';
+import { formatCurrency } from '../../lib/currency';
+import { categoryLabel } from '../../lib/categories';
+
+type RangePreset = 'all' | '30d' | '90d' | 'year' | 'custom';
+
+const RANGE_PRESETS: Array<{ value: RangePreset; label: string }> = [
+  { value: 'all', label: 'All time' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: '90d', label: 'Last 90 days' },
+  { value: 'year', label: 'This year' },
+  { value: 'custom', label: 'Custom' },
+];
+
+// Parse a yyyy-mm-dd input value as a local date
+function parseDateInput(value: string): Date | undefined {
+  const [year, month, day] = value.split('-').map(Number);
+  return year && month && day ? new Date(year, month - 1, day) : undefined;
+}
+
+function buildFilter(preset: RangePreset, customFrom: string, customTo: string, listId: string): AnalyticsFilter {
+  const today = new Date();
+  const tomorrow = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+  const filter: AnalyticsFilter = { listId: listId || undefined };
+
+  switch (preset) {
+    case '30d':
+      return { ...filter, from: new Date(tomorrow.getFullYear(), tomorrow.getMonth(), tomorrow.getDate() - 30), to: tomorrow };
+    case '90d':
+      return { ...filter, from: new Date(tomorrow.getFullYear(), tomorrow.getMonth(), tomorrow.getDate() - 90), to: tomorrow };
+    case 'year':
+      return { ...filter, from: new Date(today.getFullYear(), 0, 1), to: tomorrow };
+    case 'custom': {
+      const from = parseDateInput(customFrom);
+      const to = parseDateInput(customTo);
+      return {
+        ...filter,
+        from,
+        to: to && new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1), // Include the end day
+      };
+    }
+    default:
+      return filter;
+  }
+}
+
+export function InsightsPage() {
+  const [preset, setPreset] = useState<RangePreset>('all');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [listId, setListId] = useState('');
+
+  const { data: lists } = useLiveQuery(getLists, [], 'lists-changed');
+  const { data: settings } = useLiveQuery(getSettings, [], 'settings-changed');
+  const { data: analytics, loading } = useLiveQuery(
+    () => getShoppingAnalytics(buildFilter(preset, customFrom, customTo, listId)),
+    [preset, customFrom, customTo, listId],
+    ['items-changed', 'lists-changed', 'settings-changed', 'exchange-rates-changed']
+  );
+
+  // Analytics are converted to the profile currency
+  const currency = analytics?.currency ?? settings?.currency ?? 'EUR';
+  const format = (value: number) => formatCurrency(value, currency);
+
+  return (
+    <>
+      <TopBar title="Insights" />
+      <main className="container-page py-4">
+        <div className="space-y-6">
+          {/* Filters */}
+          <div className="card p-4">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-2">
+                <label htmlFor="insights-range" className="text-sm font-medium">Date range</label>
+                <select
+                  id="insights-range"
+                  className="w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm dark:border-neutral-800 dark:bg-neutral-900"
+                  value={preset}
+                  onChange={e => setPreset(e.target.value as RangePreset)}
+                >
+                  {RANGE_PRESETS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="insights-list" className="text-sm font-medium">List</label>
+                <select
+                  id="insights-list"
+                  className="w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm dark:border-neutral-800 dark:bg-neutral-900"
+                  value={listId}
+                  onChange={e => setListId(e.target.value)}
+                >
+                  <option value="">All lists</option>
+                  {lists?.map(list => (
+                    <option key={list.id} value={list.id}>{list.name}</option>
+                  ))}
+                </select>
+              </div>
+              {preset === 'custom' && (
+                <>
+                  <div className="space-y-2">
+                    <label htmlFor="insights-from" className="text-sm font-medium">From</label>
+                    <input
+                      id="insights-from"
+                      type="date"
+                      className="w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm dark:border-neutral-800 dark:bg-neutral-900"
+                      value={customFrom}
+                      max={customTo || undefined}
+                      onChange={e => setCustomFrom(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label htmlFor="insights-to" className="text-sm font-medium">To</label>
+                    <input
+                      id="insights-to"
+                      type="date"
+                      className="w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm dark:border-neutral-800 dark:bg-neutral-900"
+                      value={customTo}
+                      min={customFrom || undefined}
+                      onChange={e => setCustomTo(e.target.value)}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+
+          {loading && !analytics ? (
+            <div className="text-center">Loading...</div>
+          ) : analytics && analytics.totalItems === 0 ? (
+            <div className="card p-6 text-center">
+              <div className="mb-2 text-3xl">📊</div>
+              <h2 className="mb-1 text-xl font-semibold">No purchases yet</h2>
+              <p className="muted">Tick items off your lists and your spending will show up here.</p>
+            </div>
+          ) : analytics && (
+            <>
+              {analytics.unconvertedCurrencies.length > 0 && (
+                <p className="text-sm text-red-600 dark:text-red-400" role="status">
+                  No exchange rate for {analytics.unconvertedCurrencies.join(', ')}; those amounts are counted
+                  unconverted. Add rates in Profile → Exchange Rates.
+                </p>
+              )}
+
+              {/* Totals */}
+              <div className="grid grid-cols-3 gap-3">
+                {[
+                  { label: 'Total Spent', value: format(analytics.totalSpent) },
+                  { label: 'Items Bought', value: String(analytics.totalItems) },
+                  { label: 'Avg. List Value', value: format(analytics.averageListValue) },
+                ].map(stat => (
+                  <div key={stat.label} className="rounded-lg bg-slate-100 p-3 text-center dark:bg-neutral-800">
+                    <div className="text-lg font-bold text-blue-600">{stat.value}</div>
+                    <div className="muted text-sm">{stat.label}</div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Monthly spending */}
+              <div className="card p-4">
+                <h2 className="mb-4 text-xl font-semibold">Monthly Spending</h2>
+                <BarChart
+                  title="Monthly spending"
+                  data={analytics.monthlySpending.map(m => ({ label: m.month, value: m.amount }))}
+                  formatValue={format}
+                />
+              </div>
+
+              {/* Categories */}
+              {analytics.topCategories.length > 0 && (
+                <div className="card p-4">
+                  <h2 className="mb-4 text-xl font-semibold">Top Categories</h2>
+                  <BarChart
+                    title="Spending by category"
+                    orientation="horizontal"
+                    data={analytics.topCategories.map(c => ({
+                      label: categoryLabel({ name: c.category, icon: c.icon }),
+                      value: c.totalSpent,
+                      color: c.color,
+                    }))}
+                    formatValue={format}
+                  />
+                </div>
+              )}
+
+              {/* Frequent items */}
+              {analytics.frequentItems.length > 0 && (
+                <div className="card p-4">
+                  <h2 className="mb-4 text-xl font-semibold">Frequent Items</h2>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="muted text-left">
+                        <th scope="col" className="py-1 font-medium">Item</th>
+                        <th scope="col" className="py-1 text-right font-medium">Times</th>
+                        <th scope="col" className="py-1 text-right font-medium">Spent</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.frequentItems.map(item => (
+                        <tr key={item.name} className="border-t border-slate-200 dark:border-neutral-800">
+                          <td className="py-2">
+                            <Link to={`/prices/${encodeURIComponent(item.name)}`}>{item.name}</Link>
+                          </td>
+                          <td className="py-2 text-right">{item.count}</td>
+                          <td className="py-2 text-right">{format(item.totalSpent)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
@@ -1,21 +1,38 @@
 import { useState } from 'react';
-import { useParams } from 'react-router-dom';
+import { useNavigate, useParams } from 'react-router-dom';
 import { Tab } from '@headlessui/react';
 import { TopBar } from '../../components/TopBar';
 import { ItemCard } from '../../components/ItemCard';
 import { ItemFormModal } from '../../components/ItemFormModal';
 import { ListSummary } from '../../components/ListSummary';
+import { QuickAddBar } from '../../components/QuickAddBar';
+import { CsvImportModal } from '../../components/CsvImportModal';
+import { PasteImportModal } from '../../components/PasteImportModal';
+import { RecurrenceModal } from '../../components/RecurrenceModal';
 import { useLiveQuery } from '../../hooks/useLiveQuery';
-import { getList, getItemsByList } from '../../lib/db';
+import { usePresence } from '../../hooks/usePresence';
+import { getCategories, getList, getItemsByList, getPriceObservations, getProductStats, getStores } from '../../lib/db';
+import { deleteList, updateList } from '../../lib/history';
+import { itemsToCsv } from '../../lib/csv';
+import { buildShareUrl, encodeSharePayload } from '../../lib/share';
+import { duplicateList, saveListAsTemplate } from '../../lib/templates';
+import { describeRecurrence, nextOccurrence, parseRecurrence } from '../../lib/recurrence';
+import { groupItemsByAisle, storeAisles } from '../../lib/aisles';
+import { findCategory } from '../../lib/categories';
+import { AccessibilityManager, FileUtils } from '../../lib/utils';
 import type { Item } from '../../lib/types';
 
 type ViewFilter = 'all' | 'remaining' | 'purchased';
 
 export function ListDetailPage() {
   const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
   const [showItemForm, setShowItemForm] = useState(false);
   const [editingItem, setEditingItem] = useState<Item | null>(null);
   const [filter, setFilter] = useState<ViewFilter>('all');
+  const [showCsvImport, setShowCsvImport] = useState(false);
+  const [showPasteImport, setShowPasteImport] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
   
   const { data: list, loading: listLoading } = useLiveQuery(
     () => getList(id!), 
@@ -29,6 +46,13 @@ export function ListDetailPage() {
     'items-changed'
   );
 
+  const { data: productStats } = useLiveQuery(getProductStats, [], 'items-changed');
+  const { data: stores } = useLiveQuery(getStores, [], 'stores-changed');
+  const { data: categories } = useLiveQuery(getCategories, [], 'categories-changed');
+  const { data: priceObservations } = useLiveQuery(() => getPriceObservations(), [], 'prices-changed');
+
+  const viewers = usePresence(id);
+
   const loading = listLoading || itemsLoading;
 
   if (loading) {
@@ -69,13 +93,27 @@ export function ListDetailPage() {
     }
   });
 
-  // Sort items: unpurchased first, then by name
-  const sortedItems = filteredItems.sort((a, b) => {
-    if (a.purchased !== b.purchased) {
-      return a.purchased ? 1 : -1;
-    }
-    return a.name.localeCompare(b.name);
-  });
+  // Group items by aisle in the store's walking order; unpurchased first, then by name
+  const store = stores?.find(candidate => candidate.id === list.storeId);
+  const aisleGroups = groupItemsByAisle(filteredItems, storeAisles(store, categories?.map(category => category.name)));
+
+  const renderAisles = () => aisleGroups.map(group => (
+    <section key={group.name} aria-label={group.name}>
+      <h3 className="aisle-header">{group.name}</h3>
+      <div className="space-y-3">
+        {group.items.map(item => (
+          <ItemCard
+            key={item.id}
+            item={item}
+            currency={list.currency}
+            productStat={productStats?.find(stat => stat.name === item.name)}
+            category={findCategory(categories ?? [], item.category)}
+            onEdit={handleEditItem}
+          />
+        ))}
+      </div>
+    </section>
+  ));
 
   const handleAddItem = () => {
     setEditingItem(null);
@@ -96,15 +134,167 @@ export function ListDetailPage() {
     // Items will be refreshed automatically via live query
   };
 
+  const handleExportCsv = () => {
+    FileUtils.download(
+      `${list.name}-${FileUtils.dateStamp()}.csv`,
+      itemsToCsv(allItems),
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  const handleShare = async () => {
+    const url = buildShareUrl(await encodeSharePayload(list, allItems));
+
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: list.name, url });
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      AccessibilityManager.announce('Share link copied to clipboard');
+      alert('Share link copied to clipboard');
+    } catch (error) {
+      // The user dismissing the share sheet is not an error
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error('Error sharing list:', error);
+      prompt('Copy this link to share the list:', url);
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    const name = prompt('Template name:', list.name)?.trim();
+    if (!name) return;
+
+    const template = await saveListAsTemplate(list.id, name);
+    if (template) {
+      AccessibilityManager.announce(`Saved template ${template.name}`);
+      alert(`Saved "${template.name}". Pick it under "Start From" when creating a new list.`);
+    }
+  };
+
+  const handleShopAgain = async () => {
+    const copy = await duplicateList(list.id);
+    if (copy) {
+      navigate(`/list/${copy.id}`);
+    }
+  };
+
+  const handleDeleteList = async () => {
+    if (await deleteList(list.id)) {
+      navigate('/');
+    }
+  };
+
+  const handleCsvImported = (importedListId: string) => {
+    if (importedListId !== list.id) {
+      navigate(`/list/${importedListId}`);
+    }
+  };
+
+  const schedule = list.recurrence ? parseRecurrence(list.recurrence) : null;
+  const nextScheduled = schedule ? nextOccurrence(schedule, list.lastOccurrenceAt ?? new Date()) : null;
+
   const remainingCount = allItems.filter(item => !item.purchased).length;
   const purchasedCount = allItems.filter(item => item.purchased).length;
 
   return (
     <>
-      <TopBar title={list.name} />
+      <TopBar
+        title={list.name}
+        action={
+          <>
+            <button
+              type="button"
+              className="btn btn-sm primary"
+              onClick={() => navigate(`/list/${list.id}/shop`)}
+              disabled={remainingCount === 0}
+            >
+              Shop
+            </button>
+            <button type="button" className="btn btn-sm" onClick={handleShare}>
+              Share
+            </button>
+            <button type="button" className="btn btn-sm" onClick={() => setShowPasteImport(true)}>
+              Paste
+            </button>
+            <button type="button" className="btn btn-sm" onClick={() => setShowCsvImport(true)}>
+              Import
+            </button>
+            <button type="button" className="btn btn-sm" onClick={handleExportCsv} disabled={allItems.length === 0}>
+              Export CSV
+            </button>
+            <button type="button" className="btn btn-sm" onClick={handleSaveTemplate} disabled={allItems.length === 0}>
+              Save Template
+            </button>
+            {!schedule && (
+              <button type="button" className="btn btn-sm" onClick={() => setShowSchedule(true)}>
+                Repeat
+              </button>
+            )}
+            <button type="button" className="btn btn-sm" onClick={handleDeleteList}>
+              Delete
+            </button>
+          </>
+        }
+      />
       <main className="container-page py-4">
+        {/* Other devices viewing this list */}
+        {viewers.length > 0 && (
+          <p className="muted mb-3 text-sm" role="status">
+            👀 {formatViewers(viewers.map(viewer => viewer.name))} viewing this list
+          </p>
+        )}
+
+        {/* Schedule */}
+        {schedule && (
+          <div className="muted mb-3 flex items-center justify-between gap-3 text-sm">
+            <span>
+              🔁 {describeRecurrence(schedule)}
+              {nextScheduled && ` · next list on ${nextScheduled.toLocaleDateString()}`}
+            </span>
+            <button type="button" className="btn btn-sm" onClick={() => setShowSchedule(true)}>
+              Edit
+            </button>
+          </div>
+        )}
+
+        {/* Store */}
+        {stores && stores.length > 0 && (
+          <div className="muted mb-3 flex items-center gap-3 text-sm">
+            <label htmlFor="list-store">🏪 Store</label>
+            <select
+              id="list-store"
+              value={list.storeId ?? ''}
+              onChange={(e) => updateList(list.id, { storeId: e.target.value || undefined })}
+            >
+              <option value="">Not set</option>
+              {stores.map(store => (
+                <option key={store.id} value={store.id}>{store.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* List Summary */}
-        <ListSummary items={allItems} currency={list.currency} />
+        <ListSummary
+          items={allItems}
+          currency={list.currency}
+          stores={stores ?? []}
+          priceObservations={priceObservations ?? []}
+        />
+
+        {/* Quick Add */}
+        <QuickAddBar listId={list.id} currency={list.currency} />
+
+        {/* Finished list: start the next run from the same items */}
+        {allItems.length > 0 && remainingCount === 0 && (
+          <div className="card mb-4 flex items-center justify-between gap-3 p-4">
+            <p className="text-sm">🎉 Everything on this list is purchased.</p>
+            <button type="button" className="btn primary shrink-0" onClick={handleShopAgain}>
+              Shop Again
+            </button>
+          </div>
+        )}
 
         {/* Filter Tabs with Headless UI */}
         {allItems.length > 0 && (
@@ -126,15 +316,8 @@ export function ListDetailPage() {
               <Tab.Panel>
                 {/* Items List (all) */}
                 <div className="space-y-3">
-                  {sortedItems.length > 0 ? (
-                    sortedItems.map(item => (
-                      <ItemCard
-                        key={item.id}
-                        item={item}
-                        currency={list.currency}
-                        onEdit={handleEditItem}
-                      />
-                    ))
+                  {filteredItems.length > 0 ? (
+                    renderAisles()
                   ) : (
                     <div className="card p-6 text-center">
                       <div className="mb-2 text-3xl">🛒</div>
@@ -154,15 +337,8 @@ export function ListDetailPage() {
               <Tab.Panel>
                 {/* Items List (remaining) */}
                 <div className="space-y-3">
-                  {sortedItems.length > 0 ? (
-                    sortedItems.map(item => (
-                      <ItemCard
-                        key={item.id}
-                        item={item}
-                        currency={list.currency}
-                        onEdit={handleEditItem}
-                      />
-                    ))
+                  {filteredItems.length > 0 ? (
+                    renderAisles()
                   ) : (
                     <div className="card p-6 text-center">
                       <div className="mb-2 text-3xl">✅</div>
@@ -175,15 +351,8 @@ export function ListDetailPage() {
               <Tab.Panel>
                 {/* Items List (purchased) */}
                 <div className="space-y-3">
-                  {sortedItems.length > 0 ? (
-                    sortedItems.map(item => (
-                      <ItemCard
-                        key={item.id}
-                        item={item}
-                        currency={list.currency}
-                        onEdit={handleEditItem}
-                      />
-                    ))
+                  {filteredItems.length > 0 ? (
+                    renderAisles()
                   ) : (
                     <div className="card p-6 text-center">
                       <div className="mb-2 text-3xl">📝</div>
@@ -239,6 +408,37 @@ export function ListDetailPage() {
           onSave={handleFormSave}
         />
       )}
+
+      {/* Schedule Modal */}
+      {showSchedule && (
+        <RecurrenceModal list={list} onClose={() => setShowSchedule(false)} />
+      )}
+
+      {/* CSV Import Modal */}
+      {showCsvImport && (
+        <CsvImportModal
+          listId={list.id}
+          currency={list.currency}
+          onClose={() => setShowCsvImport(false)}
+          onImported={handleCsvImported}
+        />
+      )}
+
+      {/* Paste Import Modal */}
+      {showPasteImport && (
+        <PasteImportModal
+          listId={list.id}
+          currency={list.currency}
+          items={allItems}
+          onClose={() => setShowPasteImport(false)}
+        />
+      )}
     </>
   );
-}
\ No newline at end of file
+}
+
+function formatViewers(names: string[]): string {
+  if (names.length === 1) return `${names[0]} is`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are`;
+  return `${names[0]} and ${names.length - 1} others are`;
+}
@@ -1,15 +1,47 @@
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { TopBar } from '../../components/TopBar';
+import { CsvImportModal } from '../../components/CsvImportModal';
 import { useLiveQuery } from '../../hooks/useLiveQuery';
-import { getLists } from '../../lib/db';
+import { getLists, getSettings } from '../../lib/db';
+import { exportAllListsCsv } from '../../lib/csv';
+import { describeRecurrence, parseRecurrence } from '../../lib/recurrence';
+import { FileUtils } from '../../lib/utils';
 
 export function ListsPage() {
   const navigate = useNavigate();
   const { data: lists } = useLiveQuery(getLists, [], 'lists-changed');
+  const { data: settings } = useLiveQuery(getSettings, [], 'settings-changed');
+  const [showCsvImport, setShowCsvImport] = useState(false);
+
+  const handleExportAll = async () => {
+    FileUtils.download(
+      `shopping-lists-${FileUtils.dateStamp()}.csv`,
+      await exportAllListsCsv(),
+      'text/csv;charset=utf-8'
+    );
+  };
 
   return (
     <>
-      <TopBar title="Your Lists" />
+      <TopBar
+        title="Your Lists"
+        action={
+          <>
+            <button type="button" className="btn btn-sm" onClick={() => setShowCsvImport(true)}>
+              Import
+            </button>
+            {lists && lists.length > 0 && (
+              <button type="button" className="btn btn-sm" onClick={handleExportAll}>
+                Export CSV
+              </button>
+            )}
+            <button type="button" className="btn btn-sm" onClick={() => navigate('/trash')}>
+              Trash
+            </button>
+          </>
+        }
+      />
       <main className="container-page py-4">
         {!lists || lists.length === 0 ? (
           <div className="card p-6 text-center">
@@ -42,6 +74,9 @@ export function ListsPage() {
                   <div>
                     <h3 className="font-semibold">{list.name}</h3>
                     <p className="muted">Created {list.createdAt.toLocaleDateString()}</p>
+                    {list.recurrence && (
+                      <p className="muted text-sm">🔁 {describeSchedule(list.recurrence)}</p>
+                    )}
                   </div>
                   <div className="text-blue-600" aria-hidden>→</div>
                 </div>
@@ -50,6 +85,19 @@ export function ListsPage() {
           </div>
         )}
       </main>
+
+      {showCsvImport && (
+        <CsvImportModal
+          currency={settings?.currency ?? 'EUR'}
+          onClose={() => setShowCsvImport(false)}
+          onImported={(listId) => navigate(`/list/${listId}`)}
+        />
+      )}
     </>
   );
-}
\ No newline at end of file
+}
+
+function describeSchedule(recurrence: string): string {
+  const rule = parseRecurrence(recurrence);
+  return rule ? describeRecurrence(rule) : 'Repeats';
+}
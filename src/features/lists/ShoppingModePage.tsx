@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { TopBar } from '../../components/TopBar';
+import { useLiveQuery } from '../../hooks/useLiveQuery';
+import { useWakeLock } from '../../hooks/useWakeLock';
+import { getCategories, getItemsByList, getList, getSettings, getStores } from '../../lib/db';
+import { updateItem } from '../../lib/history';
+import { groupItemsByAisle, storeAisles } from '../../lib/aisles';
+import { confirmPurchaseWithinBudget } from '../../lib/budgets';
+import { formatQuantity } from '../../lib/units';
+import { AccessibilityManager, HapticFeedback } from '../../lib/utils';
+import type { Item } from '../../lib/types';
+
+export function ShoppingModePage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [lastChecked, setLastChecked] = useState<Item | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const { data: list, loading: listLoading } = useLiveQuery(() => getList(id!), [id], 'lists-changed');
+  const { data: items, loading: itemsLoading } = useLiveQuery(() => getItemsByList(id!), [id], 'items-changed');
+  const { data: stores } = useLiveQuery(getStores, [], 'stores-changed');
+  const { data: categories } = useLiveQuery(getCategories, [], 'categories-changed');
+  const { data: settings } = useLiveQuery(getSettings, [], 'settings-changed');
+  const screenOn = useWakeLock();
+
+  const exit = () => navigate(`/list/${id}`);
+
+  if (listLoading || itemsLoading) {
+    return (
+      <>
+        <TopBar title="Loading..." />
+        <main className="container-page py-4">
+          <div className="text-center">Loading list...</div>
+        </main>
+      </>
+    );
+  }
+
+  if (!list) {
+    return (
+      <>
+        <TopBar title="List Not Found" />
+        <main className="container-page py-4">
+          <div className="text-center">
+            <p className="muted">The requested list could not be found.</p>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  const store = stores?.find(candidate => candidate.id === list.storeId);
+  const groups = groupItemsByAisle(items ?? [], storeAisles(store, categories?.map(category => category.name)));
+  const remaining = groups.flatMap(group => group.items.filter(item => !item.purchased));
+  const next = remaining[0];
+
+  const setPurchased = async (item: Item, purchased: boolean) => {
+    if (busyId) return;
+
+    setBusyId(item.id);
+    try {
+      if (purchased && !(await confirmPurchaseWithinBudget(item))) return;
+
+      await updateItem(item.id, { purchased, purchasedAt: purchased ? new Date() : undefined });
+      if (settings?.hapticsEnabled) {
+        HapticFeedback.light();
+      }
+      setLastChecked(purchased ? item : null);
+      AccessibilityManager.announce(`${item.name} ${purchased ? 'in cart' : 'back on the list'}`);
+    } catch (error) {
+      console.error('Error checking off item:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <>
+      <TopBar
+        title={store ? `${list.name} · ${store.name}` : list.name}
+        action={
+          <button type="button" className="btn btn-sm primary" onClick={exit}>
+            Done
+          </button>
+        }
+      />
+      <main className="container-page shopping-mode py-4">
+        <p className="muted mb-3 text-sm" role="status">
+          {remaining.length} {remaining.length === 1 ? 'item' : 'items'} to go
+          {screenOn && ' · screen stays on'}
+        </p>
+
+        {remaining.length === 0 && (
+          <div className="card mb-4 p-6 text-center">
+            <div className="mb-2 text-3xl">🎉</div>
+            <h2 className="mb-3 text-xl font-semibold">Everything is in the cart</h2>
+            <button type="button" className="btn primary" onClick={exit}>
+              Back to List
+            </button>
+          </div>
+        )}
+
+        {groups.map(group => {
+          const toBuy = group.items.filter(item => !item.purchased);
+          const inCart = group.items.filter(item => item.purchased);
+
+          // Finished aisles fold away so the next one moves up
+          if (toBuy.length === 0) {
+            return (
+              <details key={group.name} className="shopping-aisle done">
+                <summary className="aisle-header">✓ {group.name} ({inCart.length})</summary>
+                <ul>
+                  {inCart.map(item => (
+                    <ShoppingRow key={item.id} item={item} busy={busyId === item.id} onToggle={setPurchased} />
+                  ))}
+                </ul>
+              </details>
+            );
+          }
+
+          return (
+            <section key={group.name} className="shopping-aisle" aria-label={group.name}>
+              <h2 className="aisle-header">{group.name}</h2>
+              <ul>
+                {toBuy.map(item => (
+                  <ShoppingRow key={item.id} item={item} busy={busyId === item.id} onToggle={setPurchased} />
+                ))}
+              </ul>
+              {inCart.length > 0 && (
+                <details className="shopping-in-cart">
+                  <summary>In cart ({inCart.length})</summary>
+                  <ul>
+                    {inCart.map(item => (
+                      <ShoppingRow key={item.id} item={item} busy={busyId === item.id} onToggle={setPurchased} />
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </section>
+          );
+        })}
+      </main>
+
+      {/* Within thumb reach: check off the next item without aiming */}
+      {(next || lastChecked) && (
+        <div className="shopping-actions">
+          {lastChecked && (
+            <button
+              type="button"
+              className="btn"
+              onClick={() => setPurchased(lastChecked, false)}
+              disabled={busyId !== null}
+            >
+              Undo
+            </button>
+          )}
+          {next && (
+            <button
+              type="button"
+              className="btn primary flex-1"
+              onClick={() => setPurchased(next, true)}
+              disabled={busyId !== null}
+            >
+              ✓ {next.name}
+            </button>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
+
+interface ShoppingRowProps {
+  item: Item;
+  busy: boolean;
+  onToggle: (item: Item, purchased: boolean) => void;
+}
+
+function ShoppingRow({ item, busy, onToggle }: ShoppingRowProps) {
+  const quantity = formatQuantity(item.qty, item.unit);
+
+  return (
+    <li>
+      <button
+        type="button"
+        className={`shopping-row ${item.purchased ? 'purchased' : ''}`}
+        onClick={() => onToggle(item, !item.purchased)}
+        disabled={busy}
+        aria-pressed={item.purchased}
+      >
+        <span className="shopping-check" aria-hidden="true">{item.purchased ? '✓' : ''}</span>
+        <span className="min-w-0 flex-1">
+          <span className="shopping-name">{item.name}</span>
+          {item.notes && <span className="shopping-notes">{item.notes}</span>}
+        </span>
+        {quantity && <span className="shopping-qty">{quantity}</span>}
+      </button>
+    </li>
+  );
+}
@@ -1,7 +1,12 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { TopBar } from '../../components/TopBar';
-import { createList, createItem } from '../../lib/db';
+import { CurrencySelect } from '../../components/CurrencySelect';
+import { QuickAddPreview } from '../../components/QuickAddPreview';
+import { useLiveQuery } from '../../hooks/useLiveQuery';
+import { createListWithItems, deleteTemplate, getCategories, getProductStats, getSettings, getStores, getTemplates } from '../../lib/db';
+import { createListFromTemplate, freshItem } from '../../lib/templates';
+import { parseQuickAddLines, withCategory } from '../../lib/quickAdd';
 import { CreateListFormSchema } from '../../lib/types';
 import type { CreateListForm } from '../../lib/types';
 
@@ -12,8 +17,35 @@ export function NewListPage() {
     currency: 'EUR',
     initialItems: '',
   });
+  const [templateId, setTemplateId] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const { data: templates } = useLiveQuery(getTemplates, [], 'templates-changed');
+  const { data: stores } = useLiveQuery(getStores, [], 'stores-changed');
+  const { data: productStats } = useLiveQuery(getProductStats, [], 'items-changed');
+  const { data: categories } = useLiveQuery(getCategories, [], 'categories-changed');
+  const template = templates?.find(t => t.id === templateId);
+  const initialItems = parseQuickAddLines(form.initialItems ?? '')
+    .map(item => withCategory(item, productStats ?? [], categories ?? []));
+
+  // Start from the profile's default currency
+  useEffect(() => {
+    getSettings().then(settings => setForm(prev => ({ ...prev, currency: settings.currency })));
+  }, []);
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const chosen = templates?.find(t => t.id === id);
+    if (chosen) {
+      setForm(prev => ({ ...prev, name: prev.name || chosen.name, currency: chosen.currency }));
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!template || !confirm(`Delete the template "${template.name}"?`)) return;
+    await deleteTemplate(template.id);
+    setTemplateId('');
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -23,32 +55,11 @@ export function NewListPage() {
       setErrors({});
       
       const validatedData = CreateListFormSchema.parse(form);
-      const newList = await createList({
-        name: validatedData.name,
-        currency: validatedData.currency,
-      });
-      
-      // Process initial items if provided
-      if (validatedData.initialItems && validatedData.initialItems.trim()) {
-        const items = validatedData.initialItems
-          .split(',')
-          .map(item => item.trim())
-          .filter(item => item.length > 0);
-        
-        // Create items in parallel
-        await Promise.all(
-          items.map(itemName => 
-            createItem({
-              listId: newList.id,
-              name: itemName,
-              qty: 1,
-              price: 0,
-              purchased: false,
-              createdAt: new Date(),
-            })
-          )
-        );
-      }
+      const listData = { name: validatedData.name, currency: validatedData.currency, storeId: validatedData.storeId };
+      // The list is saved together with the initial items as previewed
+      const newList = template
+        ? await createListFromTemplate(template, listData, initialItems)
+        : await createListWithItems(listData, initialItems.map(freshItem));
       
       navigate(`/list/${newList.id}`);
     } catch (error: unknown) {
@@ -72,6 +83,39 @@ export function NewListPage() {
       <TopBar title="Create New List" />
       <div className="container py-4">
         <form onSubmit={handleSubmit} className="space-y-4 max-w-md mx-auto">
+          {templates && templates.length > 0 && (
+            <div>
+              <label htmlFor="template" className="block text-sm font-medium mb-1">
+                Start From
+              </label>
+              <div className="flex gap-2">
+                <select
+                  id="template"
+                  value={templateId}
+                  onChange={(e) => handleTemplateChange(e.target.value)}
+                  className="w-full"
+                >
+                  <option value="">Blank list</option>
+                  {templates.map(t => (
+                    <option key={t.id} value={t.id}>
+                      {t.name} ({t.items.length} {t.items.length === 1 ? 'item' : 'items'})
+                    </option>
+                  ))}
+                </select>
+                {template && (
+                  <button
+                    type="button"
+                    className="btn btn-sm"
+                    onClick={handleDeleteTemplate}
+                    aria-label={`Delete template ${template.name}`}
+                  >
+                    🗑️
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
           <div>
             <label htmlFor="name" className="block text-sm font-medium mb-1">
               List Name
@@ -94,18 +138,33 @@ export function NewListPage() {
             <label htmlFor="currency" className="block text-sm font-medium mb-1">
               Currency
             </label>
-            <select
+            <CurrencySelect
               id="currency"
               value={form.currency}
-              onChange={(e) => setForm(prev => ({ ...prev, currency: e.target.value }))}
+              onChange={(currency) => setForm(prev => ({ ...prev, currency }))}
               className="w-full"
-            >
-              <option value="EUR">EUR (€)</option>
-              <option value="USD">USD ($)</option>
-              <option value="GBP">GBP (£)</option>
-            </select>
+            />
           </div>
 
+          {stores && stores.length > 0 && (
+            <div>
+              <label htmlFor="store" className="block text-sm font-medium mb-1">
+                Store <span className="text-fg-muted">(optional)</span>
+              </label>
+              <select
+                id="store"
+                value={form.storeId ?? ''}
+                onChange={(e) => setForm(prev => ({ ...prev, storeId: e.target.value || undefined }))}
+                className="w-full"
+              >
+                <option value="">Not set</option>
+                {stores.map(store => (
+                  <option key={store.id} value={store.id}>{store.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div>
             <label htmlFor="initialItems" className="block text-sm font-medium mb-1">
               Initial Items <span className="text-fg-muted">(optional)</span>
@@ -114,13 +173,15 @@ export function NewListPage() {
               id="initialItems"
               value={form.initialItems}
               onChange={(e) => setForm(prev => ({ ...prev, initialItems: e.target.value }))}
-              placeholder="Milk, Bread, Eggs (comma-separated)"
+              placeholder={'2x milk 1.29\n3 kg potatoes @ 0.99/kg\neggs (free range) #Dairy'}
               className="w-full"
               rows={3}
             />
             <p className="text-xs text-fg-muted mt-1">
-              Separate items with commas. You can add more details later.
+              One item per line or separated by commas{template && ", added to the template's items"}. Add a quantity,
+              a price, a #category or (notes) as you go, or fill in details later.
             </p>
+            <QuickAddPreview items={initialItems} currency={form.currency} className="mt-2" />
           </div>
 
           <div className="flex gap-3 pt-4">
@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import { TopBar } from '../../components/TopBar';
+import { PantryItemFormModal } from '../../components/PantryItemFormModal';
+import { useLiveQuery } from '../../hooks/useLiveQuery';
+import {
+  deletePantryItem,
+  getLists,
+  getPantryItems,
+  getSettings,
+  updatePantryItem,
+  updateSettings,
+} from '../../lib/db';
+import { addToRestockList, consumePantryItem, getRestockSuggestions, isLowStock, restockQuantity } from '../../lib/pantry';
+import type { PantryItem, ProfileSettings } from '../../lib/types';
+
+const selectClassName = 'w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm dark:border-neutral-800 dark:bg-neutral-900';
+
+function formatQuantity(quantity: number, unit: string): string {
+  return `${Number(quantity.toFixed(3))} ${unit}`;
+}
+
+export function PantryPage() {
+  const [showForm, setShowForm] = useState(false);
+  const [editingItem, setEditingItem] = useState<PantryItem | null>(null);
+
+  const { data: pantry } = useLiveQuery(getPantryItems, [], 'pantry-changed');
+  const { data: settings } = useLiveQuery(getSettings, [], 'settings-changed');
+  const { data: lists } = useLiveQuery(getLists, [], 'lists-changed');
+  const restockListId = lists?.some(list => list.id === settings?.restockListId) ? settings?.restockListId : undefined;
+  const { data: suggestions } = useLiveQuery(
+    () => getRestockSuggestions(restockListId),
+    [restockListId],
+    ['pantry-changed', 'items-changed']
+  );
+
+  const handleSettingsChange = async (updates: Partial<ProfileSettings>) => {
+    await updateSettings({ ...(await getSettings()), ...updates });
+  };
+
+  const handleRestock = async (pantryItems: PantryItem[]) => {
+    if (restockListId) {
+      await addToRestockList(restockListId, pantryItems);
+    }
+  };
+
+  const handleEdit = (pantryItem: PantryItem) => {
+    setEditingItem(pantryItem);
+    setShowForm(true);
+  };
+
+  const handleDelete = async (pantryItem: PantryItem) => {
+    if (confirm(`Stop tracking "${pantryItem.name}"?`)) {
+      await deletePantryItem(pantryItem.id);
+    }
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    setEditingItem(null);
+  };
+
+  return (
+    <>
+      <TopBar
+        title="Pantry"
+        action={
+          <button type="button" className="btn btn-sm primary" onClick={() => setShowForm(true)}>
+            Track Product
+          </button>
+        }
+      />
+      <main className="container-page py-4">
+        {!pantry || pantry.length === 0 ? (
+          <div className="card p-6 text-center">
+            <div className="mb-2 text-3xl">🥫</div>
+            <h2 className="mb-1 text-xl font-semibold">Nothing tracked yet</h2>
+            <p className="muted mb-3">
+              Track what you keep at home. Stock goes up as you buy and you are told when it runs low.
+            </p>
+            <button type="button" className="btn primary" onClick={() => setShowForm(true)}>
+              Track Product
+            </button>
+          </div>
+        ) : (
+          <div className="grid gap-4">
+            {/* Restocking */}
+            <div className="card p-4">
+              <h2 className="mb-4 text-xl font-semibold">Restock</h2>
+              <div className="space-y-3">
+                <div>
+                  <label htmlFor="restock-list" className="mb-1 block text-sm font-medium">
+                    Add low stock to
+                  </label>
+                  <select
+                    id="restock-list"
+                    className={selectClassName}
+                    value={restockListId ?? ''}
+                    onChange={(e) => handleSettingsChange({ restockListId: e.target.value || undefined })}
+                  >
+                    <option value="">Choose a list</option>
+                    {lists?.map(list => (
+                      <option key={list.id} value={list.id}>{list.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <label className="flex cursor-pointer items-center gap-3 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={settings?.autoRestock ?? false}
+                    onChange={(e) => handleSettingsChange({ autoRestock: e.target.checked })}
+                    disabled={!restockListId}
+                  />
+                  Add products automatically when they run low
+                </label>
+
+                {suggestions && suggestions.length > 0 ? (
+                  <>
+                    <ul className="divide-y divide-slate-200 dark:divide-neutral-800">
+                      {suggestions.map(pantryItem => (
+                        <li key={pantryItem.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                          <span>
+                            <span className="font-medium">{pantryItem.name}</span>
+                            <span className="muted">
+                              {' · '}{formatQuantity(pantryItem.quantity, pantryItem.unit)} left, buy {restockQuantity(pantryItem)}
+                            </span>
+                          </span>
+                          <button
+                            type="button"
+                            className="btn btn-sm"
+                            onClick={() => handleRestock([pantryItem])}
+                            disabled={!restockListId}
+                            aria-label={`Add ${pantryItem.name} to the list`}
+                          >
+                            Add
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                    <button
+                      type="button"
+                      className="btn w-full"
+                      onClick={() => handleRestock(suggestions)}
+                      disabled={!restockListId}
+                    >
+                      Add All to List
+                    </button>
+                  </>
+                ) : (
+                  <p className="muted text-sm">Everything is stocked.</p>
+                )}
+              </div>
+            </div>
+
+            {/* Stock */}
+            {pantry.map(pantryItem => {
+              const low = isLowStock(pantryItem);
+
+              return (
+                <div key={pantryItem.id} className="card p-4">
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <h3 className="font-semibold">{pantryItem.name}</h3>
+                      <p className="muted text-sm">
+                        <span className={low ? 'font-semibold text-red-600 dark:text-red-400' : undefined}>
+                          {formatQuantity(pantryItem.quantity, pantryItem.unit)}
+                          {low && ' · Low'}
+                        </span>
+                        {' · restock below '}{formatQuantity(pantryItem.minQuantity, pantryItem.unit)}
+                        {pantryItem.category && ` · ${pantryItem.category}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button type="button" className="btn btn-sm" onClick={() => handleEdit(pantryItem)}>
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        className="btn btn-sm"
+                        onClick={() => handleDelete(pantryItem)}
+                        aria-label={`Stop tracking ${pantryItem.name}`}
+                      >
+                        🗑️
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="mt-3 flex gap-2">
+                    <button
+                      type="button"
+                      className="btn btn-sm flex-1"
+                      onClick={() => consumePantryItem(pantryItem)}
+                      disabled={pantryItem.quantity <= 0}
+                      aria-label={`Use one ${pantryItem.unit} of ${pantryItem.name}`}
+                    >
+                      − Use 1
+                    </button>
+                    <button
+                      type="button"
+                      className="btn btn-sm flex-1"
+                      onClick={() => updatePantryItem(pantryItem.id, { quantity: pantryItem.quantity + 1 })}
+                      aria-label={`Add one ${pantryItem.unit} of ${pantryItem.name}`}
+                    >
+                      + Add 1
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      {showForm && (
+        <PantryItemFormModal editingItem={editingItem} onClose={handleCloseForm} />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,90 @@
+import { useParams } from 'react-router-dom';
+import { TopBar } from '../../components/TopBar';
+import { useLiveQuery } from '../../hooks/useLiveQuery';
+import { getPriceObservations, getStores } from '../../lib/db';
+import { formatCurrency } from '../../lib/currency';
+import { summarizePriceHistory } from '../../lib/prices';
+import { unitPriceLabel } from '../../lib/units';
+
+export function PriceHistoryPage() {
+  const { name = '' } = useParams<{ name: string }>();
+
+  const { data: observations, loading } = useLiveQuery(() => getPriceObservations(name), [name], 'prices-changed');
+  const { data: stores } = useLiveQuery(getStores, [], 'stores-changed');
+
+  const storeNames = new Map((stores ?? []).map(store => [store.id, store.name]));
+  const storeName = (storeId?: string) => (storeId && storeNames.get(storeId)) || 'No store';
+  const summaries = summarizePriceHistory(observations ?? []);
+
+  return (
+    <>
+      <TopBar title={name} />
+      <main className="container-page py-4">
+        {loading ? (
+          <div className="text-center">Loading...</div>
+        ) : summaries.length === 0 ? (
+          <div className="card p-6 text-center">
+            <div className="mb-2 text-3xl">🏷️</div>
+            <h2 className="mb-1 text-xl font-semibold">No prices yet</h2>
+            <p className="muted">Prices are recorded each time {name} is marked purchased.</p>
+          </div>
+        ) : (
+          <div className="grid gap-4">
+            {/* Per store */}
+            <div className="card p-4">
+              <h2 className="mb-4 text-xl font-semibold">By Store</h2>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="muted text-left">
+                    <th scope="col" className="py-1 font-medium">Store</th>
+                    <th scope="col" className="py-1 text-right font-medium">Min</th>
+                    <th scope="col" className="py-1 text-right font-medium">Avg</th>
+                    <th scope="col" className="py-1 text-right font-medium">Last</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summaries.map(summary => (
+                    <tr
+                      key={`${summary.storeId}-${summary.currency}-${summary.per}`}
+                      className="border-t border-slate-200 dark:border-neutral-800"
+                    >
+                      <td className="py-2">
+                        <div className="font-medium">{storeName(summary.storeId)}</div>
+                        <div className="muted text-xs">
+                          {summary.count} {summary.count === 1 ? 'purchase' : 'purchases'}
+                          {summary.per && ` · per ${unitPriceLabel(summary.per)}`}
+                        </div>
+                      </td>
+                      <td className="py-2 text-right">{formatCurrency(summary.min, summary.currency)}</td>
+                      <td className="py-2 text-right">{formatCurrency(summary.average, summary.currency)}</td>
+                      <td className="py-2 text-right">{formatCurrency(summary.last, summary.currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Every purchase, newest first */}
+            <div className="card p-4">
+              <h2 className="mb-4 text-xl font-semibold">Purchases</h2>
+              <ul className="divide-y divide-slate-200 dark:divide-neutral-800">
+                {[...(observations ?? [])].reverse().map(observation => (
+                  <li key={observation.id} className="flex justify-between gap-3 py-2 text-sm">
+                    <span>
+                      {observation.observedAt.toLocaleDateString()}
+                      <span className="muted"> · {storeName(observation.storeId)}</span>
+                    </span>
+                    <span>
+                      {formatCurrency(observation.price, observation.currency)}
+                      {observation.unit && observation.unit !== 'pcs' && `/${observation.unit}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,223 @@
+import { useRef, useState } from 'react';
+import {
+  createBackup,
+  parseBackup,
+  previewRestore,
+  restoreBackup,
+  serializeBackup,
+} from '../../lib/backup';
+import type { BackupFile, BackupStore, RestoreMode, RestoreSummary } from '../../lib/backup';
+import { FileUtils } from '../../lib/utils';
+
+const STORE_LABELS: Record<BackupStore, string> = {
+  lists: 'Lists',
+  items: 'Items',
+  productStats: 'Product stats',
+  budgets: 'Budgets',
+  settings: 'Settings',
+  templates: 'Templates',
+  pantry: 'Pantry',
+  stores: 'Stores',
+  priceObservations: 'Price history',
+  categories: 'Categories',
+  exchangeRates: 'Exchange rates',
+};
+
+export function BackupSection() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingBackup, setPendingBackup] = useState<BackupFile | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [summary, setSummary] = useState<RestoreSummary | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setStatus(null);
+    try {
+      const backup = await createBackup();
+      FileUtils.download(
+        `shopping-list-backup-${FileUtils.dateStamp()}.json`,
+        serializeBackup(backup),
+        'application/json'
+      );
+      setStatus('Backup downloaded.');
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      setStatus('Could not create backup.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const loadPreview = async (backup: BackupFile, restoreMode: RestoreMode) => {
+    setSummary(await previewRestore(backup, restoreMode));
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsBusy(true);
+    setStatus(null);
+    setErrors([]);
+    setSummary(null);
+    setPendingBackup(null);
+    try {
+      const result = parseBackup(await FileUtils.readAsText(file));
+      if (!result.ok) {
+        setErrors(result.errors);
+        return;
+      }
+      setPendingBackup(result.backup);
+      await loadPreview(result.backup, mode);
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      setErrors(['Could not read the selected file.']);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleModeChange = async (newMode: RestoreMode) => {
+    setMode(newMode);
+    if (pendingBackup) {
+      await loadPreview(pendingBackup, newMode);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pendingBackup) return;
+    if (mode === 'replace' && !confirm('Replace all data on this device with the backup?')) return;
+
+    setIsBusy(true);
+    try {
+      await restoreBackup(pendingBackup, mode);
+      setStatus('Backup restored.');
+      setPendingBackup(null);
+      setSummary(null);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      setStatus('Restore failed. No changes were made.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setPendingBackup(null);
+    setSummary(null);
+  };
+
+  return (
+    <div className="card p-4">
+      <h2 className="mb-4 text-xl font-semibold">Backup & Restore</h2>
+
+      <div className="space-y-4">
+        <p className="muted text-sm">
+          Save everything on this device to a JSON file, or restore a backup from another device.
+        </p>
+
+        <div className="flex gap-3">
+          <button type="button" className="btn flex-1" onClick={handleExport} disabled={isBusy}>
+            Export Backup
+          </button>
+          <button
+            type="button"
+            className="btn flex-1"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isBusy}
+          >
+            Restore Backup
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleFileSelected}
+            aria-label="Backup file"
+          />
+        </div>
+
+        {errors.length > 0 && (
+          <div role="alert" className="text-sm text-red-600 dark:text-red-400">
+            <p className="font-medium">This file can't be restored:</p>
+            <ul className="mt-1 list-disc pl-5">
+              {errors.slice(0, 10).map(error => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+            {errors.length > 10 && <p className="mt-1">…and {errors.length - 10} more</p>}
+          </div>
+        )}
+
+        {pendingBackup && summary && (
+          <div className="space-y-3">
+            <p className="text-sm">
+              Backup from {pendingBackup.exportedAt.toLocaleString()}
+            </p>
+
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium">Restore mode</legend>
+              <label className="flex cursor-pointer items-center gap-3 text-sm">
+                <input
+                  type="radio"
+                  name="restore-mode"
+                  checked={mode === 'merge'}
+                  onChange={() => handleModeChange('merge')}
+                />
+                Merge — keep newer local changes
+              </label>
+              <label className="flex cursor-pointer items-center gap-3 text-sm">
+                <input
+                  type="radio"
+                  name="restore-mode"
+                  checked={mode === 'replace'}
+                  onChange={() => handleModeChange('replace')}
+                />
+                Replace — discard everything on this device
+              </label>
+            </fieldset>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="muted text-left">
+                  <th className="font-medium">Data</th>
+                  <th className="font-medium">New</th>
+                  <th className="font-medium">Updated</th>
+                  <th className="font-medium">Conflicts</th>
+                  <th className="font-medium">{mode === 'replace' ? 'Removed' : 'Kept local'}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(STORE_LABELS) as BackupStore[]).map(store => (
+                  <tr key={store}>
+                    <td>{STORE_LABELS[store]}</td>
+                    <td>{summary[store].added}</td>
+                    <td>{summary[store].updated}</td>
+                    <td>{summary[store].conflicts}</td>
+                    <td>{mode === 'replace' ? summary[store].removed : summary[store].kept}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="flex gap-3">
+              <button type="button" className="btn flex-1" onClick={handleCancel} disabled={isBusy}>
+                Cancel
+              </button>
+              <button type="button" className="btn primary flex-1" onClick={handleRestore} disabled={isBusy}>
+                {isBusy ? 'Restoring...' : 'Restore'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {status && <p className="muted text-sm" role="status">{status}</p>}
+      </div>
+    </div>
+  );
+}
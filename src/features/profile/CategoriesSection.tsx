@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import { useLiveQuery } from '../../hooks/useLiveQuery';
+import {
+  createCategory,
+  deleteCategory,
+  getCategories,
+  mergeCategories,
+  reorderCategories,
+  updateCategory,
+} from '../../lib/db';
+import { findCategory } from '../../lib/categories';
+import { CategoryFormSchema } from '../../lib/types';
+import type { Category } from '../../lib/types';
+
+const inputClassName = 'rounded-md border border-slate-200 bg-white px-3 py-2 text-sm dark:border-neutral-800 dark:bg-neutral-900';
+const DEFAULT_COLOR = '#6b7280';
+
+export function CategoriesSection() {
+  const { data: categories } = useLiveQuery(getCategories, [], 'categories-changed');
+  const [newName, setNewName] = useState('');
+  const [newIcon, setNewIcon] = useState('');
+  const [mergeSource, setMergeSource] = useState('');
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const all = categories ?? [];
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = CategoryFormSchema.safeParse({ name: newName, icon: newIcon || undefined, color: DEFAULT_COLOR });
+    if (!result.success) {
+      setError(result.error.errors[0].message);
+      return;
+    }
+    if (findCategory(all, result.data.name)) {
+      setError(`"${result.data.name}" is already a category.`);
+      return;
+    }
+
+    await createCategory(result.data);
+    setNewName('');
+    setNewIcon('');
+    setError(null);
+  };
+
+  // Renaming onto another category's name merges the two
+  const handleRename = async (category: Category, input: HTMLInputElement) => {
+    const name = input.value.trim();
+    if (!name || name === category.name) {
+      input.value = category.name;
+      return;
+    }
+
+    const existing = findCategory(all, name);
+    if (existing && existing.id !== category.id) {
+      if (confirm(`"${existing.name}" already exists. Merge "${category.name}" into it?`)) {
+        await mergeCategories(category.id, existing.id);
+      } else {
+        input.value = category.name;
+      }
+      return;
+    }
+
+    await updateCategory(category.id, { name });
+  };
+
+  const handleIconChange = async (category: Category, value: string) => {
+    const result = CategoryFormSchema.shape.icon.safeParse(value.trim() || undefined);
+    if (result.success && result.data !== category.icon) {
+      await updateCategory(category.id, { icon: result.data });
+    }
+  };
+
+  const handleMove = async (from: number, to: number) => {
+    if (to < 0 || to >= all.length || from === to) return;
+    const ids = all.map(category => category.id);
+    const [moved] = ids.splice(from, 1);
+    ids.splice(to, 0, moved);
+    await reorderCategories(ids);
+  };
+
+  const handleMerge = async () => {
+    const source = all.find(category => category.id === mergeSource);
+    const target = all.find(category => category.id === mergeTarget);
+    if (!source || !target || source === target) return;
+
+    if (confirm(`Merge "${source.name}" into "${target.name}"? Everything in "${source.name}" moves over.`)) {
+      await mergeCategories(source.id, target.id);
+      setMergeSource('');
+      setMergeTarget('');
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (confirm(`Delete the category "${category.name}"? Items in it become uncategorized.`)) {
+      await deleteCategory(category.id);
+    }
+  };
+
+  return (
+    <div className="card p-4">
+      <h2 className="mb-4 text-xl font-semibold">Categories</h2>
+
+      <div className="space-y-4">
+        <p className="muted text-sm">
+          Drag to reorder. Renaming a category updates every item, budget and store aisle that uses it.
+        </p>
+
+        {all.length > 0 && (
+          <ol className="space-y-2">
+            {all.map((category, index) => (
+              <li
+                key={category.id}
+                className={`flex items-center gap-2 ${dragIndex === index ? 'opacity-50' : ''}`}
+                draggable
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => {
+                  if (dragIndex !== null) handleMove(dragIndex, index);
+                  setDragIndex(null);
+                }}
+                onDragEnd={() => setDragIndex(null)}
+              >
+                <span className="cursor-grab text-slate-400" aria-hidden="true">⠿</span>
+                <input
+                  type="text"
+                  className={`${inputClassName} w-12 text-center`}
+                  defaultValue={category.icon ?? ''}
+                  onBlur={(e) => handleIconChange(category, e.target.value)}
+                  aria-label={`Icon for ${category.name}`}
+                />
+                <input
+                  type="text"
+                  className={`${inputClassName} min-w-0 flex-1`}
+                  defaultValue={category.name}
+                  onBlur={(e) => handleRename(category, e.target)}
+                  aria-label={`Name of ${category.name}`}
+                />
+                <input
+                  type="color"
+                  className="h-9 w-9 shrink-0 cursor-pointer rounded-md border border-slate-200 dark:border-neutral-800"
+                  defaultValue={category.color ?? DEFAULT_COLOR}
+                  onBlur={(e) => e.target.value !== category.color && updateCategory(category.id, { color: e.target.value })}
+                  aria-label={`Color for ${category.name}`}
+                />
+                <button
+                  type="button"
+                  className="btn btn-sm"
+                  onClick={() => handleMove(index, index - 1)}
+                  disabled={index === 0}
+                  aria-label={`Move ${category.name} up`}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-sm"
+                  onClick={() => handleDelete(category)}
+                  aria-label={`Delete ${category.name}`}
+                >
+                  🗑️
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <form className="flex gap-2" onSubmit={handleAdd}>
+          <input
+            type="text"
+            className={`${inputClassName} w-12 text-center`}
+            value={newIcon}
+            onChange={(e) => setNewIcon(e.target.value)}
+            placeholder="🏷️"
+            aria-label="New category icon"
+          />
+          <input
+            type="text"
+            className={`${inputClassName} min-w-0 flex-1`}
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="e.g., Baby"
+            aria-label="New category name"
+          />
+          <button type="submit" className="btn" disabled={!newName.trim()}>
+            Add
+          </button>
+        </form>
+
+        {all.length > 1 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span>Merge</span>
+            <select
+              className={`${inputClassName} min-w-0 flex-1`}
+              value={mergeSource}
+              onChange={(e) => setMergeSource(e.target.value)}
+              aria-label="Category to merge"
+            >
+              <option value="">Choose…</option>
+              {all.map(category => (
+                <option key={category.id} value={category.id}>{category.name}</option>
+              ))}
+            </select>
+            <span>into</span>
+            <select
+              className={`${inputClassName} min-w-0 flex-1`}
+              value={mergeTarget}
+              onChange={(e) => setMergeTarget(e.target.value)}
+              aria-label="Category to merge into"
+            >
+              <option value="">Choose…</option>
+              {all.filter(category => category.id !== mergeSource).map(category => (
+                <option key={category.id} value={category.id}>{category.name}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className="btn btn-sm"
+              onClick={handleMerge}
+              disabled={!mergeSource || !mergeTarget || mergeSource === mergeTarget}
+            >
+              Merge
+            </button>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useRef, useState } from 'react';
+import { CurrencySelect } from '../../components/CurrencySelect';
+import { useLiveQuery } from '../../hooks/useLiveQuery';
+import { deleteExchangeRate, getExchangeRates, saveExchangeRates } from '../../lib/db';
+import { RATE_BASE_CURRENCY } from '../../lib/currency';
+import { parseExchangeRateFile } from '../../lib/exchangeRates';
+import { FileUtils } from '../../lib/utils';
+import type { ExchangeRate } from '../../lib/types';
+
+interface ExchangeRatesSectionProps {
+  currency: string;
+}
+
+const inputClassName = 'rounded-md border border-slate-200 bg-white px-3 py-2 text-sm dark:border-neutral-800 dark:bg-neutral-900';
+
+export function ExchangeRatesSection({ currency }: ExchangeRatesSectionProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { data: rates } = useLiveQuery(
+    async () => (await getExchangeRates()).sort((a, b) => a.currency.localeCompare(b.currency)),
+    [],
+    'exchange-rates-changed'
+  );
+  const [newCurrency, setNewCurrency] = useState('USD');
+  const [newRate, setNewRate] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const existing = [RATE_BASE_CURRENCY, ...(rates ?? []).map(rate => rate.currency)];
+  const canAdd = !existing.includes(newCurrency) && Number(newRate) > 0;
+
+  const handleAdd = async () => {
+    if (!canAdd) return;
+    await saveExchangeRates([{ currency: newCurrency, rate: Number(newRate), updatedAt: new Date() }]);
+    setNewRate('');
+  };
+
+  const handleRateChange = async (rate: ExchangeRate, value: string) => {
+    const parsed = Number(value);
+    if (parsed > 0 && parsed !== rate.rate) {
+      await saveExchangeRates([{ ...rate, rate: parsed, updatedAt: new Date() }]);
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setStatus(null);
+    setErrors([]);
+    try {
+      const result = parseExchangeRateFile(await FileUtils.readAsText(file));
+      if (result.rates.length > 0) {
+        await saveExchangeRates(result.rates);
+      }
+      setStatus(`Imported ${result.rates.length} ${result.rates.length === 1 ? 'rate' : 'rates'}.`);
+      setErrors(result.errors);
+    } catch (error) {
+      console.error('Error importing exchange rates:', error);
+      setStatus('Could not read the selected file.');
+    }
+  };
+
+  return (
+    <div className="card p-4">
+      <h2 className="mb-4 text-xl font-semibold">Exchange Rates</h2>
+
+      <div className="space-y-4">
+        <p className="muted text-sm">
+          Rates are per 1 {RATE_BASE_CURRENCY}. Lists in other currencies are converted to {currency} in budgets and
+          insights; currencies without a rate are counted unconverted.
+        </p>
+
+        {rates && rates.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="muted text-left">
+                <th scope="col" className="py-1 font-medium">Currency</th>
+                <th scope="col" className="py-1 font-medium">1 {RATE_BASE_CURRENCY} =</th>
+                <th scope="col" className="py-1"><span className="sr-only">Actions</span></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rates.map(rate => (
+                <tr key={rate.currency} className="border-t border-slate-200 dark:border-neutral-800">
+                  <td className="py-2 font-medium">{rate.currency}</td>
+                  <td className="py-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      className={`${inputClassName} w-32`}
+                      defaultValue={rate.rate}
+                      onBlur={(e) => handleRateChange(rate, e.target.value)}
+                      aria-label={`${rate.currency} per ${RATE_BASE_CURRENCY}`}
+                    />
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      className="btn btn-sm"
+                      onClick={() => deleteExchangeRate(rate.currency)}
+                      aria-label={`Remove ${rate.currency} rate`}
+                    >
+                      🗑️
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="flex gap-2">
+          <CurrencySelect
+            id="new-rate-currency"
+            className={`${inputClassName} min-w-0 flex-1`}
+            value={newCurrency}
+            onChange={setNewCurrency}
+            exclude={existing}
+          />
+          <input
+            type="number"
+            min="0"
+            step="any"
+            className={`${inputClassName} w-28`}
+            value={newRate}
+            onChange={(e) => setNewRate(e.target.value)}
+            placeholder="Rate"
+            aria-label={`${newCurrency} per ${RATE_BASE_CURRENCY}`}
+          />
+          <button type="button" className="btn" onClick={handleAdd} disabled={!canAdd}>
+            Add
+          </button>
+        </div>
+
+        <button type="button" className="btn w-full" onClick={() => fileInputRef.current?.click()}>
+          Import Rates (JSON or CSV)
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          className="hidden"
+          onChange={handleFileSelected}
+        />
+
+        {status && <p className="muted text-sm" role="status">{status}</p>}
+        {errors.length > 0 && (
+          <ul className="max-h-32 overflow-y-auto text-sm text-red-600 dark:text-red-400">
+            {errors.map((error, index) => <li key={index}>{error}</li>)}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { useLiveQuery } from '../../hooks/useLiveQuery';
+import { checkIntegrity, clearQuarantine, getQuarantinedRecords } from '../../lib/db';
+import type { IntegrityIssue } from '../../lib/integrity';
+import { FileUtils } from '../../lib/utils';
+
+export function IntegritySection() {
+  const [issues, setIssues] = useState<IntegrityIssue[] | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const { data: quarantined } = useLiveQuery(getQuarantinedRecords, [], 'quarantine-changed');
+
+  const handleCheck = async () => {
+    setIsBusy(true);
+    setStatus(null);
+    try {
+      const found = await checkIntegrity();
+      setIssues(found);
+      if (found.length === 0) setStatus('No problems found.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRepair = async () => {
+    setIsBusy(true);
+    try {
+      const repaired = await checkIntegrity({ repair: true });
+      setIssues(null);
+      setStatus(`Repaired ${repaired.length} ${repaired.length === 1 ? 'problem' : 'problems'}.`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDownloadQuarantine = () => {
+    FileUtils.download(
+      `shopping-list-quarantine-${FileUtils.dateStamp()}.json`,
+      JSON.stringify(quarantined ?? [], null, 2),
+      'application/json'
+    );
+  };
+
+  const handleDiscardQuarantine = async () => {
+    if (confirm('Delete the quarantined records for good? This cannot be undone.')) {
+      await clearQuarantine();
+    }
+  };
+
+  return (
+    <div className="card p-4">
+      <h2 className="mb-4 text-xl font-semibold">Data Check</h2>
+
+      <div className="space-y-4">
+        <p className="muted text-sm">
+          Look for items whose list is gone and for lists or items pointing at deleted stores or lists.
+          Repairing moves stray items to a "Recovered items" list and clears broken references.
+        </p>
+
+        <div className="flex gap-3">
+          <button type="button" className="btn flex-1" onClick={handleCheck} disabled={isBusy}>
+            Check Data
+          </button>
+          {issues && issues.length > 0 && (
+            <button type="button" className="btn primary flex-1" onClick={handleRepair} disabled={isBusy}>
+              Repair {issues.length}
+            </button>
+          )}
+        </div>
+
+        {issues && issues.length > 0 && (
+          <ul className="list-disc pl-5 text-sm" aria-label="Problems found">
+            {issues.slice(0, 20).map(issue => (
+              <li key={`${issue.kind}-${issue.id}`}>{issue.description}</li>
+            ))}
+            {issues.length > 20 && <li className="muted">…and {issues.length - 20} more</li>}
+          </ul>
+        )}
+
+        {status && <p className="muted text-sm" role="status">{status}</p>}
+
+        {quarantined && quarantined.length > 0 && (
+          <div className="space-y-3 border-t border-slate-200 pt-4 dark:border-neutral-800">
+            <p className="text-sm">
+              {quarantined.length} damaged {quarantined.length === 1 ? 'record was' : 'records were'} set
+              aside because {quarantined.length === 1 ? 'it' : 'they'} could not be read.
+            </p>
+            <div className="flex gap-3">
+              <button type="button" className="btn flex-1" onClick={handleDownloadQuarantine}>
+                Download
+              </button>
+              <button type="button" className="btn flex-1" onClick={handleDiscardQuarantine}>
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
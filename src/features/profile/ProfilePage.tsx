@@ -1,15 +1,17 @@
 import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { TopBar } from '../../components/TopBar';
 import { useLiveQuery } from '../../hooks/useLiveQuery';
 import { getLists, getSettings, updateSettings } from '../../lib/db';
 import { setTheme } from '../../lib/theme';
 import type { ProfileSettings, ThemePref } from '../../lib/types';
-
-const CURRENCIES = [
-  { code: 'EUR', symbol: '€', name: 'Euro' },
-  { code: 'USD', symbol: '$', name: 'US Dollar' },
-  { code: 'GBP', symbol: '£', name: 'British Pound' },
-];
+import { CurrencySelect } from '../../components/CurrencySelect';
+import { BackupSection } from './BackupSection';
+import { IntegritySection } from './IntegritySection';
+import { ExchangeRatesSection } from './ExchangeRatesSection';
+import { StoresSection } from './StoresSection';
+import { CategoriesSection } from './CategoriesSection';
+import { SyncSection } from './SyncSection';
 
 const THEMES: { value: ThemePref; label: string; icon: string }[] = [
   { value: 'light', label: 'Light', icon: '☀️' },
@@ -33,9 +35,9 @@ export function ProfilePage() {
   const handleSettingsChange = async (updates: Partial<ProfileSettings>) => {
     if (!settings) return;
     
-    const newSettings = { ...settings, ...updates };
-    setSettingsState(newSettings);
-    await updateSettings(newSettings);
+    setSettingsState({ ...settings, ...updates });
+    // Merge into the stored settings, which other sections (e.g. Sync) also write
+    await updateSettings({ ...(await getSettings()), ...updates });
     
     // Apply theme change immediately
     if (updates.theme) {
@@ -79,6 +81,9 @@ export function ProfilePage() {
                 <div className="muted">Active Lists</div>
               </div>
             </div>
+            <Link to="/insights" className="btn mt-4 w-full">
+              View Spending Insights →
+            </Link>
           </div>
 
           {/* Theme Settings */}
@@ -119,18 +124,13 @@ export function ProfilePage() {
                 <label htmlFor="currency-select" className="text-sm font-medium">
                   Default Currency
                 </label>
-                <select
+                <CurrencySelect
                   id="currency-select"
                   className="w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm dark:border-neutral-800 dark:bg-neutral-900"
                   value={settings.currency}
-                  onChange={(e) => handleSettingsChange({ currency: e.target.value })}
-                >
-                  {CURRENCIES.map((currency) => (
-                    <option key={currency.code} value={currency.code}>
-                      {currency.name} ({currency.symbol})
-                    </option>
-                  ))}
-                </select>
+                  onChange={(currency) => handleSettingsChange({ currency })}
+                />
+                <p className="muted text-sm">Budgets and insights are shown in this currency.</p>
               </div>
 
               <div className="space-y-2">
@@ -174,6 +174,24 @@ export function ProfilePage() {
             </div>
           </div>
 
+          {/* Exchange Rates */}
+          <ExchangeRatesSection currency={settings.currency} />
+
+          {/* Stores */}
+          <StoresSection />
+
+          {/* Categories */}
+          <CategoriesSection />
+
+          {/* Sync */}
+          <SyncSection />
+
+          {/* Backup & Restore */}
+          <BackupSection />
+
+          {/* Data Check */}
+          <IntegritySection />
+
           {/* About */}
           <div className="card p-4">
             <h2 className="mb-4 text-xl font-semibold">About</h2>
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { StoreAislesModal } from '../../components/StoreAislesModal';
+import { useLiveQuery } from '../../hooks/useLiveQuery';
+import { createStore, deleteStore, getCategories, getStores, updateStore } from '../../lib/db';
+import { StoreFormSchema } from '../../lib/types';
+import type { Store } from '../../lib/types';
+
+const inputClassName = 'rounded-md border border-slate-200 bg-white px-3 py-2 text-sm dark:border-neutral-800 dark:bg-neutral-900';
+
+export function StoresSection() {
+  const { data: stores } = useLiveQuery(getStores, [], 'stores-changed');
+  const { data: categories } = useLiveQuery(getCategories, [], 'categories-changed');
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [aislesStore, setAislesStore] = useState<Store | null>(null);
+
+  const isDuplicate = (name: string, except?: Store) =>
+    (stores ?? []).some(store => store.id !== except?.id && store.name.toLowerCase() === name.toLowerCase());
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = StoreFormSchema.safeParse({ name: newName });
+    if (!result.success) {
+      setError(result.error.errors[0].message);
+      return;
+    }
+    if (isDuplicate(result.data.name)) {
+      setError(`"${result.data.name}" is already a store.`);
+      return;
+    }
+
+    await createStore(result.data);
+    setNewName('');
+    setError(null);
+  };
+
+  const handleRename = async (store: Store, value: string) => {
+    const result = StoreFormSchema.safeParse({ name: value });
+    if (result.success && result.data.name !== store.name && !isDuplicate(result.data.name, store)) {
+      await updateStore(store.id, result.data);
+    }
+  };
+
+  const handleDelete = async (store: Store) => {
+    if (confirm(`Delete the store "${store.name}"? Its price history is kept without a store.`)) {
+      await deleteStore(store.id);
+    }
+  };
+
+  return (
+    <div className="card p-4">
+      <h2 className="mb-4 text-xl font-semibold">Stores</h2>
+
+      <div className="space-y-4">
+        <p className="muted text-sm">
+          Set a store on a list (or a single item) and the price paid is remembered per store each time you check an
+          item off.
+        </p>
+
+        {stores && stores.length > 0 && (
+          <ul className="space-y-2">
+            {stores.map(store => (
+              <li key={store.id} className="flex gap-2">
+                <input
+                  type="text"
+                  className={`${inputClassName} min-w-0 flex-1`}
+                  defaultValue={store.name}
+                  onBlur={(e) => handleRename(store, e.target.value)}
+                  aria-label={`Name of ${store.name}`}
+                />
+                <button type="button" className="btn btn-sm" onClick={() => setAislesStore(store)}>
+                  Aisles
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-sm"
+                  onClick={() => handleDelete(store)}
+                  aria-label={`Delete ${store.name}`}
+                >
+                  🗑️
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form className="flex gap-2" onSubmit={handleAdd}>
+          <input
+            type="text"
+            className={`${inputClassName} min-w-0 flex-1`}
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="e.g., Corner Market"
+            aria-label="New store name"
+          />
+          <button type="submit" className="btn" disabled={!newName.trim()}>
+            Add
+          </button>
+        </form>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>}
+      </div>
+
+      {aislesStore && (
+        <StoreAislesModal
+          store={aislesStore}
+          categoryNames={(categories ?? []).map(category => category.name)}
+          onClose={() => setAislesStore(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { useLiveQuery } from '../../hooks/useLiveQuery';
+import { getSettings, updateSettings } from '../../lib/db';
+import { HttpSyncAdapter } from '../../lib/httpSyncAdapter';
+import { getSyncEndpoint, getSyncStatus, setSyncEndpoint, syncNow } from '../../lib/sync';
+
+export function SyncSection() {
+  const [endpoint, setEndpoint] = useState(getSyncEndpoint() ?? '');
+  const [displayName, setDisplayName] = useState('');
+  const { data: status } = useLiveQuery(getSyncStatus, [], 'sync-status-changed');
+
+  useEffect(() => {
+    getSettings().then(settings => setDisplayName(settings.displayName ?? ''));
+  }, []);
+
+  const handleDisplayNameBlur = async () => {
+    const settings = await getSettings();
+    const trimmed = displayName.trim() || undefined;
+    if (trimmed !== settings.displayName) {
+      await updateSettings({ ...settings, displayName: trimmed });
+    }
+  };
+
+  const savedEndpoint = getSyncEndpoint();
+  const isDirty = endpoint.trim() !== (savedEndpoint ?? '');
+
+  const handleSave = () => {
+    setSyncEndpoint(endpoint);
+    if (endpoint.trim()) {
+      syncNow(new HttpSyncAdapter(endpoint.trim())).catch(() => {
+        // Failure is reported through the sync status
+      });
+    }
+  };
+
+  const handleSyncNow = () => {
+    if (!savedEndpoint) return;
+    syncNow(new HttpSyncAdapter(savedEndpoint)).catch(() => {
+      // Failure is reported through the sync status
+    });
+  };
+
+  return (
+    <div className="card p-4">
+      <h2 className="mb-4 text-xl font-semibold">Sync</h2>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <label htmlFor="sync-endpoint" className="text-sm font-medium">
+            Sync Server URL
+          </label>
+          <input
+            id="sync-endpoint"
+            type="url"
+            className="w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm dark:border-neutral-800 dark:bg-neutral-900"
+            value={endpoint}
+            onChange={(e) => setEndpoint(e.target.value)}
+            placeholder="http://localhost:8787"
+          />
+          <p className="muted">
+            Lists, items and budgets are shared with every device using the same server. Leave empty to keep data on this device only.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="sync-display-name" className="text-sm font-medium">
+            Your Name
+          </label>
+          <input
+            id="sync-display-name"
+            type="text"
+            className="w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm dark:border-neutral-800 dark:bg-neutral-900"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            onBlur={handleDisplayNameBlur}
+            placeholder="Shown to others viewing the same list"
+          />
+        </div>
+
+        <div className="flex gap-3">
+          <button type="button" className="btn flex-1" onClick={handleSave} disabled={!isDirty}>
+            {endpoint.trim() ? 'Save' : 'Turn Off Sync'}
+          </button>
+          <button
+            type="button"
+            className="btn primary flex-1"
+            onClick={handleSyncNow}
+            disabled={!savedEndpoint || isDirty || status?.state === 'syncing'}
+          >
+            {status?.state === 'syncing' ? 'Syncing...' : 'Sync Now'}
+          </button>
+        </div>
+
+        {status && status.state !== 'disabled' && (
+          <p className="muted text-sm" role="status">
+            {status.state === 'error'
+              ? `Last sync failed: ${status.error}`
+              : status.lastSyncedAt
+                ? `Last synced ${status.lastSyncedAt.toLocaleString()}`
+                : 'Not synced yet'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
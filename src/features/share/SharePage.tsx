@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { TopBar } from '../../components/TopBar';
+import { useLiveQuery } from '../../hooks/useLiveQuery';
+import { formatCurrency } from '../../lib/currency';
+import { decodeSharePayload, importSharedList } from '../../lib/share';
+import { formatQuantity } from '../../lib/units';
+
+export function SharePage() {
+  const { payload } = useParams<{ payload: string }>();
+  const navigate = useNavigate();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: shared, loading } = useLiveQuery(
+    () => decodeSharePayload(payload ?? ''),
+    [payload]
+  );
+
+  const handleSave = async () => {
+    if (!shared || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      const list = await importSharedList(shared);
+      navigate(`/list/${list.id}`, { replace: true });
+    } catch (error) {
+      console.error('Error saving shared list:', error);
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <>
+        <TopBar title="Shared List" />
+        <main className="container-page py-4">
+          <div className="text-center">Loading shared list...</div>
+        </main>
+      </>
+    );
+  }
+
+  if (!shared) {
+    return (
+      <>
+        <TopBar title="Shared List" />
+        <main className="container-page py-4">
+          <div className="card p-6 text-center">
+            <div className="mb-2 text-3xl">🔗</div>
+            <h2 className="mb-1 text-xl font-semibold">Link not valid</h2>
+            <p className="muted">This share link is incomplete or was created by an incompatible version.</p>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  const total = shared.items.reduce((sum, item) => sum + item.qty * item.price, 0);
+
+  return (
+    <>
+      <TopBar title="Shared List" />
+      <main className="container-page py-4">
+        <div className="space-y-4">
+          <div className="card p-4">
+            <h2 className="text-xl font-semibold">{shared.name}</h2>
+            <p className="muted">
+              {shared.items.length} {shared.items.length === 1 ? 'item' : 'items'}
+              {total > 0 && ` · ${formatCurrency(total, shared.currency)}`}
+            </p>
+          </div>
+
+          {shared.items.length > 0 && (
+            <ul className="card divide-y divide-slate-200 p-0 dark:divide-neutral-800">
+              {shared.items.map((item, index) => (
+                <li key={index} className="flex items-center justify-between gap-3 px-4 py-3">
+                  <div>
+                    <div className={item.purchased ? 'line-through muted' : ''}>{item.name}</div>
+                    {(item.category || item.notes) && (
+                      <div className="muted text-sm">
+                        {[item.category, item.notes].filter(Boolean).join(' · ')}
+                      </div>
+                    )}
+                  </div>
+                  <div className="text-right text-sm">
+                    {formatQuantity(item.qty, item.unit) && (
+                      <span className="mr-2">{formatQuantity(item.qty, item.unit)}</span>
+                    )}
+                    {item.price > 0 && formatCurrency(item.qty * item.price, shared.currency)}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-3">
+            <button type="button" className="btn flex-1" onClick={() => navigate('/')}>
+              Cancel
+            </button>
+            <button type="button" className="btn primary flex-1" onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save to My Lists'}
+            </button>
+          </div>
+        </div>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,112 @@
+import { TopBar } from '../../components/TopBar';
+import { useLiveQuery } from '../../hooks/useLiveQuery';
+import { getDeletedLists, getSettings, purgeLists, restoreList, updateSettings } from '../../lib/db';
+import { emptyExpiredTrash, purgeDate, trashRetentionDays, TRASH_RETENTION_OPTIONS } from '../../lib/trash';
+import { AccessibilityManager } from '../../lib/utils';
+import type { List } from '../../lib/types';
+
+const retentionLabel = (days: number) => days === 0 ? 'Never' : days === 365 ? 'After a year' : `After ${days} days`;
+
+export function TrashPage() {
+  const { data: deletedLists, loading } = useLiveQuery(getDeletedLists, [], ['lists-changed', 'items-changed']);
+  const { data: settings } = useLiveQuery(getSettings, [], 'settings-changed');
+  const retentionDays = settings ? trashRetentionDays(settings) : null;
+
+  const handleRestore = async (list: List) => {
+    if (await restoreList(list.id)) {
+      AccessibilityManager.announce(`Restored ${list.name}`);
+    }
+  };
+
+  const handleDeleteForever = async (list: List) => {
+    if (confirm(`Delete "${list.name}" and its items for good? This cannot be undone.`)) {
+      await purgeLists([list.id]);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!deletedLists?.length) return;
+    if (confirm(`Delete ${deletedLists.length} ${deletedLists.length === 1 ? 'list' : 'lists'} for good? This cannot be undone.`)) {
+      await purgeLists(deletedLists.map(({ list }) => list.id));
+    }
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    await updateSettings({ ...(await getSettings()), trashRetentionDays: days });
+    await emptyExpiredTrash();
+  };
+
+  return (
+    <>
+      <TopBar
+        title="Trash"
+        action={
+          deletedLists && deletedLists.length > 0 ? (
+            <button type="button" className="btn btn-sm" onClick={handleEmptyTrash}>
+              Empty Trash
+            </button>
+          ) : undefined
+        }
+      />
+      <main className="container-page py-4">
+        {retentionDays !== null && (
+          <div className="muted mb-4 flex items-center gap-3 text-sm">
+            <label htmlFor="trash-retention">Delete lists for good</label>
+            <select
+              id="trash-retention"
+              value={retentionDays}
+              onChange={(e) => handleRetentionChange(Number(e.target.value))}
+            >
+              {TRASH_RETENTION_OPTIONS.map(days => (
+                <option key={days} value={days}>{retentionLabel(days)}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center">Loading...</div>
+        ) : !deletedLists || deletedLists.length === 0 ? (
+          <div className="card p-6 text-center">
+            <div className="mb-2 text-3xl">🗑️</div>
+            <h2 className="mb-1 text-xl font-semibold">Trash is empty</h2>
+            <p className="muted">Deleted lists are kept here, with their items, until you restore them.</p>
+          </div>
+        ) : (
+          <div className="grid gap-4">
+            {deletedLists.map(deleted => {
+              const { list, itemCount } = deleted;
+              const purgeOn = retentionDays !== null ? purgeDate(deleted, retentionDays) : null;
+              return (
+                <div key={list.id} className="card p-4">
+                  <div className="flex items-center justify-between gap-3">
+                    <div>
+                      <h3 className="font-semibold">{list.name}</h3>
+                      <p className="muted text-sm">
+                        {itemCount} {itemCount === 1 ? 'item' : 'items'} · deleted {list.deletedAt?.toLocaleDateString()}
+                        {purgeOn && ` · removed for good on ${purgeOn.toLocaleDateString()}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button type="button" className="btn btn-sm primary" onClick={() => handleRestore(list)}>
+                        Restore
+                      </button>
+                      <button
+                        type="button"
+                        className="btn btn-sm"
+                        onClick={() => handleDeleteForever(list)}
+                        aria-label={`Delete ${list.name} for good`}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </>
+  );
+}
@@ -1,13 +1,14 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import { dbEvents } from '../lib/db';
 
 /**
- * Hook for live database queries that automatically refresh when data changes
+ * Hook for live database queries that automatically refresh when data changes.
+ * `eventName` may list several events when the query reads more than one store.
  */
 export function useLiveQuery<T>(
   queryFn: () => Promise<T>,
   dependencies: unknown[] = [],
-  eventName?: string
+  eventName?: string | string[]
 ): {
   data: T | null;
   loading: boolean;
@@ -18,18 +19,23 @@ export function useLiveQuery<T>(
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
 
+  // Always run the latest query function, which may close over new dependencies
+  const queryFnRef = useRef(queryFn);
+  useEffect(() => {
+    queryFnRef.current = queryFn;
+  });
+
   const executeQuery = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
-      const result = await queryFn();
+      const result = await queryFnRef.current();
       setData(result);
     } catch (err) {
       setError(err instanceof Error ? err : new Error('Unknown error'));
     } finally {
       setLoading(false);
     }
-  // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   // Initial query
@@ -39,16 +45,18 @@ export function useLiveQuery<T>(
   }, [...dependencies]);
 
   // Listen for database changes
+  const eventKey = Array.isArray(eventName) ? eventName.join(',') : eventName;
   useEffect(() => {
-    if (eventName) {
+    if (eventKey) {
+      const events = eventKey.split(',');
       const handleChange = () => {
         executeQuery();
       };
 
-      dbEvents.on(eventName, handleChange);
-      return () => dbEvents.off(eventName, handleChange);
+      events.forEach(event => dbEvents.on(event, handleChange));
+      return () => events.forEach(event => dbEvents.off(event, handleChange));
     }
-  }, [eventName, executeQuery]);
+  }, [eventKey, executeQuery]);
 
   return {
     data,
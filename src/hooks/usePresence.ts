@@ -0,0 +1,19 @@
+import { useEffect } from 'react';
+import { useLiveQuery } from './useLiveQuery';
+import { getPresence, setViewingList } from '../lib/realtime';
+import type { PresencePeer } from '../lib/realtime';
+
+/**
+ * Announce that this list is being viewed and return the other devices viewing it
+ */
+export function usePresence(listId: string | undefined): PresencePeer[] {
+  const { data: peers } = useLiveQuery(getPresence, [], 'presence-changed');
+
+  useEffect(() => {
+    if (!listId) return;
+    setViewingList(listId);
+    return () => setViewingList(null);
+  }, [listId]);
+
+  return (peers ?? []).filter(peer => peer.listId === listId);
+}
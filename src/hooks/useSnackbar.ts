@@ -1,4 +1,5 @@
 import { useState, useCallback } from 'react';
+import { uuid } from '../lib/uuid';
 
 export interface SnackbarOptions {
   message: string;
@@ -26,7 +27,7 @@ export function useSnackbar() {
   const [snackbars, setSnackbars] = useState<SnackbarState[]>([]);
 
   const showSnackbar = useCallback((options: SnackbarOptions) => {
-    const id = Date.now().toString();
+    const id = uuid();
     const snackbar: SnackbarState = {
       id,
       message: options.message,
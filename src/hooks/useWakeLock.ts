@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Keep the screen on while the component is mounted and `enabled` is set.
+ * The browser releases the lock whenever the page is hidden, so it is taken
+ * again each time the page becomes visible. Returns whether the lock is held.
+ */
+export function useWakeLock(enabled = true): boolean {
+  const [active, setActive] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || !('wakeLock' in navigator)) return;
+
+    let sentinel: WakeLockSentinel | null = null;
+    let released = false;
+
+    const request = async () => {
+      if (document.visibilityState !== 'visible' || (sentinel && !sentinel.released)) return;
+      try {
+        sentinel = await navigator.wakeLock.request('screen');
+        if (released) {
+          await sentinel.release();
+          return;
+        }
+        setActive(true);
+        sentinel.addEventListener('release', () => setActive(false));
+      } catch (error) {
+        // Refused, e.g. in battery saver mode; the app works without it
+        console.warn('Screen wake lock unavailable:', error);
+        setActive(false);
+      }
+    };
+
+    request();
+    document.addEventListener('visibilitychange', request);
+
+    return () => {
+      released = true;
+      document.removeEventListener('visibilitychange', request);
+      sentinel?.release().catch(() => {});
+    };
+  }, [enabled]);
+
+  return active;
+}
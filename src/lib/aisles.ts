@@ -0,0 +1,77 @@
+import { ITEM_CATEGORIES } from './types';
+import type { Item, Store, StoreAisle } from './types';
+
+/**
+ * Store aisles: the order a store is walked in, each aisle holding one or
+ * more item categories. Stores without their own layout use the category order.
+ */
+
+export const UNSORTED_AISLE = 'Other Items';
+
+export interface AisleGroup {
+  name: string;
+  items: Item[];
+}
+
+/**
+ * One aisle per category, in the user's category order (built-ins by default)
+ */
+export function defaultAisles(categoryNames: readonly string[] = ITEM_CATEGORIES): StoreAisle[] {
+  return categoryNames.map(category => ({ name: category, categories: [category] }));
+}
+
+/**
+ * A store's aisles, or the default layout
+ */
+export function storeAisles(store?: Pick<Store, 'aisles'> | null, categoryNames?: readonly string[]): StoreAisle[] {
+  return store?.aisles && store.aisles.length > 0 ? store.aisles : defaultAisles(categoryNames);
+}
+
+/**
+ * Group items under their aisle, in walking order. Within an aisle items still
+ * to buy come first, then by name. Items whose category is in no aisle (or
+ * that have none) are grouped last; empty aisles are left out.
+ */
+export function groupItemsByAisle(items: Item[], aisles: StoreAisle[]): AisleGroup[] {
+  const aisleIndex = new Map<string, number>();
+  aisles.forEach((aisle, index) => {
+    for (const category of aisle.categories) {
+      const key = category.toLowerCase();
+      if (!aisleIndex.has(key)) aisleIndex.set(key, index);
+    }
+  });
+
+  const buckets: Item[][] = Array.from({ length: aisles.length + 1 }, () => []);
+  for (const item of items) {
+    const index = item.category ? aisleIndex.get(item.category.toLowerCase()) : undefined;
+    buckets[index ?? aisles.length].push(item);
+  }
+
+  return buckets
+    .map((bucket, index) => ({
+      name: index < aisles.length ? aisles[index].name : UNSORTED_AISLE,
+      items: bucket.sort((a, b) => Number(a.purchased) - Number(b.purchased) || a.name.localeCompare(b.name)),
+    }))
+    .filter(group => group.items.length > 0);
+}
+
+/**
+ * Move the aisle at `from` to position `to`
+ */
+export function moveAisle(aisles: StoreAisle[], from: number, to: number): StoreAisle[] {
+  if (from === to || to < 0 || to >= aisles.length) return aisles;
+  const moved = [...aisles];
+  const [aisle] = moved.splice(from, 1);
+  moved.splice(to, 0, aisle);
+  return moved;
+}
+
+/**
+ * Move a category into the named aisle, taking it out of any other
+ */
+export function assignCategory(aisles: StoreAisle[], category: string, aisleName: string): StoreAisle[] {
+  return aisles.map(aisle => {
+    const categories = aisle.categories.filter(c => c !== category);
+    return { ...aisle, categories: aisle.name === aisleName ? [...categories, category] : categories };
+  });
+}
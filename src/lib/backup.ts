@@ -0,0 +1,292 @@
+import { z } from 'zod';
+import { DB_VERSION, exportSnapshot, importSnapshot } from './db';
+import { seedCategories } from './categories';
+import { STORE_DATE_FIELDS, reviveDates } from './dates';
+import { migrateRecord } from './migrations';
+import { RECORD_SCHEMAS } from './validation';
+import type { DatabaseSnapshot } from './db';
+import type { Item } from './types';
+
+/**
+ * Full-database JSON backup and restore
+ */
+
+export const BACKUP_FORMAT = 'shopping-list-backup';
+export const BACKUP_VERSION = 1;
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: Date;
+  data: DatabaseSnapshot;
+}
+
+export type BackupStore = keyof DatabaseSnapshot;
+
+export interface StoreRestoreSummary {
+  added: number;
+  updated: number;
+  unchanged: number;
+  conflicts: number;
+  kept: number;
+  removed: number;
+}
+
+export type RestoreSummary = Record<BackupStore, StoreRestoreSummary>;
+
+export type BackupParseResult =
+  | { ok: true; backup: BackupFile }
+  | { ok: false; errors: string[] };
+
+const BACKUP_STORES: BackupStore[] = [
+  'lists',
+  'items',
+  'productStats',
+  'budgets',
+  'settings',
+  'templates',
+  'pantry',
+  'stores',
+  'priceObservations',
+  'categories',
+  'exchangeRates',
+];
+
+const BackupEnvelopeSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().min(1).max(BACKUP_VERSION),
+  schemaVersion: z.number().int().min(1),
+  exportedAt: z.string(),
+  data: z.object({
+    lists: z.array(z.unknown()).default([]),
+    items: z.array(z.unknown()).default([]),
+    productStats: z.array(z.unknown()).default([]),
+    budgets: z.array(z.unknown()).default([]),
+    settings: z.array(z.unknown()).default([]),
+    templates: z.array(z.unknown()).default([]),
+    pantry: z.array(z.unknown()).default([]),
+    stores: z.array(z.unknown()).default([]),
+    priceObservations: z.array(z.unknown()).default([]),
+    categories: z.array(z.unknown()).default([]),
+    exchangeRates: z.array(z.unknown()).default([]),
+  }),
+});
+
+/**
+ * Build a backup of the whole database
+ */
+export async function createBackup(): Promise<BackupFile> {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: DB_VERSION,
+    exportedAt: new Date(),
+    data: await exportSnapshot(),
+  };
+}
+
+/**
+ * Serialize a backup to pretty-printed JSON
+ */
+export function serializeBackup(backup: BackupFile): string {
+  return JSON.stringify(backup, null, 2);
+}
+
+/**
+ * Parse and validate backup JSON; every record is checked against its zod schema
+ */
+export function parseBackup(json: string): BackupParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { ok: false, errors: ['File is not valid JSON'] };
+  }
+
+  const envelope = BackupEnvelopeSchema.safeParse(raw);
+  if (!envelope.success) {
+    return {
+      ok: false,
+      errors: envelope.error.errors.map(err => `${err.path.join('.') || 'backup'}: ${err.message}`),
+    };
+  }
+
+  // A newer app may store records this version can't read
+  if (envelope.data.schemaVersion > DB_VERSION) {
+    return {
+      ok: false,
+      errors: [`This backup was made by a newer version of the app (data version ${envelope.data.schemaVersion}). Update the app to restore it.`],
+    };
+  }
+
+  const errors: string[] = [];
+  const data = {} as Record<BackupStore, unknown[]>;
+
+  for (const store of BACKUP_STORES) {
+    data[store] = [];
+    envelope.data.data[store].forEach((record, index) => {
+      // Records from older schema versions get the changes the upgrade would have made
+      const revived = reviveDates(record, STORE_DATE_FIELDS[store]);
+      const result = RECORD_SCHEMAS[store].safeParse(migrateRecord(store, revived, envelope.data.schemaVersion));
+      if (result.success) {
+        data[store].push(result.data);
+      } else {
+        result.error.errors.forEach(err => {
+          errors.push(`${store}[${index}]${err.path.length ? '.' + err.path.join('.') : ''}: ${err.message}`);
+        });
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  // Backups from before categories were stored (schema 9) get the ones the upgrade would have created
+  if (envelope.data.schemaVersion < 9 && data.categories.length === 0) {
+    data.categories = seedCategories((data.items as Item[]).map(item => item.category));
+  }
+
+  return {
+    ok: true,
+    backup: {
+      format: BACKUP_FORMAT,
+      version: envelope.data.version,
+      schemaVersion: envelope.data.schemaVersion,
+      exportedAt: new Date(envelope.data.exportedAt),
+      data: data as unknown as DatabaseSnapshot,
+    },
+  };
+}
+
+// Key of each record in its object store
+function keyOf(store: BackupStore, record: object): string {
+  if (store === 'productStats') return (record as { name: string }).name;
+  if (store === 'exchangeRates') return (record as { currency: string }).currency;
+  return (record as { id: string }).id;
+}
+
+// Timestamp used to decide which side of a merge conflict is newer
+function versionOf(store: BackupStore, record: object): number | undefined {
+  const r = record as Record<string, unknown>;
+  let date: unknown;
+  switch (store) {
+    case 'lists':
+    case 'items':
+    case 'budgets':
+    case 'templates':
+    case 'pantry':
+    case 'stores':
+    case 'categories':
+    case 'exchangeRates':
+      date = r.updatedAt;
+      break;
+    case 'priceObservations':
+      date = r.observedAt;
+      break;
+    case 'productStats':
+      date = r.lastUsed;
+      break;
+  }
+  return date instanceof Date ? date.getTime() : undefined;
+}
+
+function stableStringify(value: unknown): string {
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Work out which records a restore would write and summarize conflicts.
+ * In merge mode a record that exists on both sides is only overwritten when
+ * the backup copy is strictly newer; in replace mode the backup wins outright.
+ */
+export function planRestore(
+  backup: BackupFile,
+  local: DatabaseSnapshot,
+  mode: RestoreMode
+): { writes: DatabaseSnapshot; summary: RestoreSummary } {
+  const writes = {} as Record<BackupStore, object[]>;
+  const summary = {} as RestoreSummary;
+
+  for (const store of BACKUP_STORES) {
+    const localByKey = new Map<string, object>(
+      (local[store] as object[]).map(record => [keyOf(store, record), record])
+    );
+    const incoming = backup.data[store] as object[];
+    const incomingKeys = new Set(incoming.map(record => keyOf(store, record)));
+    const counts: StoreRestoreSummary = { added: 0, updated: 0, unchanged: 0, conflicts: 0, kept: 0, removed: 0 };
+    writes[store] = [];
+
+    for (const record of incoming) {
+      const existing = localByKey.get(keyOf(store, record));
+
+      if (!existing) {
+        counts.added++;
+        writes[store].push(record);
+        continue;
+      }
+
+      if (stableStringify(existing) === stableStringify(record)) {
+        counts.unchanged++;
+        if (mode === 'replace') {
+          writes[store].push(record);
+        }
+        continue;
+      }
+
+      counts.conflicts++;
+      const incomingVersion = versionOf(store, record);
+      const localVersion = versionOf(store, existing);
+      const incomingWins = mode === 'replace' ||
+        (incomingVersion !== undefined && (localVersion === undefined || incomingVersion > localVersion));
+
+      if (incomingWins) {
+        counts.updated++;
+        writes[store].push(record);
+      } else {
+        counts.kept++;
+      }
+    }
+
+    if (mode === 'replace') {
+      counts.removed = [...localByKey.keys()].filter(key => !incomingKeys.has(key)).length;
+    }
+
+    summary[store] = counts;
+  }
+
+  return { writes: writes as unknown as DatabaseSnapshot, summary };
+}
+
+/**
+ * Preview what restoring a backup would change without writing anything
+ */
+export async function previewRestore(backup: BackupFile, mode: RestoreMode): Promise<RestoreSummary> {
+  const local = await exportSnapshot();
+  return planRestore(backup, local, mode).summary;
+}
+
+/**
+ * Restore a backup into the database
+ */
+export async function restoreBackup(backup: BackupFile, mode: RestoreMode): Promise<RestoreSummary> {
+  const local = await exportSnapshot();
+  const { writes, summary } = planRestore(backup, local, mode);
+  await importSnapshot(writes, { clear: mode === 'replace' });
+  return summary;
+}
@@ -0,0 +1,176 @@
+import { getBudgets, getExchangeRates, getLists, getPurchasesBetween, getSettings, setBudgetSpending } from './db';
+import { sameCategory } from './categories';
+import { addCurrency, buildRateTable, createCurrencyConverter, formatCurrency, roundCurrency } from './currency';
+import type { Budget, Item } from './types';
+
+/**
+ * Budget periods and spend tracking.
+ *
+ * A budget's `spent` is the total of purchased items, in the categories it covers
+ * (all categories when none are selected), whose purchase falls in the current period.
+ * Budgets are kept in the profile currency; purchases are converted from their list's currency.
+ */
+
+export type BudgetPeriod = Budget['period'];
+
+export interface BudgetPeriodRange {
+  start: Date;
+  end: Date; // Exclusive
+}
+
+export interface BudgetProgress {
+  budget: Budget;
+  spent: number;
+  remaining: number;
+  period: BudgetPeriodRange;
+}
+
+export interface BudgetWarning {
+  budget: Budget;
+  overBy: number;
+  currency: string;
+}
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  weekly: 'This week',
+  monthly: 'This month',
+  yearly: 'This year',
+};
+
+// Items without a category count as "Other", as in analytics
+const UNCATEGORIZED = 'Other';
+
+/**
+ * The period containing `now`. Weeks start on Monday.
+ */
+export function getBudgetPeriod(period: BudgetPeriod, now: Date = new Date()): BudgetPeriodRange {
+  const year = now.getFullYear();
+  const month = now.getMonth();
+
+  switch (period) {
+    case 'weekly': {
+      const daysSinceMonday = (now.getDay() + 6) % 7;
+      const start = new Date(year, month, now.getDate() - daysSinceMonday);
+      return { start, end: new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7) };
+    }
+    case 'monthly':
+      return { start: new Date(year, month, 1), end: new Date(year, month + 1, 1) };
+    case 'yearly':
+      return { start: new Date(year, 0, 1), end: new Date(year + 1, 0, 1) };
+  }
+}
+
+/**
+ * Whether an item's category is covered by the budget
+ */
+export function budgetCoversItem(budget: Budget, item: Pick<Item, 'category'>): boolean {
+  const category = item.category || UNCATEGORIZED;
+  return budget.categories.length === 0 || budget.categories.some(covered => sameCategory(category, covered));
+}
+
+function itemTotal(item: Item): number {
+  return item.price * item.qty;
+}
+
+/**
+ * Spending against a budget in the period containing `now`.
+ * `amountOf` gives an item's total in the budget's currency.
+ */
+export function calculateBudgetSpent(
+  budget: Budget,
+  items: Item[],
+  now: Date = new Date(),
+  amountOf: (item: Item) => number = itemTotal
+): number {
+  const { start, end } = getBudgetPeriod(budget.period, now);
+
+  return addCurrency(...items
+    .filter(item => {
+      if (!item.purchased || !budgetCoversItem(budget, item)) return false;
+      const purchasedAt = item.purchasedAt ?? item.createdAt;
+      return purchasedAt >= start && purchasedAt < end;
+    })
+    .map(amountOf));
+}
+
+interface SpendingContext {
+  items: Item[]; // Purchases in the budgets' current periods, on lists that have not been deleted
+  currency: string;
+  amountOf: (item: Item) => number;
+}
+
+// Only purchases from the earliest start to the latest end of the budgets' periods are read
+async function loadSpendingContext(budgets: Budget[], now: Date): Promise<SpendingContext> {
+  const periods = budgets.map(budget => getBudgetPeriod(budget.period, now));
+  const from = new Date(Math.min(...periods.map(period => period.start.getTime())));
+  const to = new Date(Math.max(...periods.map(period => period.end.getTime())));
+  const [lists, items, settings, rates] = await Promise.all([
+    getLists(),
+    periods.length > 0 ? getPurchasesBetween(from, to) : Promise.resolve([]),
+    getSettings(),
+    getExchangeRates(),
+  ]);
+  const listCurrencies = new Map(lists.map(list => [list.id, list.currency]));
+  const converter = createCurrencyConverter(settings.currency, buildRateTable(rates));
+
+  return {
+    items: items.filter(item => listCurrencies.has(item.listId)),
+    currency: settings.currency,
+    amountOf: item => converter.convert(itemTotal(item), listCurrencies.get(item.listId) ?? settings.currency),
+  };
+}
+
+/**
+ * All budgets with their current spending. Stored `spent` values are brought up to date.
+ */
+export async function getBudgetProgress(now: Date = new Date()): Promise<BudgetProgress[]> {
+  const budgets = await getBudgets();
+  const { items, currency, amountOf } = await loadSpendingContext(budgets, now);
+
+  const progress = budgets.map(budget => {
+    const spent = roundCurrency(calculateBudgetSpent(budget, items, now, amountOf), currency);
+    return {
+      budget: { ...budget, spent },
+      spent,
+      remaining: roundCurrency(budget.amount - spent, currency),
+      period: getBudgetPeriod(budget.period, now),
+    };
+  });
+
+  await setBudgetSpending(new Map(progress.map(({ budget }) => [budget.id, budget.spent])));
+  return progress;
+}
+
+/**
+ * Budgets that purchasing `item` now would take over their limit
+ */
+export async function getBudgetWarnings(item: Item, now: Date = new Date()): Promise<BudgetWarning[]> {
+  if (itemTotal(item) <= 0) return [];
+
+  const budgets = await getBudgets();
+  const { items, currency, amountOf } = await loadSpendingContext(budgets, now);
+  const cost = amountOf(item);
+  const otherItems = items.filter(other => other.id !== item.id);
+
+  return budgets
+    .filter(budget => budgetCoversItem(budget, item))
+    .map(budget => ({
+      budget,
+      overBy: roundCurrency(calculateBudgetSpent(budget, otherItems, now, amountOf) + cost - budget.amount, currency),
+      currency,
+    }))
+    .filter(warning => warning.overBy > 0);
+}
+
+/**
+ * Ask before marking `item` purchased when that would go over a budget; resolves to whether to go ahead
+ */
+export async function confirmPurchaseWithinBudget(item: Item): Promise<boolean> {
+  const warnings = await getBudgetWarnings(item);
+  if (warnings.length === 0) return true;
+
+  const details = warnings
+    .map(warning => `• ${warning.budget.name}: over by ${formatCurrency(warning.overBy, warning.currency)}`)
+    .join('\n');
+  return confirm(`This purchase would exceed your budget:\n${details}\n\nMark as purchased anyway?`);
+}
@@ -0,0 +1,51 @@
+import type { Category } from './types';
+import { DEFAULT_CATEGORY_STYLES, ITEM_CATEGORIES } from './types';
+import { uuid } from './uuid';
+
+/**
+ * Helpers for the user's categories (see the category operations in db)
+ */
+
+/**
+ * The category an item's free-text category refers to, matched ignoring case and surrounding spaces
+ */
+export function findCategory(categories: Category[], name: string | undefined): Category | undefined {
+  const key = name?.trim().toLowerCase();
+  return key ? categories.find(category => category.name.toLowerCase() === key) : undefined;
+}
+
+/**
+ * Category name with its icon, e.g. "🥛 Dairy"
+ */
+export function categoryLabel(category: Pick<Category, 'name' | 'icon'>): string {
+  return category.icon ? `${category.icon} ${category.name}` : category.name;
+}
+
+/**
+ * Whether a free-text category is the given one, ignoring case and surrounding spaces
+ */
+export function sameCategory(a: string | undefined, b: string): boolean {
+  return a !== undefined && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * The built-in categories followed by any other category names in use, each once
+ */
+export function seedCategories(usedNames: Array<string | undefined>): Category[] {
+  const names: string[] = [...ITEM_CATEGORIES];
+  for (const name of usedNames) {
+    if (name?.trim() && !names.some(existing => sameCategory(name, existing))) {
+      names.push(name.trim());
+    }
+  }
+
+  const now = new Date();
+  return names.map((name, order) => ({
+    id: uuid(),
+    name,
+    ...DEFAULT_CATEGORY_STYLES[name as keyof typeof DEFAULT_CATEGORY_STYLES],
+    order,
+    createdAt: now,
+    updatedAt: now,
+  }));
+}
@@ -0,0 +1,220 @@
+import type { ItemCategory } from './types';
+
+/**
+ * Bundled keyword dictionary for guessing an item's category from its name.
+ *
+ * Keywords are lowercase without accents (see normalizeWords in the classifier),
+ * in English, German, French, Spanish, Italian, Dutch and Portuguese. A keyword
+ * may be several words ("ice cream"), which then outweighs its parts. Singular
+ * forms are enough; simple plurals are matched too.
+ */
+export const CATEGORY_KEYWORDS: Partial<Record<ItemCategory, string[]>> = {
+  Produce: [
+    // English
+    'apple', 'banana', 'orange', 'lemon', 'lime', 'grape', 'pear', 'peach', 'plum', 'cherry', 'berry',
+    'strawberry', 'blueberry', 'raspberry', 'melon', 'watermelon', 'mango', 'pineapple', 'kiwi', 'avocado',
+    'tomato', 'potato', 'onion', 'garlic', 'carrot', 'lettuce', 'salad', 'spinach', 'kale', 'cabbage',
+    'broccoli', 'cauliflower', 'cucumber', 'zucchini', 'courgette', 'pepper', 'bell pepper', 'chili',
+    'mushroom', 'celery', 'leek', 'asparagus', 'eggplant', 'aubergine', 'pumpkin', 'squash', 'corn on the cob',
+    'ginger', 'herb', 'basil', 'parsley', 'cilantro', 'coriander', 'mint', 'radish', 'beet', 'beetroot',
+    'sweet potato', 'fruit', 'vegetable', 'veggie', 'grapefruit', 'apricot', 'fig', 'pomegranate',
+    // German
+    'apfel', 'birne', 'zitrone', 'traube', 'pfirsich', 'pflaume', 'kirsche', 'erdbeere', 'beere',
+    'tomate', 'kartoffel', 'zwiebel', 'knoblauch', 'karotte', 'mohre', 'mohren', 'gurke', 'paprika', 'pilz',
+    'champignon', 'salat', 'spinat', 'kohl', 'lauch', 'obst', 'gemuse', 'kurbis', 'bananen', 'ingwer',
+    // French
+    'pomme', 'poire', 'citron', 'raisin', 'peche', 'prune', 'cerise', 'fraise', 'framboise', 'myrtille',
+    'tomate', 'pomme de terre', 'oignon', 'ail', 'carotte', 'laitue', 'epinard', 'chou', 'concombre',
+    'poivron', 'champignon', 'poireau', 'courgette', 'citrouille', 'fruit', 'legume', 'persil',
+    // Spanish
+    'manzana', 'platano', 'naranja', 'limon', 'uva', 'pera', 'melocoton', 'fresa', 'papa', 'patata',
+    'cebolla', 'ajo', 'zanahoria', 'lechuga', 'espinaca', 'pepino', 'pimiento', 'calabacin', 'verdura', 'fruta',
+    // Italian
+    'mela', 'arancia', 'limone', 'pesca', 'fragola', 'pomodoro', 'patata', 'cipolla', 'aglio', 'carota',
+    'lattuga', 'spinaci', 'cetriolo', 'peperone', 'zucchina', 'funghi', 'frutta', 'verdura',
+    // Dutch
+    'appel', 'peer', 'sinaasappel', 'citroen', 'druif', 'aardbei', 'aardappel', 'ui', 'knoflook', 'wortel',
+    'sla', 'komkommer', 'groente', 'fruit',
+    // Portuguese
+    'maca', 'laranja', 'uva', 'morango', 'batata', 'cebola', 'alho', 'cenoura', 'alface', 'legumes',
+  ],
+  Dairy: [
+    'milk', 'cheese', 'butter', 'yogurt', 'yoghurt', 'cream', 'sour cream', 'cream cheese', 'egg', 'cheddar',
+    'mozzarella', 'parmesan', 'feta', 'brie', 'ricotta', 'cottage cheese', 'kefir', 'creme fraiche', 'quark',
+    'skyr', 'margarine', 'ghee', 'half and half', 'whipping cream', 'buttermilk', 'custard',
+    // German
+    'milch', 'kase', 'joghurt', 'sahne', 'schlagsahne', 'ei', 'eier', 'schmand', 'frischkase',
+    // French
+    'lait', 'fromage', 'beurre', 'yaourt', 'creme', 'oeuf', 'fromage blanc',
+    // Spanish
+    'leche', 'queso', 'mantequilla', 'yogur', 'nata', 'huevo',
+    // Italian
+    'latte', 'formaggio', 'burro', 'yogurt', 'panna', 'uovo', 'uova', 'mascarpone', 'gorgonzola',
+    // Dutch
+    'melk', 'kaas', 'boter', 'room', 'slagroom', 'eieren',
+    // Portuguese
+    'leite', 'queijo', 'manteiga', 'iogurte', 'ovo', 'natas',
+  ],
+  Meat: [
+    'chicken', 'beef', 'pork', 'lamb', 'turkey', 'duck', 'veal', 'bacon', 'ham', 'sausage', 'salami',
+    'steak', 'mince', 'ground beef', 'minced meat', 'meatball', 'chorizo', 'prosciutto', 'pepperoni', 'meat',
+    'fish', 'salmon', 'tuna steak', 'cod', 'shrimp', 'prawn', 'seafood', 'tilapia', 'trout', 'mussel',
+    'chicken breast', 'drumstick', 'wing', 'rib', 'fillet', 'filet', 'hot dog', 'burger patty',
+    // German
+    'hahnchen', 'huhn', 'rind', 'rindfleisch', 'schwein', 'schweinefleisch', 'hackfleisch', 'wurst', 'schinken',
+    'speck', 'fleisch', 'fisch', 'lachs', 'garnele', 'pute', 'bratwurst', 'aufschnitt',
+    // French
+    'poulet', 'boeuf', 'porc', 'agneau', 'dinde', 'jambon', 'saucisse', 'viande', 'poisson', 'saumon',
+    'crevette', 'steak hache', 'lardons',
+    // Spanish
+    'pollo', 'carne', 'cerdo', 'cordero', 'pavo', 'jamon', 'salchicha', 'pescado', 'salmon', 'gamba',
+    'carne picada',
+    // Italian
+    'pollo', 'manzo', 'maiale', 'agnello', 'tacchino', 'prosciutto', 'salsiccia', 'pesce', 'salmone',
+    'gamberi', 'macinato',
+    // Dutch
+    'kip', 'rundvlees', 'varkensvlees', 'gehakt', 'worst', 'ham', 'vlees', 'vis', 'zalm', 'garnalen',
+    // Portuguese
+    'frango', 'carne moida', 'porco', 'presunto', 'linguica', 'peixe', 'camarao',
+  ],
+  Bakery: [
+    'bread', 'baguette', 'roll', 'bun', 'bagel', 'croissant', 'muffin', 'cake', 'pie', 'pastry', 'donut',
+    'doughnut', 'tortilla', 'pita', 'naan', 'brioche', 'sourdough', 'ciabatta', 'focaccia', 'loaf', 'scone',
+    'wrap', 'english muffin', 'danish', 'cupcake', 'toast',
+    // German
+    'brot', 'brotchen', 'semmel', 'kuchen', 'brezel', 'laugenbrezel', 'toastbrot', 'vollkornbrot', 'torte',
+    // French
+    'pain', 'pain de mie', 'gateau', 'tarte', 'brioche', 'viennoiserie',
+    // Spanish
+    'pan', 'pan de molde', 'bollo', 'magdalena', 'tarta', 'barra de pan',
+    // Italian
+    'pane', 'panino', 'cornetto', 'torta', 'grissini',
+    // Dutch
+    'brood', 'broodje', 'taart', 'beschuit',
+    // Portuguese
+    'pao', 'bolo', 'broa',
+  ],
+  Frozen: [
+    'ice cream', 'frozen', 'frozen pizza', 'frozen peas', 'frozen vegetables', 'fish fingers', 'fish sticks',
+    'popsicle', 'ice lolly', 'sorbet', 'gelato', 'ice cubes', 'frozen fries', 'french fries', 'fries',
+    'waffles', 'tater tots', 'ice',
+    // German
+    'tiefkuhl', 'tk', 'eis', 'speiseeis', 'fischstabchen', 'pommes', 'tiefkuhlpizza',
+    // French
+    'surgele', 'glace', 'frites',
+    // Spanish
+    'congelado', 'helado',
+    // Italian
+    'surgelato', 'surgelati', 'ghiacciolo',
+    // Dutch
+    'diepvries', 'ijs', 'ijsje',
+    // Portuguese
+    'congelados', 'sorvete',
+  ],
+  Pantry: [
+    'rice', 'pasta', 'spaghetti', 'penne', 'noodle', 'flour', 'sugar', 'salt', 'oil', 'olive oil', 'vinegar',
+    'cereal', 'oat', 'oatmeal', 'granola', 'muesli', 'bean', 'lentil', 'chickpea', 'canned', 'can', 'tin',
+    'soup', 'broth', 'stock', 'sauce', 'tomato sauce', 'pasta sauce', 'ketchup', 'mustard', 'mayonnaise', 'mayo',
+    'honey', 'jam', 'jelly', 'peanut butter', 'nutella', 'spice', 'cinnamon', 'paprika powder', 'cumin',
+    'oregano', 'baking powder', 'baking soda', 'yeast', 'cornflakes', 'quinoa', 'couscous', 'tuna', 'tuna can',
+    'soy sauce', 'syrup', 'maple syrup', 'cocoa', 'stock cube', 'bouillon', 'lasagne', 'lasagna',
+    // German
+    'reis', 'nudel', 'nudeln', 'mehl', 'zucker', 'salz', 'ol', 'essig', 'haferflocken', 'linsen', 'bohnen',
+    'konserve', 'dose', 'bruhe', 'sosse', 'sauce', 'senf', 'honig', 'marmelade', 'gewurz', 'hefe',
+    // French
+    'riz', 'pates', 'farine', 'sucre', 'sel', 'huile', 'huile d olive', 'vinaigre', 'cereales', 'lentille',
+    'haricot', 'conserve', 'moutarde', 'miel', 'confiture', 'epice', 'levure',
+    // Spanish
+    'arroz', 'fideos', 'harina', 'azucar', 'sal', 'aceite', 'aceite de oliva', 'vinagre', 'lenteja', 'frijol',
+    'garbanzo', 'lata', 'salsa', 'mostaza', 'miel', 'mermelada', 'especia',
+    // Italian
+    'riso', 'farina', 'zucchero', 'sale', 'olio', 'olio d oliva', 'aceto', 'lenticchie', 'fagioli', 'ceci',
+    'passata', 'sugo', 'miele', 'marmellata', 'lievito',
+    // Dutch
+    'rijst', 'meel', 'bloem', 'suiker', 'zout', 'olie', 'azijn', 'bonen', 'soep', 'pindakaas', 'hagelslag',
+    // Portuguese
+    'arroz', 'massa', 'farinha', 'acucar', 'azeite', 'feijao', 'mel', 'geleia',
+  ],
+  Beverages: [
+    'water', 'sparkling water', 'juice', 'orange juice', 'apple juice', 'soda', 'cola', 'lemonade', 'coffee',
+    'tea', 'green tea', 'beer', 'wine', 'red wine', 'white wine', 'champagne', 'prosecco', 'whisky', 'whiskey',
+    'vodka', 'gin', 'rum', 'cider', 'smoothie', 'energy drink', 'sports drink', 'kombucha', 'espresso',
+    'drink', 'tonic', 'oat milk', 'almond milk', 'soy milk', 'coconut water', 'iced tea',
+    // German
+    'wasser', 'mineralwasser', 'saft', 'orangensaft', 'apfelsaft', 'limonade', 'kaffee', 'tee', 'bier',
+    'wein', 'rotwein', 'weisswein', 'sekt', 'schorle', 'apfelschorle', 'hafermilch',
+    // French
+    'eau', 'eau gazeuse', 'jus', 'jus d orange', 'cafe', 'biere', 'vin', 'vin rouge', 'boisson',
+    // Spanish
+    'agua', 'zumo', 'jugo', 'refresco', 'cafe', 'te', 'cerveza', 'vino', 'bebida',
+    // Italian
+    'acqua', 'succo', 'caffe', 'birra', 'vino', 'bibita', 'aranciata',
+    // Dutch
+    'water', 'sap', 'sinaasappelsap', 'koffie', 'thee', 'bier', 'wijn', 'frisdrank',
+    // Portuguese
+    'agua', 'suco', 'sumo', 'cafe', 'cha', 'cerveja', 'vinho', 'refrigerante',
+  ],
+  Snacks: [
+    'chips', 'crisps', 'chocolate', 'candy', 'cookie', 'biscuit', 'cracker', 'popcorn', 'pretzel', 'nut',
+    'peanut', 'almond', 'cashew', 'trail mix', 'granola bar', 'protein bar', 'gummy', 'gummy bears', 'sweets',
+    'snack', 'tortilla chips', 'nachos', 'licorice', 'marshmallow', 'dark chocolate', 'chocolate bar',
+    // German
+    'schokolade', 'keks', 'kekse', 'chips', 'gummibarchen', 'nusse', 'erdnusse', 'salzstangen', 'susigkeiten',
+    'praline', 'riegel',
+    // French
+    'chocolat', 'biscuit', 'bonbon', 'gateau aperitif', 'cacahuete', 'noix', 'friandise',
+    // Spanish
+    'patatas fritas', 'galleta', 'caramelo', 'dulce', 'frutos secos', 'cacahuete', 'almendra',
+    // Italian
+    'cioccolato', 'biscotti', 'caramelle', 'patatine', 'noccioline', 'mandorle',
+    // Dutch
+    'chocola', 'koek', 'koekjes', 'snoep', 'pinda', 'nootjes', 'drop',
+    // Portuguese
+    'chocolate', 'bolacha', 'biscoito', 'doce', 'amendoim', 'pipoca',
+  ],
+  'Personal Care': [
+    'shampoo', 'conditioner', 'soap', 'body wash', 'shower gel', 'toothpaste', 'toothbrush', 'floss',
+    'deodorant', 'lotion', 'moisturizer', 'sunscreen', 'razor', 'shaving cream', 'tampon', 'pad',
+    'sanitary pads', 'cotton', 'cotton pads', 'mouthwash', 'lip balm', 'makeup', 'mascara', 'hand cream',
+    'hair gel', 'hair spray', 'vitamins', 'painkiller', 'ibuprofen', 'paracetamol', 'plaster', 'band aid',
+    'diaper', 'nappy', 'wet wipes', 'baby wipes', 'tissues',
+    // German
+    'duschgel', 'seife', 'zahnpasta', 'zahnburste', 'deo', 'sonnencreme', 'rasierer',
+    'windeln', 'pflaster', 'taschentucher',
+    // French
+    'savon', 'gel douche', 'dentifrice', 'brosse a dents', 'deodorant', 'rasoir', 'couches', 'mouchoirs',
+    // Spanish
+    'champu', 'jabon', 'gel de ducha', 'pasta de dientes', 'cepillo de dientes', 'desodorante', 'panales',
+    // Italian
+    'sapone', 'bagnoschiuma', 'dentifricio', 'spazzolino', 'deodorante', 'pannolini', 'fazzoletti',
+    // Dutch
+    'zeep', 'douchegel', 'tandpasta', 'tandenborstel', 'luiers',
+    // Portuguese
+    'sabonete', 'pasta de dente', 'escova de dente', 'desodorizante', 'fraldas',
+  ],
+  Household: [
+    'toilet paper', 'paper towel', 'kitchen roll', 'dish soap', 'washing up liquid', 'detergent',
+    'laundry detergent', 'fabric softener', 'bleach', 'cleaner', 'all purpose cleaner', 'sponge', 'trash bags',
+    'bin bags', 'garbage bags', 'aluminum foil', 'foil', 'cling film', 'plastic wrap', 'baking paper',
+    'light bulb', 'battery', 'batteries', 'candle', 'napkin', 'dishwasher tablets', 'matches', 'broom',
+    'glass cleaner', 'air freshener', 'freezer bags', 'zip bags',
+    // German
+    'klopapier', 'toilettenpapier', 'kuchenrolle', 'spulmittel', 'waschmittel', 'weichspuler', 'schwamm',
+    'mullbeutel', 'alufolie', 'frischhaltefolie', 'backpapier', 'batterie', 'gluhbirne', 'kerze',
+    'reiniger', 'putzmittel', 'spulmaschinentabs', 'servietten',
+    // French
+    'papier toilette', 'essuie tout', 'liquide vaisselle', 'lessive', 'adoucissant', 'javel', 'eponge',
+    'sacs poubelle', 'papier aluminium', 'pile', 'bougie', 'nettoyant',
+    // Spanish
+    'papel higienico', 'papel de cocina', 'lavavajillas', 'detergente', 'suavizante', 'lejia', 'esponja',
+    'bolsas de basura', 'papel de aluminio', 'pila', 'vela',
+    // Italian
+    'carta igienica', 'scottex', 'detersivo', 'ammorbidente', 'candeggina', 'spugna', 'sacchetti',
+    'pile', 'candela',
+    // Dutch
+    'wc papier', 'toiletpapier', 'keukenrol', 'afwasmiddel', 'wasmiddel', 'wasverzachter', 'vuilniszakken',
+    'spons', 'batterijen', 'kaars',
+    // Portuguese
+    'papel higienico', 'detergente', 'amaciador', 'lixivia', 'esponja', 'sacos do lixo', 'pilhas', 'vela',
+  ],
+};
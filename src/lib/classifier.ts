@@ -0,0 +1,203 @@
+import { CATEGORY_KEYWORDS } from './categoryKeywords';
+import { findCategory } from './categories';
+import type { Category, ProductStat } from './types';
+
+/**
+ * Offline category guessing for new items.
+ *
+ * The user's own history comes first: a product bought before keeps its
+ * category, and products sharing words with the new name vote for theirs.
+ * The bundled keyword dictionary fills in the rest. Since product stats pick up
+ * the category an item is saved with, correcting a guess teaches the classifier.
+ */
+
+export interface CategoryGuess {
+  category: string;
+  source: 'history' | 'dictionary';
+  score: number;
+}
+
+// Below this the guess is no better than no guess (a compound match alone is enough)
+const MIN_SCORE = 0.8;
+// A product sharing every word with the name outweighs a single dictionary word
+const HISTORY_WEIGHT = 2;
+// Matching the part of a name that says what it is, e.g. "milk" in "chocolate milk"
+const HEAD_BONUS = 0.25;
+// Matching the end of a compound word, e.g. "milch" in "Vollmilch", or less surely its start
+const COMPOUND_SCORE = 0.8;
+const COMPOUND_PREFIX_SCORE = 0.6;
+const MIN_COMPOUND_LENGTH = 4;
+
+// Words that carry no meaning of their own
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'of', 'the', 'with', 'for', 'x', 'pack', 'kg', 'g', 'l', 'ml', 'cl',
+  'und', 'mit', 'der', 'die', 'das', 'et', 'le', 'la', 'les', 'l', 'y', 'e', 'el', 'il', 'lo', 'het', 'een',
+  'de', 'du', 'des', 'd', 'au', 'aux', 'di', 'del', 'della', 'al', 'con', 'com', 'do', 'da', 'van', 'en',
+]);
+// Romance-language names put the kind of product first: "jus d'orange", "leche de avena"
+const HEAD_FIRST_LINKS = new Set(['de', 'du', 'des', 'd', 'au', 'aux', 'di', 'del', 'della', 'al', 'do', 'da']);
+
+/**
+ * Lowercase words of a product name, accents removed
+ */
+export function normalizeWords(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word !== '' && !/^\d+$/.test(word));
+}
+
+// The word itself plus its likely singular forms
+function wordForms(word: string): string[] {
+  const forms = [word];
+  if (word.length > 3 && word.endsWith('s')) forms.push(word.slice(0, -1));
+  if (word.length > 4 && word.endsWith('es')) forms.push(word.slice(0, -2));
+  if (word.length > 4 && word.endsWith('ies')) forms.push(`${word.slice(0, -3)}y`);
+  if (word.length > 4 && word.endsWith('n')) forms.push(word.slice(0, -1)); // German: Tomaten, Kartoffeln
+  if (word.length > 5 && word.endsWith('en')) forms.push(word.slice(0, -2)); // Dutch: Aardappelen
+  if (word.length > 4 && word.endsWith('i')) forms.push(`${word.slice(0, -1)}o`, `${word.slice(0, -1)}e`); // Italian: Pomodori
+  return forms;
+}
+
+interface Keyword {
+  words: string[];
+  category: string;
+}
+
+let keywordIndex: Map<string, Keyword[]> | null = null;
+
+// Keywords by their first word; a keyword listed twice counts for its first category
+function getKeywordIndex(): Map<string, Keyword[]> {
+  if (keywordIndex) return keywordIndex;
+
+  keywordIndex = new Map();
+  const seen = new Set<string>();
+  for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+    for (const keyword of keywords ?? []) {
+      if (seen.has(keyword)) continue;
+      seen.add(keyword);
+      const words = normalizeWords(keyword);
+      const bucket = keywordIndex.get(words[0]) ?? [];
+      bucket.push({ words, category });
+      keywordIndex.set(words[0], bucket);
+    }
+  }
+  return keywordIndex;
+}
+
+// Index of the word naming the product, or -1 when there are no meaningful words
+function headIndex(words: string[]): number {
+  const content = words.map((word, index) => (STOP_WORDS.has(word) ? -1 : index)).filter(index => index >= 0);
+  if (content.length === 0) return -1;
+  const linked = words.some((word, index) => index > 0 && HEAD_FIRST_LINKS.has(word));
+  return linked ? content[0] : content[content.length - 1];
+}
+
+function addScore(scores: Map<string, number>, category: string, score: number): void {
+  scores.set(category, (scores.get(category) ?? 0) + score);
+}
+
+/**
+ * Category scores from the bundled dictionary
+ */
+export function scoreKeywords(name: string): Map<string, number> {
+  const index = getKeywordIndex();
+  const words = normalizeWords(name);
+  const head = headIndex(words);
+  const scores = new Map<string, number>();
+
+  words.forEach((word, start) => {
+    if (STOP_WORDS.has(word)) return;
+
+    let matched = false;
+    for (const form of new Set(wordForms(word))) {
+      for (const keyword of index.get(form) ?? []) {
+        const rest = keyword.words.slice(1);
+        const fits = rest.every((part, offset) => wordForms(words[start + 1 + offset] ?? '').includes(part));
+        if (!fits) continue;
+
+        const end = start + keyword.words.length - 1;
+        addScore(scores, keyword.category, keyword.words.length + (head >= start && head <= end ? HEAD_BONUS : 0));
+        matched = true;
+      }
+    }
+    if (matched) return;
+
+    // Compound words end in the thing they are ("Vollmilch", "Orangensaft") and start with what it's made of
+    for (const [first, keywords] of index) {
+      if (first.length < MIN_COMPOUND_LENGTH || word.length <= first.length) continue;
+      const score = word.endsWith(first) ? COMPOUND_SCORE : word.startsWith(first) ? COMPOUND_PREFIX_SCORE : 0;
+      if (score === 0) continue;
+      for (const keyword of keywords) {
+        if (keyword.words.length === 1) {
+          addScore(scores, keyword.category, score + (start === head ? HEAD_BONUS : 0));
+        }
+      }
+    }
+  });
+
+  return scores;
+}
+
+/**
+ * Category scores from products bought before that share words with the name
+ */
+export function scoreHistory(name: string, stats: ProductStat[]): Map<string, number> {
+  const words = normalizeWords(name).filter(word => !STOP_WORDS.has(word));
+  const scores = new Map<string, number>();
+  if (words.length === 0) return scores;
+
+  for (const stat of stats) {
+    if (!stat.category) continue;
+    const statWords = normalizeWords(stat.name).filter(word => !STOP_WORDS.has(word));
+    const shared = words.filter(word => statWords.some(other => wordForms(word).includes(other) || wordForms(other).includes(word)));
+    if (shared.length === 0) continue;
+
+    // Best match per category, so a long history of one product can't drown the rest
+    const score = HISTORY_WEIGHT * (shared.length / Math.max(words.length, statWords.length));
+    scores.set(stat.category, Math.max(scores.get(stat.category) ?? 0, score));
+  }
+  return scores;
+}
+
+/**
+ * Best guess at the category of a new item, or null when nothing fits. With
+ * `categories` the guess is limited to (and spelled like) the user's categories.
+ */
+export function classifyItem(name: string, stats: ProductStat[], categories?: Category[]): CategoryGuess | null {
+  const key = name.trim().toLowerCase();
+  if (!key) return null;
+
+  const canonical = (category: string) => (categories ? findCategory(categories, category)?.name : category);
+
+  // Bought before under this name: trust the user's last choice
+  const known = stats.find(stat => stat.category && stat.name.trim().toLowerCase() === key);
+  const knownCategory = known?.category && canonical(known.category);
+  if (knownCategory) {
+    return { category: knownCategory, source: 'history', score: Infinity };
+  }
+
+  // Scores per category as the user spells it
+  const history = new Map<string, number>();
+  const dictionary = new Map<string, number>();
+  for (const [source, target] of [[scoreHistory(name, stats), history], [scoreKeywords(name), dictionary]]) {
+    for (const [candidate, score] of source) {
+      const category = canonical(candidate);
+      if (category) addScore(target, category, score);
+    }
+  }
+
+  let best: CategoryGuess | null = null;
+  for (const category of new Set([...history.keys(), ...dictionary.keys()])) {
+    const fromHistory = history.get(category) ?? 0;
+    const fromDictionary = dictionary.get(category) ?? 0;
+    const score = fromHistory + fromDictionary;
+    if (score >= MIN_SCORE && (!best || score > best.score)) {
+      best = { category, source: fromHistory >= fromDictionary ? 'history' : 'dictionary', score };
+    }
+  }
+  return best;
+}
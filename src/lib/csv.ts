@@ -0,0 +1,292 @@
+import { applyItemBatch, createListWithItems, getItemsByList, getLists } from './db';
+import { parseLocaleNumber } from './quickAdd';
+import { ItemSchema } from './types';
+import type { Item, List, NewItem } from './types';
+
+/**
+ * CSV (RFC 4180) export and import of lists and items
+ */
+
+export const ITEM_CSV_FIELDS = ['name', 'qty', 'unit', 'price', 'category', 'notes', 'purchased', 'purchasedAt'] as const;
+export type ItemCsvField = typeof ITEM_CSV_FIELDS[number];
+
+// Maps each item field to the index of the CSV column holding it
+export type CsvColumnMapping = Partial<Record<ItemCsvField, number>>;
+
+export type ImportedItem = Omit<NewItem, 'listId'>;
+
+export interface CsvRowError {
+  row: number;
+  message: string;
+}
+
+export interface CsvImportResult {
+  items: ImportedItem[];
+  errors: CsvRowError[];
+  listNames?: string[]; // Each item's list, when the CSV has a list column (as exports of every list do)
+}
+
+const LIST_COLUMN = 'list';
+
+const ImportedItemSchema = ItemSchema.omit({ id: true, listId: true, updatedAt: true, deletedAt: true });
+
+// Header aliases recognised when guessing the column mapping
+const FIELD_ALIASES: Record<ItemCsvField, string[]> = {
+  name: ['name', 'item', 'product', 'description'],
+  qty: ['qty', 'quantity', 'amount', 'count'],
+  unit: ['unit', 'units', 'uom'],
+  price: ['price', 'unit price', 'cost'],
+  category: ['category', 'type', 'aisle'],
+  notes: ['notes', 'note', 'comment', 'comments'],
+  purchased: ['purchased', 'bought', 'done', 'checked'],
+  purchasedAt: ['purchasedat', 'purchased at', 'purchase date', 'date'],
+};
+
+function escapeField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serialize rows to CSV with CRLF line endings
+ */
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse CSV text into rows, handling quoted fields, escaped quotes and embedded newlines
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; // Skip BOM
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+function itemToRow(item: Item): string[] {
+  return [
+    item.name,
+    String(item.qty),
+    item.unit ?? '',
+    String(item.price),
+    item.category ?? '',
+    item.notes ?? '',
+    item.purchased ? 'true' : 'false',
+    item.purchasedAt ? item.purchasedAt.toISOString() : '',
+  ];
+}
+
+/**
+ * Export a single list's items as CSV
+ */
+export function itemsToCsv(items: Item[]): string {
+  return toCsv([[...ITEM_CSV_FIELDS], ...items.map(itemToRow)]);
+}
+
+/**
+ * Export several lists as one CSV with a leading list column
+ */
+export function listsToCsv(entries: Array<{ list: List; items: Item[] }>): string {
+  const rows = entries.flatMap(({ list, items }) => items.map(item => [list.name, ...itemToRow(item)]));
+  return toCsv([[LIST_COLUMN, ...ITEM_CSV_FIELDS], ...rows]);
+}
+
+/**
+ * Export one list from the database
+ */
+export async function exportListCsv(listId: string): Promise<string> {
+  return itemsToCsv(await getItemsByList(listId));
+}
+
+/**
+ * Export every (non-deleted) list from the database
+ */
+export async function exportAllListsCsv(): Promise<string> {
+  const lists = await getLists();
+  const entries = await Promise.all(
+    lists.map(async list => ({ list, items: await getItemsByList(list.id) }))
+  );
+  return listsToCsv(entries);
+}
+
+/**
+ * Guess which column holds which field from the header row
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map(header => header.trim().toLowerCase());
+  const mapping: CsvColumnMapping = {};
+
+  for (const field of ITEM_CSV_FIELDS) {
+    const index = normalized.findIndex(header => FIELD_ALIASES[field].includes(header));
+    if (index !== -1) {
+      mapping[field] = index;
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Index of the list column written by `listsToCsv`, if the header has one
+ */
+export function findListColumn(headers: string[]): number | undefined {
+  const index = headers.findIndex(header => header.trim().toLowerCase() === LIST_COLUMN);
+  return index === -1 ? undefined : index;
+}
+
+// Exports write numbers with a decimal point; either separator is accepted
+function parseNumber(value: string): number | undefined {
+  const trimmed = value.trim();
+  return trimmed === '' ? undefined : parseLocaleNumber(trimmed, '.');
+}
+
+function parseBoolean(value: string): boolean | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === '') return undefined;
+  if (['true', 'yes', 'y', '1', 'x', '✓'].includes(normalized)) return true;
+  if (['false', 'no', 'n', '0'].includes(normalized)) return false;
+  return undefined;
+}
+
+function parseDate(value: string): Date | undefined {
+  const trimmed = value.trim();
+  return trimmed === '' ? undefined : new Date(trimmed);
+}
+
+/**
+ * Convert CSV rows (header first) into items, validating each row against ItemSchema.
+ * Rejected rows are reported with their 1-based row number (the header is row 1).
+ * With a `listColumn`, each item's list name is returned alongside it.
+ */
+export function csvRowsToItems(rows: string[][], mapping: CsvColumnMapping, listColumn?: number): CsvImportResult {
+  const items: ImportedItem[] = [];
+  const errors: CsvRowError[] = [];
+  const listNames: string[] = [];
+
+  if (mapping.name === undefined) {
+    return { items, errors: [{ row: 1, message: 'No column is mapped to the item name' }] };
+  }
+
+  const cell = (row: string[], field: ItemCsvField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] ?? '');
+  };
+
+  rows.slice(1).forEach((row, index) => {
+    const rowNumber = index + 2;
+    const purchased = parseBoolean(cell(row, 'purchased'));
+    const purchasedAt = parseDate(cell(row, 'purchasedAt'));
+
+    const candidate = {
+      name: cell(row, 'name').trim(),
+      qty: parseNumber(cell(row, 'qty')),
+      unit: cell(row, 'unit').trim().toLowerCase() || undefined,
+      price: parseNumber(cell(row, 'price')),
+      category: cell(row, 'category').trim() || undefined,
+      notes: cell(row, 'notes').trim() || undefined,
+      purchased: purchased ?? (purchasedAt !== undefined),
+      purchasedAt,
+      createdAt: new Date(),
+    };
+
+    const listName = listColumn === undefined ? '' : (row[listColumn] ?? '').trim();
+    if (listColumn !== undefined && !listName) {
+      errors.push({ row: rowNumber, message: 'list: List name is required' });
+      return;
+    }
+
+    const result = ImportedItemSchema.safeParse(candidate);
+    if (!result.success) {
+      errors.push({
+        row: rowNumber,
+        message: result.error.errors
+          .map(err => `${err.path.join('.')}: ${err.message}`)
+          .join('; '),
+      });
+      return;
+    }
+
+    items.push(result.data);
+    listNames.push(listName);
+  });
+
+  return listColumn === undefined ? { items, errors } : { items, errors, listNames };
+}
+
+/**
+ * Add imported items to an existing list, or to a new list when `newListName` is given
+ */
+export async function importItemsToList(
+  items: ImportedItem[],
+  target: { listId: string } | { newListName: string; currency: string }
+): Promise<string> {
+  if ('listId' in target) {
+    const created = await applyItemBatch({ create: items.map(item => ({ ...item, listId: target.listId })), update: [] });
+    if (!created) throw new Error('Could not save the imported items');
+    return target.listId;
+  }
+
+  const list = await createListWithItems({ name: target.newListName, currency: target.currency }, items);
+  return list.id;
+}
+
+/**
+ * Create one new list per list name, each with its items; returns the first list's id
+ */
+export async function importItemsAsLists(items: ImportedItem[], listNames: string[], currency: string): Promise<string> {
+  const byList = new Map<string, ImportedItem[]>();
+  items.forEach((item, index) => {
+    byList.set(listNames[index], [...(byList.get(listNames[index]) ?? []), item]);
+  });
+
+  const ids: string[] = [];
+  for (const [name, listItems] of byList) {
+    ids.push((await createListWithItems({ name, currency }, listItems)).id);
+  }
+  if (ids.length === 0) throw new Error('No lists to import');
+  return ids[0];
+}
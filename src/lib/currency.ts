@@ -4,6 +4,217 @@
 
 const DEFAULT_CURRENCY = 'EUR';
 
+export interface CurrencyInfo {
+  code: string;
+  name: string;
+  minorUnits: number; // Digits after the decimal separator
+}
+
+// ISO 4217 currencies and funds with their minor units (precious metals, SDRs and test codes excluded)
+const ISO_4217: Array<[code: string, minorUnits: number, name: string]> = [
+  ['AED', 2, 'UAE Dirham'],
+  ['AFN', 2, 'Afghani'],
+  ['ALL', 2, 'Lek'],
+  ['AMD', 2, 'Armenian Dram'],
+  ['ANG', 2, 'Netherlands Antillean Guilder'],
+  ['AOA', 2, 'Kwanza'],
+  ['ARS', 2, 'Argentine Peso'],
+  ['AUD', 2, 'Australian Dollar'],
+  ['AWG', 2, 'Aruban Florin'],
+  ['AZN', 2, 'Azerbaijan Manat'],
+  ['BAM', 2, 'Convertible Mark'],
+  ['BBD', 2, 'Barbados Dollar'],
+  ['BDT', 2, 'Taka'],
+  ['BGN', 2, 'Bulgarian Lev'],
+  ['BHD', 3, 'Bahraini Dinar'],
+  ['BIF', 0, 'Burundi Franc'],
+  ['BMD', 2, 'Bermudian Dollar'],
+  ['BND', 2, 'Brunei Dollar'],
+  ['BOB', 2, 'Boliviano'],
+  ['BOV', 2, 'Mvdol'],
+  ['BRL', 2, 'Brazilian Real'],
+  ['BSD', 2, 'Bahamian Dollar'],
+  ['BTN', 2, 'Ngultrum'],
+  ['BWP', 2, 'Pula'],
+  ['BYN', 2, 'Belarusian Ruble'],
+  ['BZD', 2, 'Belize Dollar'],
+  ['CAD', 2, 'Canadian Dollar'],
+  ['CDF', 2, 'Congolese Franc'],
+  ['CHE', 2, 'WIR Euro'],
+  ['CHF', 2, 'Swiss Franc'],
+  ['CHW', 2, 'WIR Franc'],
+  ['CLF', 4, 'Unidad de Fomento'],
+  ['CLP', 0, 'Chilean Peso'],
+  ['CNY', 2, 'Yuan Renminbi'],
+  ['COP', 2, 'Colombian Peso'],
+  ['COU', 2, 'Unidad de Valor Real'],
+  ['CRC', 2, 'Costa Rican Colon'],
+  ['CUP', 2, 'Cuban Peso'],
+  ['CVE', 2, 'Cabo Verde Escudo'],
+  ['CZK', 2, 'Czech Koruna'],
+  ['DJF', 0, 'Djibouti Franc'],
+  ['DKK', 2, 'Danish Krone'],
+  ['DOP', 2, 'Dominican Peso'],
+  ['DZD', 2, 'Algerian Dinar'],
+  ['EGP', 2, 'Egyptian Pound'],
+  ['ERN', 2, 'Nakfa'],
+  ['ETB', 2, 'Ethiopian Birr'],
+  ['EUR', 2, 'Euro'],
+  ['FJD', 2, 'Fiji Dollar'],
+  ['FKP', 2, 'Falkland Islands Pound'],
+  ['GBP', 2, 'Pound Sterling'],
+  ['GEL', 2, 'Lari'],
+  ['GHS', 2, 'Ghana Cedi'],
+  ['GIP', 2, 'Gibraltar Pound'],
+  ['GMD', 2, 'Dalasi'],
+  ['GNF', 0, 'Guinean Franc'],
+  ['GTQ', 2, 'Quetzal'],
+  ['GYD', 2, 'Guyana Dollar'],
+  ['HKD', 2, 'Hong Kong Dollar'],
+  ['HNL', 2, 'Lempira'],
+  ['HTG', 2, 'Gourde'],
+  ['HUF', 2, 'Forint'],
+  ['IDR', 2, 'Rupiah'],
+  ['ILS', 2, 'New Israeli Sheqel'],
+  ['INR', 2, 'Indian Rupee'],
+  ['IQD', 3, 'Iraqi Dinar'],
+  ['IRR', 2, 'Iranian Rial'],
+  ['ISK', 0, 'Iceland Krona'],
+  ['JMD', 2, 'Jamaican Dollar'],
+  ['JOD', 3, 'Jordanian Dinar'],
+  ['JPY', 0, 'Yen'],
+  ['KES', 2, 'Kenyan Shilling'],
+  ['KGS', 2, 'Som'],
+  ['KHR', 2, 'Riel'],
+  ['KMF', 0, 'Comorian Franc'],
+  ['KPW', 2, 'North Korean Won'],
+  ['KRW', 0, 'Won'],
+  ['KWD', 3, 'Kuwaiti Dinar'],
+  ['KYD', 2, 'Cayman Islands Dollar'],
+  ['KZT', 2, 'Tenge'],
+  ['LAK', 2, 'Lao Kip'],
+  ['LBP', 2, 'Lebanese Pound'],
+  ['LKR', 2, 'Sri Lanka Rupee'],
+  ['LRD', 2, 'Liberian Dollar'],
+  ['LSL', 2, 'Loti'],
+  ['LYD', 3, 'Libyan Dinar'],
+  ['MAD', 2, 'Moroccan Dirham'],
+  ['MDL', 2, 'Moldovan Leu'],
+  ['MGA', 2, 'Malagasy Ariary'],
+  ['MKD', 2, 'Denar'],
+  ['MMK', 2, 'Kyat'],
+  ['MNT', 2, 'Tugrik'],
+  ['MOP', 2, 'Pataca'],
+  ['MRU', 2, 'Ouguiya'],
+  ['MUR', 2, 'Mauritius Rupee'],
+  ['MVR', 2, 'Rufiyaa'],
+  ['MWK', 2, 'Malawi Kwacha'],
+  ['MXN', 2, 'Mexican Peso'],
+  ['MXV', 2, 'Mexican Unidad de Inversion (UDI)'],
+  ['MYR', 2, 'Malaysian Ringgit'],
+  ['MZN', 2, 'Mozambique Metical'],
+  ['NAD', 2, 'Namibia Dollar'],
+  ['NGN', 2, 'Naira'],
+  ['NIO', 2, 'Cordoba Oro'],
+  ['NOK', 2, 'Norwegian Krone'],
+  ['NPR', 2, 'Nepalese Rupee'],
+  ['NZD', 2, 'New Zealand Dollar'],
+  ['OMR', 3, 'Rial Omani'],
+  ['PAB', 2, 'Balboa'],
+  ['PEN', 2, 'Sol'],
+  ['PGK', 2, 'Kina'],
+  ['PHP', 2, 'Philippine Peso'],
+  ['PKR', 2, 'Pakistan Rupee'],
+  ['PLN', 2, 'Zloty'],
+  ['PYG', 0, 'Guarani'],
+  ['QAR', 2, 'Qatari Rial'],
+  ['RON', 2, 'Romanian Leu'],
+  ['RSD', 2, 'Serbian Dinar'],
+  ['RUB', 2, 'Russian Ruble'],
+  ['RWF', 0, 'Rwanda Franc'],
+  ['SAR', 2, 'Saudi Riyal'],
+  ['SBD', 2, 'Solomon Islands Dollar'],
+  ['SCR', 2, 'Seychelles Rupee'],
+  ['SDG', 2, 'Sudanese Pound'],
+  ['SEK', 2, 'Swedish Krona'],
+  ['SGD', 2, 'Singapore Dollar'],
+  ['SHP', 2, 'Saint Helena Pound'],
+  ['SLE', 2, 'Leone'],
+  ['SOS', 2, 'Somali Shilling'],
+  ['SRD', 2, 'Surinam Dollar'],
+  ['SSP', 2, 'South Sudanese Pound'],
+  ['STN', 2, 'Dobra'],
+  ['SVC', 2, 'El Salvador Colon'],
+  ['SYP', 2, 'Syrian Pound'],
+  ['SZL', 2, 'Lilangeni'],
+  ['THB', 2, 'Baht'],
+  ['TJS', 2, 'Somoni'],
+  ['TMT', 2, 'Turkmenistan New Manat'],
+  ['TND', 3, 'Tunisian Dinar'],
+  ['TOP', 2, 'Pa\'anga'],
+  ['TRY', 2, 'Turkish Lira'],
+  ['TTD', 2, 'Trinidad and Tobago Dollar'],
+  ['TWD', 2, 'New Taiwan Dollar'],
+  ['TZS', 2, 'Tanzanian Shilling'],
+  ['UAH', 2, 'Hryvnia'],
+  ['UGX', 0, 'Uganda Shilling'],
+  ['USD', 2, 'US Dollar'],
+  ['USN', 2, 'US Dollar (Next day)'],
+  ['UYI', 0, 'Uruguay Peso en Unidades Indexadas (UI)'],
+  ['UYU', 2, 'Peso Uruguayo'],
+  ['UYW', 4, 'Unidad Previsional'],
+  ['UZS', 2, 'Uzbekistan Sum'],
+  ['VED', 2, 'Bolívar Soberano'],
+  ['VES', 2, 'Bolívar Soberano'],
+  ['VND', 0, 'Dong'],
+  ['VUV', 0, 'Vatu'],
+  ['WST', 2, 'Tala'],
+  ['XAF', 0, 'CFA Franc BEAC'],
+  ['XCD', 2, 'East Caribbean Dollar'],
+  ['XCG', 2, 'Caribbean Guilder'],
+  ['XOF', 0, 'CFA Franc BCEAO'],
+  ['XPF', 0, 'CFP Franc'],
+  ['YER', 2, 'Yemeni Rial'],
+  ['ZAR', 2, 'Rand'],
+  ['ZMW', 2, 'Zambian Kwacha'],
+  ['ZWG', 2, 'Zimbabwe Gold'],
+];
+
+export const CURRENCIES: CurrencyInfo[] = ISO_4217.map(([code, minorUnits, name]) => ({ code, name, minorUnits }));
+
+const CURRENCIES_BY_CODE = new Map(CURRENCIES.map(currency => [currency.code, currency]));
+
+/**
+ * Look up an ISO 4217 currency by code
+ */
+export function getCurrencyInfo(code: string): CurrencyInfo | undefined {
+  return CURRENCIES_BY_CODE.get(code.toUpperCase());
+}
+
+/**
+ * Number of digits after the decimal separator for a currency (2 when unknown)
+ */
+export function getMinorUnits(currency: string = DEFAULT_CURRENCY): number {
+  return getCurrencyInfo(currency)?.minorUnits ?? 2;
+}
+
+/**
+ * Round an amount to the currency's minor unit
+ */
+export function roundCurrency(amount: number, currency: string = DEFAULT_CURRENCY): number {
+  if (!isValidNumber(amount)) return 0;
+  const factor = 10 ** getMinorUnits(currency);
+  return Math.round(amount * factor) / factor;
+}
+
+/**
+ * Smallest amount of a currency, as used for the `step` of price inputs
+ */
+export function currencyStep(currency: string = DEFAULT_CURRENCY): string {
+  const digits = getMinorUnits(currency);
+  return digits === 0 ? '1' : `0.${'0'.repeat(digits - 1)}1`;
+}
+
 // Cache formatters for performance
 const formattersCache = new Map<string, Intl.NumberFormat>();
 
@@ -13,11 +224,12 @@ const formattersCache = new Map<string, Intl.NumberFormat>();
 function getFormatter(currency: string = DEFAULT_CURRENCY): Intl.NumberFormat {
   if (!formattersCache.has(currency)) {
     try {
+      const digits = getMinorUnits(currency);
       const formatter = new Intl.NumberFormat('en-US', {
         style: 'currency',
         currency,
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 2,
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits,
       });
       formattersCache.set(currency, formatter);
     } catch (error) {
@@ -95,4 +307,56 @@ export function calculateTax(subtotal: number, taxRate: number): number {
   
   const tax = subtotal * taxRate;
   return Math.round(tax * 100) / 100;
-}
\ No newline at end of file
+}
+
+// Exchange rates are quoted against this currency
+export const RATE_BASE_CURRENCY = 'EUR';
+
+// Units of each currency per 1 unit of RATE_BASE_CURRENCY
+export type RateTable = ReadonlyMap<string, number>;
+
+/**
+ * Build a rate lookup from stored exchange rates
+ */
+export function buildRateTable(rates: Array<{ currency: string; rate: number }>): RateTable {
+  const table = new Map(rates.map(({ currency, rate }) => [currency, rate]));
+  table.set(RATE_BASE_CURRENCY, 1);
+  return table;
+}
+
+/**
+ * Convert an amount between currencies; null when a rate is missing
+ */
+export function convertAmount(amount: number, from: string, to: string, rates: RateTable): number | null {
+  if (from === to) return amount;
+  const fromRate = rates.get(from);
+  const toRate = rates.get(to);
+  if (!fromRate || !toRate) return null;
+  return (amount / fromRate) * toRate;
+}
+
+export interface CurrencyConverter {
+  currency: string;
+  // Currencies seen without a rate; their amounts are counted unconverted
+  missingRates: Set<string>;
+  convert: (amount: number, from: string) => number;
+}
+
+/**
+ * Converter into `currency` that never fails: amounts without a rate are kept as they are
+ */
+export function createCurrencyConverter(currency: string, rates: RateTable): CurrencyConverter {
+  const missingRates = new Set<string>();
+  return {
+    currency,
+    missingRates,
+    convert: (amount, from) => {
+      const converted = convertAmount(amount, from, currency, rates);
+      if (converted === null) {
+        missingRates.add(from);
+        return amount;
+      }
+      return converted;
+    },
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Date helpers for records that pass through JSON
+ */
+
+/**
+ * Convert ISO date strings back into Date objects for the given fields
+ */
+export function reviveDates<T>(record: T, fields: string[]): T {
+  if (!record || typeof record !== 'object') {
+    return record;
+  }
+
+  const revived: Record<string, unknown> = { ...(record as Record<string, unknown>) };
+  for (const field of fields) {
+    const value = revived[field];
+    if (typeof value === 'string' || typeof value === 'number') {
+      const date = new Date(value);
+      if (!isNaN(date.getTime())) {
+        revived[field] = date;
+      }
+    } else if (value === null) {
+      delete revived[field];
+    }
+  }
+  return revived as T;
+}
+
+// Fields stored as Date objects in each IndexedDB store
+export const STORE_DATE_FIELDS = {
+  lists: ['createdAt', 'updatedAt', 'deletedAt', 'lastOccurrenceAt'],
+  items: ['createdAt', 'updatedAt', 'deletedAt', 'purchasedAt'],
+  productStats: ['lastUsed'],
+  budgets: ['createdAt', 'updatedAt'],
+  templates: ['createdAt', 'updatedAt'],
+  pantry: ['createdAt', 'updatedAt'],
+  stores: ['createdAt', 'updatedAt'],
+  priceObservations: ['observedAt'],
+  categories: ['createdAt', 'updatedAt'],
+  exchangeRates: ['updatedAt'],
+  settings: [],
+} satisfies Record<string, string[]>;
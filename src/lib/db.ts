@@ -1,10 +1,36 @@
-import { openDB } from 'idb';
-import type { DBSchema, IDBPDatabase } from 'idb';
-import type { List, Item, ProductStat, ProfileSettings, Budget, ShoppingAnalytics } from './types';
+import { deleteDB, openDB } from 'idb';
+import type { DBSchema, IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import type {
+  List,
+  Item,
+  ItemUnit,
+  ProductStat,
+  ProfileSettings,
+  Budget,
+  ShoppingAnalytics,
+  ExchangeRate,
+  Template,
+  PantryItem,
+  Store,
+  PriceObservation,
+  Category,
+  NewItem,
+} from './types';
 import { uuid } from './uuid';
-
-// Database schema version
-const DB_VERSION = 2;
+import { reviveDates } from './dates';
+import { ServiceWorkerManager } from './utils';
+import { buildRateTable, createCurrencyConverter, roundCurrency } from './currency';
+import { convertQuantity, convertUnitPrice, itemCount, normalizedUnitPrice } from './units';
+import { checkRecords } from './integrity';
+import type { IntegrityIssue } from './integrity';
+import { sameCategory } from './categories';
+import { LATEST_VERSION, runMigrations } from './migrations';
+import type { UpgradeTransaction } from './migrations';
+import { RECORD_SCHEMAS, recordErrors, recordKey } from './validation';
+import type { QuarantinedRecord, ValidatedStore } from './validation';
+
+// Database schema version, that of the latest migration
+export const DB_VERSION = LATEST_VERSION;
 const DB_NAME = 'shopping-list-db';
 
 // Database schema interface
@@ -12,14 +38,17 @@ interface ShoppingListDB extends DBSchema {
   lists: {
     key: string;
     value: List;
+    indexes: { 'by-updated-at': Date };
   };
   items: {
     key: string;
     value: Item;
+    indexes: { 'by-list': string; 'by-purchased-at': Date };
   };
   productStats: {
     key: string;
     value: ProductStat;
+    indexes: { 'by-last-used': Date };
   };
   budgets: {
     key: string;
@@ -29,12 +58,110 @@ interface ShoppingListDB extends DBSchema {
     key: string;
     value: ProfileSettings & { id: string };
   };
+  offlineOps: {
+    key: string;
+    value: OfflineOperation;
+    indexes: { 'by-seq': number };
+  };
+  syncBase: {
+    key: string;
+    value: SyncBase;
+  };
+  exchangeRates: {
+    key: string;
+    value: ExchangeRate;
+  };
+  templates: {
+    key: string;
+    value: Template;
+  };
+  pantry: {
+    key: string;
+    value: PantryItem;
+  };
+  stores: {
+    key: string;
+    value: Store;
+  };
+  priceObservations: {
+    key: string;
+    value: PriceObservation;
+    indexes: { 'by-name': string; 'by-item': string };
+  };
+  categories: {
+    key: string;
+    value: Category;
+  };
+  quarantine: {
+    key: string;
+    value: QuarantinedRecord;
+  };
+}
+
+// Last state of a record agreed with the sync server, used to detect local changes
+export interface SyncBase {
+  key: string;
+  store: SyncStore;
+  id: string;
+  fields: Record<string, unknown>;
+}
+
+export type SyncStore = 'lists' | 'items' | 'budgets';
+
+// Events relayed to the other tabs (and installed app windows) of this origin
+const CROSS_TAB_EVENTS = new Set([
+  'lists-changed',
+  'items-changed',
+  'budgets-changed',
+  'settings-changed',
+  'exchange-rates-changed',
+  'templates-changed',
+  'pantry-changed',
+  'stores-changed',
+  'prices-changed',
+  'categories-changed',
+  'quarantine-changed',
+  'offline-queue-changed',
+]);
+const EVENTS_CHANNEL_NAME = 'shopping-list-db-events';
+
+/**
+ * Database change event. `fromOtherTab` is set when the change was made in another tab.
+ */
+export class DatabaseEvent extends CustomEvent<unknown> {
+  readonly fromOtherTab: boolean;
+
+  constructor(type: string, detail: unknown, fromOtherTab = false) {
+    super(type, { detail });
+    this.fromOtherTab = fromOtherTab;
+  }
 }
 
 // Event emitter for database changes
 class DatabaseEventEmitter extends EventTarget {
+  private channel: BroadcastChannel | null = null;
+
+  constructor() {
+    super();
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(EVENTS_CHANNEL_NAME);
+      this.channel.onmessage = (message: MessageEvent<{ event: string; data: unknown }>) => {
+        const { event, data } = message.data;
+        this.dispatchEvent(new DatabaseEvent(event, data, true));
+      };
+    }
+  }
+
   emit(event: string, data?: unknown) {
-    this.dispatchEvent(new CustomEvent(event, { detail: data }));
+    this.dispatchEvent(new DatabaseEvent(event, data));
+
+    if (this.channel && CROSS_TAB_EVENTS.has(event)) {
+      try {
+        this.channel.postMessage({ event, data });
+      } catch (error) {
+        console.error('Error relaying database event to other tabs:', error);
+      }
+    }
   }
 
   on(event: string, callback: EventListener) {
@@ -51,16 +178,49 @@ export const dbEvents = new DatabaseEventEmitter();
 // Database instance
 let dbInstance: IDBPDatabase<ShoppingListDB> | null = null;
 
-// Offline operations queue
-interface OfflineOperation {
-  id: string;
-  operation: string;
-  data: unknown;
-  timestamp: Date;
+// Offline operations log
+interface OfflineOperationPayloads {
+  createList: List;
+  updateList: { id: string; updates: Partial<Omit<List, 'id' | 'createdAt'>> };
+  deleteList: { id: string };
+  createItem: Item;
+  updateItem: { id: string; updates: Partial<Omit<Item, 'id'>> };
+  deleteItem: { id: string };
+  createBudget: Budget;
+  updateBudget: { id: string; updates: Partial<Omit<Budget, 'id' | 'createdAt'>> };
+  deleteBudget: { id: string };
+}
+
+export type OfflineOperationType = keyof OfflineOperationPayloads;
+
+export type OfflineOperation = {
+  [K in OfflineOperationType]: {
+    id: string;
+    seq: number;
+    operation: K;
+    data: OfflineOperationPayloads[K];
+    timestamp: Date;
+    attempts?: number; // Replays that threw
+    failedAt?: Date; // Set aside after failing every attempt; no longer replayed
+  };
+}[OfflineOperationType];
+
+export interface OfflineQueueResult {
+  applied: number;
+  conflicts: number;
+  failed: number; // Threw when replayed
+  skipped: number; // Left for a later replay, behind one that failed
 }
 
-let offlineQueue: OfflineOperation[] = [];
+// Replays of an operation before it is set aside so later operations can go ahead
+const MAX_OFFLINE_ATTEMPTS = 3;
+
+// Operations that could not be written to IndexedDB are kept here and mirrored to localStorage
+let fallbackQueue: OfflineOperation[] = [];
+let lastSequence = 0;
+let processingQueue: Promise<OfflineQueueResult> | null = null;
 const OFFLINE_QUEUE_KEY = 'shopping-list-offline-queue';
+const OFFLINE_DATE_FIELDS = ['createdAt', 'updatedAt', 'deletedAt', 'purchasedAt'];
 
 /**
  * Initialize database connection
@@ -71,37 +231,35 @@ export async function initDatabase(): Promise<IDBPDatabase<ShoppingListDB>> {
   }
 
   try {
+    let migrationError: unknown = null;
     dbInstance = await openDB<ShoppingListDB>(DB_NAME, DB_VERSION, {
-      upgrade(db, oldVersion, newVersion) {
+      async upgrade(db, oldVersion, newVersion, transaction) {
         console.log(`Upgrading database from version ${oldVersion} to ${newVersion}`);
-        
-        // Version 1 - Initial schema
-        if (oldVersion < 1) {
-          // Lists store
-          db.createObjectStore('lists', { keyPath: 'id' });
-
-          // Items store
-          db.createObjectStore('items', { keyPath: 'id' });
-
-          // Product stats store
-          db.createObjectStore('productStats', { keyPath: 'name' });
-
-          // Settings store
-          db.createObjectStore('settings', { keyPath: 'id' });
-        }
-        
-        // Version 2 - Add budgets and enhanced analytics
-        if (oldVersion < 2) {
-          // Budgets store
-          db.createObjectStore('budgets', { keyPath: 'id' });
-          
-          console.log('Database upgraded to version 2');
+        // A failed upgrade is reported through openDB rejecting
+        transaction.done.catch(() => {});
+        try {
+          await runMigrations(
+            db as unknown as IDBPDatabase,
+            oldVersion,
+            newVersion,
+            transaction as unknown as UpgradeTransaction
+          );
+        } catch (error) {
+          // Abort so a failed upgrade leaves the database at its old version
+          migrationError = error;
+          try {
+            transaction.abort();
+          } catch {
+            // Already aborted by the failed request
+          }
         }
       },
+    }).catch(error => {
+      throw migrationError ?? error;
     });
 
-    // Load offline queue from localStorage
-    loadOfflineQueue();
+    // Load operations queued while IndexedDB was unavailable
+    loadFallbackQueue();
     
     return dbInstance;
   } catch (error) {
@@ -120,11 +278,202 @@ async function getDB(): Promise<IDBPDatabase<ShoppingListDB>> {
   return dbInstance;
 }
 
+/**
+ * Close the database connection; the next operation reopens it
+ */
+export function closeDatabase(): void {
+  dbInstance?.close();
+  dbInstance = null;
+}
+
+/**
+ * Every record of every store exactly as stored, opening the database at its
+ * current version without upgrading it. Used to rescue data after a failed upgrade.
+ */
+export async function exportRawDatabase(): Promise<Record<string, unknown[]>> {
+  const db = await openDB(DB_NAME);
+  try {
+    const names = [...db.objectStoreNames];
+    if (names.length === 0) return {};
+
+    const tx = db.transaction(names, 'readonly');
+    const records = await Promise.all(names.map(name => tx.objectStore(name).getAll()));
+    return Object.fromEntries(names.map((name, index) => [name, records[index]]));
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Delete the database and everything in it; the next operation creates it afresh
+ */
+export async function deleteDatabase(): Promise<void> {
+  closeDatabase();
+  await deleteDB(DB_NAME);
+}
+
+// Validation
+
+// Whether a record read from `store` matches its schema; those that don't are reported
+// and left out of the read. They are moved to quarantine by quarantineInvalidRecords.
+function isValidRecord(store: ValidatedStore, record: unknown): boolean {
+  const errors = recordErrors(store, record);
+  if (errors.length > 0) {
+    console.error(`Left out invalid ${store} record ${recordKey(store, record)}:`, errors);
+  }
+  return errors.length === 0;
+}
+
+function validated<T>(store: ValidatedStore, records: T[]): T[] {
+  return records.filter(record => isValidRecord(store, record));
+}
+
+function validatedRecord<T>(store: ValidatedStore, record: T | undefined): T | undefined {
+  return record === undefined ? undefined : validated(store, [record])[0];
+}
+
+/**
+ * Move every record that fails validation out of its store and into
+ * quarantine. Run at startup, before the app reads anything; returns how
+ * many records were moved.
+ */
+export async function quarantineInvalidRecords(): Promise<number> {
+  try {
+    const db = await getDB();
+    const stores = Object.keys(RECORD_SCHEMAS) as ValidatedStore[];
+    const tx = db.transaction([...stores, 'quarantine'], 'readwrite');
+    const quarantined: QuarantinedRecord[] = [];
+    for (const store of stores) {
+      let cursor = await tx.objectStore(store).openCursor();
+      while (cursor) {
+        const errors = recordErrors(store, cursor.value);
+        if (errors.length > 0) {
+          const key = recordKey(store, cursor.value);
+          const entry: QuarantinedRecord = { id: uuid(), store, key, record: cursor.value, errors, quarantinedAt: new Date() };
+          await tx.objectStore('quarantine').put(entry);
+          await cursor.delete();
+          quarantined.push(entry);
+        }
+        cursor = await cursor.continue();
+      }
+    }
+    await tx.done;
+
+    if (quarantined.length > 0) {
+      console.error(`Quarantined ${quarantined.length} invalid record(s):`, quarantined);
+      dbEvents.emit('quarantine-changed', { action: 'quarantine', count: quarantined.length });
+    }
+    return quarantined.length;
+  } catch (error) {
+    console.error('Error quarantining records:', error);
+    return 0;
+  }
+}
+
+/**
+ * Records taken out of their stores for failing validation, most recent first
+ */
+export async function getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+  try {
+    const db = await getDB();
+    const records = await db.getAll('quarantine');
+    return records.sort((a, b) => b.quarantinedAt.getTime() - a.quarantinedAt.getTime());
+  } catch (error) {
+    console.error('Error getting quarantined records:', error);
+    return [];
+  }
+}
+
+export async function clearQuarantine(): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.clear('quarantine');
+    dbEvents.emit('quarantine-changed', { action: 'clear' });
+  } catch (error) {
+    console.error('Error clearing quarantine:', error);
+  }
+}
+
+// Pagination
+
+/**
+ * One page of records. Pass `nextCursor` back to get the following page;
+ * it is null after the last one.
+ */
+export interface Page<T> {
+  records: T[];
+  nextCursor: string | null;
+}
+
+export interface PageOptions {
+  cursor?: string | null;
+  limit?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// Index key and primary key of the last record on a page
+interface PagePosition {
+  key: IDBValidKey;
+  primaryKey: string;
+}
+
+interface PageCursor<T> {
+  key: IDBValidKey;
+  primaryKey: IDBValidKey;
+  value: T;
+  direction: IDBCursorDirection;
+  continue(): Promise<PageCursor<T> | null>;
+  continuePrimaryKey(key: IDBValidKey, primaryKey: IDBValidKey): Promise<PageCursor<T> | null>;
+}
+
+// Cursors of pages ordered by a date are "<time>:<primary key>"
+function encodeDateCursor(position: PagePosition | null): string | null {
+  return position && `${(position.key as Date).getTime()}:${position.primaryKey}`;
+}
+
+function decodeDateCursor(cursor: string): PagePosition {
+  const separator = cursor.indexOf(':');
+  return { key: new Date(Number(cursor.slice(0, separator))), primaryKey: cursor.slice(separator + 1) };
+}
+
+/**
+ * Read up to `limit` records matching `include` from an index cursor, starting
+ * just past `after`. Returns the position of the last record when there may be more.
+ */
+async function readPage<T>(
+  cursor: PageCursor<T> | null,
+  after: PagePosition | null,
+  limit: number,
+  include: (record: T) => boolean
+): Promise<{ records: T[]; last: PagePosition | null }> {
+  if (cursor && after) {
+    const order = indexedDB.cmp(cursor.key, after.key) || indexedDB.cmp(cursor.primaryKey, after.primaryKey);
+    if (cursor.direction === 'prev' ? order > 0 : order < 0) {
+      cursor = await cursor.continuePrimaryKey(after.key, after.primaryKey);
+    }
+    if (cursor && indexedDB.cmp(cursor.key, after.key) === 0 && cursor.primaryKey === after.primaryKey) {
+      cursor = await cursor.continue();
+    }
+  }
+
+  const records: T[] = [];
+  let last: PagePosition | null = null;
+  while (cursor && records.length < limit) {
+    if (include(cursor.value)) {
+      records.push(cursor.value);
+      last = { key: cursor.key, primaryKey: String(cursor.primaryKey) };
+    }
+    cursor = await cursor.continue();
+  }
+  return { records, last: cursor ? last : null };
+}
+
 // Lists operations
 export async function getLists(): Promise<List[]> {
   try {
     const db = await getDB();
-    const lists = await db.getAll('lists');
+    const lists = validated('lists', await db.getAll('lists'));
     return lists
       .filter(list => !list.deletedAt)
       .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()); // Most recent first
@@ -134,10 +483,27 @@ export async function getLists(): Promise<List[]> {
   }
 }
 
+/**
+ * A page of lists, most recently updated first
+ */
+export async function getListsPage({ cursor, limit = DEFAULT_PAGE_SIZE }: PageOptions = {}): Promise<Page<List>> {
+  try {
+    const db = await getDB();
+    const after = cursor ? decodeDateCursor(cursor) : null;
+    const range = after ? IDBKeyRange.upperBound(after.key) : null;
+    const start = await db.transaction('lists').store.index('by-updated-at').openCursor(range, 'prev');
+    const { records, last } = await readPage(start, after, limit, list => !list.deletedAt && isValidRecord('lists', list));
+    return { records, nextCursor: encodeDateCursor(last) };
+  } catch (error) {
+    console.error('Error getting lists page:', error);
+    return { records: [], nextCursor: null };
+  }
+}
+
 export async function getList(id: string): Promise<List | undefined> {
   try {
     const db = await getDB();
-    const list = await db.get('lists', id);
+    const list = validatedRecord('lists', await db.get('lists', id));
     return list && !list.deletedAt ? list : undefined;
   } catch (error) {
     console.error('Error getting list:', error);
@@ -187,21 +553,41 @@ export async function updateList(id: string, updates: Partial<Omit<List, 'id' |
   }
 }
 
+// Items deleted along with their list carry the list's `deletedAt`, which is how restoring tells them apart
+function deletedWithList(item: Item, list: List): boolean {
+  return !!list.deletedAt && item.deletedAt?.getTime() === list.deletedAt.getTime();
+}
+
+/**
+ * Soft-delete a list and, in the same transaction, the items on it
+ */
 export async function deleteList(id: string): Promise<boolean> {
   try {
     const db = await getDB();
-    const existing = await db.get('lists', id);
-    if (!existing) return false;
+    const tx = db.transaction(['lists', 'items'], 'readwrite');
+    const existing = await tx.objectStore('lists').get(id);
+    if (!existing) {
+      await tx.done;
+      return false;
+    }
 
-    // Soft delete
+    const now = new Date();
     const deleted: List = {
       ...existing,
-      deletedAt: new Date(),
-      updatedAt: new Date(),
+      deletedAt: now,
+      updatedAt: now,
     };
 
-    await db.put('lists', deleted);
+    await tx.objectStore('lists').put(deleted);
+    for (const item of await tx.objectStore('items').index('by-list').getAll(id)) {
+      if (!item.deletedAt) {
+        await tx.objectStore('items').put({ ...item, deletedAt: now, updatedAt: now });
+      }
+    }
+    await tx.done;
+
     dbEvents.emit('lists-changed', { action: 'delete', list: deleted });
+    dbEvents.emit('items-changed', { action: 'delete', listId: id });
     return true;
   } catch (error) {
     console.error('Error deleting list:', error);
@@ -210,28 +596,156 @@ export async function deleteList(id: string): Promise<boolean> {
   }
 }
 
+/**
+ * Bring back a deleted list with the items deleted along with it
+ */
+export async function restoreList(id: string): Promise<List | null> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(['lists', 'items'], 'readwrite');
+    const existing = await tx.objectStore('lists').get(id);
+    if (!existing?.deletedAt) {
+      await tx.done;
+      return null;
+    }
+
+    const now = new Date();
+    const restored: List = {
+      ...existing,
+      deletedAt: undefined,
+      updatedAt: now,
+    };
+
+    await tx.objectStore('lists').put(restored);
+    for (const item of await tx.objectStore('items').index('by-list').getAll(id)) {
+      if (deletedWithList(item, existing)) {
+        await tx.objectStore('items').put({ ...item, deletedAt: undefined, updatedAt: now });
+      }
+    }
+    await tx.done;
+
+    dbEvents.emit('lists-changed', { action: 'restore', list: restored });
+    dbEvents.emit('items-changed', { action: 'restore', listId: id });
+    return restored;
+  } catch (error) {
+    console.error('Error restoring list:', error);
+    return null;
+  }
+}
+
+export interface DeletedList {
+  list: List;
+  itemCount: number;
+}
+
+/**
+ * Lists in the trash, most recently deleted first
+ */
+export async function getDeletedLists(): Promise<DeletedList[]> {
+  try {
+    const db = await getDB();
+    const deletedLists = validated('lists', await db.getAll('lists'))
+      .filter((list): list is List & { deletedAt: Date } => !!list.deletedAt)
+      .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+
+    // Count the items that restoring would bring back
+    return await Promise.all(deletedLists.map(async list => {
+      const items = await db.getAllFromIndex('items', 'by-list', list.id);
+      return { list, itemCount: items.filter(item => deletedWithList(item, list)).length };
+    }));
+  } catch (error) {
+    console.error('Error getting deleted lists:', error);
+    return [];
+  }
+}
+
+/**
+ * Permanently remove deleted lists and their items, in a single transaction.
+ * Only lists already in the trash are removed. Returns how many were purged.
+ */
+export async function purgeLists(ids: string[]): Promise<number> {
+  if (ids.length === 0) return 0;
+
+  try {
+    const db = await getDB();
+    const tx = db.transaction(['lists', 'items'], 'readwrite');
+    const lists = tx.objectStore('lists');
+    const items = tx.objectStore('items');
+
+    const purged = new Set<string>();
+    for (const id of ids) {
+      const list = await lists.get(id);
+      if (list?.deletedAt) {
+        await lists.delete(id);
+        for (const key of await items.index('by-list').getAllKeys(id)) await items.delete(key);
+        purged.add(id);
+      }
+    }
+    await tx.done;
+
+    if (purged.size > 0) {
+      dbEvents.emit('lists-changed', { action: 'purge', ids: [...purged] });
+      dbEvents.emit('items-changed', { action: 'purge', listIds: [...purged] });
+    }
+    return purged.size;
+  } catch (error) {
+    console.error('Error purging lists:', error);
+    return 0;
+  }
+}
+
 // Items operations
+
+// Purchased items always carry `purchasedAt`, so the purchase date index covers every purchase
+function withPurchaseDate(item: Item): Item {
+  return item.purchased && !item.purchasedAt ? { ...item, purchasedAt: item.createdAt } : item;
+}
+
 export async function getItemsByList(listId: string): Promise<Item[]> {
   try {
     const db = await getDB();
-    const allItems = await db.getAll('items');
-    return allItems.filter(item => item.listId === listId);
+    const items = validated('items', await db.getAllFromIndex('items', 'by-list', listId));
+    return items.filter(item => !item.deletedAt);
   } catch (error) {
     console.error('Error getting items:', error);
     return getItemsFromLocalStorage(listId);
   }
 }
 
-export async function createItem(itemData: Omit<Item, 'id'>): Promise<Item> {
-  const item: Item = {
+/**
+ * A page of a list's items, in a stable order that new items do not shift
+ */
+export async function getItemsPage(
+  listId: string,
+  { cursor, limit = DEFAULT_PAGE_SIZE }: PageOptions = {}
+): Promise<Page<Item>> {
+  try {
+    const db = await getDB();
+    const after = cursor ? { key: listId, primaryKey: cursor } : null;
+    const start = await db.transaction('items').store.index('by-list').openCursor(listId);
+    const { records, last } = await readPage(start, after, limit, item => !item.deletedAt && isValidRecord('items', item));
+    return { records, nextCursor: last?.primaryKey ?? null };
+  } catch (error) {
+    console.error('Error getting items page:', error);
+    return { records: [], nextCursor: null };
+  }
+}
+
+export async function createItem(itemData: NewItem): Promise<Item> {
+  const item: Item = withPurchaseDate({
     ...itemData,
     id: uuid(),
-  };
+    updatedAt: new Date(),
+  });
 
   try {
     const db = await getDB();
-    await db.put('items', item);
-    await updateProductStats(item.name, item.price, item.category);
+    const tx = db.transaction(['items', 'productStats'], 'readwrite');
+    const stats = tx.objectStore('productStats');
+    await tx.objectStore('items').put(item);
+    await stats.put(nextProductStat(await stats.get(item.name), item.name, item.price, item.category, item.unit));
+    await tx.done;
+
     dbEvents.emit('items-changed', { action: 'create', item });
     return item;
   } catch (error) {
@@ -241,25 +755,100 @@ export async function createItem(itemData: Omit<Item, 'id'>): Promise<Item> {
   }
 }
 
+type PurchaseEffectStore = 'lists' | 'items' | 'pantry' | 'priceObservations';
+
+interface PurchaseEffects {
+  item: Item; // The updated item, with the stock it added recorded on it
+  restocked: PantryItem | null;
+  pricesChanged: boolean;
+}
+
+/**
+ * Follow an item being checked or unchecked, within its transaction. Buying a
+ * product restocks the pantry and logs its price; unchecking takes both back.
+ * The item remembers how much stock it added, so unchecking removes exactly
+ * that even after its quantity changed. Units that don't convert (pieces
+ * against kg) leave the stock alone. Every path that changes an item's
+ * purchased state goes through here: editing, offline replay and sync.
+ */
+async function applyPurchaseEffects<Store extends StoreNames<ShoppingListDB>>(
+  tx: IDBPTransaction<ShoppingListDB, (Store | PurchaseEffectStore)[], 'readwrite'>,
+  existing: Item,
+  updated: Item
+): Promise<PurchaseEffects> {
+  const effects: PurchaseEffects = { item: updated, restocked: null, pricesChanged: false };
+  if (updated.purchased === existing.purchased) return effects;
+
+  const pantryItem = findPantryItem(await tx.objectStore('pantry').getAll(), updated.name);
+  if (updated.purchased) {
+    const added = pantryItem ? convertQuantity(updated.qty, updated.unit ?? 'pcs', pantryItem.unit) : null;
+    if (pantryItem && added !== null) {
+      effects.restocked = restockPantryItem(pantryItem, added);
+      effects.item = { ...updated, restockedQty: added };
+    }
+  } else {
+    if (pantryItem && existing.restockedQty) {
+      effects.restocked = restockPantryItem(pantryItem, -existing.restockedQty);
+    }
+    effects.item = { ...updated, restockedQty: undefined };
+  }
+  if (effects.restocked) await tx.objectStore('pantry').put(effects.restocked);
+
+  const observations = tx.objectStore('priceObservations');
+  if (updated.purchased) {
+    const observation = priceObservationFor(updated, await tx.objectStore('lists').get(updated.listId));
+    if (observation) {
+      await observations.put(observation);
+      effects.pricesChanged = true;
+    }
+  } else {
+    const keys = await observations.index('by-item').getAllKeys(updated.id);
+    for (const key of keys) await observations.delete(key);
+    effects.pricesChanged = keys.length > 0;
+  }
+  return effects;
+}
+
+function emitPurchaseEffects({ item, restocked, pricesChanged }: PurchaseEffects): void {
+  if (restocked) {
+    dbEvents.emit('pantry-changed', { action: 'stock', pantryItem: restocked });
+  }
+  if (pricesChanged) {
+    dbEvents.emit('prices-changed', { action: item.purchased ? 'create' : 'delete', itemId: item.id });
+  }
+}
+
+/**
+ * Update an item. Its pantry stock, price history and product stats follow
+ * along in the same transaction.
+ */
 export async function updateItem(id: string, updates: Partial<Omit<Item, 'id'>>): Promise<Item | null> {
   try {
     const db = await getDB();
-    const existing = await db.get('items', id);
-    if (!existing) return null;
+    const tx = db.transaction(['lists', 'items', 'productStats', 'pantry', 'priceObservations'], 'readwrite');
+    const existing = await tx.objectStore('items').get(id);
+    if (!existing || existing.deletedAt) {
+      await tx.done;
+      return null;
+    }
 
-    const updated: Item = {
+    const effects = await applyPurchaseEffects(tx, existing, withPurchaseDate({
       ...existing,
       ...updates,
-    };
-
-    await db.put('items', updated);
-    
-    // Update product stats if name or price changed
-    if (updates.name !== undefined || updates.price !== undefined) {
-      await updateProductStats(updated.name, updated.price, updated.category);
+      updatedAt: new Date(),
+    }));
+    const updated = effects.item;
+    await tx.objectStore('items').put(updated);
+
+    // Update product stats if name, price or unit changed
+    if (updates.name !== undefined || updates.price !== undefined || updates.unit !== undefined) {
+      const stats = tx.objectStore('productStats');
+      await stats.put(nextProductStat(await stats.get(updated.name), updated.name, updated.price, updated.category, updated.unit));
     }
+    await tx.done;
     
     dbEvents.emit('items-changed', { action: 'update', item: updated });
+    emitPurchaseEffects(effects);
     return updated;
   } catch (error) {
     console.error('Error updating item:', error);
@@ -268,14 +857,24 @@ export async function updateItem(id: string, updates: Partial<Omit<Item, 'id'>>)
   }
 }
 
+/**
+ * Soft-delete an item; it is kept as a tombstone until purged with the trash
+ */
 export async function deleteItem(id: string): Promise<boolean> {
   try {
     const db = await getDB();
     const existing = await db.get('items', id);
-    if (!existing) return false;
+    if (!existing || existing.deletedAt) return false;
 
-    await db.delete('items', id);
-    dbEvents.emit('items-changed', { action: 'delete', item: existing });
+    const now = new Date();
+    const deleted: Item = {
+      ...existing,
+      deletedAt: now,
+      updatedAt: now,
+    };
+
+    await db.put('items', deleted);
+    dbEvents.emit('items-changed', { action: 'delete', item: deleted });
     return true;
   } catch (error) {
     console.error('Error deleting item:', error);
@@ -284,54 +883,298 @@ export async function deleteItem(id: string): Promise<boolean> {
   }
 }
 
-// Product statistics operations
-export async function getProductStats(): Promise<ProductStat[]> {
+export async function getItem(id: string): Promise<Item | undefined> {
   try {
     const db = await getDB();
-    const stats = await db.getAll('productStats');
-    return stats.sort((a, b) => b.usedCount - a.usedCount);
+    const item = validatedRecord('items', await db.get('items', id));
+    return item && !item.deletedAt ? item : undefined;
   } catch (error) {
-    console.error('Error getting product stats:', error);
-    return [];
+    console.error('Error getting item:', error);
+    return undefined;
   }
 }
 
-export async function updateProductStats(name: string, price: number, category?: string): Promise<void> {
+/**
+ * Put a deleted item back as it was, keeping its id
+ */
+export async function restoreItem(item: Item): Promise<Item | null> {
+  const restored: Item = {
+    ...item,
+    deletedAt: undefined,
+    updatedAt: new Date(),
+  };
+
   try {
     const db = await getDB();
-    const existing = await db.get('productStats', name);
-    
-    const newUsedCount = existing ? existing.usedCount + 1 : 1;
-    const newTotalSpend = existing ? existing.totalSpend + price : price;
-    
-    const updated: ProductStat = {
-      name,
-      usedCount: newUsedCount,
-      totalSpend: newTotalSpend,
-      lastUsed: new Date(),
-      averagePrice: newTotalSpend / newUsedCount,
-      category: category || existing?.category,
-    };
-
-    await db.put('productStats', updated);
+    await db.put('items', restored);
+    dbEvents.emit('items-changed', { action: 'create', item: restored });
+    return restored;
   } catch (error) {
-    console.error('Error updating product stats:', error);
+    console.error('Error restoring item:', error);
+    return null;
   }
 }
 
-// Settings operations
-export async function getSettings(): Promise<ProfileSettings> {
+/**
+ * Permanently remove items deleted before `before`. Items in the trash with
+ * their list stay until the list itself is purged.
+ */
+export async function purgeDeletedItems(before: Date): Promise<number> {
   try {
     const db = await getDB();
-    const settings = await db.get('settings', 'profile');
-    return settings || {
-      theme: 'system',
-      currency: 'EUR',
-      taxRate: 0,
-      hapticsEnabled: true,
-    };
-  } catch (error) {
-    console.error('Error getting settings:', error);
+    const tx = db.transaction(['lists', 'items'], 'readwrite');
+    let purged = 0;
+
+    for (const item of await tx.objectStore('items').getAll()) {
+      if (!item.deletedAt || item.deletedAt >= before) continue;
+      const list = await tx.objectStore('lists').get(item.listId);
+      if (list && deletedWithList(item, list)) continue;
+
+      await tx.objectStore('items').delete(item.id);
+      purged++;
+    }
+    await tx.done;
+
+    if (purged > 0) {
+      dbEvents.emit('items-changed', { action: 'purge' });
+    }
+    return purged;
+  } catch (error) {
+    console.error('Error purging deleted items:', error);
+    return 0;
+  }
+}
+
+// Product statistics operations
+export async function getProductStats(): Promise<ProductStat[]> {
+  try {
+    const db = await getDB();
+    const stats = validated('productStats', await db.getAll('productStats'));
+    return stats.sort((a, b) => b.usedCount - a.usedCount);
+  } catch (error) {
+    console.error('Error getting product stats:', error);
+    return [];
+  }
+}
+
+/**
+ * A page of product stats, most recently bought first
+ */
+export async function getProductStatsPage(
+  { cursor, limit = DEFAULT_PAGE_SIZE }: PageOptions = {}
+): Promise<Page<ProductStat>> {
+  try {
+    const db = await getDB();
+    const after = cursor ? decodeDateCursor(cursor) : null;
+    const range = after ? IDBKeyRange.upperBound(after.key) : null;
+    const start = await db.transaction('productStats').store.index('by-last-used').openCursor(range, 'prev');
+    const { records, last } = await readPage(start, after, limit, stat => isValidRecord('productStats', stat));
+    return { records, nextCursor: encodeDateCursor(last) };
+  } catch (error) {
+    console.error('Error getting product stats page:', error);
+    return { records: [], nextCursor: null };
+  }
+}
+
+// A product's stats after buying it again at `price`
+function nextProductStat(
+  existing: ProductStat | undefined,
+  name: string,
+  price: number,
+  category?: string,
+  unit?: ItemUnit
+): ProductStat {
+  const newUsedCount = existing ? existing.usedCount + 1 : 1;
+  // The average is per the unit last bought in: earlier prices are converted to it (per g
+  // to per kg), and it starts over from this price when the unit measures something else
+  const earlierTotal = existing ? convertUnitPrice(existing.totalSpend, existing.unit, unit ?? existing.unit) : 0;
+  const newTotalSpend = earlierTotal === null ? price * newUsedCount : earlierTotal + price;
+
+  // Track the normalized unit price, restarting the lowest when the unit changes dimension
+  const unitPrice = normalizedUnitPrice(price, unit);
+  const sameUnit = unitPrice && existing?.unitPricePer === unitPrice.per;
+
+  return {
+    name,
+    usedCount: newUsedCount,
+    totalSpend: newTotalSpend,
+    lastUsed: new Date(),
+    averagePrice: newTotalSpend / newUsedCount,
+    category: category || existing?.category,
+    unit: unit ?? existing?.unit,
+    unitPrice: unitPrice ? unitPrice.amount : existing?.unitPrice,
+    lowestUnitPrice: unitPrice
+      ? Math.min(unitPrice.amount, sameUnit ? existing?.lowestUnitPrice ?? Infinity : Infinity)
+      : existing?.lowestUnitPrice,
+    unitPricePer: unitPrice ? unitPrice.per : existing?.unitPricePer,
+  };
+}
+
+export async function updateProductStats(
+  name: string,
+  price: number,
+  category?: string,
+  unit?: ItemUnit
+): Promise<void> {
+  try {
+    const db = await getDB();
+    const existing = await db.get('productStats', name);
+    await db.put('productStats', nextProductStat(existing, name, price, category, unit));
+  } catch (error) {
+    console.error('Error updating product stats:', error);
+  }
+}
+
+export interface ItemBatch {
+  create: NewItem[];
+  update: Array<{ id: string; updates: Partial<Omit<Item, 'id'>> }>;
+}
+
+/**
+ * Create and update many items in a single transaction, so either all of the
+ * batch is saved or none of it. Returns the created items, or null on failure.
+ */
+export async function applyItemBatch(batch: ItemBatch): Promise<Item[] | null> {
+  const now = new Date();
+  const created: Item[] = batch.create.map(itemData => withPurchaseDate({ ...itemData, id: uuid(), updatedAt: now }));
+
+  try {
+    const db = await getDB();
+    const tx = db.transaction(['items', 'productStats'], 'readwrite');
+    const items = tx.objectStore('items');
+    const stats = tx.objectStore('productStats');
+
+    for (const { id, updates } of batch.update) {
+      const existing = await items.get(id);
+      if (existing && !existing.deletedAt) await items.put(withPurchaseDate({ ...existing, ...updates, updatedAt: now }));
+    }
+    for (const item of created) {
+      await items.put(item);
+      await stats.put(nextProductStat(await stats.get(item.name), item.name, item.price, item.category, item.unit));
+    }
+    await tx.done;
+
+    dbEvents.emit('items-changed', { action: 'batch', items: created });
+    return created;
+  } catch (error) {
+    console.error('Error saving items:', error);
+    return null;
+  }
+}
+
+type NewList = Omit<List, 'id' | 'createdAt' | 'updatedAt'>;
+
+// A new list and its items, all stamped `now`
+function buildListWithItems(listData: NewList, itemsData: Array<Omit<NewItem, 'listId'>>, now: Date) {
+  const list: List = {
+    ...listData,
+    id: uuid(),
+    createdAt: now,
+    updatedAt: now,
+  };
+  const items: Item[] = itemsData.map(itemData =>
+    withPurchaseDate({ ...itemData, id: uuid(), listId: list.id, updatedAt: now })
+  );
+  return { list, items };
+}
+
+// Write a new list with its items, and their product stats, within a transaction
+async function putListWithItems(
+  tx: IDBPTransaction<ShoppingListDB, ('lists' | 'items' | 'productStats')[], 'readwrite'>,
+  list: List,
+  items: Item[]
+): Promise<void> {
+  const stats = tx.objectStore('productStats');
+  await tx.objectStore('lists').put(list);
+  for (const item of items) {
+    await tx.objectStore('items').put(item);
+    await stats.put(nextProductStat(await stats.get(item.name), item.name, item.price, item.category, item.unit));
+  }
+}
+
+function emitListWithItemsCreated(list: List, items: Item[]): void {
+  dbEvents.emit('lists-changed', { action: 'create', list });
+  if (items.length > 0) {
+    dbEvents.emit('items-changed', { action: 'batch', items });
+  }
+}
+
+/**
+ * Create a list together with its items in a single transaction
+ */
+export async function createListWithItems(
+  listData: NewList,
+  itemsData: Array<Omit<NewItem, 'listId'>>
+): Promise<List> {
+  const { list, items: created } = buildListWithItems(listData, itemsData, new Date());
+
+  try {
+    const db = await getDB();
+    const tx = db.transaction(['lists', 'items', 'productStats'], 'readwrite');
+    await putListWithItems(tx, list, created);
+    await tx.done;
+
+    emitListWithItemsCreated(list, created);
+    return list;
+  } catch (error) {
+    console.error('Error creating list:', error);
+    await queueOfflineOperation('createList', list);
+    for (const item of created) {
+      await queueOfflineOperation('createItem', item);
+    }
+    return list;
+  }
+}
+
+/**
+ * Create the occurrence of a scheduled list due at `due`: the new list with its
+ * items and the series' `lastOccurrenceAt`, in a single transaction. Returns
+ * null, creating nothing, when the series already has that occurrence.
+ */
+export async function createListOccurrence(
+  seriesId: string,
+  due: Date,
+  listData: NewList,
+  itemsData: Array<Omit<NewItem, 'listId'>>
+): Promise<List | null> {
+  try {
+    const now = new Date();
+    const { list, items: created } = buildListWithItems(listData, itemsData, now);
+    const db = await getDB();
+    const tx = db.transaction(['lists', 'items', 'productStats'], 'readwrite');
+    const series = await tx.objectStore('lists').get(seriesId);
+    if (!series || series.deletedAt || (series.lastOccurrenceAt && series.lastOccurrenceAt >= due)) {
+      await tx.done;
+      return null;
+    }
+
+    const updatedSeries: List = { ...series, lastOccurrenceAt: due, updatedAt: now };
+    await tx.objectStore('lists').put(updatedSeries);
+    await putListWithItems(tx, list, created);
+    await tx.done;
+
+    dbEvents.emit('lists-changed', { action: 'update', list: updatedSeries });
+    emitListWithItemsCreated(list, created);
+    return list;
+  } catch (error) {
+    console.error('Error creating scheduled list:', error);
+    return null;
+  }
+}
+
+// Settings operations
+export async function getSettings(): Promise<ProfileSettings> {
+  try {
+    const db = await getDB();
+    const settings = validatedRecord('settings', await db.get('settings', 'profile'));
+    return settings || {
+      theme: 'system',
+      currency: 'EUR',
+      taxRate: 0,
+      hapticsEnabled: true,
+    };
+  } catch (error) {
+    console.error('Error getting settings:', error);
     return {
       theme: 'system',
       currency: 'EUR',
@@ -341,235 +1184,1291 @@ export async function getSettings(): Promise<ProfileSettings> {
   }
 }
 
-export async function updateSettings(settings: ProfileSettings): Promise<void> {
+export async function updateSettings(settings: ProfileSettings): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.put('settings', { ...settings, id: 'profile' });
+    dbEvents.emit('settings-changed', settings);
+  } catch (error) {
+    console.error('Error updating settings:', error);
+  }
+}
+
+// Snapshot operations (used by backup/restore)
+export interface DatabaseSnapshot {
+  lists: List[];
+  items: Item[];
+  productStats: ProductStat[];
+  budgets: Budget[];
+  settings: Array<ProfileSettings & { id: string }>;
+  templates: Template[];
+  pantry: PantryItem[];
+  stores: Store[];
+  priceObservations: PriceObservation[];
+  categories: Category[];
+  exchangeRates: ExchangeRate[];
+}
+
+const SNAPSHOT_STORES = [
+  'lists',
+  'items',
+  'productStats',
+  'budgets',
+  'settings',
+  'templates',
+  'pantry',
+  'stores',
+  'priceObservations',
+  'categories',
+  'exchangeRates',
+] as const;
+
+/**
+ * Read every record from every store, including soft-deleted lists and items.
+ * Records failing validation are left out.
+ */
+export async function exportSnapshot(): Promise<DatabaseSnapshot> {
+  const db = await getDB();
+  const tx = db.transaction(SNAPSHOT_STORES, 'readonly');
+  const [
+    lists,
+    items,
+    productStats,
+    budgets,
+    settings,
+    templates,
+    pantry,
+    stores,
+    priceObservations,
+    categories,
+    exchangeRates,
+  ] = await Promise.all([
+    tx.objectStore('lists').getAll(),
+    tx.objectStore('items').getAll(),
+    tx.objectStore('productStats').getAll(),
+    tx.objectStore('budgets').getAll(),
+    tx.objectStore('settings').getAll(),
+    tx.objectStore('templates').getAll(),
+    tx.objectStore('pantry').getAll(),
+    tx.objectStore('stores').getAll(),
+    tx.objectStore('priceObservations').getAll(),
+    tx.objectStore('categories').getAll(),
+    tx.objectStore('exchangeRates').getAll(),
+  ]);
+  await tx.done;
+  return {
+    lists: validated('lists', lists),
+    items: validated('items', items),
+    productStats: validated('productStats', productStats),
+    budgets: validated('budgets', budgets),
+    settings: validated('settings', settings),
+    templates: validated('templates', templates),
+    pantry: validated('pantry', pantry),
+    stores: validated('stores', stores),
+    priceObservations: validated('priceObservations', priceObservations),
+    categories: validated('categories', categories),
+    exchangeRates: validated('exchangeRates', exchangeRates),
+  };
+}
+
+/**
+ * Write a snapshot in a single transaction.
+ * When `clear` is set every store is emptied first, otherwise records are upserted by key.
+ */
+export async function importSnapshot(snapshot: DatabaseSnapshot, { clear = false } = {}): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(SNAPSHOT_STORES, 'readwrite');
+
+  if (clear) {
+    await Promise.all(SNAPSHOT_STORES.map(store => tx.objectStore(store).clear()));
+  }
+
+  await Promise.all([
+    ...snapshot.lists.map(list => tx.objectStore('lists').put(list)),
+    ...snapshot.items.map(item => tx.objectStore('items').put(withPurchaseDate(item))),
+    ...snapshot.productStats.map(stat => tx.objectStore('productStats').put(stat)),
+    ...snapshot.budgets.map(budget => tx.objectStore('budgets').put(budget)),
+    ...snapshot.settings.map(settings => tx.objectStore('settings').put(settings)),
+    ...snapshot.templates.map(template => tx.objectStore('templates').put(template)),
+    ...snapshot.pantry.map(pantryItem => tx.objectStore('pantry').put(pantryItem)),
+    ...snapshot.stores.map(store => tx.objectStore('stores').put(store)),
+    ...snapshot.priceObservations.map(observation => tx.objectStore('priceObservations').put(observation)),
+    ...snapshot.categories.map(category => tx.objectStore('categories').put(category)),
+    ...snapshot.exchangeRates.map(rate => tx.objectStore('exchangeRates').put(rate)),
+  ]);
+  await tx.done;
+
+  dbEvents.emit('lists-changed', { action: 'import' });
+  dbEvents.emit('items-changed', { action: 'import' });
+  dbEvents.emit('budgets-changed', { action: 'import' });
+  dbEvents.emit('templates-changed', { action: 'import' });
+  dbEvents.emit('pantry-changed', { action: 'import' });
+  dbEvents.emit('stores-changed', { action: 'import' });
+  dbEvents.emit('prices-changed', { action: 'import' });
+  dbEvents.emit('categories-changed', { action: 'import' });
+  dbEvents.emit('exchange-rates-changed', { action: 'import' });
+  dbEvents.emit('settings-changed', await getSettings());
+}
+
+// Integrity operations
+
+/**
+ * Check lists, items and settings for broken references in a single
+ * transaction, repairing them when `repair` is set. Returns the issues found.
+ */
+export async function checkIntegrity({ repair = false } = {}): Promise<IntegrityIssue[]> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(['lists', 'items', 'stores', 'settings'], 'readwrite');
+    const [lists, items, stores, settings] = await Promise.all([
+      tx.objectStore('lists').getAll(),
+      tx.objectStore('items').getAll(),
+      tx.objectStore('stores').getAll(),
+      tx.objectStore('settings').get('profile'),
+    ]);
+    const { issues, repairs } = checkRecords({ lists, items, stores, settings });
+
+    if (repair) {
+      for (const list of repairs.lists) await tx.objectStore('lists').put(list);
+      for (const item of repairs.items) await tx.objectStore('items').put(item);
+      for (const id of repairs.deleteItems) await tx.objectStore('items').delete(id);
+      if (repairs.settings) await tx.objectStore('settings').put(repairs.settings);
+    }
+    await tx.done;
+
+    if (repair && issues.length > 0) {
+      dbEvents.emit('lists-changed', { action: 'repair' });
+      dbEvents.emit('items-changed', { action: 'repair' });
+      if (repairs.settings) dbEvents.emit('settings-changed', repairs.settings);
+    }
+    return issues;
+  } catch (error) {
+    console.error('Error checking data integrity:', error);
+    return [];
+  }
+}
+
+// Sync operations
+
+/**
+ * A record changed by the server. The server's fields are applied to the
+ * record as it is when written, not as it was read before pulling, so local
+ * edits made meanwhile survive.
+ */
+export interface SyncUpsert<T> {
+  record: T; // Merged from the local record the sync started from and the server's fields
+  fields: string[]; // Fields accepted from the server
+  previous?: T; // The local record the sync started from
+}
+
+export interface SyncWrite {
+  upserts: { lists: SyncUpsert<List>[]; items: SyncUpsert<Item>[]; budgets: SyncUpsert<Budget>[] };
+  deletes: { budgets: string[] };
+  bases: SyncBase[];
+}
+
+export async function getSyncBases(): Promise<SyncBase[]> {
+  const db = await getDB();
+  return db.getAll('syncBase');
+}
+
+// The server's fields applied to the record as currently stored. A field edited locally
+// since the sync read it keeps the local edit, which differs from the new sync base and
+// so is pushed on the next sync.
+function applySyncUpsert<T>(current: T | undefined, { record, fields, previous }: SyncUpsert<T>): T {
+  if (!current) return record;
+
+  const valueOf = (source: T, field: string) => JSON.stringify((source as Record<string, unknown>)[field]);
+  const patched = { ...current } as Record<string, unknown>;
+  for (const field of fields) {
+    if (previous && valueOf(current, field) !== valueOf(previous, field)) continue;
+    patched[field] = (record as Record<string, unknown>)[field];
+  }
+  return patched as T;
+}
+
+/**
+ * Apply changes received from the sync server together with the new sync bases
+ */
+export async function applySyncWrite(write: SyncWrite): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(['lists', 'items', 'budgets', 'syncBase', 'pantry', 'priceObservations'], 'readwrite');
+  const lists = tx.objectStore('lists');
+  const items = tx.objectStore('items');
+  const budgets = tx.objectStore('budgets');
+  const purchases: PurchaseEffects[] = [];
+
+  for (const upsert of write.upserts.lists) {
+    await lists.put(applySyncUpsert(await lists.get(upsert.record.id), upsert));
+  }
+  for (const upsert of write.upserts.items) {
+    // The pantry and price history aren't synced, so each device restocks its own
+    // pantry when it learns of a purchase made elsewhere
+    const current = await items.get(upsert.record.id);
+    const updated = withPurchaseDate(applySyncUpsert(current, upsert));
+    const effects = current ? await applyPurchaseEffects(tx, current, updated) : null;
+    await items.put(effects?.item ?? updated);
+    if (effects) purchases.push(effects);
+  }
+  for (const upsert of write.upserts.budgets) {
+    await budgets.put(applySyncUpsert(await budgets.get(upsert.record.id), upsert));
+  }
+  for (const id of write.deletes.budgets) await budgets.delete(id);
+  for (const base of write.bases) await tx.objectStore('syncBase').put(base);
+  await tx.done;
+
+  if (write.upserts.lists.length > 0) {
+    dbEvents.emit('lists-changed', { action: 'sync' });
+  }
+  if (write.upserts.items.length > 0) {
+    dbEvents.emit('items-changed', { action: 'sync' });
+  }
+  purchases.forEach(emitPurchaseEffects);
+  if (write.upserts.budgets.length > 0 || write.deletes.budgets.length > 0) {
+    dbEvents.emit('budgets-changed', { action: 'sync' });
+  }
+}
+
+// Offline queue operations
+
+// Monotonic ordering key, unique even for operations queued in the same millisecond
+function nextSequence(): number {
+  lastSequence = Math.max(Date.now(), lastSequence + 1);
+  return lastSequence;
+}
+
+// Only a repeat of the last operation queued for the same record is redundant; an earlier
+// identical one may have been undone since (checked, unchecked, checked again)
+function repeatsLastOperation(pending: OfflineOperation[], op: OfflineOperation): boolean {
+  const last = pending
+    .filter(existing => existing.data.id === op.data.id)
+    .reduce<OfflineOperation | undefined>((latest, existing) => (!latest || existing.seq > latest.seq ? existing : latest), undefined);
+  return !!last && last.operation === op.operation && JSON.stringify(last.data) === JSON.stringify(op.data);
+}
+
+async function queueOfflineOperation<K extends OfflineOperationType>(
+  operation: K,
+  data: OfflineOperationPayloads[K]
+): Promise<void> {
+  const op = {
+    id: uuid(),
+    seq: nextSequence(),
+    operation,
+    data,
+    timestamp: new Date(),
+  } as OfflineOperation;
+
+  try {
+    const db = await getDB();
+    const pending = await db.getAll('offlineOps');
+    if (!repeatsLastOperation(pending, op)) {
+      await db.put('offlineOps', op);
+    }
+  } catch (error) {
+    console.error('Error storing offline operation, keeping it in localStorage:', error);
+    if (!repeatsLastOperation(fallbackQueue, op)) {
+      fallbackQueue.push(op);
+      saveFallbackQueue();
+    }
+  }
+
+  dbEvents.emit('offline-queue-changed');
+  ServiceWorkerManager.requestSync('offline-sync');
+}
+
+function reviveOfflineOperation(op: OfflineOperation): OfflineOperation {
+  const data = reviveDates(op.data as Record<string, unknown>, OFFLINE_DATE_FIELDS);
+  if (data.updates) {
+    data.updates = reviveDates(data.updates, OFFLINE_DATE_FIELDS);
+  }
+  return {
+    ...op,
+    seq: op.seq ?? new Date(op.timestamp).getTime(),
+    timestamp: new Date(op.timestamp),
+    data,
+  } as OfflineOperation;
+}
+
+function loadFallbackQueue(): void {
+  try {
+    const stored = localStorage.getItem(OFFLINE_QUEUE_KEY);
+    if (stored) {
+      fallbackQueue = (JSON.parse(stored) as OfflineOperation[]).map(reviveOfflineOperation);
+    }
+  } catch (error) {
+    console.error('Error loading offline queue:', error);
+    fallbackQueue = [];
+  }
+}
+
+function saveFallbackQueue(): void {
+  try {
+    if (fallbackQueue.length === 0) {
+      localStorage.removeItem(OFFLINE_QUEUE_KEY);
+    } else {
+      localStorage.setItem(OFFLINE_QUEUE_KEY, JSON.stringify(fallbackQueue));
+    }
+  } catch (error) {
+    console.error('Error saving offline queue:', error);
+  }
+}
+
+/**
+ * Number of operations waiting to be replayed
+ */
+export async function getPendingOperationCount(): Promise<number> {
+  try {
+    const db = await getDB();
+    const operations = await db.getAll('offlineOps');
+    return operations.filter(op => !op.failedAt).length + fallbackQueue.length;
+  } catch {
+    return fallbackQueue.length;
+  }
+}
+
+/**
+ * Operations set aside after failing every replay, oldest first
+ */
+export async function getFailedOperations(): Promise<OfflineOperation[]> {
+  try {
+    const db = await getDB();
+    return (await db.getAllFromIndex('offlineOps', 'by-seq')).filter(op => op.failedAt);
+  } catch (error) {
+    console.error('Error getting failed operations:', error);
+    return [];
+  }
+}
+
+/**
+ * Put failed operations back in the queue and replay it
+ */
+export async function retryFailedOperations(): Promise<OfflineQueueResult> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction('offlineOps', 'readwrite');
+    for (const op of await tx.store.getAll()) {
+      if (op.failedAt) await tx.store.put({ ...op, attempts: 0, failedAt: undefined });
+    }
+    await tx.done;
+  } catch (error) {
+    console.error('Error retrying failed operations:', error);
+  }
+  return processOfflineQueue();
+}
+
+/**
+ * Drop the operations that failed every replay; their changes are lost
+ */
+export async function discardFailedOperations(): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction('offlineOps', 'readwrite');
+    for (const op of await tx.store.getAll()) {
+      if (op.failedAt) await tx.store.delete(op.id);
+    }
+    await tx.done;
+    dbEvents.emit('offline-queue-changed');
+  } catch (error) {
+    console.error('Error discarding failed operations:', error);
+  }
+}
+
+// Changes made after an operation was queued win over the queued operation
+function isNewerThan(record: { updatedAt: Date }, op: OfflineOperation): boolean {
+  return record.updatedAt.getTime() > op.timestamp.getTime();
+}
+
+/**
+ * Apply one queued operation and remove it from the log in a single transaction,
+ * so an operation replayed concurrently (e.g. from two tabs) only takes effect once.
+ * Creates are upserts keyed by the id generated when the operation was queued.
+ */
+async function applyOfflineOperation(op: OfflineOperation): Promise<'applied' | 'conflict' | 'skipped'> {
+  const db = await getDB();
+  const tx = db.transaction(['offlineOps', 'lists', 'items', 'budgets', 'pantry', 'priceObservations'], 'readwrite');
+  let outcome: 'applied' | 'conflict' | 'skipped' = 'applied';
+  let purchase: PurchaseEffects | null = null;
+
+  if (!(await tx.objectStore('offlineOps').get(op.id))) {
+    await tx.done;
+    return 'skipped';
+  }
+
+  switch (op.operation) {
+    case 'createList': {
+      const existing = await tx.objectStore('lists').get(op.data.id);
+      if (existing && isNewerThan(existing, op)) {
+        outcome = 'conflict';
+      } else {
+        await tx.objectStore('lists').put(op.data);
+      }
+      break;
+    }
+    case 'updateList': {
+      const existing = await tx.objectStore('lists').get(op.data.id);
+      if (!existing || existing.deletedAt) {
+        outcome = 'skipped';
+      } else if (isNewerThan(existing, op)) {
+        outcome = 'conflict';
+      } else {
+        await tx.objectStore('lists').put({ ...existing, ...op.data.updates, updatedAt: op.timestamp });
+      }
+      break;
+    }
+    case 'deleteList': {
+      const existing = await tx.objectStore('lists').get(op.data.id);
+      if (!existing) {
+        outcome = 'skipped';
+      } else if (!existing.deletedAt) {
+        await tx.objectStore('lists').put({ ...existing, deletedAt: op.timestamp, updatedAt: op.timestamp });
+        for (const item of await tx.objectStore('items').index('by-list').getAll(existing.id)) {
+          if (!item.deletedAt) {
+            await tx.objectStore('items').put({ ...item, deletedAt: op.timestamp, updatedAt: op.timestamp });
+          }
+        }
+      }
+      break;
+    }
+    case 'createItem':
+      await tx.objectStore('items').put(withPurchaseDate(op.data));
+      break;
+    case 'updateItem': {
+      const existing = await tx.objectStore('items').get(op.data.id);
+      if (!existing || existing.deletedAt) {
+        outcome = 'skipped';
+      } else if (isNewerThan(existing, op)) {
+        outcome = 'conflict';
+      } else {
+        const updated = withPurchaseDate({ ...existing, ...op.data.updates, updatedAt: op.timestamp });
+        purchase = await applyPurchaseEffects(tx, existing, updated);
+        await tx.objectStore('items').put(purchase.item);
+      }
+      break;
+    }
+    case 'deleteItem': {
+      const existing = await tx.objectStore('items').get(op.data.id);
+      if (!existing) {
+        outcome = 'skipped';
+      } else if (!existing.deletedAt) {
+        await tx.objectStore('items').put({ ...existing, deletedAt: op.timestamp, updatedAt: op.timestamp });
+      }
+      break;
+    }
+    case 'createBudget': {
+      const existing = await tx.objectStore('budgets').get(op.data.id);
+      if (existing && isNewerThan(existing, op)) {
+        outcome = 'conflict';
+      } else {
+        await tx.objectStore('budgets').put(op.data);
+      }
+      break;
+    }
+    case 'updateBudget': {
+      const existing = await tx.objectStore('budgets').get(op.data.id);
+      if (!existing) {
+        outcome = 'skipped';
+      } else if (isNewerThan(existing, op)) {
+        outcome = 'conflict';
+      } else {
+        await tx.objectStore('budgets').put({ ...existing, ...op.data.updates, updatedAt: op.timestamp });
+      }
+      break;
+    }
+    case 'deleteBudget':
+      await tx.objectStore('budgets').delete(op.data.id);
+      break;
+  }
+
+  await tx.objectStore('offlineOps').delete(op.id);
+  await tx.done;
+
+  if (purchase) emitPurchaseEffects(purchase);
+
+  if (outcome === 'conflict') {
+    console.warn(`Offline operation ${op.operation} skipped: record changed after it was queued`);
+    dbEvents.emit('offline-conflict', op);
+  }
+
+  return outcome;
+}
+
+async function replayOfflineQueue(): Promise<OfflineQueueResult> {
+  const result: OfflineQueueResult = { applied: 0, conflicts: 0, failed: 0, skipped: 0 };
+  const db = await getDB();
+
+  // Move operations queued while IndexedDB was unavailable into the durable log
+  if (fallbackQueue.length > 0) {
+    const tx = db.transaction('offlineOps', 'readwrite');
+    await Promise.all(fallbackQueue.map(op => tx.store.put(op)));
+    await tx.done;
+    fallbackQueue = [];
+    saveFallbackQueue();
+  }
+
+  const operations = (await db.getAllFromIndex('offlineOps', 'by-seq')).filter(op => !op.failedAt);
+
+  for (const [index, op] of operations.entries()) {
+    try {
+      const outcome = await applyOfflineOperation(op);
+      if (outcome === 'conflict') {
+        result.conflicts++;
+      } else if (outcome === 'applied') {
+        result.applied++;
+        if (op.operation === 'createItem') {
+          await updateProductStats(op.data.name, op.data.price, op.data.category, op.data.unit);
+        }
+      }
+    } catch (error) {
+      console.error(`Error processing offline operation ${op.operation}:`, error);
+      result.failed++;
+      const attempts = (op.attempts ?? 0) + 1;
+      if (attempts >= MAX_OFFLINE_ATTEMPTS) {
+        // Set it aside, or it would hold back every later operation for good
+        await db.put('offlineOps', { ...op, attempts, failedAt: new Date() });
+        continue;
+      }
+      // Leave the operation in the log and stop, so later operations are not applied out of order
+      await db.put('offlineOps', { ...op, attempts });
+      result.skipped = operations.length - index - 1;
+      break;
+    }
+  }
+
+  if (operations.length > 0) {
+    dbEvents.emit('lists-changed', { action: 'sync' });
+    dbEvents.emit('items-changed', { action: 'sync' });
+    dbEvents.emit('budgets-changed', { action: 'sync' });
+  }
+  dbEvents.emit('offline-queue-changed');
+
+  return result;
+}
+
+/**
+ * Replay queued operations in the order they were made.
+ * Concurrent calls share the same run.
+ */
+export function processOfflineQueue(): Promise<OfflineQueueResult> {
+  if (!processingQueue) {
+    processingQueue = replayOfflineQueue()
+      .catch(async (error) => {
+        console.error('Error processing offline queue:', error);
+        // Nothing was replayed
+        return { applied: 0, conflicts: 0, failed: 0, skipped: await getPendingOperationCount() };
+      })
+      .finally(() => {
+        processingQueue = null;
+      });
+  }
+  return processingQueue;
+}
+
+// LocalStorage fallback functions
+function getListsFromLocalStorage(): List[] {
+  try {
+    const stored = localStorage.getItem('shopping-lists');
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function getListFromLocalStorage(id: string): List | undefined {
+  const lists = getListsFromLocalStorage();
+  return lists.find(list => list.id === id && !list.deletedAt);
+}
+
+function getItemsFromLocalStorage(listId: string): Item[] {
+  try {
+    const stored = localStorage.getItem('shopping-items');
+    const items: Item[] = stored ? JSON.parse(stored) : [];
+    return items.filter(item => item.listId === listId && !item.deletedAt);
+  } catch {
+    return [];
+  }
+}
+
+// Budget operations
+export async function getBudgets(): Promise<Budget[]> {
+  try {
+    const db = await getDB();
+    const budgets = validated('budgets', await db.getAll('budgets'));
+    return budgets.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  } catch (error) {
+    console.error('Error getting budgets:', error);
+    return [];
+  }
+}
+
+export async function createBudget(budgetData: Omit<Budget, 'id' | 'createdAt' | 'updatedAt'>): Promise<Budget> {
+  const budget: Budget = {
+    ...budgetData,
+    id: uuid(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  try {
+    const db = await getDB();
+    await db.put('budgets', budget);
+    dbEvents.emit('budgets-changed', { action: 'create', budget });
+    return budget;
+  } catch (error) {
+    console.error('Error creating budget:', error);
+    await queueOfflineOperation('createBudget', budget);
+    return budget;
+  }
+}
+
+export async function updateBudget(id: string, updates: Partial<Omit<Budget, 'id' | 'createdAt'>>): Promise<Budget | null> {
+  try {
+    const db = await getDB();
+    const existing = await db.get('budgets', id);
+    if (!existing) return null;
+
+    const updated: Budget = {
+      ...existing,
+      ...updates,
+      updatedAt: new Date(),
+    };
+
+    await db.put('budgets', updated);
+    dbEvents.emit('budgets-changed', { action: 'update', budget: updated });
+    return updated;
+  } catch (error) {
+    console.error('Error updating budget:', error);
+    await queueOfflineOperation('updateBudget', { id, updates });
+    return null;
+  }
+}
+
+export async function deleteBudget(id: string): Promise<boolean> {
+  try {
+    const db = await getDB();
+    const existing = await db.get('budgets', id);
+    if (!existing) return false;
+
+    await db.delete('budgets', id);
+    dbEvents.emit('budgets-changed', { action: 'delete', budget: existing });
+    return true;
+  } catch (error) {
+    console.error('Error deleting budget:', error);
+    await queueOfflineOperation('deleteBudget', { id });
+    return false;
+  }
+}
+
+/**
+ * Store computed spending on budgets. `spent` is derived from purchases, so this
+ * does not count as an edit and leaves `updatedAt` alone.
+ */
+export async function setBudgetSpending(spentById: Map<string, number>): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction('budgets', 'readwrite');
+    const changed: Budget[] = [];
+
+    for (const [id, spent] of spentById) {
+      const budget = await tx.store.get(id);
+      if (budget && budget.spent !== spent) {
+        const updated = { ...budget, spent };
+        await tx.store.put(updated);
+        changed.push(updated);
+      }
+    }
+    await tx.done;
+
+    if (changed.length > 0) {
+      dbEvents.emit('budgets-changed', { action: 'spending', budgets: changed });
+    }
+  } catch (error) {
+    console.error('Error updating budget spending:', error);
+  }
+}
+
+// Exchange rate operations
+export async function getExchangeRates(): Promise<ExchangeRate[]> {
+  try {
+    const db = await getDB();
+    return validated('exchangeRates', await db.getAll('exchangeRates'));
+  } catch (error) {
+    console.error('Error getting exchange rates:', error);
+    return [];
+  }
+}
+
+/**
+ * Add or update exchange rates; with `replace`, rates not in the list are removed
+ */
+export async function saveExchangeRates(rates: ExchangeRate[], { replace = false } = {}): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction('exchangeRates', 'readwrite');
+    if (replace) {
+      await tx.store.clear();
+    }
+    for (const rate of rates) {
+      await tx.store.put(rate);
+    }
+    await tx.done;
+    dbEvents.emit('exchange-rates-changed', { action: 'save', rates });
+  } catch (error) {
+    console.error('Error saving exchange rates:', error);
+  }
+}
+
+export async function deleteExchangeRate(currency: string): Promise<void> {
   try {
     const db = await getDB();
-    await db.put('settings', { ...settings, id: 'profile' });
-    dbEvents.emit('settings-changed', settings);
+    await db.delete('exchangeRates', currency);
+    dbEvents.emit('exchange-rates-changed', { action: 'delete', currency });
   } catch (error) {
-    console.error('Error updating settings:', error);
+    console.error('Error deleting exchange rate:', error);
   }
 }
 
-// Offline queue operations
-async function queueOfflineOperation(operation: string, data: unknown): Promise<void> {
-  const op: OfflineOperation = {
+// Template operations
+export async function getTemplates(): Promise<Template[]> {
+  try {
+    const db = await getDB();
+    const templates = validated('templates', await db.getAll('templates'));
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error getting templates:', error);
+    return [];
+  }
+}
+
+export async function getTemplate(id: string): Promise<Template | undefined> {
+  try {
+    const db = await getDB();
+    return validatedRecord('templates', await db.get('templates', id));
+  } catch (error) {
+    console.error('Error getting template:', error);
+    return undefined;
+  }
+}
+
+export async function createTemplate(templateData: Omit<Template, 'id' | 'createdAt' | 'updatedAt'>): Promise<Template> {
+  const template: Template = {
+    ...templateData,
     id: uuid(),
-    operation,
-    data,
-    timestamp: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
   };
-  
-  offlineQueue.push(op);
-  saveOfflineQueue();
+
+  try {
+    const db = await getDB();
+    await db.put('templates', template);
+    dbEvents.emit('templates-changed', { action: 'create', template });
+  } catch (error) {
+    console.error('Error creating template:', error);
+  }
+  return template;
 }
 
-function loadOfflineQueue(): void {
+export async function deleteTemplate(id: string): Promise<boolean> {
   try {
-    const stored = localStorage.getItem(OFFLINE_QUEUE_KEY);
-    if (stored) {
-      offlineQueue = JSON.parse(stored);
-    }
+    const db = await getDB();
+    const existing = await db.get('templates', id);
+    if (!existing) return false;
+
+    await db.delete('templates', id);
+    dbEvents.emit('templates-changed', { action: 'delete', template: existing });
+    return true;
   } catch (error) {
-    console.error('Error loading offline queue:', error);
-    offlineQueue = [];
+    console.error('Error deleting template:', error);
+    return false;
   }
 }
 
-function saveOfflineQueue(): void {
+// Pantry operations
+export async function getPantryItems(): Promise<PantryItem[]> {
   try {
-    localStorage.setItem(OFFLINE_QUEUE_KEY, JSON.stringify(offlineQueue));
+    const db = await getDB();
+    const pantry = validated('pantry', await db.getAll('pantry'));
+    return pantry.sort((a, b) => a.name.localeCompare(b.name));
   } catch (error) {
-    console.error('Error saving offline queue:', error);
+    console.error('Error getting pantry:', error);
+    return [];
   }
 }
 
-export async function processOfflineQueue(): Promise<void> {
-  if (offlineQueue.length === 0) return;
+export async function createPantryItem(data: Omit<PantryItem, 'id' | 'createdAt' | 'updatedAt'>): Promise<PantryItem> {
+  const pantryItem: PantryItem = {
+    ...data,
+    id: uuid(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
 
-  const operations = [...offlineQueue];
-  offlineQueue = [];
-  
-  for (const op of operations) {
-    try {
-      switch (op.operation) {
-        case 'createList':
-          await createList(op.data as Omit<List, 'id' | 'createdAt' | 'updatedAt'>);
-          break;
-        case 'updateList': {
-          const data = op.data as { id: string; updates: Partial<Omit<List, 'id' | 'createdAt'>> };
-          await updateList(data.id, data.updates);
-          break;
-        }
-        case 'deleteList': {
-          const data = op.data as { id: string };
-          await deleteList(data.id);
-          break;
-        }
-        case 'createItem':
-          await createItem(op.data as Omit<Item, 'id'>);
-          break;
-        case 'updateItem': {
-          const data = op.data as { id: string; updates: Partial<Omit<Item, 'id'>> };
-          await updateItem(data.id, data.updates);
-          break;
-        }
-        case 'deleteItem': {
-          const data = op.data as { id: string };
-          await deleteItem(data.id);
-          break;
-        }
-      }
-    } catch (error) {
-      console.error(`Error processing offline operation ${op.operation}:`, error);
-      // Re-queue failed operations
-      offlineQueue.push(op);
-    }
+  try {
+    const db = await getDB();
+    await db.put('pantry', pantryItem);
+    dbEvents.emit('pantry-changed', { action: 'create', pantryItem });
+  } catch (error) {
+    console.error('Error creating pantry item:', error);
   }
-  
-  saveOfflineQueue();
+  return pantryItem;
 }
 
-// LocalStorage fallback functions
-function getListsFromLocalStorage(): List[] {
+export async function updatePantryItem(
+  id: string,
+  updates: Partial<Omit<PantryItem, 'id' | 'createdAt'>>
+): Promise<PantryItem | null> {
   try {
-    const stored = localStorage.getItem('shopping-lists');
-    return stored ? JSON.parse(stored) : [];
-  } catch {
+    const db = await getDB();
+    const existing = await db.get('pantry', id);
+    if (!existing) return null;
+
+    const updated: PantryItem = { ...existing, ...updates, updatedAt: new Date() };
+    await db.put('pantry', updated);
+    dbEvents.emit('pantry-changed', { action: 'update', pantryItem: updated });
+    return updated;
+  } catch (error) {
+    console.error('Error updating pantry item:', error);
+    return null;
+  }
+}
+
+export async function deletePantryItem(id: string): Promise<boolean> {
+  try {
+    const db = await getDB();
+    const existing = await db.get('pantry', id);
+    if (!existing) return false;
+
+    await db.delete('pantry', id);
+    dbEvents.emit('pantry-changed', { action: 'delete', pantryItem: existing });
+    return true;
+  } catch (error) {
+    console.error('Error deleting pantry item:', error);
+    return false;
+  }
+}
+
+// The pantry item tracking a product, matched by name
+function findPantryItem(pantryItems: PantryItem[], name: string): PantryItem | undefined {
+  const key = name.trim().toLowerCase();
+  return pantryItems.find(entry => entry.name.trim().toLowerCase() === key);
+}
+
+// Stock after adding `delta` (negative to take out), in the pantry item's unit, never below zero
+function restockPantryItem(existing: PantryItem, delta: number): PantryItem {
+  return { ...existing, quantity: Math.max(0, existing.quantity + delta), updatedAt: new Date() };
+}
+
+// Store operations
+export async function getStores(): Promise<Store[]> {
+  try {
+    const db = await getDB();
+    const stores = validated('stores', await db.getAll('stores'));
+    return stores.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error getting stores:', error);
     return [];
   }
 }
 
-function getListFromLocalStorage(id: string): List | undefined {
-  const lists = getListsFromLocalStorage();
-  return lists.find(list => list.id === id && !list.deletedAt);
+export async function createStore(data: Omit<Store, 'id' | 'createdAt' | 'updatedAt'>): Promise<Store> {
+  const store: Store = {
+    ...data,
+    id: uuid(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  try {
+    const db = await getDB();
+    await db.put('stores', store);
+    dbEvents.emit('stores-changed', { action: 'create', store });
+  } catch (error) {
+    console.error('Error creating store:', error);
+  }
+  return store;
 }
 
-function getItemsFromLocalStorage(listId: string): Item[] {
+export async function updateStore(id: string, updates: Partial<Omit<Store, 'id' | 'createdAt'>>): Promise<Store | null> {
   try {
-    const stored = localStorage.getItem('shopping-items');
-    const items: Item[] = stored ? JSON.parse(stored) : [];
-    return items.filter(item => item.listId === listId);
-  } catch {
+    const db = await getDB();
+    const existing = await db.get('stores', id);
+    if (!existing) return null;
+
+    const updated: Store = { ...existing, ...updates, updatedAt: new Date() };
+    await db.put('stores', updated);
+    dbEvents.emit('stores-changed', { action: 'update', store: updated });
+    return updated;
+  } catch (error) {
+    console.error('Error updating store:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete a store. Lists and items bought there are left without a store;
+ * price history keeps the reference and is shown without one.
+ */
+export async function deleteStore(id: string): Promise<boolean> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(['stores', 'lists', 'items'], 'readwrite');
+    const existing = await tx.objectStore('stores').get(id);
+    if (!existing) {
+      await tx.done;
+      return false;
+    }
+
+    const lists: List[] = [];
+    for (const list of await tx.objectStore('lists').getAll()) {
+      if (list.storeId === id) {
+        const updated = { ...list, storeId: undefined, updatedAt: new Date() };
+        await tx.objectStore('lists').put(updated);
+        lists.push(updated);
+      }
+    }
+    let itemsChanged = false;
+    for (const item of await tx.objectStore('items').getAll()) {
+      if (item.storeId === id) {
+        await tx.objectStore('items').put({ ...item, storeId: undefined, updatedAt: new Date() });
+        itemsChanged = true;
+      }
+    }
+    await tx.objectStore('stores').delete(id);
+    await tx.done;
+
+    dbEvents.emit('stores-changed', { action: 'delete', store: existing });
+    for (const list of lists) dbEvents.emit('lists-changed', { action: 'update', list });
+    if (itemsChanged) dbEvents.emit('items-changed', { action: 'store' });
+    return true;
+  } catch (error) {
+    console.error('Error deleting store:', error);
+    return false;
+  }
+}
+
+// Price history operations
+export async function getPriceObservations(name?: string): Promise<PriceObservation[]> {
+  try {
+    const db = await getDB();
+    const observations = name === undefined
+      ? await db.getAll('priceObservations')
+      : await db.getAllFromIndex('priceObservations', 'by-name', name);
+    return validated('priceObservations', observations).sort((a, b) => a.observedAt.getTime() - b.observedAt.getTime());
+  } catch (error) {
+    console.error('Error getting price history:', error);
     return [];
   }
 }
 
-// Budget operations
-export async function getBudgets(): Promise<Budget[]> {
+// What a purchased item cost and where: the item's own store, else its list's
+function priceObservationFor(item: Item, list: List | undefined): PriceObservation | null {
+  if (item.price <= 0) return null;
+
+  return {
+    id: uuid(),
+    name: item.name,
+    storeId: item.storeId ?? list?.storeId,
+    price: item.price,
+    unit: item.unit,
+    currency: list?.currency ?? 'EUR',
+    listId: item.listId,
+    itemId: item.id,
+    observedAt: item.purchasedAt ?? new Date(),
+  };
+}
+
+// Category operations
+export async function getCategories(): Promise<Category[]> {
   try {
     const db = await getDB();
-    const budgets = await db.getAll('budgets');
-    return budgets.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    const categories = validated('categories', await db.getAll('categories'));
+    return categories.sort((a, b) => a.order - b.order || a.name.localeCompare(b.name));
   } catch (error) {
-    console.error('Error getting budgets:', error);
+    console.error('Error getting categories:', error);
     return [];
   }
 }
 
-export async function createBudget(budgetData: Omit<Budget, 'id' | 'createdAt' | 'updatedAt'>): Promise<Budget> {
-  const budget: Budget = {
-    ...budgetData,
+export async function createCategory(data: Pick<Category, 'name' | 'icon' | 'color'>): Promise<Category> {
+  const existing = await getCategories();
+  const category: Category = {
+    ...data,
     id: uuid(),
+    order: existing.length > 0 ? existing[existing.length - 1].order + 1 : 0,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
 
   try {
     const db = await getDB();
-    await db.put('budgets', budget);
-    dbEvents.emit('budgets-changed', { action: 'create', budget });
-    return budget;
+    await db.put('categories', category);
+    dbEvents.emit('categories-changed', { action: 'create', category });
   } catch (error) {
-    console.error('Error creating budget:', error);
-    await queueOfflineOperation('createBudget', budget);
-    return budget;
+    console.error('Error creating category:', error);
   }
+  return category;
 }
 
-export async function updateBudget(id: string, updates: Partial<Omit<Budget, 'id' | 'createdAt'>>): Promise<Budget | null> {
+const CATEGORY_REFERENCE_STORES = ['categories', 'items', 'productStats', 'budgets', 'pantry', 'templates', 'stores'] as const;
+
+// Point every record using category `from` at `to` (or leave it uncategorized) within a transaction
+async function replaceCategoryReferences(
+  tx: IDBPTransaction<ShoppingListDB, typeof CATEGORY_REFERENCE_STORES[number][], 'readwrite'>,
+  from: string,
+  to: string | undefined
+): Promise<void> {
+  const rename = (category: string | undefined) => (sameCategory(category, from) ? to : category);
+  // Budgets count uncategorized items as "Other", so a removed category falls back to it
+  const renameAll = (categories: string[], fallback?: string) => {
+    const renamed = categories.map(category => (sameCategory(category, from) ? to ?? fallback : category));
+    return [...new Set(renamed.filter((category): category is string => category !== undefined))];
+  };
+
+  for (const item of await tx.objectStore('items').getAll()) {
+    if (sameCategory(item.category, from)) {
+      await tx.objectStore('items').put({ ...item, category: to, updatedAt: new Date() });
+    }
+  }
+  for (const stat of await tx.objectStore('productStats').getAll()) {
+    if (sameCategory(stat.category, from)) await tx.objectStore('productStats').put({ ...stat, category: to });
+  }
+  for (const pantryItem of await tx.objectStore('pantry').getAll()) {
+    if (sameCategory(pantryItem.category, from)) {
+      await tx.objectStore('pantry').put({ ...pantryItem, category: to, updatedAt: new Date() });
+    }
+  }
+  for (const budget of await tx.objectStore('budgets').getAll()) {
+    if (budget.categories.some(category => sameCategory(category, from))) {
+      await tx.objectStore('budgets').put({ ...budget, categories: renameAll(budget.categories, 'Other'), updatedAt: new Date() });
+    }
+  }
+  for (const template of await tx.objectStore('templates').getAll()) {
+    if (template.items.some(item => sameCategory(item.category, from))) {
+      const items = template.items.map(item => ({ ...item, category: rename(item.category) }));
+      await tx.objectStore('templates').put({ ...template, items, updatedAt: new Date() });
+    }
+  }
+  for (const store of await tx.objectStore('stores').getAll()) {
+    if (store.aisles?.some(aisle => aisle.categories.some(category => sameCategory(category, from)))) {
+      const aisles = store.aisles.map(aisle => ({ ...aisle, categories: renameAll(aisle.categories) }));
+      await tx.objectStore('stores').put({ ...store, aisles, updatedAt: new Date() });
+    }
+  }
+}
+
+function emitCategoryReferencesChanged(): void {
+  dbEvents.emit('items-changed', { action: 'category' });
+  dbEvents.emit('budgets-changed', { action: 'category' });
+  dbEvents.emit('pantry-changed', { action: 'category' });
+  dbEvents.emit('templates-changed', { action: 'category' });
+  dbEvents.emit('stores-changed', { action: 'category' });
+}
+
+/**
+ * Update a category. A new name is carried over to every item, product,
+ * budget, pantry item, template and store aisle using the old one.
+ */
+export async function updateCategory(
+  id: string,
+  updates: Partial<Omit<Category, 'id' | 'createdAt'>>
+): Promise<Category | null> {
   try {
     const db = await getDB();
-    const existing = await db.get('budgets', id);
-    if (!existing) return null;
+    const tx = db.transaction(CATEGORY_REFERENCE_STORES, 'readwrite');
+    const existing = await tx.objectStore('categories').get(id);
+    if (!existing) {
+      await tx.done;
+      return null;
+    }
 
-    const updated: Budget = {
-      ...existing,
-      ...updates,
-      updatedAt: new Date(),
-    };
+    const updated: Category = { ...existing, ...updates, updatedAt: new Date() };
+    await tx.objectStore('categories').put(updated);
+    const renamed = updated.name !== existing.name;
+    if (renamed) {
+      await replaceCategoryReferences(tx, existing.name, updated.name);
+    }
+    await tx.done;
 
-    await db.put('budgets', updated);
-    dbEvents.emit('budgets-changed', { action: 'update', budget: updated });
+    dbEvents.emit('categories-changed', { action: 'update', category: updated });
+    if (renamed) emitCategoryReferencesChanged();
     return updated;
   } catch (error) {
-    console.error('Error updating budget:', error);
-    await queueOfflineOperation('updateBudget', { id, updates });
+    console.error('Error updating category:', error);
     return null;
   }
 }
 
-export async function deleteBudget(id: string): Promise<boolean> {
+/**
+ * Save the display order of categories, given their ids in order
+ */
+export async function reorderCategories(ids: string[]): Promise<void> {
   try {
     const db = await getDB();
-    const existing = await db.get('budgets', id);
-    if (!existing) return false;
+    const tx = db.transaction('categories', 'readwrite');
+    for (const [order, id] of ids.entries()) {
+      const category = await tx.store.get(id);
+      if (category && category.order !== order) {
+        await tx.store.put({ ...category, order, updatedAt: new Date() });
+      }
+    }
+    await tx.done;
+    dbEvents.emit('categories-changed', { action: 'reorder' });
+  } catch (error) {
+    console.error('Error reordering categories:', error);
+  }
+}
 
-    await db.delete('budgets', id);
-    dbEvents.emit('budgets-changed', { action: 'delete', budget: existing });
+/**
+ * Fold one category into another: everything using `sourceId` moves to `targetId`, then the source is deleted
+ */
+export async function mergeCategories(sourceId: string, targetId: string): Promise<boolean> {
+  if (sourceId === targetId) return false;
+
+  try {
+    const db = await getDB();
+    const tx = db.transaction(CATEGORY_REFERENCE_STORES, 'readwrite');
+    const [source, target] = await Promise.all([
+      tx.objectStore('categories').get(sourceId),
+      tx.objectStore('categories').get(targetId),
+    ]);
+    if (!source || !target) {
+      await tx.done;
+      return false;
+    }
+
+    await replaceCategoryReferences(tx, source.name, target.name);
+    await tx.objectStore('categories').delete(sourceId);
+    await tx.done;
+
+    dbEvents.emit('categories-changed', { action: 'merge', category: target });
+    emitCategoryReferencesChanged();
     return true;
   } catch (error) {
-    console.error('Error deleting budget:', error);
-    await queueOfflineOperation('deleteBudget', { id });
+    console.error('Error merging categories:', error);
+    return false;
+  }
+}
+
+/**
+ * Delete a category; items and products using it become uncategorized
+ */
+export async function deleteCategory(id: string): Promise<boolean> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(CATEGORY_REFERENCE_STORES, 'readwrite');
+    const existing = await tx.objectStore('categories').get(id);
+    if (!existing) {
+      await tx.done;
+      return false;
+    }
+
+    await replaceCategoryReferences(tx, existing.name, undefined);
+    await tx.objectStore('categories').delete(id);
+    await tx.done;
+
+    dbEvents.emit('categories-changed', { action: 'delete', category: existing });
+    emitCategoryReferencesChanged();
+    return true;
+  } catch (error) {
+    console.error('Error deleting category:', error);
     return false;
   }
 }
 
 // Analytics operations
-export async function getShoppingAnalytics(): Promise<ShoppingAnalytics> {
+export interface AnalyticsFilter {
+  from?: Date; // Inclusive
+  to?: Date; // Exclusive
+  listId?: string;
+}
+
+function purchaseDate(item: Item): Date {
+  return item.purchasedAt || item.createdAt || new Date();
+}
+
+// Purchases matching the filter, read through the list index or a purchase date range
+async function getPurchasedItems({ from, to, listId }: AnalyticsFilter): Promise<Item[]> {
+  if (from && to && from >= to) return [];
+
+  const db = await getDB();
+  const range = from && to
+    ? IDBKeyRange.bound(from, to, false, true)
+    : from ? IDBKeyRange.lowerBound(from) : to ? IDBKeyRange.upperBound(to, true) : null;
+  const items = listId
+    ? await db.getAllFromIndex('items', 'by-list', listId)
+    : await db.getAllFromIndex('items', 'by-purchased-at', range);
+
+  return validated('items', items).filter(item => {
+    if (!item.purchased || item.deletedAt) return false;
+    const date = purchaseDate(item);
+    return (!from || date >= from) && (!to || date < to);
+  });
+}
+
+export async function getShoppingAnalytics(filter: AnalyticsFilter = {}): Promise<ShoppingAnalytics> {
   try {
-    const [lists, allItems, productStats] = await Promise.all([
+    const [allLists, allPurchases, settings, exchangeRates, categories] = await Promise.all([
       getLists(),
-      getAllItems(),
-      getProductStats()
+      getPurchasedItems(filter),
+      getSettings(),
+      getExchangeRates(),
+      getCategories()
     ]);
 
-    const purchasedItems = allItems.filter(item => item.purchased);
+    const { from, to, listId } = filter;
+    const hasDateRange = Boolean(from || to);
+    const lists = listId ? allLists.filter(list => list.id === listId) : allLists;
+    const listCurrencies = new Map(lists.map(list => [list.id, list.currency]));
+
+    // Every amount is converted from its list's currency to the profile currency
+    const converter = createCurrencyConverter(settings.currency, buildRateTable(exchangeRates));
+    const amountOf = (item: Item) =>
+      converter.convert(item.price * item.qty, listCurrencies.get(item.listId) ?? settings.currency);
+
+    // Only items on current (not deleted) lists count
+    const purchasedItems = allPurchases.filter(item => listCurrencies.has(item.listId));
     
     // Calculate basic stats
-    const totalSpent = purchasedItems.reduce((sum, item) => sum + (item.price * item.qty), 0);
+    const totalSpent = roundCurrency(purchasedItems.reduce((sum, item) => sum + amountOf(item), 0), settings.currency);
     const totalItems = purchasedItems.length;
-    const totalLists = lists.length;
-    const averageListValue = totalLists > 0 ? totalSpent / totalLists : 0;
+    // Within a date range, only lists with purchases in it count
+    const totalLists = hasDateRange
+      ? new Set(purchasedItems.map(item => item.listId)).size
+      : lists.length;
+    const averageListValue = totalLists > 0 ? roundCurrency(totalSpent / totalLists, settings.currency) : 0;
 
-    // Calculate top categories
+    // Calculate top categories, grouped under the user's category names however items spell them
     const categoryStats = new Map<string, { count: number; totalSpent: number }>();
+    const categoriesByName = new Map(categories.map(category => [category.name.toLowerCase(), category]));
     purchasedItems.forEach(item => {
-      const category = item.category || 'Other';
+      const category = item.category
+        ? categoriesByName.get(item.category.trim().toLowerCase())?.name ?? item.category
+        : 'Other';
       const current = categoryStats.get(category) || { count: 0, totalSpent: 0 };
       categoryStats.set(category, {
-        count: current.count + item.qty,
-        totalSpent: current.totalSpent + (item.price * item.qty)
+        count: current.count + itemCount(item),
+        totalSpent: current.totalSpent + amountOf(item)
       });
     });
 
     const topCategories = Array.from(categoryStats.entries())
-      .map(([category, stats]) => ({ category, ...stats }))
+      .map(([category, stats]) => ({
+        category,
+        ...stats,
+        totalSpent: roundCurrency(stats.totalSpent, settings.currency),
+        icon: categoriesByName.get(category.toLowerCase())?.icon,
+        color: categoriesByName.get(category.toLowerCase())?.color,
+      }))
       .sort((a, b) => b.totalSpent - a.totalSpent)
       .slice(0, 5);
 
     // Calculate monthly spending
-    const monthlySpending = calculateMonthlySpending(purchasedItems);
-
-    // Get frequent items (top 10)
-    const frequentItems = productStats
-      .sort((a, b) => b.usedCount - a.usedCount)
-      .slice(0, 10)
-      .map(stat => ({
-        name: stat.name,
-        count: stat.usedCount,
-        totalSpent: stat.totalSpend
-      }));
+    const monthlySpending = calculateMonthlySpending(purchasedItems, amountOf, from, to)
+      .map(month => ({ ...month, amount: roundCurrency(month.amount, settings.currency) }));
+
+    // Get frequent items (top 10). Counted from purchases rather than product stats,
+    // which mix currencies and cannot be narrowed to a date range or list.
+    const frequentItems = calculateFrequentItems(purchasedItems, amountOf)
+      .map(item => ({ ...item, totalSpent: roundCurrency(item.totalSpent, settings.currency) }));
 
     return {
       totalSpent,
@@ -579,6 +2478,8 @@ export async function getShoppingAnalytics(): Promise<ShoppingAnalytics> {
       topCategories,
       monthlySpending,
       frequentItems,
+      currency: settings.currency,
+      unconvertedCurrencies: [...converter.missingRates].sort(),
     };
   } catch (error) {
     console.error('Error getting shopping analytics:', error);
@@ -590,39 +2491,84 @@ export async function getShoppingAnalytics(): Promise<ShoppingAnalytics> {
       topCategories: [],
       monthlySpending: [],
       frequentItems: [],
+      currency: 'EUR',
+      unconvertedCurrencies: [],
     };
   }
 }
 
-// Helper function to get all items across all lists
-async function getAllItems(): Promise<Item[]> {
+// Get all items across all lists
+export async function getAllItems(): Promise<Item[]> {
   try {
     const db = await getDB();
-    return await db.getAll('items');
+    return validated('items', await db.getAll('items')).filter(item => !item.deletedAt);
   } catch (error) {
     console.error('Error getting all items:', error);
     return [];
   }
 }
 
-// Calculate monthly spending from purchased items
-function calculateMonthlySpending(purchasedItems: Item[]): Array<{ month: string; amount: number }> {
+/**
+ * Items purchased from `from` (inclusive) to `to` (exclusive), read through the purchase date index
+ */
+export async function getPurchasesBetween(from: Date, to: Date): Promise<Item[]> {
+  try {
+    return await getPurchasedItems({ from, to });
+  } catch (error) {
+    console.error('Error getting purchases:', error);
+    return [];
+  }
+}
+
+// Most purchased items (top 10) by quantity
+function calculateFrequentItems(
+  purchasedItems: Item[],
+  amountOf: (item: Item) => number
+): Array<{ name: string; count: number; totalSpent: number }> {
+  const totals = new Map<string, { name: string; count: number; totalSpent: number }>();
+
+  purchasedItems.forEach(item => {
+    const key = item.name.trim().toLowerCase();
+    const current = totals.get(key) || { name: item.name.trim(), count: 0, totalSpent: 0 };
+    totals.set(key, {
+      name: current.name,
+      count: current.count + itemCount(item),
+      totalSpent: current.totalSpent + amountOf(item)
+    });
+  });
+
+  return Array.from(totals.values())
+    .sort((a, b) => b.count - a.count || b.totalSpent - a.totalSpent)
+    .slice(0, 10);
+}
+
+// Calculate monthly spending from purchased items, for the 12 months up to `to`
+// (or every month from `from` when a longer range is given)
+function calculateMonthlySpending(
+  purchasedItems: Item[],
+  amountOf: (item: Item) => number,
+  from?: Date,
+  to?: Date
+): Array<{ month: string; amount: number }> {
   const monthlyTotals = new Map<string, number>();
   
   purchasedItems.forEach(item => {
-    const date = item.purchasedAt || item.createdAt || new Date();
+    const date = purchaseDate(item);
     const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-    const amount = item.price * item.qty;
+    const amount = amountOf(item);
     
     monthlyTotals.set(monthKey, (monthlyTotals.get(monthKey) || 0) + amount);
   });
   
-  // Get last 12 months
+  // Get the months in range (the last 12 by default)
   const result: Array<{ month: string; amount: number }> = [];
-  const now = new Date();
+  const end = to ? new Date(to.getTime() - 1) : new Date();
+  const monthCount = from
+    ? Math.max(1, (end.getFullYear() - from.getFullYear()) * 12 + end.getMonth() - from.getMonth() + 1)
+    : 12;
   
-  for (let i = 11; i >= 0; i--) {
-    const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
+  for (let i = monthCount - 1; i >= 0; i--) {
+    const date = new Date(end.getFullYear(), end.getMonth() - i, 1);
     const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
     const monthName = date.toLocaleDateString('en-US', { year: 'numeric', month: 'short' });
     
@@ -0,0 +1,135 @@
+import { parseCsv } from './csv';
+import { RATE_BASE_CURRENCY, getCurrencyInfo } from './currency';
+import type { ExchangeRate } from './types';
+
+/**
+ * Import of exchange-rate tables from JSON or CSV files.
+ *
+ * JSON may be `{ "base": "USD", "rates": { "EUR": 0.92, ... } }` (the shape used by
+ * most rate APIs), a plain `{ "USD": 1.08, ... }` map, or an array of
+ * `{ "currency", "rate" }` objects. CSV has `currency,rate` columns, with an
+ * optional header and an optional `base` column. Rates quoted against another
+ * base are converted to EUR, which requires the file to include a EUR rate.
+ */
+
+export interface ExchangeRateImportResult {
+  rates: ExchangeRate[];
+  errors: string[];
+}
+
+interface QuotedRate {
+  base: string;
+  currency: string;
+  rate: number;
+}
+
+function normalizeCode(value: unknown): string {
+  return String(value ?? '').trim().toUpperCase();
+}
+
+function parseRate(value: unknown): number {
+  return typeof value === 'number' ? value : Number(String(value ?? '').trim().replace(',', '.'));
+}
+
+function quotesFromJson(data: unknown): QuotedRate[] {
+  if (Array.isArray(data)) {
+    return data.map(entry => ({
+      base: normalizeCode(entry?.base) || RATE_BASE_CURRENCY,
+      currency: normalizeCode(entry?.currency ?? entry?.code),
+      rate: parseRate(entry?.rate),
+    }));
+  }
+
+  if (data && typeof data === 'object') {
+    const record = data as Record<string, unknown>;
+    const isApiShape = record.rates && typeof record.rates === 'object';
+    const base = isApiShape ? normalizeCode(record.base) || RATE_BASE_CURRENCY : RATE_BASE_CURRENCY;
+    const rates = (isApiShape ? record.rates : record) as Record<string, unknown>;
+    return Object.entries(rates).map(([currency, rate]) => ({ base, currency: normalizeCode(currency), rate: parseRate(rate) }));
+  }
+
+  return [];
+}
+
+function quotesFromCsv(text: string): QuotedRate[] {
+  const rows = parseCsv(text);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const hasHeader = Number.isNaN(parseRate(rows[0][1]));
+  const column = (name: string, fallback: number) => {
+    const index = hasHeader ? header.indexOf(name) : -1;
+    return index === -1 ? fallback : index;
+  };
+  const currencyColumn = column('currency', column('code', 0));
+  const rateColumn = column('rate', 1);
+  const baseColumn = hasHeader ? header.indexOf('base') : -1;
+
+  return rows.slice(hasHeader ? 1 : 0).map(row => ({
+    base: (baseColumn !== -1 && normalizeCode(row[baseColumn])) || RATE_BASE_CURRENCY,
+    currency: normalizeCode(row[currencyColumn]),
+    rate: parseRate(row[rateColumn]),
+  }));
+}
+
+/**
+ * Parse an exchange-rate file, rebasing every rate on EUR. Invalid entries are reported and skipped.
+ */
+export function parseExchangeRateFile(text: string): ExchangeRateImportResult {
+  const errors: string[] = [];
+  let quotes: QuotedRate[];
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      quotes = quotesFromJson(JSON.parse(trimmed));
+    } catch {
+      return { rates: [], errors: ['The file is not valid JSON'] };
+    }
+  } else {
+    quotes = quotesFromCsv(text);
+  }
+
+  // Units of each base currency per 1 EUR, taken from the file itself
+  const basePerEur = new Map<string, number>([[RATE_BASE_CURRENCY, 1]]);
+  for (const quote of quotes) {
+    if (quote.currency === RATE_BASE_CURRENCY && quote.rate > 0 && !basePerEur.has(quote.base)) {
+      basePerEur.set(quote.base, 1 / quote.rate);
+    }
+  }
+
+  const rates = new Map<string, ExchangeRate>();
+  const updatedAt = new Date();
+
+  for (const quote of quotes) {
+    if (!getCurrencyInfo(quote.currency)) {
+      errors.push(`${quote.currency || '(blank)'}: not an ISO 4217 currency code`);
+      continue;
+    }
+    if (!Number.isFinite(quote.rate) || quote.rate <= 0) {
+      errors.push(`${quote.currency}: rate must be a positive number`);
+      continue;
+    }
+    const baseRate = basePerEur.get(quote.base);
+    if (baseRate === undefined) {
+      errors.push(`${quote.currency}: quoted against ${quote.base}, but the file has no EUR rate for ${quote.base}`);
+      continue;
+    }
+    if (quote.currency === RATE_BASE_CURRENCY) continue;
+
+    rates.set(quote.currency, { currency: quote.currency, rate: quote.rate * baseRate, updatedAt });
+  }
+
+  // The base currency of an API-style file is itself a rate against EUR
+  for (const [base, rate] of basePerEur) {
+    if (base !== RATE_BASE_CURRENCY && !rates.has(base) && getCurrencyInfo(base)) {
+      rates.set(base, { currency: base, rate, updatedAt });
+    }
+  }
+
+  if (quotes.length === 0) {
+    errors.push('No exchange rates found in the file');
+  }
+
+  return { rates: [...rates.values()], errors };
+}
@@ -0,0 +1,306 @@
+import {
+  applyItemBatch as applyItemBatchToDB,
+  createItem as createItemInDB,
+  dbEvents,
+  deleteItem as deleteItemFromDB,
+  deleteList as deleteListFromDB,
+  getItem,
+  getList,
+  restoreItem,
+  restoreList,
+  updateItem as updateItemInDB,
+  updateList as updateListInDB,
+} from './db';
+import type { ItemBatch } from './db';
+import { reviveDates, STORE_DATE_FIELDS } from './dates';
+import { uuid } from './uuid';
+import type { Item, List, NewItem } from './types';
+
+/**
+ * Undo/redo for list and item changes. The mutations here wrap the ones in
+ * `db` and record how to reverse them; the last HISTORY_LIMIT entries are kept
+ * in localStorage so they can still be undone after a reload.
+ */
+
+type ItemUpdates = Partial<Omit<Item, 'id'>>;
+type ListUpdates = Partial<Omit<List, 'id' | 'createdAt'>>;
+
+export type HistoryOp =
+  | { op: 'restoreItem'; item: Item }
+  | { op: 'updateItem'; id: string; updates: ItemUpdates }
+  | { op: 'deleteItem'; id: string }
+  | { op: 'updateList'; id: string; updates: ListUpdates }
+  | { op: 'deleteList'; id: string }
+  | { op: 'restoreList'; id: string };
+
+export interface HistoryEntry {
+  id: string;
+  /** What was done, e.g. "Deleted Milk" */
+  label: string;
+  undo: HistoryOp[];
+  redo: HistoryOp[];
+  at: Date;
+}
+
+export interface HistoryChange {
+  action: 'record' | 'undo' | 'redo';
+  entry: HistoryEntry;
+  /** False when the change could not be reversed, e.g. the item is gone */
+  ok: boolean;
+}
+
+export const HISTORY_LIMIT = 50;
+const HISTORY_KEY = 'shopping-list-history';
+
+let undoStack: HistoryEntry[] | null = null;
+let redoStack: HistoryEntry[] = [];
+// Mutations and undo/redo run one at a time so the stacks match the database
+let pending: Promise<unknown> = Promise.resolve();
+
+function serialize<T>(task: () => Promise<T>): Promise<T> {
+  const result = pending.then(task);
+  pending = result.catch(() => undefined);
+  return result;
+}
+
+// Unset fields are saved as null so an undo can clear them again
+function reviveUpdates<T extends object>(updates: T, fields: string[]): T {
+  const entries = Object.entries(updates).map(([key, value]) => [key, value === null ? undefined : value]);
+  return reviveDates(Object.fromEntries(entries) as T, fields);
+}
+
+function reviveOp(op: HistoryOp): HistoryOp {
+  switch (op.op) {
+    case 'restoreItem':
+      return { ...op, item: reviveDates(op.item, STORE_DATE_FIELDS.items) };
+    case 'updateItem':
+      return { ...op, updates: reviveUpdates(op.updates, STORE_DATE_FIELDS.items) };
+    case 'updateList':
+      return { ...op, updates: reviveUpdates(op.updates, STORE_DATE_FIELDS.lists) };
+    default:
+      return op;
+  }
+}
+
+function reviveEntry(entry: HistoryEntry): HistoryEntry {
+  return {
+    ...entry,
+    undo: entry.undo.map(reviveOp),
+    redo: entry.redo.map(reviveOp),
+    at: new Date(entry.at),
+  };
+}
+
+function loadStacks(): HistoryEntry[] {
+  if (undoStack) return undoStack;
+
+  undoStack = [];
+  try {
+    const stored = localStorage.getItem(HISTORY_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as { undo: HistoryEntry[]; redo: HistoryEntry[] };
+      undoStack = parsed.undo.map(reviveEntry);
+      redoStack = parsed.redo.map(reviveEntry);
+    }
+  } catch (error) {
+    console.error('Error loading undo history:', error);
+  }
+  return undoStack;
+}
+
+function saveStacks(): void {
+  try {
+    const state = { undo: loadStacks().slice(-HISTORY_LIMIT), redo: redoStack.slice(-HISTORY_LIMIT) };
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(state, (_key, value: unknown) => value === undefined ? null : value));
+  } catch (error) {
+    console.error('Error saving undo history:', error);
+  }
+}
+
+function notify(change: HistoryChange): void {
+  dbEvents.emit('history-changed', change);
+}
+
+function record(label: string, undo: HistoryOp[], redo: HistoryOp[]): void {
+  const entry: HistoryEntry = { id: uuid(), label, undo, redo, at: new Date() };
+  const stack = loadStacks();
+  stack.push(entry);
+  stack.splice(0, Math.max(0, stack.length - HISTORY_LIMIT));
+  redoStack = [];
+  saveStacks();
+  notify({ action: 'record', entry, ok: true });
+}
+
+// The current values of the fields an update is about to change
+function previousValues<T extends object, U extends object>(record: T, updates: U, ignore: string[] = []): U {
+  const previous: Record<string, unknown> = {};
+  for (const key of Object.keys(updates)) {
+    if (!ignore.includes(key)) previous[key] = (record as Record<string, unknown>)[key];
+  }
+  return previous as U;
+}
+
+async function applyOp(op: HistoryOp): Promise<boolean> {
+  switch (op.op) {
+    case 'restoreItem':
+      return (await restoreItem(op.item)) !== null;
+    case 'updateItem':
+      return (await updateItemInDB(op.id, op.updates)) !== null;
+    case 'deleteItem':
+      return deleteItemFromDB(op.id);
+    case 'updateList':
+      return (await updateListInDB(op.id, op.updates)) !== null;
+    case 'deleteList':
+      return deleteListFromDB(op.id);
+    case 'restoreList':
+      return (await restoreList(op.id)) !== null;
+  }
+}
+
+async function applyOps(ops: HistoryOp[]): Promise<boolean> {
+  let ok = true;
+  for (const op of ops) {
+    ok = (await applyOp(op)) && ok;
+  }
+  return ok;
+}
+
+export function canUndo(): boolean {
+  return loadStacks().length > 0;
+}
+
+export function canRedo(): boolean {
+  loadStacks();
+  return redoStack.length > 0;
+}
+
+/**
+ * Reverse the last change. Returns the entry undone, or null when there was nothing to undo.
+ */
+export function undo(): Promise<HistoryEntry | null> {
+  return serialize(async () => {
+    const entry = loadStacks().pop();
+    if (!entry) return null;
+
+    const ok = await applyOps(entry.undo);
+    // A change that could not be fully reversed is dropped rather than redone over
+    if (ok) redoStack.push(entry);
+    saveStacks();
+    notify({ action: 'undo', entry, ok });
+    return entry;
+  });
+}
+
+/**
+ * Apply the last undone change again. Returns the entry redone, or null when there was nothing to redo.
+ */
+export function redo(): Promise<HistoryEntry | null> {
+  return serialize(async () => {
+    loadStacks();
+    const entry = redoStack.pop();
+    if (!entry) return null;
+
+    const ok = await applyOps(entry.redo);
+    if (ok) loadStacks().push(entry);
+    saveStacks();
+    notify({ action: 'redo', entry, ok });
+    return entry;
+  });
+}
+
+/**
+ * Forget all undo and redo history
+ */
+export function clearHistory(): void {
+  undoStack = [];
+  redoStack = [];
+  saveStacks();
+}
+
+// Undoable versions of the db mutations
+
+export function createItem(itemData: NewItem): Promise<Item> {
+  return serialize(async () => {
+    const item = await createItemInDB(itemData);
+    record(`Added ${item.name}`, [{ op: 'deleteItem', id: item.id }], [{ op: 'restoreItem', item }]);
+    return item;
+  });
+}
+
+export function updateItem(id: string, updates: ItemUpdates): Promise<Item | null> {
+  return serialize(async () => {
+    const existing = await getItem(id);
+    const updated = await updateItemInDB(id, updates);
+    if (existing && updated) {
+      const toggled = Object.keys(updates).every(key => key === 'purchased' || key === 'purchasedAt');
+      const label = toggled && updates.purchased !== undefined
+        ? `${updates.purchased ? 'Checked off' : 'Unchecked'} ${updated.name}`
+        : `Edited ${updated.name}`;
+      record(label, [{ op: 'updateItem', id, updates: previousValues(existing, updates) }], [{ op: 'updateItem', id, updates }]);
+    }
+    return updated;
+  });
+}
+
+export function deleteItem(id: string): Promise<boolean> {
+  return serialize(async () => {
+    const existing = await getItem(id);
+    const deleted = await deleteItemFromDB(id);
+    if (existing && deleted) {
+      record(`Deleted ${existing.name}`, [{ op: 'restoreItem', item: existing }], [{ op: 'deleteItem', id }]);
+    }
+    return deleted;
+  });
+}
+
+export function applyItemBatch(batch: ItemBatch): Promise<Item[] | null> {
+  return serialize(async () => {
+    const previous = await Promise.all(batch.update.map(({ id }) => getItem(id)));
+    const created = await applyItemBatchToDB(batch);
+    if (created) {
+      const updated = batch.update.flatMap(({ id, updates }, index) => {
+        const existing = previous[index];
+        return existing ? [{ id, updates, previous: previousValues(existing, updates) }] : [];
+      });
+      const count = created.length + updated.length;
+      record(
+        `Added ${count} ${count === 1 ? 'item' : 'items'}`,
+        [
+          ...created.map((item): HistoryOp => ({ op: 'deleteItem', id: item.id })),
+          ...updated.map(({ id, previous }): HistoryOp => ({ op: 'updateItem', id, updates: previous })),
+        ],
+        [
+          ...created.map((item): HistoryOp => ({ op: 'restoreItem', item })),
+          ...updated.map(({ id, updates }): HistoryOp => ({ op: 'updateItem', id, updates })),
+        ]
+      );
+    }
+    return created;
+  });
+}
+
+export function updateList(id: string, updates: ListUpdates): Promise<List | null> {
+  return serialize(async () => {
+    const existing = await getList(id);
+    const updated = await updateListInDB(id, updates);
+    if (existing && updated) {
+      record(
+        `Edited ${updated.name}`,
+        [{ op: 'updateList', id, updates: previousValues(existing, updates, ['updatedAt']) }],
+        [{ op: 'updateList', id, updates }]
+      );
+    }
+    return updated;
+  });
+}
+
+export function deleteList(id: string): Promise<boolean> {
+  return serialize(async () => {
+    const existing = await getList(id);
+    const deleted = await deleteListFromDB(id);
+    if (existing && deleted) {
+      record(`Deleted ${existing.name}`, [{ op: 'restoreList', id }], [{ op: 'deleteList', id }]);
+    }
+    return deleted;
+  });
+}
@@ -0,0 +1,37 @@
+import type { SyncAdapter, SyncChange, SyncPullResult } from './sync';
+
+/**
+ * Sync adapter for a plain HTTP backend.
+ *
+ *   GET  {endpoint}/changes?since={cursor}  -> { changes: SyncChange[], cursor: string }
+ *   POST {endpoint}/changes  { changes }    -> 204
+ *
+ * `scripts/sync-server.js` is a reference server implementing this protocol.
+ */
+export class HttpSyncAdapter implements SyncAdapter {
+  private readonly endpoint: string;
+
+  constructor(endpoint: string) {
+    this.endpoint = endpoint.replace(/\/+$/, '');
+  }
+
+  async pull(cursor: string | null): Promise<SyncPullResult> {
+    const url = `${this.endpoint}/changes${cursor ? `?since=${encodeURIComponent(cursor)}` : ''}`;
+    const response = await fetch(url, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`Sync pull failed: ${response.status} ${response.statusText}`);
+    }
+    return await response.json();
+  }
+
+  async push(changes: SyncChange[]): Promise<void> {
+    const response = await fetch(`${this.endpoint}/changes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ changes }),
+    });
+    if (!response.ok) {
+      throw new Error(`Sync push failed: ${response.status} ${response.statusText}`);
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { uuid } from './uuid';
+import type { Item, List, ProfileSettings, Store } from './types';
+
+/**
+ * Referential integrity of lists and items: every item belongs to an existing
+ * list, items on a deleted list are deleted with it, and ids stored on lists,
+ * items and settings point at records that exist.
+ */
+
+export type IntegrityIssueKind =
+  | 'orphaned-item' // Its list does not exist
+  | 'item-on-deleted-list' // Still live on a list in the trash
+  | 'missing-store' // `storeId` points at no store
+  | 'missing-series' // `recurrenceOf` points at no list
+  | 'missing-restock-list'; // Settings point pantry restocking at no live list
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  store: 'lists' | 'items' | 'settings';
+  id: string;
+  description: string;
+}
+
+export type StoredSettings = ProfileSettings & { id: string };
+
+export interface IntegrityRecords {
+  lists: List[];
+  items: Item[];
+  stores: Store[];
+  settings?: StoredSettings;
+}
+
+/**
+ * Records to write (and item tombstones to drop) to fix the issues found
+ */
+export interface IntegrityRepairs {
+  lists: List[];
+  items: Item[];
+  deleteItems: string[];
+  settings?: StoredSettings;
+}
+
+export interface IntegrityReport {
+  issues: IntegrityIssue[];
+  repairs: IntegrityRepairs;
+}
+
+export const RECOVERED_LIST_NAME = 'Recovered items';
+
+/**
+ * Find integrity issues and work out their repairs. Live orphaned items are
+ * moved to a new "Recovered items" list; deleted ones are dropped.
+ */
+export function checkRecords(records: IntegrityRecords, now: Date = new Date()): IntegrityReport {
+  const issues: IntegrityIssue[] = [];
+  const repairs: IntegrityRepairs = { lists: [], items: [], deleteItems: [] };
+  const lists = new Map(records.lists.map(list => [list.id, list]));
+  const storeIds = new Set(records.stores.map(store => store.id));
+  let recovered: List | null = null;
+
+  for (const list of records.lists) {
+    let repaired = list;
+    if (list.storeId && !storeIds.has(list.storeId)) {
+      issues.push({ kind: 'missing-store', store: 'lists', id: list.id, description: `List "${list.name}" uses a store that no longer exists` });
+      repaired = { ...repaired, storeId: undefined };
+    }
+    if (list.recurrenceOf && !lists.has(list.recurrenceOf)) {
+      issues.push({ kind: 'missing-series', store: 'lists', id: list.id, description: `List "${list.name}" repeats a list that no longer exists` });
+      repaired = { ...repaired, recurrenceOf: undefined };
+    }
+    if (repaired !== list) repairs.lists.push({ ...repaired, updatedAt: now });
+  }
+
+  for (const item of records.items) {
+    const list = lists.get(item.listId);
+    let repaired = item;
+
+    if (!list) {
+      issues.push({ kind: 'orphaned-item', store: 'items', id: item.id, description: `Item "${item.name}" belongs to a list that no longer exists` });
+      if (item.deletedAt) {
+        repairs.deleteItems.push(item.id);
+        continue;
+      }
+      recovered ??= {
+        id: uuid(),
+        name: RECOVERED_LIST_NAME,
+        currency: records.settings?.currency ?? 'EUR',
+        createdAt: now,
+        updatedAt: now,
+      };
+      repaired = { ...repaired, listId: recovered.id };
+    } else if (list.deletedAt && !item.deletedAt) {
+      issues.push({ kind: 'item-on-deleted-list', store: 'items', id: item.id, description: `Item "${item.name}" is on the deleted list "${list.name}"` });
+      // Deleted along with the list, so restoring the list brings it back
+      repaired = { ...repaired, deletedAt: list.deletedAt };
+    }
+
+    if (item.storeId && !storeIds.has(item.storeId)) {
+      issues.push({ kind: 'missing-store', store: 'items', id: item.id, description: `Item "${item.name}" uses a store that no longer exists` });
+      repaired = { ...repaired, storeId: undefined };
+    }
+    if (repaired !== item) repairs.items.push({ ...repaired, updatedAt: now });
+  }
+  if (recovered) repairs.lists.push(recovered);
+
+  const { settings } = records;
+  const restockList = settings?.restockListId ? lists.get(settings.restockListId) : undefined;
+  if (settings?.restockListId && (!restockList || restockList.deletedAt)) {
+    issues.push({ kind: 'missing-restock-list', store: 'settings', id: settings.id, description: 'Pantry restocking adds to a list that no longer exists' });
+    repairs.settings = { ...settings, restockListId: undefined, autoRestock: undefined };
+  }
+
+  return { issues, repairs };
+}
@@ -0,0 +1,184 @@
+import type { IDBPDatabase, IDBPTransaction } from 'idb';
+import { seedCategories } from './categories';
+
+/**
+ * IndexedDB schema migrations. Each migration moves the database up one
+ * version: it creates stores and indexes, rewrites the records already stored,
+ * then makes any other data changes. Migrations see records as older versions
+ * wrote them, so they work on untyped stores.
+ */
+
+// A record as stored, possibly by an older version of the app
+export type StoredRecord = Record<string, unknown>;
+
+export type RecordTransform = (record: StoredRecord) => StoredRecord;
+
+export type UpgradeTransaction = IDBPTransaction<unknown, string[], 'versionchange'>;
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Stores and indexes to create
+  schema?: (db: IDBPDatabase, tx: UpgradeTransaction) => void;
+  // Rewrite each record of a store; also applied to backups from older versions
+  records?: Partial<Record<string, RecordTransform>>;
+  // Other data changes, made after the schema and records
+  up?: (tx: UpgradeTransaction) => Promise<void>;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Lists, items, product stats and settings',
+    schema(db) {
+      db.createObjectStore('lists', { keyPath: 'id' });
+      db.createObjectStore('items', { keyPath: 'id' });
+      db.createObjectStore('productStats', { keyPath: 'name' });
+      db.createObjectStore('settings', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 2,
+    description: 'Budgets',
+    schema(db) {
+      db.createObjectStore('budgets', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 3,
+    description: 'Durable offline operations log',
+    schema(db) {
+      db.createObjectStore('offlineOps', { keyPath: 'id' }).createIndex('by-seq', 'seq');
+    },
+  },
+  {
+    version: 4,
+    description: 'Multi-device sync state',
+    schema(db) {
+      db.createObjectStore('syncBase', { keyPath: 'key' });
+    },
+  },
+  {
+    version: 5,
+    description: 'Exchange rates',
+    schema(db) {
+      db.createObjectStore('exchangeRates', { keyPath: 'currency' });
+    },
+  },
+  {
+    version: 6,
+    description: 'List templates',
+    schema(db) {
+      db.createObjectStore('templates', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 7,
+    description: 'Pantry stock',
+    schema(db) {
+      db.createObjectStore('pantry', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 8,
+    description: 'Stores and price history',
+    schema(db) {
+      db.createObjectStore('stores', { keyPath: 'id' });
+      const observations = db.createObjectStore('priceObservations', { keyPath: 'id' });
+      observations.createIndex('by-name', 'name');
+      observations.createIndex('by-item', 'itemId');
+    },
+  },
+  {
+    version: 9,
+    description: 'User-defined categories, seeded from the built-in ones and those already used on items',
+    schema(db) {
+      db.createObjectStore('categories', { keyPath: 'id' });
+    },
+    async up(tx) {
+      const items: StoredRecord[] = await tx.objectStore('items').getAll();
+      for (const category of seedCategories(items.map(item => item.category as string | undefined))) {
+        await tx.objectStore('categories').put(category);
+      }
+    },
+  },
+  {
+    version: 10,
+    description: 'Items are soft-deleted and track when they last changed',
+    records: {
+      items: item => ({ ...item, updatedAt: item.updatedAt ?? item.purchasedAt ?? item.createdAt }),
+    },
+  },
+  {
+    version: 11,
+    description: 'Indexes for items by list and purchase date and lists and products by recency',
+    schema(_db, tx) {
+      const items = tx.objectStore('items');
+      items.createIndex('by-list', 'listId');
+      items.createIndex('by-purchased-at', 'purchasedAt');
+      tx.objectStore('lists').createIndex('by-updated-at', 'updatedAt');
+      tx.objectStore('productStats').createIndex('by-last-used', 'lastUsed');
+    },
+    records: {
+      // Purchases are found through the purchase date index, so every one needs a date
+      items: item => (item.purchased && !item.purchasedAt ? { ...item, purchasedAt: item.createdAt } : item),
+    },
+  },
+  {
+    version: 12,
+    description: 'Quarantine for records that fail validation',
+    schema(db) {
+      db.createObjectStore('quarantine', { keyPath: 'id' });
+    },
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Run the migrations after `oldVersion` up to `newVersion` inside an upgrade
+ * transaction. Meant as (or to be called from) `openDB`'s upgrade callback.
+ */
+export async function runMigrations(
+  db: IDBPDatabase,
+  oldVersion: number,
+  newVersion: number | null,
+  tx: UpgradeTransaction
+): Promise<void> {
+  const target = newVersion ?? LATEST_VERSION;
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= oldVersion || migration.version > target) continue;
+
+    console.log(`Migrating database to version ${migration.version}: ${migration.description}`);
+    migration.schema?.(db, tx);
+    for (const [store, transform] of Object.entries(migration.records ?? {})) {
+      if (transform) await transformRecords(tx, store, transform);
+    }
+    await migration.up?.(tx);
+  }
+}
+
+async function transformRecords(tx: UpgradeTransaction, store: string, transform: RecordTransform): Promise<void> {
+  let cursor = await tx.objectStore(store).openCursor();
+  while (cursor) {
+    const migrated = transform(cursor.value);
+    if (migrated !== cursor.value) await cursor.update(migrated);
+    cursor = await cursor.continue();
+  }
+}
+
+/**
+ * Bring a record written at schema `fromVersion` up to date, e.g. one from an older backup
+ */
+export function migrateRecord<T>(store: string, record: T, fromVersion: number): T {
+  if (!record || typeof record !== 'object') {
+    return record;
+  }
+
+  let migrated = record as StoredRecord;
+  for (const migration of MIGRATIONS) {
+    const transform = migration.version > fromVersion ? migration.records?.[store] : undefined;
+    if (transform) migrated = transform(migrated);
+  }
+  return migrated as T;
+}
@@ -0,0 +1,104 @@
+import {
+  applyItemBatch,
+  getItemsByList,
+  getList,
+  getPantryItems,
+  getProductStats,
+  getSettings,
+  updatePantryItem,
+} from './db';
+import { roundCurrency } from './currency';
+import { convertUnitPrice, isCountUnit } from './units';
+import type { Item, NewItem, PantryItem } from './types';
+
+/**
+ * Pantry stock and restocking.
+ *
+ * Stock goes up when a tracked product is marked purchased (see `updateItem`)
+ * and down as it is used. Products below their minimum are suggested for the
+ * restock list chosen in the pantry settings, or added to it straight away
+ * when automatic restocking is on.
+ */
+
+function normalize(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Whether a product has dropped below its minimum stock
+ */
+export function isLowStock(pantryItem: PantryItem): boolean {
+  return pantryItem.quantity < pantryItem.minQuantity;
+}
+
+/**
+ * How many to buy: enough to reach the minimum for counted units, one package for measured ones
+ */
+export function restockQuantity(pantryItem: PantryItem): number {
+  return isCountUnit(pantryItem.unit)
+    ? Math.max(1, Math.ceil(pantryItem.minQuantity - pantryItem.quantity))
+    : 1;
+}
+
+function isOnList(items: Item[], pantryItem: PantryItem): boolean {
+  const name = normalize(pantryItem.name);
+  return items.some(item => !item.purchased && normalize(item.name) === name);
+}
+
+/**
+ * Low-stock products that are not already waiting on the list
+ */
+export async function getRestockSuggestions(listId?: string): Promise<PantryItem[]> {
+  const low = (await getPantryItems()).filter(isLowStock);
+  if (!listId) return low;
+
+  const items = await getItemsByList(listId);
+  return low.filter(pantryItem => !isOnList(items, pantryItem));
+}
+
+/**
+ * Add products to a list at their usual price; products already on it are skipped
+ */
+export async function addToRestockList(listId: string, pantryItems: PantryItem[]): Promise<Item[]> {
+  const list = await getList(listId);
+  if (!list) return [];
+
+  const [items, stats] = await Promise.all([getItemsByList(listId), getProductStats()]);
+  const statsByName = new Map(stats.map(stat => [normalize(stat.name), stat]));
+  const create: NewItem[] = pantryItems
+    .filter(pantryItem => !isOnList(items, pantryItem))
+    .map(pantryItem => {
+      // Quantities are in the pantry's unit, so the usual price is quoted per it too
+      const stat = statsByName.get(normalize(pantryItem.name));
+      const price = stat ? convertUnitPrice(stat.averagePrice, stat.unit, pantryItem.unit) ?? 0 : 0;
+      return {
+        listId,
+        name: pantryItem.name,
+        qty: restockQuantity(pantryItem),
+        unit: pantryItem.unit,
+        price: isCountUnit(pantryItem.unit) ? roundCurrency(price, list.currency) : price,
+        category: pantryItem.category,
+        purchased: false,
+        createdAt: new Date(),
+      };
+    });
+
+  return create.length > 0 ? await applyItemBatch({ create, update: [] }) ?? [] : [];
+}
+
+/**
+ * Take `amount` of a product out of stock. When automatic restocking is on and
+ * the product drops below its minimum, it is added to the restock list.
+ */
+export async function consumePantryItem(pantryItem: PantryItem, amount = 1): Promise<PantryItem | null> {
+  const updated = await updatePantryItem(pantryItem.id, {
+    quantity: Math.max(0, pantryItem.quantity - amount),
+  });
+  if (!updated || isLowStock(pantryItem) || !isLowStock(updated)) return updated;
+
+  const settings = await getSettings();
+  if (settings.autoRestock && settings.restockListId) {
+    await addToRestockList(settings.restockListId, [updated]);
+  }
+  return updated;
+}
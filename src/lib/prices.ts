@@ -0,0 +1,124 @@
+import { convertQuantity, normalizedUnitPrice } from './units';
+import type { Item, ItemUnit, PriceObservation } from './types';
+
+/**
+ * Price history per store and cheapest-store estimates, built from the price
+ * observations logged each time an item is marked purchased
+ */
+
+export interface StorePriceSummary {
+  storeId?: string; // Unset for purchases made without a store
+  currency: string;
+  per?: ItemUnit; // Prices are per kg, litre, piece or pack; unset for plain item prices
+  min: number;
+  average: number;
+  last: number;
+  count: number;
+  lastObservedAt: Date;
+}
+
+export interface StoreEstimate {
+  storeId: string;
+  total: number; // Remaining items at this store's latest prices, list prices where it has none
+  priced: number; // Items with a price from this store
+  itemCount: number;
+}
+
+function normalize(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+// Price in a form comparable across pack sizes: per kg/litre/piece/pack where the unit is known
+function comparablePrice(observation: PriceObservation): { amount: number; per?: ItemUnit } {
+  return normalizedUnitPrice(observation.price, observation.unit) ?? { amount: observation.price };
+}
+
+/**
+ * Min, average and last price of a product at each store. Observations in
+ * different currencies or units that don't compare are summarized separately.
+ */
+export function summarizePriceHistory(observations: PriceObservation[]): StorePriceSummary[] {
+  const groups = new Map<string, StorePriceSummary & { total: number }>();
+  const ordered = [...observations].sort((a, b) => a.observedAt.getTime() - b.observedAt.getTime());
+
+  for (const observation of ordered) {
+    const { amount, per } = comparablePrice(observation);
+    const key = [observation.storeId ?? '', observation.currency, per ?? ''].join('|');
+    const group = groups.get(key);
+    if (group) {
+      group.min = Math.min(group.min, amount);
+      group.total += amount;
+      group.count++;
+      group.last = amount;
+      group.lastObservedAt = observation.observedAt;
+    } else {
+      groups.set(key, {
+        storeId: observation.storeId,
+        currency: observation.currency,
+        per,
+        min: amount,
+        average: amount,
+        last: amount,
+        count: 1,
+        lastObservedAt: observation.observedAt,
+        total: amount,
+      });
+    }
+  }
+
+  return Array.from(groups.values())
+    .map(({ total, ...summary }) => ({ ...summary, average: total / summary.count }))
+    .sort((a, b) => a.average - b.average);
+}
+
+/**
+ * An observed price restated per unit of the item's quantity, or null when
+ * the two are measured in units that don't convert
+ */
+export function priceForItem(observation: PriceObservation, item: Pick<Item, 'unit'>): number | null {
+  if (observation.unit === item.unit) return observation.price;
+  if (!observation.unit || !item.unit) return null;
+  const ratio = convertQuantity(1, item.unit, observation.unit);
+  return ratio === null ? null : observation.price * ratio;
+}
+
+/**
+ * What the items still to buy would cost at each store, cheapest first. Each
+ * item is priced at the store's latest observed price in the list's currency;
+ * items the store has no price for count at their list price.
+ */
+export function estimateStoreTotals(items: Item[], observations: PriceObservation[], currency: string): StoreEstimate[] {
+  const remaining = items.filter(item => !item.purchased);
+  if (remaining.length === 0) return [];
+
+  // Latest price per store and product
+  const latest = new Map<string, Map<string, PriceObservation>>();
+  for (const observation of observations) {
+    if (!observation.storeId || observation.currency !== currency) continue;
+    const byName = latest.get(observation.storeId) ?? new Map<string, PriceObservation>();
+    const name = normalize(observation.name);
+    const previous = byName.get(name);
+    if (!previous || previous.observedAt <= observation.observedAt) {
+      byName.set(name, observation);
+    }
+    latest.set(observation.storeId, byName);
+  }
+
+  const estimates: StoreEstimate[] = [];
+  for (const [storeId, byName] of latest) {
+    let total = 0;
+    let priced = 0;
+    for (const item of remaining) {
+      const observation = byName.get(normalize(item.name));
+      const price = observation ? priceForItem(observation, item) : null;
+      if (price !== null) priced++;
+      total += (price ?? item.price) * item.qty;
+    }
+    if (priced > 0) {
+      estimates.push({ storeId, total, priced, itemCount: remaining.length });
+    }
+  }
+
+  // Prefer the store that knows more of the list when totals tie
+  return estimates.sort((a, b) => a.total - b.total || b.priced - a.priced);
+}
@@ -0,0 +1,217 @@
+import { findCategory } from './categories';
+import { classifyItem } from './classifier';
+import { convertQuantity } from './units';
+import type { Category, ItemUnit, ProductStat } from './types';
+
+/**
+ * Quick-add parsing: one line of text to an item.
+ *
+ *   "2x milk 1.29"                 → 2 milk at 1.29 each
+ *   "3 kg potatoes @ 0.99/kg"      → 3 kg potatoes at 0.99 per kg
+ *   "eggs (free range) #Dairy"     → eggs in Dairy, noted "free range"
+ *
+ * Quantities lead ("2x", "3 kg", "500g") or trail ("x2", "1.5 l"); a price
+ * follows "@" or is a trailing amount with decimals or a currency sign.
+ * Numbers use the locale's decimal separator, though "1.5" and "1,5" are
+ * both understood when unambiguous.
+ */
+
+export interface QuickAddItem {
+  name: string;
+  qty: number;
+  unit?: ItemUnit;
+  price: number;
+  category?: string;
+  notes?: string;
+}
+
+export interface QuickAddOptions {
+  /** Decimal separator of the user's locale; detected from the browser by default */
+  decimalSeparator?: '.' | ',';
+}
+
+const UNIT_ALIASES: Record<ItemUnit, string[]> = {
+  pcs: ['pcs', 'pc', 'piece', 'pieces', 'stk', 'stuck'],
+  pack: ['pack', 'packs', 'pk', 'pkt', 'packet', 'packets'],
+  g: ['g', 'gr', 'gram', 'grams', 'gramm', 'grammes'],
+  kg: ['kg', 'kgs', 'kilo', 'kilos'],
+  lb: ['lb', 'lbs', 'pound', 'pounds'],
+  oz: ['oz', 'ounce', 'ounces'],
+  ml: ['ml'],
+  l: ['l', 'lt', 'ltr', 'litre', 'litres', 'liter', 'liters'],
+};
+
+const UNIT_BY_ALIAS = new Map(
+  Object.entries(UNIT_ALIASES).flatMap(([unit, aliases]) => aliases.map(alias => [alias, unit as ItemUnit] as const))
+);
+
+// Longest first so "kg" wins over "g"; a unit must not run into a word ("3 large")
+const UNIT = `(${[...UNIT_BY_ALIAS.keys()].sort((a, b) => b.length - a.length).join('|')})(?![\\p{L}])`;
+const NUMBER = '(\\d+(?:[.,]\\d+)*)';
+const CURRENCY = '[$€£¥₹]';
+
+const AT_PRICE = new RegExp(`\\s@\\s*${CURRENCY}?\\s*${NUMBER}\\s*${CURRENCY}?(?:\\s*(?:/|per\\s)\\s*${UNIT})?`, 'iu');
+const LEADING_QTY = new RegExp(`^\\s*${NUMBER}\\s*(?:[x×](?![\\p{L}])|${UNIT})?\\s+`, 'iu');
+const TRAILING_PRICE = new RegExp(`\\s(${CURRENCY})?\\s*${NUMBER}\\s*(${CURRENCY})?\\s*$`, 'u');
+const TRAILING_TIMES = new RegExp(`\\s(?:[x×]\\s*(\\d+)|(\\d+)\\s*[x×])\\s*$`, 'iu');
+const TRAILING_AMOUNT = new RegExp(`\\s${NUMBER}\\s*${UNIT}\\s*$`, 'iu');
+
+/**
+ * The decimal separator for a locale, e.g. "," for de-DE
+ */
+export function localeDecimalSeparator(locale?: string): '.' | ',' {
+  const decimal = new Intl.NumberFormat(locale).formatToParts(1.5).find(part => part.type === 'decimal');
+  return decimal?.value === ',' ? ',' : '.';
+}
+
+/**
+ * Parse a number written with either separator. When both appear the last is
+ * the decimal one; a lone separator is a decimal unless it is the locale's
+ * grouping separator followed by exactly three digits ("1.299" in German).
+ */
+export function parseLocaleNumber(value: string, decimalSeparator: '.' | ',' = localeDecimalSeparator()): number {
+  const lastDot = value.lastIndexOf('.');
+  const lastComma = value.lastIndexOf(',');
+  let decimalIndex = Math.max(lastDot, lastComma);
+
+  if (lastDot === -1 || lastComma === -1) {
+    const separator = value[decimalIndex];
+    const grouping = decimalSeparator === '.' ? ',' : '.';
+    const isGrouping = separator === grouping && /^\d{3}$/.test(value.slice(decimalIndex + 1));
+    if (decimalIndex === -1 || isGrouping || value.indexOf(separator) !== decimalIndex) decimalIndex = -1;
+  }
+
+  const whole = (decimalIndex === -1 ? value : value.slice(0, decimalIndex)).replace(/[.,]/g, '');
+  const fraction = decimalIndex === -1 ? '' : value.slice(decimalIndex + 1);
+  return Number(fraction ? `${whole}.${fraction}` : whole);
+}
+
+function toUnit(alias: string | undefined): ItemUnit | undefined {
+  return alias ? UNIT_BY_ALIAS.get(alias.toLowerCase()) : undefined;
+}
+
+/**
+ * Parse one line into an item, or null when there is no name left
+ */
+export function parseQuickAdd(line: string, options: QuickAddOptions = {}): QuickAddItem | null {
+  const decimalSeparator = options.decimalSeparator ?? localeDecimalSeparator();
+  const number = (value: string) => parseLocaleNumber(value, decimalSeparator);
+
+  let rest = ` ${line.trim()} `;
+  let qty: number | undefined;
+  let unit: ItemUnit | undefined;
+  let price: number | undefined;
+  let priceUnit: ItemUnit | undefined;
+  let category: string | undefined;
+  const notes: string[] = [];
+
+  // "(free range)" becomes a note
+  rest = rest.replace(/\(([^)]*)\)/g, (_, note: string) => {
+    if (note.trim()) notes.push(note.trim());
+    return ' ';
+  });
+
+  // "#Dairy", "#Personal_Care"
+  rest = rest.replace(/\s#([^\s#]+)/gu, (_, tag: string) => {
+    category = tag.replace(/[_-]+/g, ' ');
+    return ' ';
+  });
+
+  // "@ 0.99/kg"
+  rest = rest.replace(AT_PRICE, (_, amount: string, per?: string) => {
+    price = number(amount);
+    priceUnit = toUnit(per);
+    return ' ';
+  });
+
+  // "2x milk", "3 kg potatoes", "500g flour"
+  const leading = LEADING_QTY.exec(rest.trimStart());
+  if (leading) {
+    qty = number(leading[1]);
+    unit = toUnit(leading[2]);
+    rest = ` ${rest.trimStart().slice(leading[0].length)}`;
+  }
+
+  // Trailing parts, in any order: "x2", "1.5 l", "1.29", "€3"
+  for (let matched = true; matched;) {
+    matched = false;
+    rest = ` ${rest.trim()}`;
+
+    const times = qty === undefined ? TRAILING_TIMES.exec(rest) : null;
+    if (times) {
+      qty = Number(times[1] ?? times[2]);
+      rest = rest.slice(0, times.index);
+      matched = true;
+      continue;
+    }
+
+    const amount = qty === undefined ? TRAILING_AMOUNT.exec(rest) : null;
+    if (amount) {
+      qty = number(amount[1]);
+      unit = toUnit(amount[2]);
+      rest = rest.slice(0, amount.index);
+      matched = true;
+      continue;
+    }
+
+    // A bare trailing integer is more likely part of the name ("Size 4 nappies")
+    const trailingPrice = price === undefined ? TRAILING_PRICE.exec(rest) : null;
+    if (trailingPrice && (trailingPrice[1] || trailingPrice[3] || /[.,]/.test(trailingPrice[2]))) {
+      price = number(trailingPrice[2]);
+      rest = rest.slice(0, trailingPrice.index);
+      matched = true;
+    }
+  }
+
+  const name = rest.replace(/\s+/g, ' ').trim();
+  if (!name) return null;
+
+  if (!(qty !== undefined && qty > 0 && Number.isFinite(qty))) qty = 1;
+
+  // "500 g cheese @ 12/kg" is 0.5 kg at 12 per kg
+  if (priceUnit && priceUnit !== unit) {
+    const converted = unit ? convertQuantity(qty, unit, priceUnit) : null;
+    if (converted !== null) {
+      qty = converted;
+      unit = priceUnit;
+    } else if (!unit) {
+      unit = priceUnit;
+    }
+  }
+
+  return {
+    name,
+    qty,
+    unit,
+    price: price !== undefined && Number.isFinite(price) ? price : 0,
+    category,
+    notes: notes.length > 0 ? notes.join('; ') : undefined,
+  };
+}
+
+/**
+ * Parse several items, one per line or separated by commas or semicolons.
+ * A comma between digits is a decimal comma, not a separator.
+ */
+export function parseQuickAddLines(text: string, options: QuickAddOptions = {}): QuickAddItem[] {
+  return text
+    .split(/[\n;]|(?<!\d),|,(?!\d)/)
+    .map(line => parseQuickAdd(line, options))
+    .filter((item): item is QuickAddItem => item !== null);
+}
+
+/**
+ * Spell a "#tag" category like the user's matching category, or guess one when
+ * the line had none (see classifyItem). Unknown tags are kept as typed.
+ */
+export function withCategory(item: QuickAddItem, stats: ProductStat[], categories: Category[]): QuickAddItem {
+  if (!item.category) {
+    return { ...item, category: classifyItem(item.name, stats, categories)?.category };
+  }
+
+  // "#personalcare" still finds "Personal Care"
+  const squash = (name: string) => name.replace(/\s+/g, '').toLowerCase();
+  const tag = squash(item.category);
+  const match = findCategory(categories, item.category) ?? categories.find(category => squash(category.name) === tag);
+  return { ...item, category: match?.name ?? item.category };
+}
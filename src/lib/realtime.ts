@@ -0,0 +1,159 @@
+import { dbEvents, getSettings } from './db';
+import { uuid } from './uuid';
+
+/**
+ * Real-time channel to the sync server.
+ *
+ * A WebSocket at `{endpoint}/live` announces new changes as soon as the server
+ * accepts them, so other devices sync right away instead of waiting for the next
+ * poll. It also carries presence: which list each connected device is viewing.
+ * The channel is optional; without it sync keeps working by polling.
+ *
+ *   client -> server  { type: 'presence', clientId, name, listId }
+ *   server -> client  { type: 'changes', cursor } | { type: 'presence', peers }
+ */
+
+export interface PresencePeer {
+  clientId: string;
+  name: string;
+  listId: string | null;
+}
+
+type ServerMessage =
+  | { type: 'changes'; cursor: string }
+  | { type: 'presence'; peers: PresencePeer[] };
+
+const DEFAULT_DISPLAY_NAME = 'Someone';
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+// One id per tab, so two open tabs show up as two viewers
+const clientId = uuid();
+
+let socket: WebSocket | null = null;
+let peers: PresencePeer[] = [];
+let viewingListId: string | null = null;
+
+function liveUrl(endpoint: string): string {
+  const url = new URL(`${endpoint.replace(/\/+$/, '')}/live`);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  return url.toString();
+}
+
+function setPeers(next: PresencePeer[]): void {
+  peers = next;
+  dbEvents.emit('presence-changed', peers);
+}
+
+async function sendPresence(): Promise<void> {
+  const target = socket;
+  if (!target || target.readyState !== WebSocket.OPEN) return;
+
+  const { displayName } = await getSettings();
+  if (target.readyState !== WebSocket.OPEN) return;
+  target.send(JSON.stringify({
+    type: 'presence',
+    clientId,
+    name: displayName?.trim() || DEFAULT_DISPLAY_NAME,
+    listId: viewingListId,
+  }));
+}
+
+/**
+ * Whether the real-time channel is currently connected
+ */
+export function isRealtimeConnected(): boolean {
+  return socket?.readyState === WebSocket.OPEN;
+}
+
+/**
+ * Other devices currently connected, with the list they are viewing
+ */
+export async function getPresence(): Promise<PresencePeer[]> {
+  return peers;
+}
+
+/**
+ * Tell other devices which list this tab is showing (null when none)
+ */
+export function setViewingList(listId: string | null): void {
+  if (viewingListId === listId) return;
+  viewingListId = listId;
+  sendPresence();
+}
+
+/**
+ * Connect to the server's live channel, reconnecting with backoff when the connection drops.
+ * `onChanges` is called whenever the server reports new changes. Returns a function that disconnects.
+ */
+export function startRealtime(endpoint: string, onChanges: () => void): () => void {
+  let stopped = false;
+  let attempts = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+  if (typeof WebSocket === 'undefined') {
+    return () => {};
+  }
+
+  const connect = () => {
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(liveUrl(endpoint));
+    } catch (error) {
+      console.error('Error opening real-time connection:', error);
+      return;
+    }
+    socket = ws;
+
+    ws.onopen = () => {
+      attempts = 0;
+      sendPresence();
+      // Catch up on anything missed while disconnected
+      onChanges();
+    };
+
+    ws.onmessage = (event: MessageEvent<string>) => {
+      let message: ServerMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        console.warn('Ignoring malformed real-time message');
+        return;
+      }
+
+      if (message.type === 'changes') {
+        onChanges();
+      } else if (message.type === 'presence' && Array.isArray(message.peers)) {
+        setPeers(message.peers.filter(peer => peer.clientId !== clientId));
+      }
+    };
+
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      setPeers([]);
+      if (!stopped) {
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      }
+    };
+  };
+
+  // Keep the announced name up to date
+  const handleSettingsChanged = () => {
+    sendPresence();
+  };
+
+  dbEvents.on('settings-changed', handleSettingsChanged);
+  connect();
+
+  return () => {
+    stopped = true;
+    clearTimeout(reconnectTimer);
+    dbEvents.off('settings-changed', handleSettingsChanged);
+    const ws = socket;
+    socket = null;
+    ws?.close();
+    setPeers([]);
+  };
+}
@@ -0,0 +1,267 @@
+/**
+ * Recurrence rules for scheduled lists, stored as a subset of RFC 5545:
+ *
+ *   DTSTART:20240106T090000
+ *   RRULE:FREQ=WEEKLY;BYDAY=SA
+ *
+ * Supported parts are FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY
+ * (with ordinals such as 1MO or -1FR for monthly rules), BYMONTHDAY, COUNT and
+ * UNTIL. DTSTART is a floating local time, the first possible occurrence.
+ * Weeks start on Monday.
+ */
+
+export const RECURRENCE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number];
+
+export interface WeekdayRule {
+  weekday: number; // 0 = Sunday, as Date#getDay
+  ordinal?: number; // 1 = first, -1 = last (monthly rules only)
+}
+
+export interface RecurrenceRule {
+  start: Date;
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: WeekdayRule[];
+  byMonthDay: number[];
+  count?: number;
+  until?: Date;
+}
+
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ORDINAL_NAMES: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', 5: 'fifth', [-1]: 'last' };
+
+// Stop looking after this many periods in a row without an occurrence
+// (e.g. BYMONTHDAY=31 on a rule that only ever lands on February)
+const MAX_EMPTY_PERIODS = 1000;
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+function formatDateTime(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `T${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+function parseDateTime(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day, hours = '0', minutes = '0', seconds = '0'] = match;
+  const date = new Date(+year, +month - 1, +day, +hours, +minutes, +seconds);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+/**
+ * Parse a DTSTART/RRULE pair. Returns null if the rule is malformed or uses unsupported parts.
+ */
+export function parseRecurrence(text: string): RecurrenceRule | null {
+  let start: Date | null = null;
+  let parts: Record<string, string> | null = null;
+
+  for (const line of text.split(/\r?\n/).map(l => l.trim()).filter(Boolean)) {
+    if (line.startsWith('DTSTART')) {
+      start = parseDateTime(line.slice(line.indexOf(':') + 1));
+    } else if (line.startsWith('RRULE:')) {
+      parts = Object.fromEntries(
+        line.slice('RRULE:'.length).split(';').map(part => {
+          const [key, value = ''] = part.split('=');
+          return [key.toUpperCase(), value.toUpperCase()];
+        })
+      );
+    }
+  }
+  if (!start || !parts) return null;
+
+  const freq = parts.FREQ as RecurrenceFrequency;
+  if (!RECURRENCE_FREQUENCIES.includes(freq)) return null;
+
+  const interval = parts.INTERVAL ? Number(parts.INTERVAL) : 1;
+  if (!Number.isInteger(interval) || interval < 1) return null;
+
+  const byDay: WeekdayRule[] = [];
+  for (const code of parts.BYDAY ? parts.BYDAY.split(',') : []) {
+    const match = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(code);
+    if (!match) return null;
+    const ordinal = match[1] ? Number(match[1]) : undefined;
+    if (ordinal === 0) return null;
+    byDay.push({ weekday: WEEKDAY_CODES.indexOf(match[2] as typeof WEEKDAY_CODES[number]), ordinal });
+  }
+
+  const byMonthDay = parts.BYMONTHDAY ? parts.BYMONTHDAY.split(',').map(Number) : [];
+  if (byMonthDay.some(day => !Number.isInteger(day) || day === 0 || Math.abs(day) > 31)) return null;
+
+  const count = parts.COUNT ? Number(parts.COUNT) : undefined;
+  if (count !== undefined && (!Number.isInteger(count) || count < 1)) return null;
+
+  let until: Date | undefined;
+  if (parts.UNTIL) {
+    const parsed = parseDateTime(parts.UNTIL);
+    if (!parsed) return null;
+    until = parsed;
+  }
+
+  return { start, freq, interval, byDay, byMonthDay, count, until };
+}
+
+/**
+ * Serialize a rule as DTSTART and RRULE lines
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${WEEKDAY_CODES[day.weekday]}`).join(',')}`);
+  }
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatDateTime(rule.until)}`);
+  return `DTSTART:${formatDateTime(rule.start)}\nRRULE:${parts.join(';')}`;
+}
+
+// Days of a month matching a BYDAY entry
+function monthDaysForWeekday(year: number, month: number, { weekday, ordinal }: WeekdayRule): number[] {
+  const days: number[] = [];
+  const first = (weekday - new Date(year, month, 1).getDay() + 7) % 7 + 1;
+  for (let day = first; day <= daysInMonth(year, month); day += 7) {
+    days.push(day);
+  }
+  if (ordinal === undefined) return days;
+  const day = ordinal > 0 ? days[ordinal - 1] : days[days.length + ordinal];
+  return day === undefined ? [] : [day];
+}
+
+// Candidate dates (at midnight) in the `index`-th period of the rule
+function periodDates(rule: RecurrenceRule, index: number): Date[] {
+  const { start } = rule;
+  const step = index * rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + step);
+      const weekdays = rule.byDay.map(d => d.weekday);
+      return weekdays.length === 0 || weekdays.includes(day.getDay()) ? [day] : [];
+    }
+    case 'WEEKLY': {
+      const monday = start.getDate() - (start.getDay() + 6) % 7 + step * 7;
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(d => d.weekday) : [start.getDay()];
+      return weekdays.map(weekday => new Date(start.getFullYear(), start.getMonth(), monday + (weekday + 6) % 7));
+    }
+    case 'MONTHLY': {
+      const first = new Date(start.getFullYear(), start.getMonth() + step, 1);
+      const year = first.getFullYear();
+      const month = first.getMonth();
+      const length = daysInMonth(year, month);
+
+      const monthDays = rule.byMonthDay.map(day => (day > 0 ? day : length + 1 + day)).filter(day => day >= 1 && day <= length);
+      const weekdayDays = rule.byDay.flatMap(day => monthDaysForWeekday(year, month, day));
+      let days: number[];
+      if (rule.byMonthDay.length > 0 && rule.byDay.length > 0) {
+        days = monthDays.filter(day => weekdayDays.includes(day));
+      } else if (rule.byMonthDay.length > 0 || rule.byDay.length > 0) {
+        days = [...monthDays, ...weekdayDays];
+      } else {
+        days = start.getDate() <= length ? [start.getDate()] : [];
+      }
+      return days.map(day => new Date(year, month, day));
+    }
+    case 'YEARLY': {
+      const year = start.getFullYear() + step;
+      // Skips 29 February outside leap years
+      return start.getDate() <= daysInMonth(year, start.getMonth())
+        ? [new Date(year, start.getMonth(), start.getDate())]
+        : [];
+    }
+  }
+}
+
+/**
+ * All occurrences of the rule, in order
+ */
+export function* iterateOccurrences(rule: RecurrenceRule): Generator<Date> {
+  let emitted = 0;
+  let emptyPeriods = 0;
+
+  for (let index = 0; emptyPeriods < MAX_EMPTY_PERIODS; index++) {
+    const dates = periodDates(rule, index)
+      .map(date => new Date(date.getFullYear(), date.getMonth(), date.getDate(),
+        rule.start.getHours(), rule.start.getMinutes(), rule.start.getSeconds()))
+      .filter(date => date >= rule.start)
+      .sort((a, b) => a.getTime() - b.getTime())
+      .filter((date, i, sorted) => i === 0 || date.getTime() !== sorted[i - 1].getTime());
+
+    emptyPeriods = dates.length === 0 ? emptyPeriods + 1 : 0;
+
+    for (const date of dates) {
+      if (rule.until && date > rule.until) return;
+      if (rule.count !== undefined && emitted >= rule.count) return;
+      emitted++;
+      yield date;
+    }
+  }
+}
+
+/**
+ * Occurrences after `after` (exclusive) up to `until` (inclusive)
+ */
+export function occurrencesBetween(rule: RecurrenceRule, after: Date, until: Date): Date[] {
+  const dates: Date[] = [];
+  for (const date of iterateOccurrences(rule)) {
+    if (date > until) break;
+    if (date > after) dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * The first occurrence after `after`, or null once the rule has ended
+ */
+export function nextOccurrence(rule: RecurrenceRule, after: Date): Date | null {
+  for (const date of iterateOccurrences(rule)) {
+    if (date > after) return date;
+  }
+  return null;
+}
+
+function joinNames(names: string[]): string {
+  return names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+function describeWeekday({ weekday, ordinal }: WeekdayRule): string {
+  return ordinal === undefined
+    ? `every ${WEEKDAY_NAMES[weekday]}`
+    : `the ${ORDINAL_NAMES[ordinal] ?? `${ordinal}th`} ${WEEKDAY_NAMES[weekday]}`;
+}
+
+/**
+ * Human-readable summary, e.g. "Every week on Saturday"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const every = (unit: string) => (rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`);
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return rule.byDay.length > 0
+        ? `${every('day')} on ${joinNames(rule.byDay.map(day => WEEKDAY_NAMES[day.weekday]))}`
+        : every('day');
+    case 'WEEKLY': {
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(day => day.weekday) : [rule.start.getDay()];
+      const ordered = [...weekdays].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+      return `${every('week')} on ${joinNames(ordered.map(day => WEEKDAY_NAMES[day]))}`;
+    }
+    case 'MONTHLY': {
+      if (rule.byDay.length > 0) {
+        return `${every('month')} on ${joinNames(rule.byDay.map(describeWeekday))}`;
+      }
+      const days = rule.byMonthDay.length > 0 ? rule.byMonthDay : [rule.start.getDate()];
+      return `${every('month')} on ${joinNames(days.map(day => (day === -1 ? 'the last day' : `day ${day}`)))}`;
+    }
+    case 'YEARLY':
+      return `${every('year')} on ${rule.start.toLocaleDateString(undefined, { month: 'long', day: 'numeric' })}`;
+  }
+}
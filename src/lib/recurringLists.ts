@@ -0,0 +1,85 @@
+import { createListOccurrence, getItemsByList, getLists } from './db';
+import { occurrencesBetween, parseRecurrence } from './recurrence';
+import { freshItem, toTemplateItem } from './templates';
+import type { List } from './types';
+
+/**
+ * Scheduled lists. A list with a `recurrence` rule acts as the template for its
+ * series: each due occurrence becomes a new list with fresh copies of its items,
+ * plus, when `carryOverUnpurchased` is set, whatever was left unpurchased on the
+ * previous occurrence.
+ */
+
+const LOCK_NAME = 'shopping-list-recurring-lists';
+
+/**
+ * The latest occurrence of a scheduled list that is due by `now` and not yet created
+ */
+export function getDueOccurrence(list: List, now: Date = new Date()): Date | null {
+  const rule = list.recurrence ? parseRecurrence(list.recurrence) : null;
+  if (!rule) return null;
+
+  // After a long gap only the latest missed occurrence is created
+  const after = list.lastOccurrenceAt ?? new Date(rule.start.getTime() - 1);
+  return occurrencesBetween(rule, after, now).at(-1) ?? null;
+}
+
+async function createOccurrence(series: List, lists: List[], date: Date): Promise<List | null> {
+  const previous = lists
+    .filter(list => list.recurrenceOf === series.id)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+
+  const items = (await getItemsByList(series.id)).map(toTemplateItem);
+
+  // The series list's own items are already copied, so only earlier occurrences carry over
+  if (series.carryOverUnpurchased && previous) {
+    const names = new Set(items.map(item => item.name.toLowerCase()));
+    const leftOver = (await getItemsByList(previous.id))
+      .filter(item => !item.purchased && !names.has(item.name.toLowerCase()));
+    items.push(...leftOver.map(toTemplateItem));
+  }
+
+  return createListOccurrence(
+    series.id,
+    date,
+    {
+      name: `${series.name} (${date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })})`,
+      currency: series.currency,
+      storeId: series.storeId,
+      recurrenceOf: series.id,
+    },
+    items.map(freshItem)
+  );
+}
+
+async function materializeDue(now: Date): Promise<List[]> {
+  const lists = await getLists();
+  const created: List[] = [];
+
+  for (const list of lists) {
+    const due = getDueOccurrence(list, now);
+    if (!due) continue;
+
+    // Null when a concurrent run already created this occurrence
+    const occurrence = await createOccurrence(list, lists, due);
+    if (occurrence) created.push(occurrence);
+  }
+
+  return created;
+}
+
+/**
+ * Create every due occurrence of every scheduled list. Runs on app start and
+ * when the service worker's periodic sync fires; tabs take turns via a Web Lock.
+ */
+export async function materializeRecurringLists(now: Date = new Date()): Promise<List[]> {
+  try {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return await navigator.locks.request(LOCK_NAME, () => materializeDue(now));
+    }
+    return await materializeDue(now);
+  } catch (error) {
+    console.error('Error creating scheduled lists:', error);
+    return [];
+  }
+}
@@ -0,0 +1,194 @@
+import { z } from 'zod';
+import { createListWithItems } from './db';
+import { ItemUnitSchema } from './types';
+import type { Item, List } from './types';
+
+/**
+ * Share a list (with its items) as a compact, URL-safe payload.
+ *
+ * The list is packed into a positional JSON array, compressed with raw DEFLATE
+ * when the browser supports CompressionStream, and base64url-encoded. The first
+ * character of the payload records the encoding so either form can be decoded.
+ */
+
+const SHARE_VERSION = 1;
+const COMPRESSED_PREFIX = 'z';
+const PLAIN_PREFIX = 'j';
+
+// [name, qty, price, purchased (0/1), category?, notes?, unit?]
+const SharedItemTupleSchema = z.tuple([
+  z.string(),
+  z.number(),
+  z.number(),
+  z.union([z.literal(0), z.literal(1)]),
+]).rest(z.string());
+
+// [version, name, currency, items]
+const SharedListTupleSchema = z.tuple([
+  z.literal(SHARE_VERSION),
+  z.string(),
+  z.string(),
+  z.array(SharedItemTupleSchema),
+]);
+
+export const SharedListSchema = z.object({
+  name: z.string().min(1, 'List name is required'),
+  currency: z.string().default('EUR'),
+  items: z.array(z.object({
+    name: z.string().min(1, 'Item name is required'),
+    qty: z.number().positive('Quantity must be greater than 0'),
+    unit: ItemUnitSchema.optional(),
+    price: z.number().min(0, 'Price cannot be negative'),
+    purchased: z.boolean(),
+    category: z.string().optional(),
+    notes: z.string().optional(),
+  })),
+});
+export type SharedList = z.infer<typeof SharedListSchema>;
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Decoded payloads larger than this are rejected, so a crafted link can't expand without limit
+const MAX_DECODED_BYTES = 1024 * 1024;
+
+async function pipeThrough(
+  bytes: Uint8Array,
+  transform: CompressionStream | DecompressionStream,
+  maxBytes = Infinity
+): Promise<Uint8Array> {
+  const writer = transform.writable.getWriter();
+  const reader = transform.readable.getReader();
+
+  const readAll = async () => {
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return chunks;
+      length += value.length;
+      if (length > maxBytes) {
+        await reader.cancel();
+        throw new Error(`Output exceeds ${maxBytes} bytes`);
+      }
+      chunks.push(value);
+    }
+  };
+
+  // Written and read together, so a truncated or corrupt input rejects here rather than unhandled
+  const [, chunks] = await Promise.all([writer.write(bytes).then(() => writer.close()), readAll()]);
+
+  const output = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+function supportsCompression(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+}
+
+/**
+ * Encode a list and its items into a URL-safe payload
+ */
+export async function encodeSharePayload(list: Pick<List, 'name' | 'currency'>, items: Item[]): Promise<string> {
+  const tuple: z.infer<typeof SharedListTupleSchema> = [
+    SHARE_VERSION,
+    list.name,
+    list.currency,
+    items.map(item => {
+      const entry: z.infer<typeof SharedItemTupleSchema> = [item.name, item.qty, item.price, item.purchased ? 1 : 0];
+      if (item.category || item.notes || item.unit) entry.push(item.category ?? '');
+      if (item.notes || item.unit) entry.push(item.notes ?? '');
+      if (item.unit) entry.push(item.unit);
+      return entry;
+    }),
+  ];
+
+  const bytes = new TextEncoder().encode(JSON.stringify(tuple));
+
+  if (supportsCompression()) {
+    return COMPRESSED_PREFIX + toBase64Url(await pipeThrough(bytes, new CompressionStream('deflate-raw')));
+  }
+  return PLAIN_PREFIX + toBase64Url(bytes);
+}
+
+/**
+ * Decode and validate a payload produced by `encodeSharePayload`.
+ * Returns null if the payload is malformed.
+ */
+export async function decodeSharePayload(payload: string): Promise<SharedList | null> {
+  try {
+    const prefix = payload.charAt(0);
+    let bytes = fromBase64Url(payload.slice(1));
+
+    if (prefix === COMPRESSED_PREFIX) {
+      if (!supportsCompression()) return null;
+      bytes = await pipeThrough(bytes, new DecompressionStream('deflate-raw'), MAX_DECODED_BYTES);
+    } else if (prefix !== PLAIN_PREFIX || bytes.length > MAX_DECODED_BYTES) {
+      return null;
+    }
+
+    const tuple = SharedListTupleSchema.safeParse(JSON.parse(new TextDecoder().decode(bytes)));
+    if (!tuple.success) return null;
+
+    const [, name, currency, items] = tuple.data;
+    const shared = SharedListSchema.safeParse({
+      name,
+      currency,
+      items: items.map(([itemName, qty, price, purchased, category, notes, unit]) => ({
+        name: itemName,
+        qty,
+        unit: unit || undefined,
+        price,
+        purchased: purchased === 1,
+        category: category || undefined,
+        notes: notes || undefined,
+      })),
+    });
+    return shared.success ? shared.data : null;
+  } catch (error) {
+    console.error('Error decoding shared list:', error);
+    return null;
+  }
+}
+
+/**
+ * Build an absolute link to the share route for a payload
+ */
+export function buildShareUrl(payload: string): string {
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}#/share/${payload}`;
+}
+
+/**
+ * Create a local copy of a shared list
+ */
+export async function importSharedList(shared: SharedList): Promise<List> {
+  return createListWithItems(
+    { name: shared.name, currency: shared.currency },
+    shared.items.map(item => ({
+      ...item,
+      createdAt: new Date(),
+      purchasedAt: item.purchased ? new Date() : undefined,
+    }))
+  );
+}
@@ -0,0 +1,66 @@
+import type { ProductStat } from './types';
+
+/**
+ * Ranking of product suggestions for the item name field.
+ *
+ * Products are matched against the query by prefix, word prefix, substring or,
+ * failing those, as a fuzzy subsequence. The match quality is then weighted by
+ * how often the product was used and how recently.
+ */
+
+const DEFAULT_LIMIT = 8;
+// Recency weight halves every 30 days since the product was last used
+const RECENCY_HALF_LIFE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * How well a product name matches the query (0 when it does not match)
+ */
+export function matchScore(name: string, query: string): number {
+  const target = normalize(name);
+  const needle = normalize(query);
+  if (!needle) return 0;
+
+  if (target.startsWith(needle)) return 4;
+  if (target.split(/\s+/).some(word => word.startsWith(needle))) return 3;
+  if (target.includes(needle)) return 2;
+
+  // Fuzzy: every query character appears in order; tighter matches score higher
+  let position = -1;
+  let first = -1;
+  for (const char of needle) {
+    if (char === ' ') continue;
+    position = target.indexOf(char, position + 1);
+    if (position === -1) return 0;
+    if (first === -1) first = position;
+  }
+  const span = position - first + 1;
+  return needle.replace(/\s+/g, '').length / span;
+}
+
+/**
+ * Products matching the query, best first
+ */
+export function rankProductSuggestions(
+  stats: ProductStat[],
+  query: string,
+  now: Date = new Date(),
+  limit: number = DEFAULT_LIMIT
+): ProductStat[] {
+  return stats
+    .map(stat => {
+      const match = matchScore(stat.name, query);
+      const daysSinceUse = stat.lastUsed ? Math.max(0, (now.getTime() - stat.lastUsed.getTime()) / DAY_MS) : Infinity;
+      const recency = Math.pow(0.5, daysSinceUse / RECENCY_HALF_LIFE_DAYS);
+      const score = match * (1 + Math.log2(1 + stat.usedCount)) * (1 + recency);
+      return { stat, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.stat.name.localeCompare(b.stat.name))
+    .slice(0, limit)
+    .map(({ stat }) => stat);
+}
@@ -0,0 +1,466 @@
+import { DatabaseEvent, applySyncWrite, dbEvents, exportSnapshot, getSyncBases } from './db';
+import type { SyncBase, SyncStore, SyncUpsert, SyncWrite } from './db';
+import { STORE_DATE_FIELDS, reviveDates } from './dates';
+import { BudgetSchema, ItemSchema, ListSchema } from './types';
+import type { Budget, Item, List } from './types';
+import { NetworkMonitor } from './utils';
+import { isRealtimeConnected, startRealtime } from './realtime';
+
+/**
+ * Multi-device sync engine.
+ *
+ * Records are exchanged field by field. Each field carries the time it was last
+ * written, and the newest write wins (last-writer-wins per field). Local changes
+ * are found by comparing records with the state last agreed with the server
+ * (their sync base). Deletions travel as a `deletedAt` field: lists and items
+ * keep their soft-delete, while budgets are removed locally and kept as
+ * tombstones on the server. Fields only meaningful on one device, such as a
+ * budget's computed spending, are never exchanged.
+ */
+
+export interface SyncField {
+  value: unknown;
+  updatedAt: number;
+}
+
+export interface SyncChange {
+  store: SyncStore;
+  id: string;
+  fields: Record<string, SyncField>;
+}
+
+export interface SyncPullResult {
+  changes: SyncChange[];
+  cursor: string;
+}
+
+/**
+ * Backend the sync engine talks to
+ */
+export interface SyncAdapter {
+  // Changes recorded by the backend after `cursor` (everything when null)
+  pull(cursor: string | null): Promise<SyncPullResult>;
+  // Send local changes; the backend resolves conflicts per field
+  push(changes: SyncChange[]): Promise<void>;
+}
+
+export type SyncState = 'disabled' | 'idle' | 'syncing' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  lastSyncedAt?: Date;
+  error?: string;
+}
+
+export interface SyncResult {
+  pulled: number;
+  pushed: number;
+}
+
+type SyncRecord = List | Item | Budget;
+
+const SYNC_STORES: SyncStore[] = ['lists', 'items', 'budgets'];
+const SYNC_STATE_KEY = 'shopping-list-sync-state';
+const SYNC_DEBOUNCE_MS = 2000;
+// Other devices are listening live, so push changes almost immediately
+const REALTIME_DEBOUNCE_MS = 250;
+const SYNC_INTERVAL_MS = 60_000;
+
+const RECORD_SCHEMAS = {
+  lists: ListSchema,
+  items: ItemSchema,
+  budgets: BudgetSchema,
+};
+
+// Fields each device keeps to itself: a budget's `spent` is derived from purchases,
+// and an item's `restockedQty` is stock added to this device's pantry
+const LOCAL_FIELDS: Record<SyncStore, string[]> = {
+  lists: [],
+  items: ['restockedQty'],
+  budgets: ['spent'],
+};
+
+let status: SyncStatus = { state: 'disabled' };
+let runningSync: Promise<SyncResult> | null = null;
+
+function baseKey(store: SyncStore, id: string): string {
+  return `${store}:${id}`;
+}
+
+// JSON-safe field value: Dates become ISO strings, missing values become null
+function toFieldValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  return value === undefined ? null : value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function sameFields(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(key => sameValue(a[key], b[key]));
+}
+
+function isSyncedField(store: SyncStore, key: string): boolean {
+  return key !== 'id' && !LOCAL_FIELDS[store].includes(key);
+}
+
+function toFields(store: SyncStore, record: object): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (isSyncedField(store, key) && value !== undefined) {
+      fields[key] = toFieldValue(value);
+    }
+  }
+  return fields;
+}
+
+function syncedFields<T>(store: SyncStore, fields: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(fields).filter(([key]) => isSyncedField(store, key)));
+}
+
+function localFields(store: SyncStore, record: object | undefined): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record ?? {}).filter(([key]) => LOCAL_FIELDS[store].includes(key)));
+}
+
+/**
+ * Fields of a local record that differ from its sync base, stamped with the record's
+ * `updatedAt` (or `now` for records that do not track one).
+ * A record that has a base but no longer exists locally becomes a tombstone.
+ */
+export function diffLocalRecord(
+  store: SyncStore,
+  record: SyncRecord | undefined,
+  base: SyncBase | undefined,
+  now: number
+): Record<string, SyncField> {
+  const changed: Record<string, SyncField> = {};
+
+  if (!record) {
+    if (base && !base.fields.deletedAt) {
+      changed.deletedAt = { value: new Date(now).toISOString(), updatedAt: now };
+    }
+    return changed;
+  }
+
+  const updatedAt = 'updatedAt' in record ? record.updatedAt.getTime() : now;
+  const fields = toFields(store, record);
+  const keys = new Set([...Object.keys(fields), ...Object.keys(syncedFields(store, base?.fields ?? {}))]);
+
+  for (const key of keys) {
+    const value = fields[key] ?? null;
+    if (!base || !sameValue(value, base.fields[key])) {
+      changed[key] = { value, updatedAt };
+    }
+  }
+  return changed;
+}
+
+/**
+ * Resolve remote fields against pending local changes; the newer write wins, ties go to the server
+ */
+export function mergeFields(
+  local: Record<string, SyncField>,
+  remote: Record<string, SyncField>
+): { accepted: Record<string, unknown>; rejected: string[] } {
+  const accepted: Record<string, unknown> = {};
+  const rejected: string[] = [];
+
+  for (const [key, field] of Object.entries(remote)) {
+    const pending = local[key];
+    if (pending && pending.updatedAt > field.updatedAt) {
+      rejected.push(key);
+    } else {
+      accepted[key] = field.value;
+    }
+  }
+  return { accepted, rejected };
+}
+
+// Rebuild a typed record from JSON field values, or null if it does not validate
+function toRecord(store: SyncStore, id: string, fields: Record<string, unknown>): SyncRecord | null {
+  const raw: Record<string, unknown> = { id };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== null) raw[key] = value;
+  }
+  const result = RECORD_SCHEMAS[store].safeParse(reviveDates(raw, STORE_DATE_FIELDS[store]));
+  return result.success ? result.data : null;
+}
+
+/**
+ * Run one pull/merge/push cycle against the adapter
+ */
+async function runSync(adapter: SyncAdapter): Promise<SyncResult> {
+  const now = Date.now();
+  const [snapshot, bases] = await Promise.all([exportSnapshot(), getSyncBases()]);
+  const basesByKey = new Map(bases.map(base => [base.key, base]));
+  const recordsByKey = new Map<string, { store: SyncStore; record: SyncRecord }>();
+
+  for (const store of SYNC_STORES) {
+    for (const record of snapshot[store]) {
+      recordsByKey.set(baseKey(store, record.id), { store, record });
+    }
+  }
+
+  // 1. Collect local changes
+  const localChanges = new Map<string, SyncChange>();
+  for (const key of new Set([...recordsByKey.keys(), ...basesByKey.keys()])) {
+    const entry = recordsByKey.get(key);
+    const base = basesByKey.get(key);
+    const store = entry?.store ?? base!.store;
+    const id = entry?.record.id ?? base!.id;
+    const fields = diffLocalRecord(store, entry?.record, base, now);
+    if (Object.keys(fields).length > 0) {
+      localChanges.set(key, { store, id, fields });
+    }
+  }
+
+  // 2. Pull and merge remote changes
+  const { changes: remoteChanges, cursor } = await adapter.pull(getStoredCursor());
+  const write: SyncWrite = {
+    upserts: { lists: [], items: [], budgets: [] },
+    deletes: { budgets: [] },
+    bases: [],
+  };
+  const mergedBases = new Map<string, SyncBase>();
+  let pulled = 0;
+
+  for (const remote of remoteChanges) {
+    const key = baseKey(remote.store, remote.id);
+    const local = localChanges.get(key);
+    const { accepted } = mergeFields(local?.fields ?? {}, syncedFields(remote.store, remote.fields));
+    if (Object.keys(accepted).length === 0) continue;
+
+    const current = recordsByKey.get(key)?.record;
+    const base = basesByKey.get(key);
+    const mergedFields = {
+      ...(current ? toFields(remote.store, current) : syncedFields(remote.store, base?.fields ?? {})),
+      ...accepted,
+    };
+    const newBase: SyncBase = {
+      key,
+      store: remote.store,
+      id: remote.id,
+      fields: { ...(base?.fields ?? {}), ...accepted },
+    };
+
+    // Local fields that lost to the server no longer need pushing
+    if (local) {
+      for (const field of Object.keys(accepted)) delete local.fields[field];
+      if (Object.keys(local.fields).length === 0) localChanges.delete(key);
+    }
+
+    if (!current && localChanges.get(key)?.fields.deletedAt) {
+      // Deleted here after the server's last change; the tombstone is pushed below
+    } else if (mergedFields.deletedAt && remote.store === 'budgets') {
+      if (current) {
+        write.deletes.budgets.push(remote.id);
+        pulled++;
+      }
+      localChanges.delete(key);
+    } else if (!current || !sameFields(mergedFields, toFields(remote.store, current))) {
+      const record = toRecord(remote.store, remote.id, { ...mergedFields, ...localFields(remote.store, current) });
+      if (!record) {
+        console.warn(`Ignoring invalid ${remote.store} record ${remote.id} from sync server`);
+        continue;
+      }
+      (write.upserts[remote.store] as SyncUpsert<SyncRecord>[]).push({ record, fields: Object.keys(accepted), previous: current });
+      pulled++;
+    }
+
+    mergedBases.set(key, newBase);
+    write.bases.push(newBase);
+  }
+
+  await applySyncWrite(write);
+
+  // 3. Push what is left of the local changes
+  const outgoing = [...localChanges.values()];
+  if (outgoing.length > 0) {
+    await adapter.push(outgoing);
+
+    const pushedBases: SyncBase[] = outgoing.map(change => {
+      const key = baseKey(change.store, change.id);
+      const previous = mergedBases.get(key) ?? basesByKey.get(key);
+      const fields = { ...(previous?.fields ?? {}) };
+      for (const [field, { value }] of Object.entries(change.fields)) {
+        fields[field] = value;
+      }
+      return { key, store: change.store, id: change.id, fields };
+    });
+    await applySyncWrite({
+      upserts: { lists: [], items: [], budgets: [] },
+      deletes: { budgets: [] },
+      bases: pushedBases,
+    });
+  }
+
+  setStoredCursor(cursor);
+  return { pulled, pushed: outgoing.length };
+}
+
+// Persisted sync configuration and cursor
+interface StoredSyncState {
+  endpoint?: string;
+  cursor?: string | null;
+  lastSyncedAt?: string;
+}
+
+function readStoredState(): StoredSyncState {
+  try {
+    const stored = localStorage.getItem(SYNC_STATE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeStoredState(updates: Partial<StoredSyncState>): void {
+  try {
+    localStorage.setItem(SYNC_STATE_KEY, JSON.stringify({ ...readStoredState(), ...updates }));
+  } catch (error) {
+    console.error('Error saving sync state:', error);
+  }
+}
+
+function getStoredCursor(): string | null {
+  return readStoredState().cursor ?? null;
+}
+
+function setStoredCursor(cursor: string): void {
+  writeStoredState({ cursor });
+}
+
+function setStatus(next: SyncStatus): void {
+  status = next;
+  dbEvents.emit('sync-status-changed', status);
+}
+
+/**
+ * Current sync status
+ */
+export async function getSyncStatus(): Promise<SyncStatus> {
+  return status;
+}
+
+/**
+ * Server endpoint configured for sync, if any
+ */
+export function getSyncEndpoint(): string | undefined {
+  return readStoredState().endpoint || undefined;
+}
+
+/**
+ * Configure (or clear) the sync endpoint; changing it restarts from a full pull
+ */
+export function setSyncEndpoint(endpoint: string | undefined): void {
+  const trimmed = endpoint?.trim() || undefined;
+  if (trimmed !== getSyncEndpoint()) {
+    writeStoredState({ endpoint: trimmed, cursor: null });
+  }
+  setStatus(trimmed ? { state: 'idle', lastSyncedAt: status.lastSyncedAt } : { state: 'disabled' });
+}
+
+/**
+ * Synchronize with the adapter. Concurrent calls share the same run.
+ */
+export function syncNow(adapter: SyncAdapter): Promise<SyncResult> {
+  if (!runningSync) {
+    setStatus({ ...status, state: 'syncing', error: undefined });
+    runningSync = runSync(adapter)
+      .then((result) => {
+        const lastSyncedAt = new Date();
+        writeStoredState({ lastSyncedAt: lastSyncedAt.toISOString() });
+        setStatus({ state: 'idle', lastSyncedAt });
+        return result;
+      })
+      .catch((error) => {
+        console.error('Sync failed:', error);
+        setStatus({ ...status, state: 'error', error: error instanceof Error ? error.message : String(error) });
+        throw error;
+      })
+      .finally(() => {
+        runningSync = null;
+      });
+  }
+  return runningSync;
+}
+
+/**
+ * Keep syncing in the background: on start, after local changes, on reconnect, when the
+ * server announces changes over the real-time channel, and periodically.
+ * Returns a function that stops background sync.
+ */
+export function startBackgroundSync(createAdapter: (endpoint: string) => SyncAdapter): () => void {
+  let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+  let syncingOwnChanges = false;
+  let rerunRequested = false;
+  let realtimeEndpoint: string | undefined;
+  let stopRealtime: (() => void) | undefined;
+
+  const stored = readStoredState();
+  setStatus(stored.endpoint
+    ? { state: 'idle', lastSyncedAt: stored.lastSyncedAt ? new Date(stored.lastSyncedAt) : undefined }
+    : { state: 'disabled' });
+
+  const trigger = () => {
+    const endpoint = getSyncEndpoint();
+    if (!endpoint || !NetworkMonitor.isOnline) return;
+
+    // A run in progress may have pulled before the latest changes arrived; go again after it
+    if (syncingOwnChanges) {
+      rerunRequested = true;
+      return;
+    }
+
+    syncingOwnChanges = true;
+    syncNow(createAdapter(endpoint))
+      .catch(() => {
+        // Status already records the error; retried on the next trigger
+      })
+      .finally(() => {
+        syncingOwnChanges = false;
+        if (rerunRequested) {
+          rerunRequested = false;
+          trigger();
+        }
+      });
+  };
+
+  const scheduleSync = (event: Event) => {
+    // Writes made by the sync itself, or by another tab (which syncs them itself),
+    // must not schedule another run
+    if (syncingOwnChanges || (event instanceof DatabaseEvent && event.fromOtherTab)) return;
+    clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(trigger, isRealtimeConnected() ? REALTIME_DEBOUNCE_MS : SYNC_DEBOUNCE_MS);
+  };
+
+  // (Re)connect the live channel whenever the endpoint changes
+  const updateRealtime = () => {
+    const endpoint = getSyncEndpoint();
+    if (endpoint === realtimeEndpoint) return;
+    stopRealtime?.();
+    realtimeEndpoint = endpoint;
+    stopRealtime = endpoint ? startRealtime(endpoint, trigger) : undefined;
+  };
+
+  const events = ['lists-changed', 'items-changed', 'budgets-changed'];
+  events.forEach(event => dbEvents.on(event, scheduleSync));
+  dbEvents.on('sync-status-changed', updateRealtime);
+  const unsubscribeNetwork = NetworkMonitor.subscribe((online) => {
+    if (online) trigger();
+  });
+  const interval = setInterval(trigger, SYNC_INTERVAL_MS);
+  updateRealtime();
+  trigger();
+
+  return () => {
+    clearTimeout(debounceTimer);
+    clearInterval(interval);
+    unsubscribeNetwork();
+    events.forEach(event => dbEvents.off(event, scheduleSync));
+    dbEvents.off('sync-status-changed', updateRealtime);
+    stopRealtime?.();
+  };
+}
@@ -0,0 +1,83 @@
+import { createListWithItems, createTemplate, getItemsByList, getList, getProductStats } from './db';
+import { roundCurrency } from './currency';
+import { convertUnitPrice, isCountUnit } from './units';
+import type { Item, List, NewItem, Template, TemplateItem } from './types';
+
+/**
+ * List templates and "shop again": starting new lists from the items of earlier ones
+ */
+
+/**
+ * The reusable fields of an item, without its purchase state
+ */
+export function toTemplateItem(item: Item): TemplateItem {
+  return {
+    name: item.name,
+    qty: item.qty,
+    unit: item.unit,
+    price: item.price,
+    icon: item.icon,
+    category: item.category,
+    notes: item.notes,
+  };
+}
+
+/**
+ * A fresh, unpurchased copy of an item, ready to add to a list
+ */
+export function freshItem(item: TemplateItem): Omit<NewItem, 'listId'> {
+  return { ...item, purchased: false, createdAt: new Date() };
+}
+
+/**
+ * Save a list's items (purchased or not) as a template
+ */
+export async function saveListAsTemplate(listId: string, name: string): Promise<Template | null> {
+  const list = await getList(listId);
+  if (!list) return null;
+
+  const items = await getItemsByList(listId);
+  return createTemplate({
+    name,
+    currency: list.currency,
+    items: items.map(toTemplateItem),
+  });
+}
+
+/**
+ * Create a list from a template, plus any `extraItems`. Items without a saved
+ * price are prefilled with the product's average price from purchase history.
+ */
+export async function createListFromTemplate(
+  template: Template,
+  listData: Pick<List, 'name' | 'currency' | 'storeId'> = template,
+  extraItems: TemplateItem[] = []
+): Promise<List> {
+  const stats = new Map((await getProductStats()).map(stat => [stat.name, stat]));
+  const items = template.items.map(item => {
+    if (item.price) return item;
+    const stat = stats.get(item.name);
+    // The average is per the unit the product was last bought in
+    const price = stat ? convertUnitPrice(stat.averagePrice, stat.unit, item.unit) ?? 0 : 0;
+    return { ...item, price: isCountUnit(item.unit) ? roundCurrency(price, listData.currency) : price };
+  });
+
+  return createListWithItems(
+    { name: listData.name, currency: listData.currency, storeId: listData.storeId },
+    [...items, ...extraItems].map(freshItem)
+  );
+}
+
+/**
+ * Copy a list with every item reset to unpurchased ("shop again")
+ */
+export async function duplicateList(listId: string): Promise<List | null> {
+  const source = await getList(listId);
+  if (!source) return null;
+
+  const items = await getItemsByList(listId);
+  return createListWithItems(
+    { name: source.name, currency: source.currency, storeId: source.storeId },
+    items.map(item => freshItem(toTemplateItem(item)))
+  );
+}
@@ -0,0 +1,137 @@
+import { parseQuickAddLines } from './quickAdd';
+import type { QuickAddItem, QuickAddOptions } from './quickAdd';
+import { convertQuantity } from './units';
+import type { Item, ItemUnit } from './types';
+import type { ItemBatch } from './db';
+
+/**
+ * Pasted shopping lists: plain lines, bullets, numbered lists, Markdown
+ * checklists ("- [x] milk") and WhatsApp messages. Each line is read with the
+ * quick-add parser; checked or struck-through lines come in as purchased.
+ */
+
+export interface PastedItem extends QuickAddItem {
+  purchased: boolean;
+}
+
+export interface PastePlanEntry {
+  item: PastedItem;
+  /** Existing item the pasted one is merged into */
+  mergeInto?: Item;
+  /** Quantity after merging, in the existing item's unit */
+  mergedQty?: number;
+}
+
+// "[12/03/2024, 10:15:22] Anna: " (iOS) or "12/03/2024, 10:15 - Anna: " (Android)
+const WHATSAPP_PREFIX = /^\[?\d{1,4}[./-]\d{1,2}[./-]\d{2,4},?\s+\d{1,2}:\d{2}(?::\d{2})?(?:\s?[ap]\.?m\.?)?\]?\s*(?:-\s*)?[^:]{1,40}:\s*/i;
+const CHECKBOX = /^(?:[-*+]\s+)?\[([ xX])\]\s*/;
+const CHECKED_SYMBOL = /^(?:☑|☒|✅|✔️?|✓)\s*/u;
+const UNCHECKED_SYMBOL = /^(?:☐|□|⬜)\s*/u;
+const BULLET = /^(?:[-*+•·–—]|\d+[.)])\s+/;
+// Markdown headings and "Dairy:" section titles are not items
+const HEADING = /^(?:#{1,6}\s.*|[^:]+:)$/;
+// WhatsApp *bold*, _italic_ and ~strikethrough~; Markdown **bold** and ~~strikethrough~~
+const EMPHASIS = /^([*_~]{1,2})(.+)\1$/;
+
+/**
+ * Read pasted text into items, one line (or comma-separated run) at a time
+ */
+export function parsePastedList(text: string, options: QuickAddOptions = {}): PastedItem[] {
+  const items: PastedItem[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = rawLine.trim().replace(WHATSAPP_PREFIX, '');
+    let purchased = false;
+
+    const checkbox = CHECKBOX.exec(line);
+    if (checkbox) {
+      purchased = checkbox[1] !== ' ';
+      line = line.slice(checkbox[0].length);
+    } else if (CHECKED_SYMBOL.test(line)) {
+      purchased = true;
+      line = line.replace(CHECKED_SYMBOL, '');
+    } else {
+      line = line.replace(UNCHECKED_SYMBOL, '').replace(BULLET, '');
+    }
+
+    line = line.trim();
+    if (!line || (!checkbox && HEADING.test(line))) continue;
+
+    const emphasis = EMPHASIS.exec(line);
+    if (emphasis) {
+      purchased ||= emphasis[1].startsWith('~');
+      line = emphasis[2];
+    }
+
+    for (const item of parseQuickAddLines(line, options)) {
+      items.push({ ...item, purchased });
+    }
+  }
+
+  return items;
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// `qty` of `from` in `to`, treating no unit as pieces; null when they do not convert
+function quantityIn(qty: number, from: ItemUnit | undefined, to: ItemUnit | undefined): number | null {
+  return convertQuantity(qty, from ?? 'pcs', to ?? 'pcs');
+}
+
+/**
+ * Work out what importing pasted items does: duplicates within the paste are
+ * combined, and items already on the list (same name, same checked state,
+ * compatible unit) get the quantity added instead of a second entry.
+ */
+export function planPastedImport(pasted: PastedItem[], existing: Item[]): PastePlanEntry[] {
+  const combined: PastedItem[] = [];
+  for (const item of pasted) {
+    const duplicate = combined.find(other => sameName(other.name, item.name) && other.purchased === item.purchased);
+    const qty = duplicate ? quantityIn(item.qty, item.unit, duplicate.unit) : null;
+    if (duplicate && qty !== null) {
+      duplicate.qty += qty;
+      if (duplicate.unit === item.unit) duplicate.price ||= item.price;
+      duplicate.category ??= item.category;
+      duplicate.notes ??= item.notes;
+    } else {
+      combined.push({ ...item });
+    }
+  }
+
+  return combined.map(item => {
+    for (const candidate of existing) {
+      if (!sameName(candidate.name, item.name) || candidate.purchased !== item.purchased) continue;
+      const qty = quantityIn(item.qty, item.unit, candidate.unit);
+      if (qty !== null) {
+        return { item, mergeInto: candidate, mergedQty: Number((candidate.qty + qty).toFixed(3)) };
+      }
+    }
+    return { item };
+  });
+}
+
+/**
+ * The item changes for a plan, ready for applyItemBatch
+ */
+export function planToBatch(plan: PastePlanEntry[], listId: string, now: Date = new Date()): ItemBatch {
+  const batch: ItemBatch = { create: [], update: [] };
+
+  for (const { item, mergeInto, mergedQty } of plan) {
+    if (mergeInto && mergedQty !== undefined) {
+      batch.update.push({
+        id: mergeInto.id,
+        updates: {
+          qty: mergedQty,
+          // A pasted price is per the pasted unit, so only fills in when the units agree
+          price: mergeInto.price || (mergeInto.unit === item.unit ? item.price : 0),
+          category: mergeInto.category ?? item.category,
+          notes: mergeInto.notes ?? item.notes,
+        },
+      });
+    } else {
+      batch.create.push({ ...item, listId, createdAt: now, purchasedAt: item.purchased ? now : undefined });
+    }
+  }
+
+  return batch;
+}
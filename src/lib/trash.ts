@@ -0,0 +1,44 @@
+import { getDeletedLists, getSettings, purgeDeletedItems, purgeLists } from './db';
+import type { DeletedList } from './db';
+import type { ProfileSettings } from './types';
+
+/**
+ * Deleted lists stay in the trash, with their items, until they are restored,
+ * deleted for good, or purged once older than the retention period. Items
+ * deleted on their own are kept as tombstones for the same period.
+ */
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 365, 0];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function trashRetentionDays(settings: ProfileSettings): number {
+  return settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * When a deleted list will be purged, or null when the trash is kept
+ */
+export function purgeDate(deleted: DeletedList, retentionDays: number): Date | null {
+  const { deletedAt } = deleted.list;
+  if (!deletedAt || retentionDays <= 0) return null;
+  return new Date(deletedAt.getTime() + retentionDays * DAY_MS);
+}
+
+/**
+ * Purge lists and items that have been deleted for longer than the retention
+ * period. Returns how many lists were purged.
+ */
+export async function emptyExpiredTrash(now: Date = new Date()): Promise<number> {
+  const retentionDays = trashRetentionDays(await getSettings());
+  if (retentionDays <= 0) return 0;
+
+  const expired = (await getDeletedLists()).filter(deleted => {
+    const date = purgeDate(deleted, retentionDays);
+    return date !== null && date <= now;
+  });
+  const purged = await purgeLists(expired.map(({ list }) => list.id));
+  await purgeDeletedItems(new Date(now.getTime() - retentionDays * DAY_MS));
+  return purged;
+}
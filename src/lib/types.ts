@@ -12,24 +12,41 @@ export const ListSchema = z.object({
   createdAt: z.date(),
   updatedAt: z.date(),
   deletedAt: z.date().optional(),
+  recurrence: z.string().optional(), // DTSTART + RRULE lines, see lib/recurrence
+  carryOverUnpurchased: z.boolean().optional(), // Copy unpurchased items to the next occurrence
+  lastOccurrenceAt: z.date().optional(), // Occurrences up to this time have been created
+  recurrenceOf: z.string().optional(), // Scheduled list this occurrence was created from
+  storeId: z.string().optional(), // Where the list is usually bought
 });
 export type List = z.infer<typeof ListSchema>;
 
+// Units of measure for item quantities (see lib/units)
+export const ITEM_UNITS = ['pcs', 'pack', 'g', 'kg', 'ml', 'l', 'lb', 'oz'] as const;
+export const ItemUnitSchema = z.enum(ITEM_UNITS);
+export type ItemUnit = z.infer<typeof ItemUnitSchema>;
+
 // Item schema  
 export const ItemSchema = z.object({
   id: z.string(),
   listId: z.string(),
   name: z.string().min(1, 'Item name is required'),
-  qty: z.number().min(1, 'Quantity must be at least 1').default(1),
+  qty: z.number().positive('Quantity must be greater than 0').default(1),
+  unit: ItemUnitSchema.optional(), // Price is per unit of quantity, e.g. per kg
   price: z.number().min(0, 'Price cannot be negative').default(0),
   purchased: z.boolean().default(false),
   icon: z.string().optional(),
   category: z.string().optional(),
   notes: z.string().optional(),
+  storeId: z.string().optional(), // Bought somewhere other than the list's store
   createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
+  deletedAt: z.date().optional(), // Soft delete, like lists
   purchasedAt: z.date().optional(),
+  restockedQty: z.number().optional(), // Pantry stock added when bought, in the pantry item's unit
 });
 export type Item = z.infer<typeof ItemSchema>;
+// Item fields supplied when creating one; the id and timestamps are filled in
+export type NewItem = Omit<Item, 'id' | 'updatedAt' | 'deletedAt'>;
 
 // Item categories
 export const ITEM_CATEGORIES = [
@@ -48,6 +65,33 @@ export const ITEM_CATEGORIES = [
 
 export type ItemCategory = typeof ITEM_CATEGORIES[number];
 
+// Icon and color the built-in categories start with
+export const DEFAULT_CATEGORY_STYLES: Record<ItemCategory, { icon: string; color: string }> = {
+  Produce: { icon: '🥦', color: '#16a34a' },
+  Dairy: { icon: '🥛', color: '#0ea5e9' },
+  Meat: { icon: '🥩', color: '#dc2626' },
+  Bakery: { icon: '🥖', color: '#d97706' },
+  Frozen: { icon: '🧊', color: '#06b6d4' },
+  Pantry: { icon: '🥫', color: '#a16207' },
+  Beverages: { icon: '🧃', color: '#7c3aed' },
+  Snacks: { icon: '🍿', color: '#ea580c' },
+  'Personal Care': { icon: '🧴', color: '#db2777' },
+  Household: { icon: '🧽', color: '#2563eb' },
+  Other: { icon: '🛒', color: '#6b7280' },
+};
+
+// Category schema: user-managed categories, seeded from the built-in ones
+export const CategorySchema = z.object({
+  id: z.string(),
+  name: z.string().min(1, 'Category name is required'),
+  icon: z.string().optional(), // An emoji
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, 'Color must be a hex color').optional(),
+  order: z.number().default(0),
+  createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
+});
+export type Category = z.infer<typeof CategorySchema>;
+
 // Product statistics schema
 export const ProductStatSchema = z.object({
   name: z.string(),
@@ -56,6 +100,10 @@ export const ProductStatSchema = z.object({
   lastUsed: z.date().optional(),
   averagePrice: z.number().min(0).default(0),
   category: z.string().optional(),
+  unit: ItemUnitSchema.optional(), // Unit last bought in
+  unitPrice: z.number().min(0).optional(), // Latest price per kg, litre, piece or pack
+  lowestUnitPrice: z.number().min(0).optional(), // Cheapest seen, in the same unit
+  unitPricePer: ItemUnitSchema.optional(), // Unit the two prices above are per
 });
 
 // Shopping analytics schema
@@ -67,7 +115,9 @@ export const ShoppingAnalyticsSchema = z.object({
   topCategories: z.array(z.object({
     category: z.string(),
     count: z.number(),
-    totalSpent: z.number()
+    totalSpent: z.number(),
+    icon: z.string().optional(),
+    color: z.string().optional(),
   })).default([]),
   monthlySpending: z.array(z.object({
     month: z.string(),
@@ -78,6 +128,8 @@ export const ShoppingAnalyticsSchema = z.object({
     count: z.number(),
     totalSpent: z.number()
   })).default([]),
+  currency: z.string().default('EUR'), // Currency every amount is converted to
+  unconvertedCurrencies: z.array(z.string()).default([]), // Counted as-is for lack of a rate
 });
 export type ShoppingAnalytics = z.infer<typeof ShoppingAnalyticsSchema>;
 
@@ -95,12 +147,90 @@ export const BudgetSchema = z.object({
 export type Budget = z.infer<typeof BudgetSchema>;
 export type ProductStat = z.infer<typeof ProductStatSchema>;
 
+// Template schema: a reusable set of items to start new lists from
+export const TemplateItemSchema = z.object({
+  name: z.string().min(1, 'Item name is required'),
+  qty: z.number().positive('Quantity must be greater than 0').default(1),
+  unit: ItemUnitSchema.optional(),
+  price: z.number().min(0, 'Price cannot be negative').default(0),
+  icon: z.string().optional(),
+  category: z.string().optional(),
+  notes: z.string().optional(),
+});
+export type TemplateItem = z.infer<typeof TemplateItemSchema>;
+
+export const TemplateSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1, 'Template name is required'),
+  currency: z.string().default('EUR'),
+  items: z.array(TemplateItemSchema).default([]),
+  createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
+});
+export type Template = z.infer<typeof TemplateSchema>;
+
+// Pantry schema: stock kept at home for a product
+export const PantryItemSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1, 'Product name is required'),
+  quantity: z.number().min(0, 'Quantity cannot be negative').default(0),
+  unit: ItemUnitSchema.default('pcs'),
+  minQuantity: z.number().min(0, 'Minimum cannot be negative').default(0), // Restock below this
+  category: z.string().optional(),
+  createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
+});
+export type PantryItem = z.infer<typeof PantryItemSchema>;
+
+// Store aisle: a section of a store and the item categories found there
+export const StoreAisleSchema = z.object({
+  name: z.string().min(1, 'Aisle name is required'),
+  categories: z.array(z.string()).default([]),
+});
+export type StoreAisle = z.infer<typeof StoreAisleSchema>;
+
+// Store schema: a shop that lists and items can be bought at
+export const StoreSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1, 'Store name is required'),
+  aisles: z.array(StoreAisleSchema).optional(), // Walking order; the default category order when unset
+  createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
+});
+export type Store = z.infer<typeof StoreSchema>;
+
+// Price observation schema: the price a product was bought for, logged on each purchase
+export const PriceObservationSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1, 'Product name is required'),
+  storeId: z.string().optional(),
+  price: z.number().min(0, 'Price cannot be negative'), // Per unit of quantity, as on the item
+  unit: ItemUnitSchema.optional(),
+  currency: z.string().default('EUR'),
+  listId: z.string(),
+  itemId: z.string(),
+  observedAt: z.date().default(() => new Date()),
+});
+export type PriceObservation = z.infer<typeof PriceObservationSchema>;
+
+// Exchange rate schema; rates are quoted against EUR (units of `currency` per 1 EUR)
+export const ExchangeRateSchema = z.object({
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO 4217 code'),
+  rate: z.number().positive('Rate must be greater than 0'),
+  updatedAt: z.date().default(() => new Date()),
+});
+export type ExchangeRate = z.infer<typeof ExchangeRateSchema>;
+
 // Profile settings schema
 export const ProfileSettingsSchema = z.object({
   theme: ThemePrefSchema.default('system'),
   currency: z.string().default('EUR'),
   taxRate: z.number().min(0).max(1).default(0), // 0-1 representing 0%-100%
   hapticsEnabled: z.boolean().default(true),
+  displayName: z.string().optional(), // Shown to other devices viewing the same list
+  restockListId: z.string().optional(), // List that low pantry stock is added to
+  autoRestock: z.boolean().optional(), // Add low stock to the restock list without asking
+  trashRetentionDays: z.number().int().min(0).optional(), // Deleted lists are purged after this long; 0 keeps them
 });
 export type ProfileSettings = z.infer<typeof ProfileSettingsSchema>;
 
@@ -108,15 +238,47 @@ export type ProfileSettings = z.infer<typeof ProfileSettingsSchema>;
 export const CreateListFormSchema = z.object({
   name: z.string().min(1, 'List name is required'),
   currency: z.string().default('EUR'),
-  initialItems: z.string().optional(), // comma-separated items
+  storeId: z.string().optional(),
+  initialItems: z.string().optional(), // Quick-add lines, see lib/quickAdd
 });
 export type CreateListForm = z.infer<typeof CreateListFormSchema>;
 
 export const ItemFormSchema = z.object({
   name: z.string().min(1, 'Item name is required'),
-  qty: z.coerce.number().min(1, 'Quantity must be at least 1'),
+  qty: z.coerce.number().positive('Quantity must be greater than 0'),
+  unit: ItemUnitSchema.optional(),
   price: z.coerce.number().min(0, 'Price cannot be negative'),
   category: z.string().optional(),
   notes: z.string().optional(),
+  storeId: z.string().optional(),
+});
+export type ItemForm = z.infer<typeof ItemFormSchema>;
+
+export const PantryItemFormSchema = z.object({
+  name: z.string().min(1, 'Product name is required'),
+  quantity: z.coerce.number().min(0, 'Quantity cannot be negative'),
+  unit: ItemUnitSchema,
+  minQuantity: z.coerce.number().min(0, 'Minimum cannot be negative'),
+  category: z.string().optional(),
+});
+export type PantryItemForm = z.infer<typeof PantryItemFormSchema>;
+
+export const CategoryFormSchema = z.object({
+  name: z.string().trim().min(1, 'Category name is required'),
+  icon: z.string().trim().max(8, 'Icon must be a single emoji').optional(),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, 'Color must be a hex color').optional(),
+});
+export type CategoryForm = z.infer<typeof CategoryFormSchema>;
+
+export const StoreFormSchema = z.object({
+  name: z.string().trim().min(1, 'Store name is required'),
+});
+export type StoreForm = z.infer<typeof StoreFormSchema>;
+
+export const BudgetFormSchema = z.object({
+  name: z.string().min(1, 'Budget name is required'),
+  amount: z.coerce.number().positive('Budget amount must be greater than 0'),
+  period: z.enum(['weekly', 'monthly', 'yearly']),
+  categories: z.array(z.string()),
 });
-export type ItemForm = z.infer<typeof ItemFormSchema>;
\ No newline at end of file
+export type BudgetForm = z.infer<typeof BudgetFormSchema>;
@@ -0,0 +1,103 @@
+import type { Item, ItemUnit } from './types';
+
+/**
+ * Units of measure for item quantities and normalized unit prices.
+ *
+ * An item's price is per unit of its quantity (per kg for "1.5 kg"), so the
+ * line total stays `price * qty`. Mass and volume convert within their
+ * dimension; pieces and packs only compare with themselves.
+ */
+
+type Dimension = 'mass' | 'volume' | 'pieces' | 'packs';
+
+// Size of each unit in its dimension's base unit (grams, millilitres)
+const UNIT_DEFINITIONS: Record<ItemUnit, { dimension: Dimension; factor: number }> = {
+  pcs: { dimension: 'pieces', factor: 1 },
+  pack: { dimension: 'packs', factor: 1 },
+  g: { dimension: 'mass', factor: 1 },
+  kg: { dimension: 'mass', factor: 1000 },
+  lb: { dimension: 'mass', factor: 453.59237 },
+  oz: { dimension: 'mass', factor: 28.349523125 },
+  ml: { dimension: 'volume', factor: 1 },
+  l: { dimension: 'volume', factor: 1000 },
+};
+
+// Unit prices are quoted per kilogram, per litre, per piece or per pack
+const PRICE_UNITS: Record<Dimension, ItemUnit> = {
+  mass: 'kg',
+  volume: 'l',
+  pieces: 'pcs',
+  packs: 'pack',
+};
+
+const UNIT_LABELS: Partial<Record<ItemUnit, string>> = {
+  kg: 'kg',
+  l: 'litre',
+  pcs: 'piece',
+  pack: 'pack',
+};
+
+export interface UnitPrice {
+  amount: number;
+  per: ItemUnit;
+}
+
+/**
+ * Whether a unit counts whole things (pieces, packs) rather than measuring them
+ */
+export function isCountUnit(unit?: ItemUnit): boolean {
+  return !unit || unit === 'pcs' || unit === 'pack';
+}
+
+/**
+ * Convert a quantity between units of the same dimension; null when they do not convert
+ */
+export function convertQuantity(qty: number, from: ItemUnit, to: ItemUnit): number | null {
+  const source = UNIT_DEFINITIONS[from];
+  const target = UNIT_DEFINITIONS[to];
+  if (source.dimension !== target.dimension) return null;
+  return (qty * source.factor) / target.factor;
+}
+
+/**
+ * A price quoted per `from` (e.g. per g) expressed per `to` (per kg); null when they do not convert.
+ * No unit means pieces.
+ */
+export function convertUnitPrice(price: number, from: ItemUnit = 'pcs', to: ItemUnit = 'pcs'): number | null {
+  const size = convertQuantity(1, to, from);
+  return size === null ? null : price * size;
+}
+
+/**
+ * Price per kilogram, litre, piece or pack for a price quoted per `unit`
+ */
+export function normalizedUnitPrice(price: number, unit?: ItemUnit): UnitPrice | null {
+  if (!unit || price <= 0) return null;
+  const per = PRICE_UNITS[UNIT_DEFINITIONS[unit].dimension];
+  // Price per unit scales inversely with the unit's size
+  const amount = price / (convertQuantity(1, unit, per) ?? 1);
+  return { amount, per };
+}
+
+/**
+ * Label for the unit a price is quoted per, e.g. "kg" or "litre"
+ */
+export function unitPriceLabel(per: ItemUnit): string {
+  return UNIT_LABELS[per] ?? per;
+}
+
+/**
+ * Quantity as shown on an item, e.g. "1.5 kg", "3x" or "" for a single piece
+ */
+export function formatQuantity(qty: number, unit?: ItemUnit): string {
+  const rounded = Number(qty.toFixed(3));
+  if (unit && unit !== 'pcs') return `${rounded} ${unit}`;
+  return rounded === 1 ? '' : `${rounded}x`;
+}
+
+/**
+ * How many things an item stands for in counts: its quantity for pieces and packs, one for measured goods
+ */
+export function itemCount(item: Pick<Item, 'qty' | 'unit'>): number {
+  return isCountUnit(item.unit) ? item.qty : 1;
+}
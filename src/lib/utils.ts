@@ -190,6 +190,72 @@ export class ServiceWorkerManager {
     return false;
   }
   
+  /**
+   * Ask the service worker to fire a background sync event once connectivity returns
+   */
+  static async requestSync(tag: string): Promise<boolean> {
+    if (!('serviceWorker' in navigator)) {
+      return false;
+    }
+    
+    try {
+      const registration = this.registration ?? await navigator.serviceWorker.getRegistration();
+      const sync = (registration as (ServiceWorkerRegistration & { sync?: SyncManager }) | undefined)?.sync;
+      if (!sync) {
+        return false;
+      }
+      await sync.register(tag);
+      return true;
+    } catch (error) {
+      console.debug('Background sync registration failed:', error);
+      return false;
+    }
+  }
+  
+  /**
+   * Ask the service worker to fire a periodic sync event about every `minInterval` ms (where supported)
+   */
+  static async registerPeriodicSync(tag: string, minInterval: number): Promise<boolean> {
+    if (!('serviceWorker' in navigator)) {
+      return false;
+    }
+    
+    try {
+      const registration = this.registration ?? await navigator.serviceWorker.getRegistration();
+      const periodicSync = (registration as (ServiceWorkerRegistration & {
+        periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> };
+      }) | undefined)?.periodicSync;
+      if (!periodicSync) {
+        return false;
+      }
+      await periodicSync.register(tag, { minInterval });
+      return true;
+    } catch (error) {
+      console.debug('Periodic sync registration failed:', error);
+      return false;
+    }
+  }
+  
+  /**
+   * Subscribe to messages of a given type posted by the service worker
+   */
+  static onMessage(type: string, callback: (data: unknown) => void): () => void {
+    if (!('serviceWorker' in navigator)) {
+      return () => {};
+    }
+    
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === type) {
+        callback(event.data);
+      }
+    };
+    
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => {
+      navigator.serviceWorker.removeEventListener('message', handleMessage);
+    };
+  }
+  
   /**
    * Get service worker version
    */
@@ -408,6 +474,54 @@ export class FormatUtils {
   }
 }
 
+// File utilities
+export class FileUtils {
+  /**
+   * Trigger a browser download of text content
+   */
+  static download(filename: string, content: string, mimeType: string = 'text/plain'): void {
+    if (typeof document === 'undefined') {
+      return;
+    }
+    
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    
+    // Revoke after the click has been handled
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+  
+  /**
+   * Read a user-selected file as text
+   */
+  static readAsText(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(String(reader.result ?? ''));
+      reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+      reader.readAsText(file);
+    });
+  }
+  
+  /**
+   * Date stamp for generated file names (YYYY-MM-DD)
+   */
+  static dateStamp(date: Date = new Date()): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+}
+
+// Background Sync API (not yet in the DOM lib)
+interface SyncManager {
+  register(tag: string): Promise<void>;
+}
+
 // Type for beforeinstallprompt event
 interface BeforeInstallPromptEvent extends Event {
   prompt(): Promise<void>;
@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import {
+  BudgetSchema,
+  CategorySchema,
+  ExchangeRateSchema,
+  ItemSchema,
+  ListSchema,
+  PantryItemSchema,
+  PriceObservationSchema,
+  ProductStatSchema,
+  ProfileSettingsSchema,
+  StoreSchema,
+  TemplateSchema,
+} from './types';
+
+/**
+ * Validation of stored records against their zod schemas. Records that fail
+ * are left out of reads, and at startup they are quarantined: moved out of
+ * their store, so the app never works with them, and kept aside for inspection.
+ */
+
+export type ValidatedStore =
+  | 'lists'
+  | 'items'
+  | 'productStats'
+  | 'budgets'
+  | 'settings'
+  | 'templates'
+  | 'pantry'
+  | 'stores'
+  | 'priceObservations'
+  | 'categories'
+  | 'exchangeRates';
+
+export const RECORD_SCHEMAS: Record<ValidatedStore, z.ZodTypeAny> = {
+  lists: ListSchema,
+  items: ItemSchema,
+  productStats: ProductStatSchema,
+  budgets: BudgetSchema,
+  settings: ProfileSettingsSchema.extend({ id: z.string() }),
+  templates: TemplateSchema,
+  pantry: PantryItemSchema,
+  stores: StoreSchema,
+  priceObservations: PriceObservationSchema,
+  categories: CategorySchema,
+  exchangeRates: ExchangeRateSchema,
+};
+
+export interface QuarantinedRecord {
+  id: string;
+  store: ValidatedStore;
+  key: string; // Its key in the store it came from
+  record: unknown;
+  errors: string[];
+  quarantinedAt: Date;
+}
+
+/**
+ * Key of a record in its object store
+ */
+export function recordKey(store: ValidatedStore, record: unknown): string {
+  const keyPath = store === 'productStats' ? 'name' : store === 'exchangeRates' ? 'currency' : 'id';
+  return String((record as Record<string, unknown>)[keyPath]);
+}
+
+/**
+ * Why a stored record does not match its schema; empty when it does
+ */
+export function recordErrors(store: ValidatedStore, record: unknown): string[] {
+  const result = RECORD_SCHEMAS[store].safeParse(record);
+  return result.success
+    ? []
+    : result.error.errors.map(err => `${err.path.length ? err.path.join('.') + ': ' : ''}${err.message}`);
+}
@@ -4,6 +4,13 @@ import { ListsPage } from './features/lists/ListsPage';
 import { NewListPage } from './features/new/NewListPage';
 import { ProfilePage } from './features/profile/ProfilePage';
 import { ListDetailPage } from './features/lists/ListDetailPage';
+import { ShoppingModePage } from './features/lists/ShoppingModePage';
+import { SharePage } from './features/share/SharePage';
+import { BudgetsPage } from './features/budgets/BudgetsPage';
+import { InsightsPage } from './features/insights/InsightsPage';
+import { PantryPage } from './features/pantry/PantryPage';
+import { PriceHistoryPage } from './features/prices/PriceHistoryPage';
+import { TrashPage } from './features/trash/TrashPage';
 
 const router = createHashRouter([
   {
@@ -18,6 +25,18 @@ const router = createHashRouter([
         path: 'new',
         element: <NewListPage />,
       },
+      {
+        path: 'budgets',
+        element: <BudgetsPage />,
+      },
+      {
+        path: 'pantry',
+        element: <PantryPage />,
+      },
+      {
+        path: 'insights',
+        element: <InsightsPage />,
+      },
       {
         path: 'profile',
         element: <ProfilePage />,
@@ -26,6 +45,22 @@ const router = createHashRouter([
         path: 'list/:id',
         element: <ListDetailPage />,
       },
+      {
+        path: 'list/:id/shop',
+        element: <ShoppingModePage />,
+      },
+      {
+        path: 'prices/:name',
+        element: <PriceHistoryPage />,
+      },
+      {
+        path: 'trash',
+        element: <TrashPage />,
+      },
+      {
+        path: 'share/:payload',
+        element: <SharePage />,
+      },
     ],
   },
 ]);
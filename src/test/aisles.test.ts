@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { UNSORTED_AISLE, assignCategory, defaultAisles, groupItemsByAisle, moveAisle, storeAisles } from '../lib/aisles';
+import type { Item, StoreAisle } from '../lib/types';
+
+const makeItem = (name: string, overrides: Partial<Item> = {}): Item => ({
+  id: crypto.randomUUID(),
+  listId: 'list-1',
+  name,
+  qty: 1,
+  price: 0,
+  purchased: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('aisles', () => {
+  const layout: StoreAisle[] = [
+    { name: 'Entrance', categories: ['Produce', 'Bakery'] },
+    { name: 'Aisle 2', categories: ['Snacks', 'Beverages'] },
+    { name: 'Back Wall', categories: ['Dairy'] },
+  ];
+
+  it('groups items in walking order', () => {
+    const groups = groupItemsByAisle([
+      makeItem('Milk', { category: 'Dairy' }),
+      makeItem('Crisps', { category: 'snacks' }),
+      makeItem('Bread', { category: 'Bakery', purchased: true }),
+      makeItem('Apples', { category: 'Produce' }),
+      makeItem('Batteries'),
+      makeItem('Soap', { category: 'Household' }),
+    ], layout);
+
+    expect(groups.map(group => [group.name, group.items.map(item => item.name)])).toEqual([
+      ['Entrance', ['Apples', 'Bread']],
+      ['Aisle 2', ['Crisps']],
+      ['Back Wall', ['Milk']],
+      [UNSORTED_AISLE, ['Batteries', 'Soap']],
+    ]);
+  });
+
+  it('falls back to the category order', () => {
+    expect(storeAisles(undefined)).toEqual(defaultAisles());
+    expect(storeAisles({ aisles: [] })).toEqual(defaultAisles());
+    expect(storeAisles({ aisles: layout })).toBe(layout);
+
+    const groups = groupItemsByAisle([makeItem('Milk', { category: 'Dairy' }), makeItem('Pears', { category: 'Produce' })], defaultAisles());
+    expect(groups.map(group => group.name)).toEqual(['Produce', 'Dairy']);
+  });
+
+  it('reorders aisles and moves categories between them', () => {
+    expect(moveAisle(layout, 2, 0).map(aisle => aisle.name)).toEqual(['Back Wall', 'Entrance', 'Aisle 2']);
+    expect(moveAisle(layout, 0, 5)).toBe(layout);
+
+    const moved = assignCategory(layout, 'Bakery', 'Back Wall');
+    expect(moved[0].categories).toEqual(['Produce']);
+    expect(moved[2].categories).toEqual(['Dairy', 'Bakery']);
+    expect(assignCategory(layout, 'Dairy', '')[2].categories).toEqual([]);
+  });
+});
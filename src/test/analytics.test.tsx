@@ -0,0 +1,71 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { render, screen } from '@testing-library/react';
+import { BarChart } from '../components/BarChart';
+
+type DbModule = typeof import('../lib/db');
+
+async function seed(db: DbModule) {
+  const weekly = await db.createList({ name: 'Weekly', currency: 'EUR' });
+  const party = await db.createList({ name: 'Party', currency: 'EUR' });
+  const purchase = (listId: string, name: string, price: number, purchasedAt: Date, category?: string) =>
+    db.createItem({ listId, name, qty: 1, price, purchased: true, purchasedAt, createdAt: purchasedAt, category });
+
+  await purchase(weekly.id, 'Milk', 2, new Date(2024, 0, 10), 'Dairy');
+  await purchase(weekly.id, 'Milk', 2, new Date(2024, 1, 10), 'Dairy');
+  await purchase(weekly.id, 'Bread', 3, new Date(2024, 1, 12), 'Bakery');
+  await purchase(party.id, 'Cake', 20, new Date(2024, 1, 14), 'Bakery');
+  await db.createItem({ listId: party.id, name: 'Balloons', qty: 1, price: 5, purchased: false, createdAt: new Date() });
+
+  return { weekly, party };
+}
+
+describe('shopping analytics', () => {
+  let db: DbModule;
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    db = await import('../lib/db');
+  });
+
+  it('filters by date range', async () => {
+    await seed(db);
+    const analytics = await db.getShoppingAnalytics({ from: new Date(2024, 1, 1), to: new Date(2024, 2, 1) });
+
+    expect(analytics.totalSpent).toBe(25);
+    expect(analytics.totalItems).toBe(3);
+    expect(analytics.totalLists).toBe(2);
+    expect(analytics.averageListValue).toBe(12.5);
+    expect(analytics.monthlySpending).toEqual([{ month: 'Feb 2024', amount: 25 }]);
+    expect(analytics.topCategories[0]).toEqual({ category: 'Bakery', count: 2, totalSpent: 23, icon: '🥖', color: '#d97706' });
+  });
+
+  it('filters by list', async () => {
+    const { weekly } = await seed(db);
+    const analytics = await db.getShoppingAnalytics({ listId: weekly.id });
+
+    expect(analytics.totalSpent).toBe(7);
+    expect(analytics.totalLists).toBe(1);
+    expect(analytics.frequentItems).toEqual([
+      { name: 'Milk', count: 2, totalSpent: 4 },
+      { name: 'Bread', count: 1, totalSpent: 3 },
+    ]);
+  });
+});
+
+describe('BarChart', () => {
+  it('renders an accessible image with the values as a table', () => {
+    render(
+      <BarChart
+        title="Monthly spending"
+        data={[{ label: 'Jan 2024', value: 10 }, { label: 'Feb 2024', value: 25 }]}
+        formatValue={value => `€${value}`}
+      />
+    );
+
+    expect(screen.getByRole('img', { name: /Monthly spending/ })).toBeInTheDocument();
+    expect(screen.getByRole('row', { name: 'Feb 2024 €25' })).toBeInTheDocument();
+  });
+});
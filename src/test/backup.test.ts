@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { BACKUP_FORMAT, parseBackup, planRestore, serializeBackup } from '../lib/backup';
+import type { BackupFile } from '../lib/backup';
+import { DB_VERSION } from '../lib/db';
+import type { DatabaseSnapshot } from '../lib/db';
+
+const emptySnapshot = (): DatabaseSnapshot => ({
+  lists: [],
+  items: [],
+  productStats: [],
+  budgets: [],
+  settings: [],
+  templates: [],
+  pantry: [],
+  stores: [],
+  priceObservations: [],
+  categories: [],
+  exchangeRates: [],
+});
+
+const makeBackup = (data: Partial<DatabaseSnapshot>): BackupFile => ({
+  format: BACKUP_FORMAT,
+  version: 1,
+  schemaVersion: 2,
+  exportedAt: new Date('2024-05-01T10:00:00Z'),
+  data: { ...emptySnapshot(), ...data },
+});
+
+const list = {
+  id: 'list-1',
+  name: 'Groceries',
+  currency: 'EUR',
+  createdAt: new Date('2024-04-01T10:00:00Z'),
+  updatedAt: new Date('2024-04-02T10:00:00Z'),
+};
+
+describe('parseBackup', () => {
+  it('round-trips a backup and revives dates', () => {
+    const backup = makeBackup({
+      lists: [list],
+      items: [{
+        id: 'item-1',
+        listId: 'list-1',
+        name: 'Milk',
+        qty: 2,
+        price: 1.29,
+        purchased: true,
+        createdAt: new Date('2024-04-01T11:00:00Z'),
+        updatedAt: new Date('2024-04-03T09:00:00Z'),
+        purchasedAt: new Date('2024-04-03T09:00:00Z'),
+      }],
+      exchangeRates: [{ currency: 'USD', rate: 1.08, updatedAt: new Date('2024-04-04T08:00:00Z') }],
+    });
+
+    const result = parseBackup(serializeBackup(backup));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.backup.exportedAt).toBeInstanceOf(Date);
+    expect(result.backup.data.lists[0].updatedAt).toEqual(list.updatedAt);
+    expect(result.backup.data.items[0].purchasedAt).toBeInstanceOf(Date);
+    expect(result.backup.data.exchangeRates).toEqual(backup.data.exchangeRates);
+  });
+
+  it('rejects backups from a newer version of the app', () => {
+    const result = parseBackup(serializeBackup({ ...makeBackup({ lists: [list] }), schemaVersion: DB_VERSION + 1 }));
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors).toEqual([expect.stringContaining('newer version of the app')]);
+  });
+
+  it('rejects invalid JSON and unknown formats', () => {
+    expect(parseBackup('not json')).toEqual({ ok: false, errors: ['File is not valid JSON'] });
+    expect(parseBackup(JSON.stringify({ format: 'other' })).ok).toBe(false);
+  });
+
+  it('reports every invalid record with its path', () => {
+    const json = JSON.stringify({
+      format: BACKUP_FORMAT,
+      version: 1,
+      schemaVersion: 2,
+      exportedAt: new Date().toISOString(),
+      data: {
+        lists: [{ ...list, name: '' }],
+        items: [{ id: 'item-1', listId: 'list-1', name: 'Milk', qty: 0, createdAt: 'not a date' }],
+      },
+    });
+
+    const result = parseBackup(json);
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors).toEqual(expect.arrayContaining([
+      expect.stringContaining('lists[0].name'),
+      expect.stringContaining('items[0].qty'),
+      expect.stringContaining('items[0].createdAt'),
+    ]));
+  });
+});
+
+describe('planRestore', () => {
+  it('keeps newer local records when merging', () => {
+    const localList = { ...list, name: 'Local', updatedAt: new Date('2024-04-05T10:00:00Z') };
+    const local = { ...emptySnapshot(), lists: [localList] };
+    const backup = makeBackup({
+      lists: [list, { ...list, id: 'list-2', name: 'Hardware' }],
+    });
+
+    const { writes, summary } = planRestore(backup, local, 'merge');
+
+    expect(summary.lists).toMatchObject({ added: 1, conflicts: 1, kept: 1, updated: 0 });
+    expect(writes.lists.map(l => l.id)).toEqual(['list-2']);
+  });
+
+  it('overwrites with newer backup records when merging', () => {
+    const local = { ...emptySnapshot(), lists: [{ ...list, name: 'Old', updatedAt: new Date('2024-03-01T10:00:00Z') }] };
+
+    const { writes, summary } = planRestore(makeBackup({ lists: [list] }), local, 'merge');
+
+    expect(summary.lists).toMatchObject({ conflicts: 1, updated: 1 });
+    expect(writes.lists[0].name).toBe('Groceries');
+  });
+
+  it('compares items by when they were last edited when merging', () => {
+    const item = { id: 'item-1', listId: list.id, name: 'Milk', qty: 1, price: 1, purchased: true, createdAt: list.createdAt };
+    const bought = new Date('2024-04-05T10:00:00Z');
+    const local = { ...emptySnapshot(), items: [{ ...item, purchasedAt: bought, updatedAt: bought }] };
+    // Bought earlier, but edited after the local copy was
+    const edited = { ...item, notes: 'Oat', purchasedAt: new Date('2024-04-03T10:00:00Z'), updatedAt: new Date('2024-04-07T10:00:00Z') };
+
+    const { writes, summary } = planRestore(makeBackup({ items: [edited] }), local, 'merge');
+
+    expect(summary.items).toMatchObject({ conflicts: 1, updated: 1 });
+    expect(writes.items).toEqual([edited]);
+  });
+
+  it('writes the whole backup and counts removals when replacing', () => {
+    const local = { ...emptySnapshot(), lists: [{ ...list, id: 'list-9' }, list] };
+
+    const { writes, summary } = planRestore(makeBackup({ lists: [list] }), local, 'replace');
+
+    expect(summary.lists).toMatchObject({ unchanged: 1, removed: 1 });
+    expect(writes.lists).toHaveLength(1);
+
+    // Edited exchange rates move with the backup; rates only on this device go
+    const rate = { currency: 'USD', rate: 1.08, updatedAt: list.updatedAt };
+    const withRates = planRestore(
+      makeBackup({ exchangeRates: [{ ...rate, rate: 1.1 }] }),
+      { ...emptySnapshot(), exchangeRates: [rate, { ...rate, currency: 'GBP' }] },
+      'replace'
+    );
+    expect(withRates.summary.exchangeRates).toMatchObject({ updated: 1, removed: 1 });
+    expect(withRates.writes.exchangeRates).toEqual([{ ...rate, rate: 1.1 }]);
+  });
+});
@@ -0,0 +1,81 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { calculateBudgetSpent, getBudgetPeriod } from '../lib/budgets';
+import type { Budget, Item } from '../lib/types';
+
+const now = new Date(2024, 4, 15, 12); // Wednesday 15 May 2024
+
+function budget(overrides: Partial<Budget> = {}): Budget {
+  return {
+    id: 'budget-1',
+    name: 'Groceries',
+    amount: 100,
+    period: 'monthly',
+    categories: [],
+    spent: 0,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+function item(overrides: Partial<Item> = {}): Item {
+  return {
+    id: 'item-1',
+    listId: 'list-1',
+    name: 'Milk',
+    qty: 1,
+    price: 10,
+    purchased: true,
+    createdAt: now,
+    updatedAt: now,
+    purchasedAt: now,
+    ...overrides,
+  };
+}
+
+describe('budgets', () => {
+  it('computes the current period', () => {
+    expect(getBudgetPeriod('weekly', now)).toEqual({ start: new Date(2024, 4, 13), end: new Date(2024, 4, 20) });
+    expect(getBudgetPeriod('monthly', now)).toEqual({ start: new Date(2024, 4, 1), end: new Date(2024, 5, 1) });
+    expect(getBudgetPeriod('yearly', now)).toEqual({ start: new Date(2024, 0, 1), end: new Date(2025, 0, 1) });
+    // A week spanning two months
+    expect(getBudgetPeriod('weekly', new Date(2024, 4, 1))).toEqual({ start: new Date(2024, 3, 29), end: new Date(2024, 4, 6) });
+  });
+
+  it('counts purchased items in the period and covered categories', () => {
+    const items = [
+      item({ id: 'a', qty: 2, price: 4.5, category: 'Dairy' }),
+      item({ id: 'b', price: 20, category: 'Household' }),
+      item({ id: 'c', price: 7 }), // Uncategorized counts as Other
+      item({ id: 'd', price: 50, purchased: false, purchasedAt: undefined }),
+      item({ id: 'e', price: 30, purchasedAt: new Date(2024, 3, 30) }),
+    ];
+
+    expect(calculateBudgetSpent(budget(), items, now)).toBe(36);
+    expect(calculateBudgetSpent(budget({ categories: ['Dairy', 'Other'] }), items, now)).toBe(16);
+    expect(calculateBudgetSpent(budget({ categories: [' dairy', 'household'] }), items, now)).toBe(29);
+    expect(calculateBudgetSpent(budget({ period: 'yearly' }), items, now)).toBe(66);
+  });
+
+  it('warns when a purchase would exceed a budget', async () => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    const db = await import('../lib/db');
+    const { getBudgetWarnings, getBudgetProgress } = await import('../lib/budgets');
+
+    const list = await db.createList({ name: 'Weekly shop', currency: 'EUR' });
+    await db.createItem({ ...item(), listId: list.id, price: 80, purchasedAt: new Date() });
+    const pending = await db.createItem({ ...item(), listId: list.id, price: 30, purchased: false, purchasedAt: undefined });
+    const groceries = await db.createBudget({ name: 'Groceries', amount: 100, period: 'monthly', categories: [], spent: 0 });
+    await db.createBudget({ name: 'Household', amount: 10, period: 'monthly', categories: ['Household'], spent: 0 });
+
+    const warnings = await getBudgetWarnings(pending);
+    expect(warnings).toEqual([{ budget: expect.objectContaining({ id: groceries.id }), overBy: 10, currency: 'EUR' }]);
+
+    const progress = await getBudgetProgress();
+    expect(progress.find(entry => entry.budget.id === groceries.id)).toMatchObject({ spent: 80, remaining: 20 });
+    expect((await db.getBudgets()).find(b => b.id === groceries.id)?.spent).toBe(80);
+  });
+});
@@ -0,0 +1,66 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { seedDatabaseAt } from './migrationHarness';
+import { ITEM_CATEGORIES } from '../lib/types';
+import { categoryLabel, findCategory } from '../lib/categories';
+
+describe('categories', () => {
+  let db: typeof import('../lib/db');
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+  });
+
+  it('seeds the built-ins plus free-text categories already in use when upgrading', async () => {
+    await seedDatabaseAt(8, {
+      items: [
+        { id: 'a', listId: 'l', name: 'Milk', category: 'dairy' },
+        { id: 'b', listId: 'l', name: 'Cumin', category: 'Spices' },
+        { id: 'c', listId: 'l', name: 'Paprika', category: ' spices ' },
+      ],
+    });
+
+    db = await import('../lib/db');
+    const names = (await db.getCategories()).map(category => category.name);
+    expect(names).toEqual([...ITEM_CATEGORIES, 'Spices']);
+    expect(findCategory(await db.getCategories(), 'DAIRY')?.icon).toBe('🥛');
+  });
+
+  it('carries a rename over to items, products and budgets', async () => {
+    db = await import('../lib/db');
+    const list = await db.createList({ name: 'Weekly', currency: 'EUR' });
+    const item = await db.createItem({ listId: list.id, name: 'Milk', qty: 1, price: 1, purchased: false, category: 'Dairy', createdAt: new Date() });
+    await db.createBudget({ name: 'Fresh', amount: 50, period: 'monthly', categories: ['Dairy', 'Produce'], spent: 0 });
+
+    const dairy = findCategory(await db.getCategories(), 'Dairy')!;
+    await db.updateCategory(dairy.id, { name: 'Milk & Eggs' });
+
+    expect((await db.getItemsByList(list.id)).find(i => i.id === item.id)?.category).toBe('Milk & Eggs');
+    expect((await db.getProductStats()).find(stat => stat.name === 'Milk')?.category).toBe('Milk & Eggs');
+    expect((await db.getBudgets())[0].categories).toEqual(['Milk & Eggs', 'Produce']);
+    expect(categoryLabel(findCategory(await db.getCategories(), 'milk & eggs')!)).toBe('🥛 Milk & Eggs');
+  });
+
+  it('merges and deletes categories', async () => {
+    db = await import('../lib/db');
+    const list = await db.createList({ name: 'Weekly', currency: 'EUR' });
+    await db.createItem({ listId: list.id, name: 'Crisps', qty: 1, price: 1, purchased: false, category: 'Snacks', createdAt: new Date() });
+    await db.createItem({ listId: list.id, name: 'Soap', qty: 1, price: 1, purchased: false, category: 'Household', createdAt: new Date() });
+    await db.createBudget({ name: 'Home', amount: 20, period: 'monthly', categories: ['Household'], spent: 0 });
+
+    const custom = await db.createCategory({ name: 'Treats', icon: '🍬' });
+    expect((await db.getCategories()).at(-1)?.id).toBe(custom.id);
+
+    const categories = await db.getCategories();
+    expect(await db.mergeCategories(findCategory(categories, 'Snacks')!.id, custom.id)).toBe(true);
+    expect(await db.deleteCategory(findCategory(categories, 'Household')!.id)).toBe(true);
+
+    const items = await db.getItemsByList(list.id);
+    expect(items.find(i => i.name === 'Crisps')?.category).toBe('Treats');
+    expect(items.find(i => i.name === 'Soap')?.category).toBeUndefined();
+    expect((await db.getBudgets())[0].categories).toEqual(['Other']);
+    expect(findCategory(await db.getCategories(), 'Snacks')).toBeUndefined();
+  });
+});
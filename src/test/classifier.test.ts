@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { classifyItem, normalizeWords } from '../lib/classifier';
+import type { Category, ProductStat } from '../lib/types';
+import { CATEGORY_CORPUS } from './fixtures/categoryCorpus';
+
+const stat = (name: string, category: string): ProductStat => ({
+  name,
+  category,
+  usedCount: 1,
+  totalSpend: 1,
+  averagePrice: 1,
+});
+
+const category = (name: string, order: number): Category => ({
+  id: name,
+  name,
+  order,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe('category classifier', () => {
+  it('classifies the fixture corpus from the dictionary alone', () => {
+    const misses = CATEGORY_CORPUS
+      .map(([name, expected]) => ({ name, expected, actual: classifyItem(name, [])?.category }))
+      .filter(({ expected, actual }) => expected !== actual);
+
+    const accuracy = 1 - misses.length / CATEGORY_CORPUS.length;
+    expect(accuracy, JSON.stringify(misses)).toBeGreaterThanOrEqual(0.95);
+  });
+
+  it('normalizes accents, punctuation and numbers', () => {
+    expect(normalizeWords("Jus d'Orange 1L")).toEqual(['jus', 'd', 'orange', '1l']);
+    expect(normalizeWords('Spülmittel, 500 ml')).toEqual(['spulmittel', 'ml']);
+    expect(normalizeWords('Großpackung')).toEqual(['grosspackung']);
+  });
+
+  it('leaves names it knows nothing about alone', () => {
+    expect(classifyItem('', [])).toBeNull();
+    expect(classifyItem('Xylophone', [])).toBeNull();
+    expect(classifyItem('Birthday card for Sam', [])).toBeNull();
+  });
+
+  it('trusts the history and learns from corrections', () => {
+    expect(classifyItem('Oat milk barista', [])?.category).toBe('Beverages');
+    // The user filed almond drinks under Dairy instead
+    const history = [stat('Almond milk', 'Dairy'), stat('Tofu', 'Meat')];
+
+    expect(classifyItem('almond milk', history)).toMatchObject({ category: 'Dairy', source: 'history' });
+    expect(classifyItem('Almond milk unsweetened', history)).toMatchObject({ category: 'Dairy', source: 'history' });
+    expect(classifyItem('Smoked tofu', history)?.category).toBe('Meat');
+    expect(classifyItem('Almonds', history)?.category).toBe('Snacks');
+  });
+
+  it("only suggests the user's own categories, as they spell them", () => {
+    const categories = [category('dairy', 0), category('Produce', 1)];
+
+    expect(classifyItem('Milk', [], categories)?.category).toBe('dairy');
+    expect(classifyItem('Apples', [], categories)?.category).toBe('Produce');
+    expect(classifyItem('Bread', [], categories)).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { csvRowsToItems, findListColumn, guessColumnMapping, itemsToCsv, listsToCsv, parseCsv, toCsv } from '../lib/csv';
+import type { Item, List } from '../lib/types';
+
+describe('CSV encoding', () => {
+  it('quotes fields containing commas, quotes and newlines', () => {
+    expect(toCsv([['a', 'b,c', 'say "hi"', 'two\nlines']])).toBe(
+      'a,"b,c","say ""hi""","two\nlines"\r\n'
+    );
+  });
+
+  it('parses what it writes', () => {
+    const rows = [['name', 'notes'], ['Milk', 'semi-skimmed, 1L'], ['Eggs', 'say "free range"\nplease']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it('handles LF line endings, BOM and blank lines', () => {
+    expect(parseCsv('\uFEFFname,qty\nMilk,2\n\nBread,1')).toEqual([
+      ['name', 'qty'],
+      ['Milk', '2'],
+      ['Bread', '1'],
+    ]);
+  });
+
+  it('exports item columns in order', () => {
+    const item: Item = {
+      id: '1',
+      listId: 'l',
+      name: 'Milk',
+      qty: 2,
+      price: 1.29,
+      purchased: true,
+      category: 'Dairy',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      purchasedAt: new Date('2024-01-02T03:04:05.000Z'),
+    };
+    expect(itemsToCsv([item])).toBe(
+      'name,qty,unit,price,category,notes,purchased,purchasedAt\r\n' +
+      'Milk,2,,1.29,Dairy,,true,2024-01-02T03:04:05.000Z\r\n'
+    );
+  });
+});
+
+describe('CSV import', () => {
+  it('guesses the column mapping from header aliases', () => {
+    expect(guessColumnMapping(['Product', 'Quantity', 'Cost', 'Bought'])).toEqual({
+      name: 0,
+      qty: 1,
+      price: 2,
+      purchased: 3,
+    });
+  });
+
+  it('validates each row and reports rejected rows', () => {
+    const rows = parseCsv('Item,Qty,Price\nMilk,2,"1,29"\n,1,2\nBread,0,1\nJam,,\n');
+    const result = csvRowsToItems(rows, guessColumnMapping(rows[0]));
+
+    expect(result.items.map(item => [item.name, item.qty, item.price])).toEqual([
+      ['Milk', 2, 1.29],
+      ['Jam', 1, 0],
+    ]);
+    expect(result.errors.map(error => error.row)).toEqual([3, 4]);
+    expect(result.errors[1].message).toContain('Quantity must be greater than 0');
+  });
+
+  it('reads numbers with grouping and either decimal separator', () => {
+    const rows = parseCsv('name,qty,price\nRice,"1.234,5",2\nFlour,"1,234.5","0,99"\nOil,1,"3,5"\n');
+    const result = csvRowsToItems(rows, guessColumnMapping(rows[0]));
+
+    expect(result.items.map(item => [item.name, item.qty, item.price])).toEqual([
+      ['Rice', 1234.5, 2],
+      ['Flour', 1234.5, 0.99],
+      ['Oil', 1, 3.5],
+    ]);
+  });
+
+  it('puts items from an export of every list back on their lists', () => {
+    const list = (name: string): List => ({ id: name, name, currency: 'EUR', createdAt: new Date(), updatedAt: new Date() });
+    const item = (name: string, listId: string): Item => ({
+      id: name, listId, name, qty: 1, price: 1.5, purchased: false, createdAt: new Date(), updatedAt: new Date(),
+    });
+    const rows = parseCsv(listsToCsv([
+      { list: list('Weekly'), items: [item('Milk', 'Weekly'), item('Bread', 'Weekly')] },
+      { list: list('Party'), items: [item('Crisps', 'Party')] },
+    ]));
+
+    const result = csvRowsToItems(rows, guessColumnMapping(rows[0]), findListColumn(rows[0]));
+    expect(result.items.map(item => item.name)).toEqual(['Milk', 'Bread', 'Crisps']);
+    expect(result.listNames).toEqual(['Weekly', 'Weekly', 'Party']);
+  });
+
+  it('requires a name column', () => {
+    const result = csvRowsToItems([['qty'], ['1']], { qty: 0 });
+    expect(result.items).toHaveLength(0);
+    expect(result.errors[0].message).toMatch(/name/);
+  });
+});
@@ -0,0 +1,85 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  buildRateTable,
+  convertAmount,
+  currencyStep,
+  formatCurrency,
+  getMinorUnits,
+  roundCurrency,
+} from '../lib/currency';
+import { parseExchangeRateFile } from '../lib/exchangeRates';
+
+describe('ISO 4217 currencies', () => {
+  it('knows each currency\'s minor units', () => {
+    expect(getMinorUnits('EUR')).toBe(2);
+    expect(getMinorUnits('JPY')).toBe(0);
+    expect(getMinorUnits('KWD')).toBe(3);
+    expect(getMinorUnits('CLF')).toBe(4);
+    expect(currencyStep('JPY')).toBe('1');
+    expect(currencyStep('KWD')).toBe('0.001');
+  });
+
+  it('rounds and formats using the minor units', () => {
+    expect(roundCurrency(1.23456, 'KWD')).toBe(1.235);
+    expect(roundCurrency(99.6, 'JPY')).toBe(100);
+    expect(formatCurrency(1234.5, 'JPY')).not.toMatch(/[.,]5/);
+  });
+});
+
+describe('currency conversion', () => {
+  const rates = buildRateTable([{ currency: 'USD', rate: 1.1 }, { currency: 'GBP', rate: 0.85 }]);
+
+  it('converts through the EUR base', () => {
+    expect(convertAmount(11, 'USD', 'EUR', rates)).toBeCloseTo(10);
+    expect(convertAmount(10, 'EUR', 'GBP', rates)).toBeCloseTo(8.5);
+    expect(convertAmount(11, 'USD', 'GBP', rates)).toBeCloseTo(8.5);
+    expect(convertAmount(5, 'CHF', 'CHF', rates)).toBe(5);
+    expect(convertAmount(5, 'CHF', 'EUR', rates)).toBeNull();
+  });
+});
+
+describe('exchange rate import', () => {
+  it('rebases API-style JSON quoted against another currency', () => {
+    const { rates, errors } = parseExchangeRateFile(
+      JSON.stringify({ base: 'USD', rates: { EUR: 0.5, GBP: 0.4, XXX1: 1 } })
+    );
+
+    expect(errors).toHaveLength(1);
+    expect(rates.map(rate => rate.currency).sort()).toEqual(['GBP', 'USD']);
+    expect(rates.find(rate => rate.currency === 'USD')?.rate).toBeCloseTo(2);
+    expect(rates.find(rate => rate.currency === 'GBP')?.rate).toBeCloseTo(0.8);
+  });
+
+  it('reads CSV with a header', () => {
+    const { rates, errors } = parseExchangeRateFile('currency,rate\r\nusd,"1,1"\r\nJPY,-3\r\n');
+
+    expect(rates).toEqual([expect.objectContaining({ currency: 'USD', rate: 1.1 })]);
+    expect(errors).toEqual(['JPY: rate must be a positive number']);
+  });
+});
+
+describe('converted analytics', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+  });
+
+  it('totals lists in different currencies in the profile currency', async () => {
+    const db = await import('../lib/db');
+    await db.saveExchangeRates([{ currency: 'USD', rate: 2, updatedAt: new Date() }]);
+    const euros = await db.createList({ name: 'Euros', currency: 'EUR' });
+    const dollars = await db.createList({ name: 'Dollars', currency: 'USD' });
+    const francs = await db.createList({ name: 'Francs', currency: 'CHF' });
+    for (const [listId, price] of [[euros.id, 10], [dollars.id, 10], [francs.id, 1]] as const) {
+      await db.createItem({ listId, name: 'Thing', qty: 1, price, purchased: true, createdAt: new Date() });
+    }
+
+    const analytics = await db.getShoppingAnalytics();
+
+    expect(analytics.currency).toBe('EUR');
+    expect(analytics.totalSpent).toBe(16);
+    expect(analytics.unconvertedCurrencies).toEqual(['CHF']);
+  });
+});
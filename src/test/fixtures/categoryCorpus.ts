@@ -0,0 +1,124 @@
+import type { ItemCategory } from '../../lib/types';
+
+/**
+ * Item names as people type them, with the category they belong in
+ */
+export const CATEGORY_CORPUS: Array<[string, ItemCategory]> = [
+  // English
+  ['Greek yogurt', 'Dairy'],
+  ['Semi-skimmed milk', 'Dairy'],
+  ['Cheddar cheese', 'Dairy'],
+  ['Free range eggs', 'Dairy'],
+  ['Unsalted butter', 'Dairy'],
+  ['Sour cream', 'Dairy'],
+  ['Chocolate milk', 'Dairy'],
+  ['Bananas', 'Produce'],
+  ['Cherry tomatoes', 'Produce'],
+  ['Red onions', 'Produce'],
+  ['Baby spinach', 'Produce'],
+  ['Strawberries', 'Produce'],
+  ['Avocados', 'Produce'],
+  ['Sweet potatoes', 'Produce'],
+  ['Chicken breast', 'Meat'],
+  ['Ground beef', 'Meat'],
+  ['Pork chops', 'Meat'],
+  ['Smoked salmon', 'Meat'],
+  ['Streaky bacon', 'Meat'],
+  ['Sourdough bread', 'Bakery'],
+  ['Bagels', 'Bakery'],
+  ['Croissants', 'Bakery'],
+  ['Birthday cake', 'Bakery'],
+  ['Vanilla ice cream', 'Frozen'],
+  ['Frozen peas', 'Frozen'],
+  ['Fish fingers', 'Frozen'],
+  ['Spaghetti', 'Pantry'],
+  ['Basmati rice', 'Pantry'],
+  ['Peanut butter', 'Pantry'],
+  ['Olive oil', 'Pantry'],
+  ['Plain flour', 'Pantry'],
+  ['Canned tomatoes', 'Pantry'],
+  ['Black beans', 'Pantry'],
+  ['Strawberry jam', 'Pantry'],
+  ['Orange juice', 'Beverages'],
+  ['Sparkling water', 'Beverages'],
+  ['Ground coffee', 'Beverages'],
+  ['Green tea', 'Beverages'],
+  ['Red wine', 'Beverages'],
+  ['Oat milk', 'Beverages'],
+  ['Potato chips', 'Snacks'],
+  ['Dark chocolate', 'Snacks'],
+  ['Salted peanuts', 'Snacks'],
+  ['Chocolate chip cookies', 'Snacks'],
+  ['Popcorn', 'Snacks'],
+  ['Shampoo', 'Personal Care'],
+  ['Toothpaste', 'Personal Care'],
+  ['Deodorant', 'Personal Care'],
+  ['Razor blades', 'Personal Care'],
+  ['Toilet paper', 'Household'],
+  ['Dishwasher tablets', 'Household'],
+  ['Laundry detergent', 'Household'],
+  ['Trash bags', 'Household'],
+  ['AA batteries', 'Household'],
+  // German
+  ['Vollmilch', 'Dairy'],
+  ['Erdbeerjoghurt', 'Dairy'],
+  ['Käse', 'Dairy'],
+  ['Eier', 'Dairy'],
+  ['Äpfel', 'Produce'],
+  ['Tomaten', 'Produce'],
+  ['Kartoffeln', 'Produce'],
+  ['Hähnchenbrust', 'Meat'],
+  ['Hackfleisch', 'Meat'],
+  ['Vollkornbrot', 'Bakery'],
+  ['Brötchen', 'Bakery'],
+  ['Orangensaft', 'Beverages'],
+  ['Mineralwasser', 'Beverages'],
+  ['Nudeln', 'Pantry'],
+  ['Zucker', 'Pantry'],
+  ['Schokolade', 'Snacks'],
+  ['Zahnpasta', 'Personal Care'],
+  ['Klopapier', 'Household'],
+  ['Spülmittel', 'Household'],
+  // French
+  ['Lait demi-écrémé', 'Dairy'],
+  ['Fromage râpé', 'Dairy'],
+  ['Pommes de terre', 'Produce'],
+  ['Oignons', 'Produce'],
+  ['Poulet rôti', 'Meat'],
+  ['Baguette', 'Bakery'],
+  ["Jus d'orange", 'Beverages'],
+  ['Café moulu', 'Beverages'],
+  ['Farine de blé', 'Pantry'],
+  ['Huile d’olive', 'Pantry'],
+  ['Papier toilette', 'Household'],
+  ['Lessive', 'Household'],
+  // Spanish
+  ['Leche entera', 'Dairy'],
+  ['Queso manchego', 'Dairy'],
+  ['Plátanos', 'Produce'],
+  ['Cebollas', 'Produce'],
+  ['Pechuga de pollo', 'Meat'],
+  ['Pan de molde', 'Bakery'],
+  ['Zumo de naranja', 'Beverages'],
+  ['Arroz integral', 'Pantry'],
+  ['Papel higiénico', 'Household'],
+  // Italian
+  ['Latte intero', 'Dairy'],
+  ['Mozzarella di bufala', 'Dairy'],
+  ['Pomodori', 'Produce'],
+  ['Prosciutto crudo', 'Meat'],
+  ['Pane integrale', 'Bakery'],
+  ['Acqua frizzante', 'Beverages'],
+  ['Olio extravergine', 'Pantry'],
+  ['Biscotti', 'Snacks'],
+  // Dutch and Portuguese
+  ['Halfvolle melk', 'Dairy'],
+  ['Jonge kaas', 'Dairy'],
+  ['Aardappelen', 'Produce'],
+  ['Volkoren brood', 'Bakery'],
+  ['Pindakaas', 'Pantry'],
+  ['Wasmiddel', 'Household'],
+  ['Queijo fresco', 'Dairy'],
+  ['Pão de forma', 'Bakery'],
+  ['Cerveja', 'Beverages'],
+];
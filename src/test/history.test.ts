@@ -0,0 +1,100 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+
+type DB = typeof import('../lib/db');
+type History = typeof import('../lib/history');
+
+describe('undo history', () => {
+  let db: DB;
+  let history: History;
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    localStorage.clear();
+    vi.resetModules();
+    db = await import('../lib/db');
+    history = await import('../lib/history');
+  });
+
+  const addMilk = async () => {
+    const list = await db.createList({ name: 'Weekly', currency: 'EUR' });
+    const milk = await history.createItem({ listId: list.id, name: 'Milk', qty: 1, price: 1, purchased: false, createdAt: new Date() });
+    return { list, milk };
+  };
+
+  it('undoes and redoes item changes, restoring deleted items with their id', async () => {
+    const { list, milk } = await addMilk();
+    await history.updateItem(milk.id, { qty: 3 });
+    await history.deleteItem(milk.id);
+    expect(await db.getItemsByList(list.id)).toEqual([]);
+
+    expect((await history.undo())?.label).toBe('Deleted Milk');
+    expect(await db.getItem(milk.id)).toMatchObject({ qty: 3 });
+
+    await history.undo();
+    expect(await db.getItem(milk.id)).toMatchObject({ qty: 1 });
+
+    await history.redo();
+    await history.redo();
+    expect(await db.getItem(milk.id)).toBeUndefined();
+    expect(history.canRedo()).toBe(false);
+
+    await history.undo();
+    await history.undo();
+    await history.undo();
+    expect(await db.getItemsByList(list.id)).toEqual([]);
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('forgets redo after a new change', async () => {
+    const { milk } = await addMilk();
+    await history.updateItem(milk.id, { qty: 2 });
+    await history.undo();
+    await history.updateItem(milk.id, { price: 2 });
+
+    expect(history.canRedo()).toBe(false);
+    expect(await history.redo()).toBeNull();
+    expect(await db.getItem(milk.id)).toMatchObject({ qty: 1, price: 2 });
+  });
+
+  it('keeps the history across a reload, including fields to clear', async () => {
+    const { milk } = await addMilk();
+    await history.updateItem(milk.id, { purchased: true, purchasedAt: new Date() });
+
+    vi.resetModules();
+    db = await import('../lib/db');
+    history = await import('../lib/history');
+
+    expect(history.canUndo()).toBe(true);
+    expect((await history.undo())?.label).toBe('Checked off Milk');
+    const item = await db.getItem(milk.id);
+    expect(item?.purchased).toBe(false);
+    expect(item?.purchasedAt).toBeUndefined();
+    expect(item?.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('undoes list edits and deletion', async () => {
+    const list = await db.createList({ name: 'Weekly', currency: 'EUR' });
+    await history.updateList(list.id, { name: 'Weekend' });
+    await history.deleteList(list.id);
+    expect(await db.getList(list.id)).toBeUndefined();
+
+    await history.undo();
+    expect(await db.getList(list.id)).toMatchObject({ name: 'Weekend' });
+    await history.undo();
+    expect(await db.getList(list.id)).toMatchObject({ name: 'Weekly' });
+  });
+
+  it('keeps only the most recent changes', async () => {
+    const { milk } = await addMilk();
+    for (let qty = 2; qty < history.HISTORY_LIMIT + 5; qty++) {
+      await history.updateItem(milk.id, { qty });
+    }
+
+    let undone = 0;
+    while (await history.undo()) undone++;
+    expect(undone).toBe(history.HISTORY_LIMIT);
+    expect(await db.getItem(milk.id)).toMatchObject({ qty: 4 });
+  });
+});
@@ -0,0 +1,116 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import type { Page } from '../lib/db';
+import type { Item, List } from '../lib/types';
+import { seedDatabaseAt } from './migrationHarness';
+
+type DB = typeof import('../lib/db');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One list a week up to `end`, with four in five items bought
+function syntheticHistory(listCount: number, itemsPerList: number, end: Date) {
+  const lists: List[] = [];
+  const items: Item[] = [];
+  for (let l = 0; l < listCount; l++) {
+    const day = new Date(end.getTime() - (listCount - l) * 7 * DAY_MS);
+    lists.push({ id: `list-${l}`, name: `Week ${l}`, currency: 'EUR', createdAt: day, updatedAt: day });
+    for (let i = 0; i < itemsPerList; i++) {
+      const purchased = i % 5 !== 0;
+      items.push({
+        id: `item-${l}-${i}`,
+        listId: `list-${l}`,
+        name: `Product ${i % 120}`,
+        qty: 1,
+        price: (i % 9) + 1,
+        purchased,
+        purchasedAt: purchased ? new Date(day.getTime() + i * 1000) : undefined,
+        createdAt: day,
+        updatedAt: day,
+      });
+    }
+  }
+  return { lists, items };
+}
+
+describe('indexed queries', () => {
+  let db: DB;
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+  });
+
+  it('adds the indexes and dates legacy purchases when upgrading', async () => {
+    const createdAt = new Date('2024-05-01T10:00:00Z');
+    await seedDatabaseAt(10, {
+      items: [{ id: 'a', listId: 'l', name: 'Milk', qty: 1, price: 1, purchased: true, createdAt, updatedAt: createdAt }],
+    });
+
+    db = await import('../lib/db');
+    expect((await db.getItem('a'))?.purchasedAt).toEqual(createdAt);
+    expect((await db.getItemsByList('l')).map(item => item.id)).toEqual(['a']);
+  });
+
+  it('pages through lists and items without gaps or repeats', async () => {
+    db = await import('../lib/db');
+    const { lists, items } = syntheticHistory(7, 23, new Date());
+    lists[3].deletedAt = lists[3].updatedAt;
+    items[5].deletedAt = items[5].updatedAt;
+    const snapshot = await db.exportSnapshot();
+    await db.importSnapshot({ ...snapshot, lists, items });
+
+    const pagedItems: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: Page<Item> = await db.getItemsPage('list-0', { cursor, limit: 10 });
+      expect(page.records.length).toBeLessThanOrEqual(10);
+      pagedItems.push(...page.records.map(item => item.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+    expect(pagedItems.sort()).toEqual((await db.getItemsByList('list-0')).map(item => item.id).sort());
+    expect(pagedItems).toHaveLength(22);
+
+    const first = await db.getListsPage({ limit: 4 });
+    const second = await db.getListsPage({ cursor: first.nextCursor, limit: 4 });
+    expect([...first.records, ...second.records].map(list => list.id)).toEqual(
+      ['list-6', 'list-5', 'list-4', 'list-2', 'list-1', 'list-0']
+    );
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('reads one list, one month and the budget period without scanning every item', async () => {
+    db = await import('../lib/db');
+    const end = new Date(2025, 0, 1);
+    const { lists, items } = syntheticHistory(40, 50, end);
+    const snapshot = await db.exportSnapshot();
+    await db.importSnapshot({ ...snapshot, lists, items });
+    await db.createBudget({ name: 'Groceries', amount: 1000, period: 'monthly', categories: [], spent: 0 });
+    const { getBudgetProgress } = await import('../lib/budgets');
+
+    // Count the items read, by full store scans and through indexes
+    const storeScans = vi.spyOn(IDBObjectStore.prototype, 'getAll');
+    const indexReads = vi.spyOn(IDBIndex.prototype, 'getAll');
+    const itemsRead = () => indexReads.mock.contexts
+      .map((index, call) => [index as IDBIndex, indexReads.mock.results[call]] as const)
+      .filter(([index]) => index.objectStore.name === 'items')
+      .reduce((count, [, result]) => count + (result.value as IDBRequest<Item[]>).result.length, 0);
+
+    expect(await db.getItemsByList('list-17')).toHaveLength(50);
+    expect(itemsRead()).toBe(50);
+
+    const from = new Date(2024, 11, 1);
+    const expected = items.filter(item => item.purchasedAt && item.purchasedAt >= from && item.purchasedAt < end);
+    const total = expected.reduce((sum, item) => sum + item.price, 0);
+    const analytics = await db.getShoppingAnalytics({ from, to: end });
+    expect(analytics.totalItems).toBe(expected.length);
+    expect(analytics.totalSpent).toBe(total);
+
+    const [progress] = await getBudgetProgress(new Date(2024, 11, 15));
+    expect(progress.spent).toBe(total);
+
+    expect(storeScans.mock.contexts.map(store => (store as IDBObjectStore).name)).not.toContain('items');
+    expect(itemsRead()).toBe(50 + 2 * expected.length);
+  });
+});
@@ -0,0 +1,86 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { RECOVERED_LIST_NAME } from '../lib/integrity';
+import { seedDatabaseAt } from './migrationHarness';
+
+type DB = typeof import('../lib/db');
+
+describe('item soft delete and integrity', () => {
+  let db: DB;
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+  });
+
+  const addItem = (listId: string, name: string) =>
+    db.createItem({ listId, name, qty: 1, price: 1, purchased: false, createdAt: new Date() });
+
+  it('gives existing items an updatedAt when upgrading', async () => {
+    const createdAt = new Date('2024-05-01T10:00:00Z');
+    await seedDatabaseAt(9, { items: [{ id: 'a', listId: 'l', name: 'Milk', qty: 1, price: 1, purchased: false, createdAt }] });
+
+    db = await import('../lib/db');
+    expect((await db.getItem('a'))?.updatedAt).toEqual(createdAt);
+  });
+
+  it('keeps deleted items as tombstones and restores those deleted with their list', async () => {
+    db = await import('../lib/db');
+    const list = await db.createList({ name: 'Weekly', currency: 'EUR' });
+    const milk = await addItem(list.id, 'Milk');
+    const bread = await addItem(list.id, 'Bread');
+
+    await db.deleteItem(bread.id);
+    expect((await db.getItemsByList(list.id)).map(item => item.name)).toEqual(['Milk']);
+    expect(await db.updateItem(bread.id, { qty: 2 })).toBeNull();
+    expect((await db.exportSnapshot()).items.find(item => item.id === bread.id)?.deletedAt).toBeInstanceOf(Date);
+
+    await db.deleteList(list.id);
+    expect(await db.getAllItems()).toEqual([]);
+    expect((await db.getDeletedLists())[0].itemCount).toBe(1);
+
+    await db.restoreList(list.id);
+    expect((await db.getItemsByList(list.id)).map(item => item.id)).toEqual([milk.id]);
+  });
+
+  it('finds and repairs orphaned items and dangling references', async () => {
+    db = await import('../lib/db');
+    const store = await db.createStore({ name: 'Corner shop' });
+    const list = await db.createList({ name: 'Weekly', currency: 'EUR', storeId: store.id });
+    const gone = await db.createList({ name: 'Gone', currency: 'EUR' });
+    const trashed = await db.createList({ name: 'Old', currency: 'EUR' });
+    const orphan = await addItem(gone.id, 'Eggs');
+    await db.deleteList(trashed.id);
+    await db.deleteStore(store.id);
+    expect((await db.getList(list.id))?.storeId).toBeUndefined();
+    await db.updateSettings({ ...(await db.getSettings()), restockListId: trashed.id });
+
+    // Records written behind the app's back, e.g. by an old sync or a partial restore
+    const snapshot = await db.exportSnapshot();
+    await db.importSnapshot({
+      ...snapshot,
+      lists: snapshot.lists.filter(l => l.id !== gone.id).map(l => (l.id === list.id ? { ...l, storeId: store.id } : l)),
+      items: [...snapshot.items, { ...orphan, id: 'stray', listId: trashed.id }],
+    }, { clear: true });
+
+    const issues = await db.checkIntegrity();
+    expect(issues.map(issue => [issue.kind, issue.id]).sort()).toEqual([
+      ['item-on-deleted-list', 'stray'],
+      ['missing-restock-list', 'profile'],
+      ['missing-store', list.id],
+      ['orphaned-item', orphan.id],
+    ]);
+
+    expect(await db.checkIntegrity({ repair: true })).toHaveLength(4);
+    expect(await db.checkIntegrity()).toEqual([]);
+
+    const recovered = (await db.getLists()).find(l => l.name === RECOVERED_LIST_NAME)!;
+    expect((await db.getItemsByList(recovered.id)).map(item => item.name)).toEqual(['Eggs']);
+    expect((await db.getList(list.id))?.storeId).toBeUndefined();
+    expect((await db.getSettings()).restockListId).toBeUndefined();
+
+    await db.restoreList(trashed.id);
+    expect((await db.getItemsByList(trashed.id)).map(item => item.id)).toEqual(['stray']);
+  });
+});
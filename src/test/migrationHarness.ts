@@ -0,0 +1,51 @@
+import { openDB } from 'idb';
+import { runMigrations } from '../lib/migrations';
+
+/**
+ * Harness for schema migration tests: build the database as any earlier
+ * version of the app left it, then upgrade it and look at what is stored
+ */
+
+const DB_NAME = 'shopping-list-db';
+
+export interface StoreShape {
+  keyPath: string | string[] | null;
+  indexes: string[];
+  records: unknown[];
+}
+
+/**
+ * Create the database at `version` by running the migrations up to it, then
+ * store `records` as that version would have written them
+ */
+export async function seedDatabaseAt(version: number, records: Record<string, object[]> = {}): Promise<void> {
+  const db = await openDB(DB_NAME, version, { upgrade: runMigrations });
+  for (const [store, values] of Object.entries(records)) {
+    for (const value of values) await db.put(store, value);
+  }
+  db.close();
+}
+
+/**
+ * Open the database at `version`, upgrading it through the migrations, and
+ * describe each store: its key path, indexes and records
+ */
+export async function readDatabaseAt(version: number): Promise<Record<string, StoreShape>> {
+  const db = await openDB(DB_NAME, version, { upgrade: runMigrations });
+  try {
+    const names = [...db.objectStoreNames];
+    const tx = db.transaction(names, 'readonly');
+    const shapes: Record<string, StoreShape> = {};
+    for (const name of names) {
+      const store = tx.objectStore(name);
+      shapes[name] = {
+        keyPath: store.keyPath,
+        indexes: [...store.indexNames].sort(),
+        records: await store.getAll(),
+      };
+    }
+    return shapes;
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,94 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { openDB } from 'idb';
+import { LATEST_VERSION, MIGRATIONS, migrateRecord } from '../lib/migrations';
+import { readDatabaseAt, seedDatabaseAt } from './migrationHarness';
+
+type DB = typeof import('../lib/db');
+
+const createdAt = new Date('2024-05-01T10:00:00Z');
+const legacyItem = { id: 'a', listId: 'l', name: 'Milk', qty: 1, price: 1, purchased: true, createdAt };
+
+describe('schema migrations', () => {
+  let db: DB;
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+  });
+
+  it('has one migration per version, ending at the database version', async () => {
+    expect(MIGRATIONS.map(migration => migration.version)).toEqual(
+      Array.from({ length: LATEST_VERSION }, (_, index) => index + 1)
+    );
+    db = await import('../lib/db');
+    expect(db.DB_VERSION).toBe(LATEST_VERSION);
+  });
+
+  it('reaches the same schema from every earlier version as from scratch', async () => {
+    const shapeOf = (stores: Awaited<ReturnType<typeof readDatabaseAt>>) =>
+      Object.fromEntries(Object.entries(stores).map(([name, { keyPath, indexes }]) => [name, { keyPath, indexes }]));
+    const fresh = shapeOf(await readDatabaseAt(LATEST_VERSION));
+
+    for (let version = 1; version < LATEST_VERSION; version++) {
+      globalThis.indexedDB = new IDBFactory();
+      await seedDatabaseAt(version);
+      expect(shapeOf(await readDatabaseAt(LATEST_VERSION)), `from version ${version}`).toEqual(fresh);
+    }
+  });
+
+  it('dates items from version 9 and purchases from version 10', async () => {
+    await seedDatabaseAt(9, { items: [legacyItem] });
+    const [atTen] = (await readDatabaseAt(10)).items.records;
+    expect(atTen).toMatchObject({ updatedAt: createdAt });
+    expect(atTen).not.toHaveProperty('purchasedAt');
+
+    const [atEleven] = (await readDatabaseAt(11)).items.records;
+    expect(atEleven).toMatchObject({ updatedAt: createdAt, purchasedAt: createdAt });
+  });
+
+  it('applies the record changes to records from older backups', () => {
+    expect(migrateRecord('items', legacyItem, 9)).toEqual({ ...legacyItem, updatedAt: createdAt, purchasedAt: createdAt });
+    expect(migrateRecord('items', legacyItem, LATEST_VERSION)).toBe(legacyItem);
+    expect(migrateRecord('lists', { id: 'l' }, 1)).toEqual({ id: 'l' });
+  });
+
+  it('leaves the database at its old version when an upgrade fails', async () => {
+    // A category that is not a string breaks seeding categories in version 9
+    await seedDatabaseAt(8, { items: [{ ...legacyItem, category: 42 }] });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    db = await import('../lib/db');
+    await expect(db.initDatabase()).rejects.toThrow(TypeError);
+
+    const raw = await openDB('shopping-list-db');
+    expect(raw.version).toBe(8);
+    raw.close();
+    expect((await db.exportRawDatabase()).items).toEqual([{ ...legacyItem, category: 42 }]);
+
+    await db.deleteDatabase();
+    await db.initDatabase();
+    expect(await db.getAllItems()).toEqual([]);
+  });
+
+  it('leaves invalid records out of reads and quarantines them when asked', async () => {
+    const valid = { ...legacyItem, id: 'b', updatedAt: createdAt, purchasedAt: createdAt };
+    const invalid = { ...legacyItem, qty: 'two', updatedAt: createdAt };
+    await seedDatabaseAt(LATEST_VERSION, { items: [valid, invalid] });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    db = await import('../lib/db');
+    expect(await db.getItemsByList('l')).toEqual([valid]);
+    expect(await db.getItemsPage('l', { limit: 1 })).toEqual({ records: [valid], nextCursor: null });
+    expect((await readDatabaseAt(LATEST_VERSION)).items.records).toHaveLength(2);
+
+    expect(await db.quarantineInvalidRecords()).toBe(1);
+    const [quarantined] = await db.getQuarantinedRecords();
+    expect(quarantined).toMatchObject({ store: 'items', key: 'a', errors: ['qty: Expected number, received string'] });
+    expect((await readDatabaseAt(LATEST_VERSION)).items.records).toEqual([valid]);
+
+    await db.clearQuarantine();
+    expect(await db.getQuarantinedRecords()).toEqual([]);
+  });
+});
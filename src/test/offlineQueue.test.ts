@@ -0,0 +1,181 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+
+type DbModule = typeof import('../lib/db');
+
+const OFFLINE_QUEUE_KEY = 'shopping-list-offline-queue';
+
+// Load a fresh copy of the db module, which picks up the queue stored in localStorage
+async function loadDb(): Promise<DbModule> {
+  vi.resetModules();
+  return await import('../lib/db');
+}
+
+function storeLegacyQueue(ops: Array<{ operation: string; data: unknown; timestamp: string }>) {
+  localStorage.setItem(
+    OFFLINE_QUEUE_KEY,
+    JSON.stringify(ops.map((op, index) => ({ id: `op-${index}`, ...op })))
+  );
+}
+
+const list = {
+  id: 'list-1',
+  name: 'Groceries',
+  currency: 'EUR',
+  createdAt: '2024-05-01T10:00:00.000Z',
+  updatedAt: '2024-05-01T10:00:00.000Z',
+};
+
+describe('offline queue', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    localStorage.clear();
+  });
+
+  it('replays queued creates with their original ids and revives dates', async () => {
+    storeLegacyQueue([
+      { operation: 'createList', data: list, timestamp: '2024-05-01T10:00:00.000Z' },
+      {
+        operation: 'createItem',
+        data: { id: 'item-1', listId: 'list-1', name: 'Milk', qty: 1, price: 1, purchased: false, createdAt: '2024-05-01T10:00:01.000Z' },
+        timestamp: '2024-05-01T10:00:01.000Z',
+      },
+      {
+        operation: 'createBudget',
+        data: { id: 'budget-1', name: 'Food', amount: 200, period: 'monthly', categories: [], spent: 0, createdAt: list.createdAt, updatedAt: list.updatedAt },
+        timestamp: '2024-05-01T10:00:02.000Z',
+      },
+      { operation: 'updateBudget', data: { id: 'budget-1', updates: { amount: 250 } }, timestamp: '2024-05-01T10:00:03.000Z' },
+    ]);
+    const db = await loadDb();
+    await db.initDatabase();
+
+    expect(await db.getPendingOperationCount()).toBe(4);
+
+    const result = await db.processOfflineQueue();
+
+    expect(result).toEqual({ applied: 4, conflicts: 0, failed: 0, skipped: 0 });
+    expect(await db.getPendingOperationCount()).toBe(0);
+    expect(localStorage.getItem(OFFLINE_QUEUE_KEY)).toBeNull();
+
+    const storedList = await db.getList('list-1');
+    expect(storedList?.createdAt).toBeInstanceOf(Date);
+    expect((await db.getItemsByList('list-1')).map(item => item.id)).toEqual(['item-1']);
+
+    const [budget] = await db.getBudgets();
+    expect(budget.amount).toBe(250);
+    expect(budget.updatedAt).toBeInstanceOf(Date);
+  });
+
+  it('skips queued updates to records changed after they were queued', async () => {
+    const first = await loadDb();
+    const created = await first.createList({ name: 'Fresh', currency: 'EUR' });
+    first.closeDatabase();
+
+    storeLegacyQueue([
+      { operation: 'updateList', data: { id: created.id, updates: { name: 'Stale' } }, timestamp: '2024-05-01T09:00:00.000Z' },
+    ]);
+    const db = await loadDb();
+    await db.initDatabase();
+    const conflict = vi.fn();
+    db.dbEvents.on('offline-conflict', conflict);
+
+    const result = await db.processOfflineQueue();
+
+    expect(result).toEqual({ applied: 0, conflicts: 1, failed: 0, skipped: 0 });
+    expect(conflict).toHaveBeenCalledOnce();
+    expect(await db.getList(created.id)).toMatchObject({ name: 'Fresh' });
+    expect(await db.getPendingOperationCount()).toBe(0);
+  });
+
+  it('keeps every step of an item checked, unchecked and checked again offline', async () => {
+    const online = await loadDb();
+    const created = await online.createList({ name: 'Weekly', currency: 'EUR' });
+    const item = await online.createItem({ listId: created.id, name: 'Milk', qty: 1, price: 1, purchased: false, createdAt: new Date() });
+    online.closeDatabase();
+
+    const open = vi.spyOn(indexedDB, 'open').mockImplementation(() => {
+      throw new DOMException('Unavailable', 'UnknownError');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const offline = await loadDb();
+    for (const purchased of [true, false, true, true]) {
+      await offline.updateItem(item.id, { purchased });
+    }
+    // Only the last, repeated check is dropped
+    expect(JSON.parse(localStorage.getItem(OFFLINE_QUEUE_KEY)!)).toHaveLength(3);
+    open.mockRestore();
+
+    const db = await loadDb();
+    await db.initDatabase();
+    expect(await db.processOfflineQueue()).toEqual({ applied: 3, conflicts: 0, failed: 0, skipped: 0 });
+    expect((await db.getItem(item.id))?.purchased).toBe(true);
+  });
+
+  it('restocks the pantry and logs the price for items checked off offline', async () => {
+    const online = await loadDb();
+    const created = await online.createList({ name: 'Weekly', currency: 'EUR' });
+    const eggs = await online.createPantryItem({ name: 'Eggs', quantity: 2, unit: 'pcs', minQuantity: 6 });
+    const item = await online.createItem({ listId: created.id, name: 'Eggs', qty: 12, price: 3, purchased: false, createdAt: new Date() });
+    online.closeDatabase();
+
+    const open = vi.spyOn(indexedDB, 'open').mockImplementation(() => {
+      throw new DOMException('Unavailable', 'UnknownError');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const offline = await loadDb();
+    await offline.updateItem(item.id, { purchased: true });
+    open.mockRestore();
+
+    const db = await loadDb();
+    await db.initDatabase();
+    const pantryChanged = vi.fn();
+    db.dbEvents.on('pantry-changed', pantryChanged);
+    await db.processOfflineQueue();
+
+    expect((await db.getPantryItems()).find(p => p.id === eggs.id)?.quantity).toBe(14);
+    expect(await db.getItem(item.id)).toMatchObject({ purchased: true, restockedQty: 12 });
+    expect(await db.getPriceObservations('Eggs')).toHaveLength(1);
+    expect(pantryChanged).toHaveBeenCalledOnce();
+    vi.restoreAllMocks();
+  });
+
+  it('shares one replay between concurrent triggers', async () => {
+    storeLegacyQueue([
+      { operation: 'createList', data: list, timestamp: '2024-05-01T10:00:00.000Z' },
+    ]);
+    const db = await loadDb();
+    await db.initDatabase();
+
+    const [first, second] = await Promise.all([db.processOfflineQueue(), db.processOfflineQueue()]);
+
+    expect(first).toBe(second);
+    expect(first.applied).toBe(1);
+  });
+
+  it('sets aside an operation that keeps failing so later ones are replayed', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    storeLegacyQueue([
+      // No id, so it can never be stored
+      { operation: 'createList', data: { name: 'Broken' }, timestamp: '2024-05-01T09:00:00.000Z' },
+      { operation: 'createList', data: list, timestamp: '2024-05-01T10:00:00.000Z' },
+    ]);
+    const db = await loadDb();
+    await db.initDatabase();
+
+    expect(await db.processOfflineQueue()).toEqual({ applied: 0, conflicts: 0, failed: 1, skipped: 1 });
+    expect(await db.processOfflineQueue()).toEqual({ applied: 0, conflicts: 0, failed: 1, skipped: 1 });
+    expect(await db.getFailedOperations()).toEqual([]);
+
+    expect(await db.processOfflineQueue()).toEqual({ applied: 1, conflicts: 0, failed: 1, skipped: 0 });
+    expect(await db.getList(list.id)).toBeDefined();
+    expect(await db.getPendingOperationCount()).toBe(0);
+    expect(await db.getFailedOperations()).toMatchObject([{ operation: 'createList', attempts: 3 }]);
+
+    expect(await db.processOfflineQueue()).toEqual({ applied: 0, conflicts: 0, failed: 0, skipped: 0 });
+    await db.discardFailedOperations();
+    expect(await db.getFailedOperations()).toEqual([]);
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,84 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+
+type DbModule = typeof import('../lib/db');
+type PantryModule = typeof import('../lib/pantry');
+
+describe('pantry', () => {
+  let db: DbModule;
+  let pantry: PantryModule;
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    db = await import('../lib/db');
+    pantry = await import('../lib/pantry');
+  });
+
+  it('restocks tracked products when they are marked purchased', async () => {
+    const list = await db.createList({ name: 'Weekly', currency: 'EUR' });
+    const eggs = await db.createPantryItem({ name: 'Eggs', quantity: 2, unit: 'pcs', minQuantity: 6 });
+    const item = await db.createItem({ listId: list.id, name: 'eggs', qty: 12, price: 3, purchased: false, createdAt: new Date() });
+    await db.createItem({ listId: list.id, name: 'Bread', qty: 1, price: 2, purchased: false, createdAt: new Date() });
+
+    await db.updateItem(item.id, { purchased: true, purchasedAt: new Date() });
+    expect((await db.getPantryItems()).find(p => p.id === eggs.id)?.quantity).toBe(14);
+
+    // Unchecking takes the stock back out
+    await db.updateItem(item.id, { purchased: false });
+    expect((await db.getPantryItems()).find(p => p.id === eggs.id)?.quantity).toBe(2);
+    expect(await db.getPantryItems()).toHaveLength(1);
+  });
+
+  it('takes back out exactly the stock an item added, and skips units that do not convert', async () => {
+    const list = await db.createList({ name: 'Weekly', currency: 'EUR' });
+    const rice = await db.createPantryItem({ name: 'Rice', quantity: 1, unit: 'kg', minQuantity: 1 });
+    const eggs = await db.createPantryItem({ name: 'Eggs', quantity: 2, unit: 'pcs', minQuantity: 6 });
+    const bag = await db.createItem({ listId: list.id, name: 'Rice', qty: 500, unit: 'g', price: 0.004, purchased: false, createdAt: new Date() });
+    const box = await db.createItem({ listId: list.id, name: 'Eggs', qty: 1, unit: 'kg', price: 5, purchased: false, createdAt: new Date() });
+    const stock = async (id: string) => (await db.getPantryItems()).find(p => p.id === id)?.quantity;
+
+    await db.updateItem(bag.id, { purchased: true });
+    expect(await stock(rice.id)).toBe(1.5);
+    await db.updateItem(bag.id, { qty: 750 });
+    await db.updateItem(bag.id, { purchased: false });
+    expect(await stock(rice.id)).toBe(1);
+
+    // Eggs are counted in pieces, so a kilogram of them can't be added
+    expect(await db.updateItem(box.id, { purchased: true })).not.toHaveProperty('restockedQty');
+    expect(await stock(eggs.id)).toBe(2);
+    await db.updateItem(box.id, { purchased: false });
+    expect(await stock(eggs.id)).toBe(2);
+  });
+
+  it('suggests low stock that is not already on the list', async () => {
+    const list = await db.createList({ name: 'Weekly', currency: 'EUR' });
+    await db.createPantryItem({ name: 'Rice', quantity: 0.2, unit: 'kg', minQuantity: 1 });
+    await db.createPantryItem({ name: 'Eggs', quantity: 2, unit: 'pcs', minQuantity: 6 });
+    await db.createPantryItem({ name: 'Salt', quantity: 1, unit: 'pack', minQuantity: 1 });
+    await db.createItem({ listId: list.id, name: 'Rice', qty: 1, price: 2, purchased: false, createdAt: new Date() });
+
+    const suggestions = await pantry.getRestockSuggestions(list.id);
+    expect(suggestions.map(p => [p.name, pantry.restockQuantity(p)])).toEqual([['Eggs', 4]]);
+
+    await pantry.addToRestockList(list.id, suggestions);
+    expect(await pantry.getRestockSuggestions(list.id)).toEqual([]);
+  });
+
+  it('adds products to the restock list when consumption drops them below the minimum', async () => {
+    const list = await db.createList({ name: 'Top-up', currency: 'EUR' });
+    await db.updateSettings({ ...(await db.getSettings()), restockListId: list.id, autoRestock: true });
+    const milk = await db.createPantryItem({ name: 'Milk', quantity: 2, unit: 'pcs', minQuantity: 2, category: 'Dairy' });
+
+    const updated = await pantry.consumePantryItem(milk);
+    expect(updated?.quantity).toBe(1);
+
+    const items = await db.getItemsByList(list.id);
+    expect(items).toEqual([expect.objectContaining({ name: 'Milk', qty: 1, category: 'Dairy', purchased: false })]);
+
+    // Already on the list: not added twice
+    await pantry.consumePantryItem(updated!);
+    expect(await db.getItemsByList(list.id)).toHaveLength(1);
+  });
+});
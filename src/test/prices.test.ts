@@ -0,0 +1,99 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { estimateStoreTotals, summarizePriceHistory } from '../lib/prices';
+import type { Item, PriceObservation } from '../lib/types';
+
+const observe = (overrides: Partial<PriceObservation>): PriceObservation => ({
+  id: crypto.randomUUID(),
+  name: 'Milk',
+  price: 1,
+  currency: 'EUR',
+  listId: 'list-1',
+  itemId: crypto.randomUUID(),
+  observedAt: new Date(2024, 0, 1),
+  ...overrides,
+});
+
+const makeItem = (overrides: Partial<Item>): Item => ({
+  id: crypto.randomUUID(),
+  listId: 'list-1',
+  name: 'Item',
+  qty: 1,
+  price: 0,
+  purchased: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('price history', () => {
+  it('summarizes min, average and last price per store', () => {
+    const summaries = summarizePriceHistory([
+      observe({ storeId: 'a', price: 1.2, observedAt: new Date(2024, 0, 1) }),
+      observe({ storeId: 'a', price: 1.0, observedAt: new Date(2024, 1, 1) }),
+      observe({ storeId: 'a', price: 1.4, observedAt: new Date(2024, 2, 1) }),
+      observe({ storeId: 'b', price: 0.9 }),
+      observe({ storeId: 'b', price: 0.002, unit: 'g' }),
+    ]);
+
+    expect(summaries.map(s => [s.storeId, s.per])).toEqual([['b', undefined], ['a', undefined], ['b', 'kg']]);
+    expect(summaries[1]).toMatchObject({ min: 1.0, last: 1.4, count: 3 });
+    expect(summaries[1].average).toBeCloseTo(1.2);
+    expect(summaries[2].last).toBeCloseTo(2);
+  });
+
+  it('estimates the remaining items at each store', () => {
+    const items = [
+      makeItem({ name: 'Milk', qty: 2, price: 1.2 }),
+      makeItem({ name: 'Cheese', qty: 0.5, unit: 'kg', price: 12 }),
+      makeItem({ name: 'Bread', price: 2.5 }),
+      makeItem({ name: 'Eggs', price: 3, purchased: true }),
+    ];
+    const observations = [
+      observe({ storeId: 'a', name: 'milk', price: 1.5, observedAt: new Date(2024, 0, 1) }),
+      observe({ storeId: 'a', name: 'Milk', price: 1.0, observedAt: new Date(2024, 1, 1) }),
+      observe({ storeId: 'a', name: 'Cheese', price: 0.01, unit: 'g' }), // 10/kg
+      observe({ storeId: 'b', name: 'Bread', price: 1.5 }),
+      observe({ storeId: 'b', name: 'Eggs', price: 1 }),
+      observe({ storeId: 'c', name: 'Bread', price: 0.5, currency: 'USD' }),
+      observe({ name: 'Bread', price: 0.1 }),
+    ];
+
+    const estimates = estimateStoreTotals(items, observations, 'EUR');
+    expect(estimates.map(e => e.storeId)).toEqual(['a', 'b']);
+    // 2 × 1.00 + 0.5 × 10 + 2.50 at the list price
+    expect(estimates[0]).toMatchObject({ priced: 2, itemCount: 3 });
+    expect(estimates[0].total).toBeCloseTo(9.5);
+    expect(estimates[1]).toMatchObject({ total: 2.4 + 6 + 1.5, priced: 1 });
+  });
+});
+
+describe('price observations', () => {
+  let db: typeof import('../lib/db');
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    db = await import('../lib/db');
+  });
+
+  it('logs a price with the list store when an item is purchased', async () => {
+    const [corner, market] = [await db.createStore({ name: 'Corner' }), await db.createStore({ name: 'Market' })];
+    const list = await db.createList({ name: 'Weekly', currency: 'GBP', storeId: corner.id });
+    const milk = await db.createItem({ listId: list.id, name: 'Milk', qty: 1, price: 1.1, purchased: false, createdAt: new Date() });
+    const bread = await db.createItem({
+      listId: list.id, name: 'Bread', qty: 1, price: 2, storeId: market.id, purchased: false, createdAt: new Date(),
+    });
+
+    await db.updateItem(milk.id, { purchased: true, purchasedAt: new Date() });
+    await db.updateItem(bread.id, { purchased: true, purchasedAt: new Date() });
+    expect(await db.getPriceObservations('Milk')).toMatchObject([{ storeId: corner.id, price: 1.1, currency: 'GBP' }]);
+    expect(await db.getPriceObservations('Bread')).toMatchObject([{ storeId: market.id }]);
+
+    // Undoing the purchase removes its price
+    await db.updateItem(milk.id, { purchased: false });
+    expect(await db.getPriceObservations('Milk')).toEqual([]);
+    expect(await db.getPriceObservations()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { parseLocaleNumber, parseQuickAdd, parseQuickAddLines, withCategory } from '../lib/quickAdd';
+import type { Category } from '../lib/types';
+
+const en = { decimalSeparator: '.' } as const;
+const de = { decimalSeparator: ',' } as const;
+
+describe('quick-add parser', () => {
+  it('reads quantity, unit, price, category and notes', () => {
+    expect(parseQuickAdd('2x milk 1.29', en)).toEqual({ name: 'milk', qty: 2, unit: undefined, price: 1.29, category: undefined, notes: undefined });
+    expect(parseQuickAdd('3 kg potatoes @ 0.99/kg', en)).toMatchObject({ name: 'potatoes', qty: 3, unit: 'kg', price: 0.99 });
+    expect(parseQuickAdd('eggs (free range) #Dairy', en)).toMatchObject({ name: 'eggs', qty: 1, price: 0, category: 'Dairy', notes: 'free range' });
+    expect(parseQuickAdd('shampoo #personal_care €3', en)).toMatchObject({ name: 'shampoo', price: 3, category: 'personal care' });
+    expect(parseQuickAdd('Orange juice 1.5 l', en)).toMatchObject({ name: 'Orange juice', qty: 1.5, unit: 'l' });
+    expect(parseQuickAdd('bread x2', en)).toMatchObject({ name: 'bread', qty: 2 });
+    expect(parseQuickAdd('500g flour', en)).toMatchObject({ name: 'flour', qty: 500, unit: 'g' });
+  });
+
+  it('keeps words that only look like quantities in the name', () => {
+    expect(parseQuickAdd('Size 4 nappies', en)).toMatchObject({ name: 'Size 4 nappies', qty: 1, price: 0 });
+    expect(parseQuickAdd('3 large eggs', en)).toMatchObject({ name: 'large eggs', qty: 3, unit: undefined });
+    expect(parseQuickAdd('7up', en)).toMatchObject({ name: '7up', qty: 1 });
+    expect(parseQuickAdd('  #Dairy (note) ', en)).toBeNull();
+  });
+
+  it('converts the quantity to the unit the price is quoted in', () => {
+    expect(parseQuickAdd('500 g cheese @ 12/kg', en)).toMatchObject({ name: 'cheese', qty: 0.5, unit: 'kg', price: 12 });
+    expect(parseQuickAdd('apples @ 2.49 per kg', en)).toMatchObject({ name: 'apples', qty: 1, unit: 'kg', price: 2.49 });
+  });
+
+  it('handles decimal commas by locale', () => {
+    expect(parseLocaleNumber('1,29', ',')).toBe(1.29);
+    expect(parseLocaleNumber('1.299', ',')).toBe(1299);
+    expect(parseLocaleNumber('1.299,50', ',')).toBe(1299.5);
+    expect(parseLocaleNumber('1,299', '.')).toBe(1299);
+    expect(parseLocaleNumber('0.99', ',')).toBe(0.99);
+
+    expect(parseQuickAdd('2x Milch 1,29', de)).toMatchObject({ name: 'Milch', qty: 2, price: 1.29 });
+    expect(parseQuickAdd('1,5 kg Kartoffeln @ 0,99 €/kg', de)).toMatchObject({ name: 'Kartoffeln', qty: 1.5, unit: 'kg', price: 0.99 });
+  });
+
+  it('splits several items on new lines, semicolons and commas but not decimal commas', () => {
+    const items = parseQuickAddLines('2x Milch 1,29, Brot\nEier; 3 kg Äpfel', de);
+    expect(items.map(item => [item.name, item.qty, item.price])).toEqual([
+      ['Milch', 2, 1.29],
+      ['Brot', 1, 0],
+      ['Eier', 1, 0],
+      ['Äpfel', 3, 0],
+    ]);
+    expect(parseQuickAddLines('Milk, Bread, Eggs', en).map(item => item.name)).toEqual(['Milk', 'Bread', 'Eggs']);
+  });
+
+  it("files items under the user's categories", () => {
+    const categories: Category[] = ['Dairy', 'Personal Care'].map((name, order) => ({
+      id: name, name, order, createdAt: new Date(), updatedAt: new Date(),
+    }));
+    const category = (line: string) => withCategory(parseQuickAdd(line, en)!, [], categories).category;
+
+    expect(category('eggs #dairy')).toBe('Dairy');
+    expect(category('soap #personalcare')).toBe('Personal Care');
+    expect(category('candles #Gifts')).toBe('Gifts');
+    expect(category('Greek yogurt')).toBe('Dairy');
+  });
+});
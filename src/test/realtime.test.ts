@@ -0,0 +1,127 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+
+// Minimal WebSocket double that records what the client sends
+class FakeWebSocket {
+  static readonly OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+
+  readonly url: string;
+  readyState = 0;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeWebSocket.instances.push(this);
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(message: unknown) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+}
+
+describe('cross-tab events', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  it('relays database changes to other tabs', async () => {
+    vi.resetModules();
+    const firstTab = await import('../lib/db');
+    vi.resetModules();
+    const secondTab = await import('../lib/db');
+
+    const received = new Promise<Event>(resolve => {
+      secondTab.dbEvents.on('lists-changed', resolve);
+    });
+    await firstTab.createList({ name: 'Groceries', currency: 'EUR' });
+
+    const event = await received;
+    expect(event).toBeInstanceOf(secondTab.DatabaseEvent);
+    expect((event as InstanceType<typeof secondTab.DatabaseEvent>).fromOtherTab).toBe(true);
+    expect(await secondTab.getLists()).toHaveLength(1);
+  });
+});
+
+describe('realtime channel', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('announces presence and reports other viewers', async () => {
+    vi.resetModules();
+    const db = await import('../lib/db');
+    const realtime = await import('../lib/realtime');
+    await db.updateSettings({ theme: 'system', currency: 'EUR', taxRate: 0, hapticsEnabled: true, displayName: 'Sam' });
+
+    const onChanges = vi.fn();
+    const stop = realtime.startRealtime('https://sync.example.com/', onChanges);
+    const socket = FakeWebSocket.instances[0];
+    expect(socket.url).toBe('wss://sync.example.com/live');
+
+    realtime.setViewingList('list-1');
+    socket.open();
+    await vi.waitFor(() => expect(socket.sent).toEqual([
+      expect.objectContaining({ type: 'presence', name: 'Sam', listId: 'list-1' }),
+    ]));
+    expect(onChanges).toHaveBeenCalledTimes(1);
+
+    const self = socket.sent[0] as { clientId: string };
+    socket.receive({
+      type: 'presence',
+      peers: [self, { clientId: 'other', name: 'Alex', listId: 'list-1' }],
+    });
+    expect(await realtime.getPresence()).toEqual([{ clientId: 'other', name: 'Alex', listId: 'list-1' }]);
+
+    socket.receive({ type: 'changes', cursor: '7' });
+    expect(onChanges).toHaveBeenCalledTimes(2);
+
+    stop();
+    expect(await realtime.getPresence()).toEqual([]);
+  });
+
+  it('reconnects with backoff after the connection drops', async () => {
+    vi.useFakeTimers();
+    try {
+      vi.resetModules();
+      const realtime = await import('../lib/realtime');
+      const stop = realtime.startRealtime('http://localhost:8787', () => {});
+
+      FakeWebSocket.instances[0].close();
+      expect(FakeWebSocket.instances).toHaveLength(1);
+      vi.advanceTimersByTime(1000);
+      expect(FakeWebSocket.instances).toHaveLength(2);
+      expect(FakeWebSocket.instances[1].url).toBe('ws://localhost:8787/live');
+
+      stop();
+      vi.advanceTimersByTime(60_000);
+      expect(FakeWebSocket.instances).toHaveLength(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,123 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  describeRecurrence,
+  formatRecurrence,
+  nextOccurrence,
+  occurrencesBetween,
+  parseRecurrence,
+} from '../lib/recurrence';
+
+const day = (month: number, date: number, year = 2024) => new Date(year, month - 1, date);
+
+function occurrences(text: string, from: Date, to: Date): string[] {
+  const rule = parseRecurrence(text);
+  if (!rule) throw new Error(`Invalid rule: ${text}`);
+  return occurrencesBetween(rule, from, to).map(date => date.toDateString());
+}
+
+describe('recurrence rules', () => {
+  it('round-trips DTSTART and RRULE', () => {
+    const text = 'DTSTART:20240106T090000\nRRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;COUNT=5';
+    const rule = parseRecurrence(text);
+
+    expect(rule).toMatchObject({ freq: 'MONTHLY', interval: 2, byDay: [{ weekday: 5, ordinal: -1 }], count: 5 });
+    expect(formatRecurrence(rule!)).toBe(text);
+    expect(parseRecurrence('DTSTART:20240106\nRRULE:FREQ=HOURLY')).toBeNull();
+    expect(parseRecurrence('RRULE:FREQ=WEEKLY')).toBeNull();
+  });
+
+  it('repeats every Saturday', () => {
+    const text = 'DTSTART:20240101T000000\nRRULE:FREQ=WEEKLY;BYDAY=SA';
+    expect(occurrences(text, day(1, 1), day(1, 31))).toEqual(
+      [day(1, 6), day(1, 13), day(1, 20), day(1, 27)].map(d => d.toDateString())
+    );
+    expect(describeRecurrence(parseRecurrence(text)!)).toBe('Every week on Saturday');
+  });
+
+  it('repeats on the first of the month and on the last day', () => {
+    expect(occurrences('DTSTART:20240115\nRRULE:FREQ=MONTHLY;BYMONTHDAY=1', day(1, 1), day(4, 1))).toEqual(
+      [day(2, 1), day(3, 1), day(4, 1)].map(d => d.toDateString())
+    );
+    expect(occurrences('DTSTART:20240101\nRRULE:FREQ=MONTHLY;BYMONTHDAY=-1', day(1, 1), day(3, 31))).toEqual(
+      [day(1, 31), day(2, 29), day(3, 31)].map(d => d.toDateString())
+    );
+  });
+
+  it('skips months without the start date', () => {
+    expect(occurrences('DTSTART:20240131\nRRULE:FREQ=MONTHLY', day(1, 1), day(5, 31))).toEqual(
+      [day(1, 31), day(3, 31), day(5, 31)].map(d => d.toDateString())
+    );
+  });
+
+  it('repeats every N days until COUNT or UNTIL runs out', () => {
+    expect(occurrences('DTSTART:20240101\nRRULE:FREQ=DAILY;INTERVAL=10;COUNT=3', day(1, 1, 2023), day(12, 31))).toEqual(
+      [day(1, 1), day(1, 11), day(1, 21)].map(d => d.toDateString())
+    );
+    const rule = parseRecurrence('DTSTART:20240101\nRRULE:FREQ=DAILY;INTERVAL=3;UNTIL=20240105T000000')!;
+    expect(nextOccurrence(rule, day(1, 2))).toEqual(day(1, 4));
+    expect(nextOccurrence(rule, day(1, 4))).toBeNull();
+  });
+
+  it('finds the nth weekday of the month', () => {
+    expect(occurrences('DTSTART:20240101\nRRULE:FREQ=MONTHLY;BYDAY=2TU', day(1, 1), day(3, 31))).toEqual(
+      [day(1, 9), day(2, 13), day(3, 12)].map(d => d.toDateString())
+    );
+  });
+});
+
+describe('scheduled lists', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+  });
+
+  it('creates due occurrences once and carries over unpurchased items', async () => {
+    const db = await import('../lib/db');
+    const { materializeRecurringLists } = await import('../lib/recurringLists');
+
+    const weekly = await db.createList({
+      name: 'Groceries',
+      currency: 'EUR',
+      recurrence: 'DTSTART:20240101T000000\nRRULE:FREQ=WEEKLY;BYDAY=SA',
+      carryOverUnpurchased: true,
+      lastOccurrenceAt: day(1, 1),
+    });
+    await db.createItem({ listId: weekly.id, name: 'Milk', qty: 1, price: 1, purchased: true, createdAt: new Date() });
+
+    // Several missed Saturdays produce a single list
+    const [first] = await materializeRecurringLists(day(1, 15));
+    expect(first).toMatchObject({ currency: 'EUR', recurrenceOf: weekly.id });
+    expect((await db.getList(weekly.id))?.lastOccurrenceAt).toEqual(day(1, 13));
+    expect(await materializeRecurringLists(day(1, 15))).toEqual([]);
+
+    const firstItems = await db.getItemsByList(first.id);
+    expect(firstItems.map(item => [item.name, item.purchased])).toEqual([['Milk', false]]);
+    await db.createItem({ listId: first.id, name: 'Candles', qty: 2, price: 3, purchased: false, createdAt: new Date() });
+    await db.updateItem(firstItems[0].id, { purchased: true });
+
+    const [second] = await materializeRecurringLists(day(1, 20));
+    const secondItems = await db.getItemsByList(second.id);
+    expect(secondItems.map(item => [item.name, item.qty, item.purchased]).sort()).toEqual([
+      ['Candles', 2, false],
+      ['Milk', 1, false],
+    ]);
+  });
+
+  it('creates an occurrence only once when two runs overlap', async () => {
+    const db = await import('../lib/db');
+    const { materializeRecurringLists } = await import('../lib/recurringLists');
+    const weekly = await db.createList({
+      name: 'Groceries',
+      currency: 'EUR',
+      recurrence: 'DTSTART:20240101T000000\nRRULE:FREQ=WEEKLY;BYDAY=SA',
+      lastOccurrenceAt: day(1, 1),
+    });
+
+    // Without Web Locks both runs see the occurrence as due
+    const runs = await Promise.all([materializeRecurringLists(day(1, 15)), materializeRecurringLists(day(1, 15))]);
+    expect(runs.flat()).toHaveLength(1);
+    expect((await db.getLists()).filter(list => list.recurrenceOf === weekly.id)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+import { decodeSharePayload, encodeSharePayload } from '../lib/share';
+import type { Item } from '../lib/types';
+
+// Tests run in Node, whose process reports promise rejections nobody handled
+declare const process: {
+  on(event: 'unhandledRejection', listener: (reason: unknown) => void): void;
+  off(event: 'unhandledRejection', listener: (reason: unknown) => void): void;
+};
+
+const makeItem = (overrides: Partial<Item>): Item => ({
+  id: crypto.randomUUID(),
+  listId: 'list-1',
+  name: 'Item',
+  qty: 1,
+  price: 0,
+  purchased: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('share payload', () => {
+  it('round-trips a list through a URL-safe payload', async () => {
+    const items = [
+      makeItem({ name: 'Milk', qty: 2, price: 1.29, category: 'Dairy' }),
+      makeItem({ name: 'Bread', purchased: true, notes: 'wholegrain' }),
+      makeItem({ name: 'Äpfel 🍎' }),
+    ];
+
+    const payload = await encodeSharePayload({ name: 'Weekly', currency: 'GBP' }, items);
+    expect(payload).toMatch(/^[A-Za-z0-9_-]+$/);
+
+    expect(await decodeSharePayload(payload)).toEqual({
+      name: 'Weekly',
+      currency: 'GBP',
+      items: [
+        { name: 'Milk', qty: 2, price: 1.29, purchased: false, category: 'Dairy', notes: undefined },
+        { name: 'Bread', qty: 1, price: 0, purchased: true, category: undefined, notes: 'wholegrain' },
+        { name: 'Äpfel 🍎', qty: 1, price: 0, purchased: false, category: undefined, notes: undefined },
+      ],
+    });
+  });
+
+  it('compresses long lists', async () => {
+    const items = Array.from({ length: 40 }, (_, i) => makeItem({ name: `Groceries item ${i}`, category: 'Pantry' }));
+    const payload = await encodeSharePayload({ name: 'Big', currency: 'EUR' }, items);
+    expect(payload.length).toBeLessThan(JSON.stringify(items.map(item => item.name)).length);
+  });
+
+  it('rejects malformed payloads', async () => {
+    expect(await decodeSharePayload('')).toBeNull();
+    expect(await decodeSharePayload('xabc')).toBeNull();
+    expect(await decodeSharePayload('j' + btoa('{"not":"a list"}'))).toBeNull();
+  });
+
+  it('rejects truncated and oversized compressed payloads without unhandled rejections', async () => {
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => unhandled.push(reason);
+    process.on('unhandledRejection', onUnhandled);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      const items = Array.from({ length: 40 }, (_, i) => makeItem({ name: `Groceries item ${i}`, category: 'Pantry' }));
+      const payload = await encodeSharePayload({ name: 'Big', currency: 'EUR' }, items);
+      expect(payload.charAt(0)).toBe('z');
+      expect(await decodeSharePayload(payload.slice(0, payload.length / 2))).toBeNull();
+
+      // A 2 MB name compresses to a few kilobytes
+      const bomb = await encodeSharePayload({ name: 'x'.repeat(2 * 1024 * 1024), currency: 'EUR' }, []);
+      expect(bomb.length).toBeLessThan(10_000);
+      expect(await decodeSharePayload(bomb)).toBeNull();
+
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(unhandled).toEqual([]);
+    } finally {
+      process.off('unhandledRejection', onUnhandled);
+      vi.restoreAllMocks();
+    }
+  });
+});
@@ -0,0 +1,71 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { matchScore, rankProductSuggestions } from '../lib/suggestions';
+import type { ProductStat } from '../lib/types';
+
+const now = new Date(2024, 4, 15);
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+function stat(name: string, usedCount: number, lastUsed: Date, averagePrice = 1): ProductStat {
+  return { name, usedCount, totalSpend: averagePrice * usedCount, averagePrice, lastUsed };
+}
+
+describe('product suggestions', () => {
+  it('prefers prefix over word, substring and fuzzy matches', () => {
+    expect(matchScore('Milk', 'mi')).toBeGreaterThan(matchScore('Oat Milk', 'mi'));
+    expect(matchScore('Oat Milk', 'mi')).toBeGreaterThan(matchScore('Hummus', 'mu'));
+    expect(matchScore('Hummus', 'mu')).toBeGreaterThan(matchScore('Chocolate Milk', 'cml'));
+    expect(matchScore('Chocolate Milk', 'cml')).toBeGreaterThan(0);
+    expect(matchScore('Bread', 'xyz')).toBe(0);
+  });
+
+  it('weights matches by frequency and recency', () => {
+    const stats = [
+      stat('Mint', 1, daysAgo(200)),
+      stat('Milk', 20, daysAgo(2)),
+      stat('Mineral water', 5, daysAgo(1)),
+      stat('Bread', 50, daysAgo(1)),
+    ];
+
+    expect(rankProductSuggestions(stats, 'mi', now).map(s => s.name)).toEqual(['Milk', 'Mineral water', 'Mint']);
+    expect(rankProductSuggestions(stats, '', now)).toEqual([]);
+  });
+});
+
+describe('ItemFormModal suggestions', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    // Used by the combobox to position its options; missing from jsdom
+    vi.stubGlobal('ResizeObserver', class {
+      observe() {}
+      unobserve() {}
+      disconnect() {}
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('prefills price and category from the product chosen with the keyboard', async () => {
+    vi.resetModules();
+    const db = await import('../lib/db');
+    await db.updateProductStats('Oat Milk', 2.49, 'Dairy');
+    await db.updateProductStats('Oat Milk', 2.51, 'Dairy');
+    const { ItemFormModal } = await import('../components/ItemFormModal');
+
+    const user = userEvent.setup();
+    render(<ItemFormModal listId="list-1" currency="EUR" onClose={() => {}} onSave={() => {}} />);
+
+    await user.type(screen.getByLabelText('Item Name'), 'oat');
+    expect(await screen.findByRole('option', { name: /Oat Milk/ })).toBeInTheDocument();
+    await user.keyboard('{ArrowDown}{Enter}');
+
+    expect(screen.getByLabelText('Item Name')).toHaveValue('Oat Milk');
+    expect(screen.getByLabelText('Price (EUR)')).toHaveValue(2.5);
+    expect(screen.getByLabelText('Category')).toHaveValue('Dairy');
+  });
+});
@@ -0,0 +1,240 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { diffLocalRecord, mergeFields } from '../lib/sync';
+import type { SyncAdapter, SyncChange, SyncField } from '../lib/sync';
+import type { SyncBase } from '../lib/db';
+
+const SYNC_STATE_KEY = 'shopping-list-sync-state';
+
+// In-memory stand-in for the sync server: per-field last-writer-wins with a revision cursor
+class MemorySyncServer {
+  private records = new Map<string, SyncChange & { revision: number }>();
+  private revision = 0;
+
+  adapter(): SyncAdapter {
+    return {
+      pull: async (cursor) => {
+        const since = Number(cursor ?? 0);
+        const changes = [...this.records.values()]
+          .filter(record => record.revision > since)
+          .map(({ store, id, fields }) => ({ store, id, fields }));
+        return { changes, cursor: String(this.revision) };
+      },
+      push: async (changes) => {
+        for (const change of changes) {
+          const key = `${change.store}:${change.id}`;
+          const existing = this.records.get(key) ?? { store: change.store, id: change.id, fields: {}, revision: 0 };
+          let changed = false;
+          for (const [name, field] of Object.entries(change.fields)) {
+            const current = existing.fields[name];
+            if (!current || field.updatedAt > current.updatedAt) {
+              existing.fields[name] = field;
+              changed = true;
+            }
+          }
+          if (changed) {
+            existing.revision = ++this.revision;
+            this.records.set(key, existing);
+          }
+        }
+      },
+    };
+  }
+}
+
+// A device is its own IndexedDB plus its own copy of the sync state in localStorage
+async function createDevice() {
+  globalThis.indexedDB = new IDBFactory();
+  vi.resetModules();
+  const db = await import('../lib/db');
+  const sync = await import('../lib/sync');
+  await db.getLists(); // Open the connection against this device's IndexedDB
+  let storedState: string | null = null;
+
+  return {
+    db,
+    async syncWith(server: MemorySyncServer, adapter: SyncAdapter = server.adapter()) {
+      if (storedState) localStorage.setItem(SYNC_STATE_KEY, storedState);
+      else localStorage.removeItem(SYNC_STATE_KEY);
+      const result = await sync.syncNow(adapter);
+      storedState = localStorage.getItem(SYNC_STATE_KEY);
+      return result;
+    },
+  };
+}
+
+const field = (value: unknown, updatedAt: number): SyncField => ({ value, updatedAt });
+
+describe('sync', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('diffs a local record against its sync base', () => {
+    const updatedAt = new Date('2024-05-02T10:00:00.000Z');
+    const list = {
+      id: 'list-1',
+      name: 'Weekly',
+      currency: 'EUR',
+      createdAt: new Date('2024-05-01T10:00:00.000Z'),
+      updatedAt,
+    };
+    const base: SyncBase = {
+      key: 'lists:list-1',
+      store: 'lists',
+      id: 'list-1',
+      fields: { name: 'Groceries', currency: 'EUR', createdAt: '2024-05-01T10:00:00.000Z', updatedAt: '2024-05-01T10:00:00.000Z' },
+    };
+
+    expect(diffLocalRecord('lists', list, base, 0)).toEqual({
+      name: field('Weekly', updatedAt.getTime()),
+      updatedAt: field(updatedAt.toISOString(), updatedAt.getTime()),
+    });
+    expect(diffLocalRecord('lists', undefined, base, 1234)).toEqual({
+      deletedAt: field(new Date(1234).toISOString(), 1234),
+    });
+  });
+
+  it('keeps the newer write for each field', () => {
+    const { accepted, rejected } = mergeFields(
+      { name: field('Local', 200), qty: field(2, 100) },
+      { name: field('Remote', 150), qty: field(3, 150), price: field(1.5, 50) }
+    );
+
+    expect(accepted).toEqual({ qty: 3, price: 1.5 });
+    expect(rejected).toEqual(['name']);
+  });
+
+  it('converges two devices editing different fields of the same item', async () => {
+    const server = new MemorySyncServer();
+    const phone = await createDevice();
+    const list = await phone.db.createList({ name: 'Groceries', currency: 'EUR' });
+    const item = await phone.db.createItem({
+      listId: list.id,
+      name: 'Milk',
+      qty: 1,
+      price: 1.2,
+      purchased: false,
+      createdAt: new Date(),
+    });
+    expect(await phone.syncWith(server)).toEqual({ pulled: 0, pushed: 2 });
+
+    const laptop = await createDevice();
+    expect(await laptop.syncWith(server)).toEqual({ pulled: 2, pushed: 0 });
+    expect((await laptop.db.getItemsByList(list.id)).map(i => i.name)).toEqual(['Milk']);
+
+    await phone.db.updateItem(item.id, { qty: 3 });
+    await laptop.db.updateItem(item.id, { notes: 'Oat milk' });
+    await phone.syncWith(server);
+    await laptop.syncWith(server);
+    await phone.syncWith(server);
+
+    for (const device of [phone, laptop]) {
+      const [synced] = await device.db.getItemsByList(list.id);
+      expect(synced).toMatchObject({ id: item.id, qty: 3, notes: 'Oat milk' });
+    }
+  });
+
+  it('keeps local edits made while changes are being pulled', async () => {
+    const server = new MemorySyncServer();
+    const phone = await createDevice();
+    const list = await phone.db.createList({ name: 'Groceries', currency: 'EUR' });
+    const item = await phone.db.createItem({
+      listId: list.id,
+      name: 'Milk',
+      qty: 1,
+      price: 1.2,
+      purchased: false,
+      createdAt: new Date(),
+    });
+    await phone.syncWith(server);
+
+    const laptop = await createDevice();
+    await laptop.syncWith(server);
+    await laptop.db.updateItem(item.id, { qty: 3 });
+    await laptop.syncWith(server);
+
+    // The phone's item is edited after its sync has read it, while the pull is on the network
+    const adapter = server.adapter();
+    const pull = adapter.pull;
+    adapter.pull = async (cursor) => {
+      const result = await pull(cursor);
+      await phone.db.updateItem(item.id, { notes: 'Oat milk' });
+      return result;
+    };
+    await phone.syncWith(server, adapter);
+    expect((await phone.db.getItemsByList(list.id))[0]).toMatchObject({ qty: 3, notes: 'Oat milk' });
+
+    await phone.syncWith(server);
+    await laptop.syncWith(server);
+    expect((await laptop.db.getItemsByList(list.id))[0]).toMatchObject({ qty: 3, notes: 'Oat milk' });
+  });
+
+  it('propagates deletions without resurrecting the record', async () => {
+    const server = new MemorySyncServer();
+    const phone = await createDevice();
+    const list = await phone.db.createList({ name: 'Groceries', currency: 'EUR' });
+    const item = await phone.db.createItem({
+      listId: list.id,
+      name: 'Bread',
+      qty: 1,
+      price: 2,
+      purchased: false,
+      createdAt: new Date(),
+    });
+    await phone.syncWith(server);
+
+    const laptop = await createDevice();
+    await laptop.syncWith(server);
+    await laptop.db.deleteItem(item.id);
+    await laptop.syncWith(server);
+    await phone.syncWith(server);
+    await laptop.syncWith(server);
+
+    expect(await phone.db.getItemsByList(list.id)).toEqual([]);
+    expect(await laptop.db.getItemsByList(list.id)).toEqual([]);
+  });
+
+  it('restocks the pantry of each device a purchase syncs to', async () => {
+    const server = new MemorySyncServer();
+    const phone = await createDevice();
+    const list = await phone.db.createList({ name: 'Weekly', currency: 'EUR' });
+    const item = await phone.db.createItem({ listId: list.id, name: 'Rice', qty: 500, unit: 'g', price: 0.004, purchased: false, createdAt: new Date() });
+    const rice = await phone.db.createPantryItem({ name: 'Rice', quantity: 1, unit: 'kg', minQuantity: 1 });
+    await phone.syncWith(server);
+
+    const laptop = await createDevice();
+    await laptop.syncWith(server);
+    await laptop.db.updateItem(item.id, { purchased: true });
+    await laptop.syncWith(server);
+    await phone.syncWith(server);
+
+    const stock = async () => (await phone.db.getPantryItems()).find(p => p.id === rice.id)?.quantity;
+    expect(await stock()).toBe(1.5);
+    expect(await phone.db.getPriceObservations('Rice')).toHaveLength(1);
+
+    await laptop.db.updateItem(item.id, { purchased: false });
+    await laptop.syncWith(server);
+    await phone.syncWith(server);
+    expect(await stock()).toBe(1);
+    expect(await phone.db.getPriceObservations('Rice')).toEqual([]);
+  });
+
+  it('keeps budget spending, which each device works out itself, out of sync', async () => {
+    const server = new MemorySyncServer();
+    const phone = await createDevice();
+    const budget = await phone.db.createBudget({ name: 'Groceries', amount: 100, period: 'monthly', categories: [], spent: 0 });
+    await phone.db.setBudgetSpending(new Map([[budget.id, 40]]));
+    await phone.syncWith(server);
+
+    const laptop = await createDevice();
+    await laptop.syncWith(server);
+    expect((await laptop.db.getBudgets())[0]).toMatchObject({ name: 'Groceries', spent: 0 });
+
+    await laptop.db.setBudgetSpending(new Map([[budget.id, 10]]));
+    expect(await laptop.syncWith(server)).toEqual({ pulled: 0, pushed: 0 });
+    await phone.syncWith(server);
+    expect((await phone.db.getBudgets())[0].spent).toBe(40);
+  });
+});
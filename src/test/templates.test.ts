@@ -0,0 +1,59 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+
+type DbModule = typeof import('../lib/db');
+type TemplatesModule = typeof import('../lib/templates');
+
+describe('list templates', () => {
+  let db: DbModule;
+  let templates: TemplatesModule;
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    db = await import('../lib/db');
+    templates = await import('../lib/templates');
+  });
+
+  async function seedWeeklyList() {
+    const list = await db.createList({ name: 'Weekly', currency: 'EUR' });
+    await db.createItem({
+      listId: list.id, name: 'Milk', qty: 2, price: 1.2, purchased: true,
+      purchasedAt: new Date(), createdAt: new Date(), category: 'Dairy',
+    });
+    await db.createItem({ listId: list.id, name: 'Bread', qty: 1, price: 0, purchased: false, createdAt: new Date() });
+    return list;
+  }
+
+  it('saves a list as a template and creates lists from it', async () => {
+    const list = await seedWeeklyList();
+    const template = await templates.saveListAsTemplate(list.id, 'Groceries');
+
+    expect(await db.getTemplates()).toEqual([template]);
+    expect(template?.items.map(item => item.name).sort()).toEqual(['Bread', 'Milk']);
+
+    // Bread had no price on the template but has purchase history
+    await db.updateProductStats('Bread', 2.5);
+    const created = await templates.createListFromTemplate(template!, { name: 'This week', currency: 'EUR' });
+    const items = await db.getItemsByList(created.id);
+
+    expect(created.name).toBe('This week');
+    expect(items).toHaveLength(2);
+    expect(items.every(item => !item.purchased && !item.purchasedAt)).toBe(true);
+    expect(items.find(item => item.name === 'Milk')).toMatchObject({ qty: 2, price: 1.2, category: 'Dairy' });
+    expect(items.find(item => item.name === 'Bread')?.price).toBe(1.25);
+  });
+
+  it('duplicates a finished list with every item unpurchased', async () => {
+    const list = await seedWeeklyList();
+    const copy = await templates.duplicateList(list.id);
+
+    expect(copy).toMatchObject({ name: 'Weekly', currency: 'EUR' });
+    expect(copy?.id).not.toBe(list.id);
+    const items = await db.getItemsByList(copy!.id);
+    expect(items.map(item => [item.name, item.purchased]).sort()).toEqual([['Bread', false], ['Milk', false]]);
+    // The original is untouched
+    expect((await db.getItemsByList(list.id)).some(item => item.purchased)).toBe(true);
+  });
+});
@@ -0,0 +1,98 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { parsePastedList, planPastedImport, planToBatch } from '../lib/textImport';
+import type { Item } from '../lib/types';
+
+const en = { decimalSeparator: '.' } as const;
+
+const makeItem = (name: string, overrides: Partial<Item> = {}): Item => ({
+  id: crypto.randomUUID(),
+  listId: 'list-1',
+  name,
+  qty: 1,
+  price: 0,
+  purchased: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('pasted lists', () => {
+  it('reads bullets, numbers, checklists and WhatsApp messages', () => {
+    const text = [
+      '## Groceries',
+      '- [ ] 2x milk',
+      '- [x] bread',
+      '* eggs (free range)',
+      '• apples',
+      '1. 3 kg potatoes',
+      '2) butter',
+      '✅ coffee',
+      '☐ tea',
+      '~~cheese~~',
+      '[12/03/2024, 10:15:22] Anna: *Bananas*',
+      '12/03/2024, 10:16 - Ben: rice, pasta',
+      'Dairy:',
+      '',
+    ].join('\n');
+
+    expect(parsePastedList(text, en).map(item => [item.name, item.qty, item.purchased])).toEqual([
+      ['milk', 2, false],
+      ['bread', 1, true],
+      ['eggs', 1, false],
+      ['apples', 1, false],
+      ['potatoes', 3, false],
+      ['butter', 1, false],
+      ['coffee', 1, true],
+      ['tea', 1, false],
+      ['cheese', 1, true],
+      ['Bananas', 1, false],
+      ['rice', 1, false],
+      ['pasta', 1, false],
+    ]);
+  });
+
+  it('merges duplicates and quantities of items already on the list', () => {
+    const milk = makeItem('Milk', { qty: 1 });
+    const flour = makeItem('Flour', { qty: 1, unit: 'kg', price: 1.2 });
+    const boughtBread = makeItem('Bread', { purchased: true });
+    const pasted = parsePastedList('2x milk\nmilk\n500 g flour\nbread\n- [x] Bread\npaint 2 l\npaint 1 kg', en);
+
+    const plan = planPastedImport(pasted, [milk, flour, boughtBread]);
+    expect(plan.map(({ item, mergeInto, mergedQty }) => [item.name, mergeInto?.name, mergedQty])).toEqual([
+      ['milk', 'Milk', 4],
+      ['flour', 'Flour', 1.5],
+      ['bread', undefined, undefined],
+      ['Bread', 'Bread', 2],
+      ['paint', undefined, undefined],
+      ['paint', undefined, undefined],
+    ]);
+
+    const batch = planToBatch(plan, 'list-1');
+    expect(batch.update).toContainEqual({ id: flour.id, updates: expect.objectContaining({ qty: 1.5, price: 1.2 }) });
+    expect(batch.create.map(item => item.name)).toEqual(['bread', 'paint', 'paint']);
+  });
+});
+
+describe('applyItemBatch', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+  });
+
+  it('creates and updates items in one go', async () => {
+    const db = await import('../lib/db');
+    const list = await db.createList({ name: 'Weekly', currency: 'EUR' });
+    const milk = await db.createItem({ listId: list.id, name: 'Milk', qty: 1, price: 1, purchased: false, createdAt: new Date() });
+
+    const pasted = parsePastedList('- [ ] milk\n- [x] 2x Bread 1.50', en);
+    const created = await db.applyItemBatch(planToBatch(planPastedImport(pasted, await db.getItemsByList(list.id)), list.id));
+
+    expect(created).toHaveLength(1);
+    const items = await db.getItemsByList(list.id);
+    expect(items.find(item => item.id === milk.id)?.qty).toBe(2);
+    expect(items.find(item => item.name === 'Bread')).toMatchObject({ qty: 2, price: 1.5, purchased: true });
+    expect((await db.getProductStats()).find(stat => stat.name === 'Bread')?.averagePrice).toBe(1.5);
+  });
+});
@@ -0,0 +1,66 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+
+type DB = typeof import('../lib/db');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('trash', () => {
+  let db: DB;
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    db = await import('../lib/db');
+  });
+
+  const addList = async (name: string, itemNames: string[]) => {
+    const list = await db.createList({ name, currency: 'EUR' });
+    for (const itemName of itemNames) {
+      await db.createItem({ listId: list.id, name: itemName, qty: 1, price: 0, purchased: false, createdAt: new Date() });
+    }
+    return list;
+  };
+
+  it('lists deleted lists with item counts and restores them', async () => {
+    const weekly = await addList('Weekly', ['Milk', 'Bread']);
+    await addList('Party', []);
+    await db.deleteList(weekly.id);
+
+    const deleted = await db.getDeletedLists();
+    expect(deleted.map(({ list, itemCount }) => [list.name, itemCount])).toEqual([['Weekly', 2]]);
+
+    await db.restoreList(weekly.id);
+    expect(await db.getDeletedLists()).toEqual([]);
+    expect((await db.getLists()).map(list => list.name).sort()).toEqual(['Party', 'Weekly']);
+  });
+
+  it('purges deleted lists together with their items, leaving others alone', async () => {
+    const weekly = await addList('Weekly', ['Milk', 'Bread']);
+    const party = await addList('Party', ['Crisps']);
+    await db.deleteList(weekly.id);
+
+    expect(await db.purgeLists([weekly.id, party.id])).toBe(1);
+    expect(await db.getDeletedLists()).toEqual([]);
+    expect((await db.getAllItems()).map(item => item.name)).toEqual(['Crisps']);
+    expect(await db.getList(party.id)).toBeDefined();
+  });
+
+  it('purges lists past the retention period', async () => {
+    const { emptyExpiredTrash } = await import('../lib/trash');
+    const old = await addList('Old', ['Milk']);
+    const recent = await addList('Recent', []);
+    await db.deleteList(old.id);
+    await db.deleteList(recent.id);
+
+    const inForty = new Date(Date.now() + 40 * DAY_MS);
+    await db.updateSettings({ ...(await db.getSettings()), trashRetentionDays: 0 });
+    expect(await emptyExpiredTrash(inForty)).toBe(0);
+
+    await db.updateSettings({ ...(await db.getSettings()), trashRetentionDays: 30 });
+    expect(await emptyExpiredTrash(new Date(Date.now() + 10 * DAY_MS))).toBe(0);
+    expect(await emptyExpiredTrash(inForty)).toBe(2);
+    expect(await db.getAllItems()).toEqual([]);
+  });
+});
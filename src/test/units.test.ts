@@ -0,0 +1,96 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { convertQuantity, convertUnitPrice, formatQuantity, itemCount, normalizedUnitPrice } from '../lib/units';
+import { decodeSharePayload, encodeSharePayload } from '../lib/share';
+import type { Item } from '../lib/types';
+
+describe('units', () => {
+  it('converts within a dimension only', () => {
+    expect(convertQuantity(2, 'lb', 'kg')).toBeCloseTo(0.907, 3);
+    expect(convertQuantity(500, 'ml', 'l')).toBe(0.5);
+    expect(convertQuantity(1, 'kg', 'l')).toBeNull();
+    expect(convertQuantity(3, 'pack', 'pcs')).toBeNull();
+  });
+
+  it('converts prices between units of a dimension', () => {
+    expect(convertUnitPrice(0.005, 'g', 'kg')).toBe(5);
+    expect(convertUnitPrice(2, 'l', 'ml')).toBe(0.002);
+    expect(convertUnitPrice(1.5)).toBe(1.5);
+    expect(convertUnitPrice(1.5, 'kg')).toBeNull();
+  });
+
+  it('normalizes prices per kilogram and litre', () => {
+    expect(normalizedUnitPrice(0.005, 'g')).toEqual({ amount: 5, per: 'kg' });
+    expect(normalizedUnitPrice(0.002, 'ml')).toEqual({ amount: 2, per: 'l' });
+    expect(normalizedUnitPrice(2.49, 'kg')).toEqual({ amount: 2.49, per: 'kg' });
+    expect(normalizedUnitPrice(1, 'oz')?.amount).toBeCloseTo(35.27, 2);
+    expect(normalizedUnitPrice(1.5, 'pack')).toEqual({ amount: 1.5, per: 'pack' });
+    expect(normalizedUnitPrice(1.5)).toBeNull();
+    expect(normalizedUnitPrice(0, 'kg')).toBeNull();
+  });
+
+  it('formats quantities', () => {
+    expect(formatQuantity(1)).toBe('');
+    expect(formatQuantity(3)).toBe('3x');
+    expect(formatQuantity(3, 'pcs')).toBe('3x');
+    expect(formatQuantity(1.5, 'kg')).toBe('1.5 kg');
+    expect(formatQuantity(0.1 + 0.2, 'l')).toBe('0.3 l');
+    expect(itemCount({ qty: 1.5, unit: 'kg' })).toBe(1);
+    expect(itemCount({ qty: 4, unit: 'pack' })).toBe(4);
+  });
+
+  it('keeps units in share links', async () => {
+    const item: Item = {
+      id: 'item-1',
+      listId: 'list-1',
+      name: 'Apples',
+      qty: 1.5,
+      unit: 'kg',
+      price: 2.49,
+      purchased: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const shared = await decodeSharePayload(await encodeSharePayload({ name: 'Weekly', currency: 'EUR' }, [item]));
+    expect(shared?.items[0]).toMatchObject({ name: 'Apples', qty: 1.5, unit: 'kg', price: 2.49 });
+  });
+});
+
+describe('unit price stats', () => {
+  let db: typeof import('../lib/db');
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    db = await import('../lib/db');
+  });
+
+  it('tracks the lowest unit price across pack sizes', async () => {
+    await db.updateProductStats('Coffee', 0.02, 'Drinks', 'g'); // 20.00/kg
+    await db.updateProductStats('Coffee', 16, 'Drinks', 'kg');
+    await db.updateProductStats('Coffee', 0.025, 'Drinks', 'g');
+
+    const [stat] = await db.getProductStats();
+    expect(stat).toMatchObject({ unit: 'g', unitPricePer: 'kg', lowestUnitPrice: 16 });
+    expect(stat.unitPrice).toBeCloseTo(25);
+
+    // Switching to a unit that doesn't compare starts over
+    await db.updateProductStats('Coffee', 4, 'Drinks', 'pack');
+    expect((await db.getProductStats())[0]).toMatchObject({ unitPricePer: 'pack', unitPrice: 4, lowestUnitPrice: 4 });
+  });
+
+  it('averages prices in the unit last bought in', async () => {
+    await db.updateProductStats('Flour', 0.002, 'Baking', 'g'); // 2.00/kg
+    await db.updateProductStats('Flour', 3, 'Baking', 'kg');
+    expect((await db.getProductStats())[0]).toMatchObject({ unit: 'kg', averagePrice: 2.5 });
+
+    await db.updateProductStats('Flour', 0.0035, 'Baking', 'g');
+    expect((await db.getProductStats())[0].averagePrice).toBeCloseTo(0.003);
+
+    // Prices per piece don't compare with prices per gram, so the average starts over
+    await db.updateProductStats('Flour', 1.2, 'Baking', 'pcs');
+    expect((await db.getProductStats())[0]).toMatchObject({ unit: 'pcs', averagePrice: 1.2, usedCount: 4 });
+  });
+});